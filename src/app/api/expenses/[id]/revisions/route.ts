@@ -0,0 +1,27 @@
+/**
+ * Expense Revisions API Route
+ *
+ * Server storage mode: revision log of an expense (same as `getExpenseRevisions`).
+ *
+ * @module app/api/expenses/[id]/revisions/route
+ */
+
+import { getExpenseRevisions } from '@/domains/expenses/actions';
+import { toErrorResponse } from '@/domains/expenses/api-contract';
+import { activateSqliteExpenseRepository } from '@/domains/expenses/repositories/sqlite-repository';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  _req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    activateSqliteExpenseRepository();
+    const { id } = await params;
+    return Response.json(await getExpenseRevisions(id));
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
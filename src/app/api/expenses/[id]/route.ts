@@ -0,0 +1,54 @@
+/**
+ * Single Expense API Route
+ *
+ * Server storage mode: same contract as `getExpenseById` (GET),
+ * `updateExpense` (PATCH) and `deleteExpense` (DELETE, moves to the trash).
+ *
+ * @module app/api/expenses/[id]/route
+ */
+
+import {
+  deleteExpense,
+  getExpenseById,
+  updateExpense
+} from '@/domains/expenses/actions';
+import { toErrorResponse } from '@/domains/expenses/api-contract';
+import { activateSqliteExpenseRepository } from '@/domains/expenses/repositories/sqlite-repository';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_req: Request, { params }: RouteContext) {
+  try {
+    activateSqliteExpenseRepository();
+    const { id } = await params;
+    return Response.json(await getExpenseById(id));
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
+
+export async function PATCH(req: Request, { params }: RouteContext) {
+  try {
+    activateSqliteExpenseRepository();
+    const { id } = await params;
+    return Response.json(await updateExpense(id, await req.json()));
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
+
+export async function DELETE(_req: Request, { params }: RouteContext) {
+  try {
+    activateSqliteExpenseRepository();
+    const { id } = await params;
+    await deleteExpense(id);
+    return new Response(null, { status: 204 });
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
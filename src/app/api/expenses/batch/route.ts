@@ -0,0 +1,40 @@
+/**
+ * Batch API Route
+ *
+ * Server storage mode: repository-level access used by the HTTP repository.
+ * GET reads several expenses (`?id=` repeated); POST applies an
+ * `ExpenseWriteBatch` atomically after validating it with the Zod schemas.
+ *
+ * @module app/api/expenses/batch/route
+ */
+
+import { toErrorResponse } from '@/domains/expenses/api-contract';
+import { fromZodError } from '@/domains/expenses/errors';
+import { getSqliteExpenseRepository } from '@/domains/expenses/repositories/sqlite-repository';
+import { expenseWriteBatchSchema } from '@/domains/expenses/schema';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(req: Request) {
+  try {
+    const ids = new URL(req.url).searchParams.getAll('id');
+    return Response.json(await getSqliteExpenseRepository().getByIds(ids));
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    const result = expenseWriteBatchSchema.safeParse(await req.json());
+    if (!result.success) {
+      throw fromZodError(result.error);
+    }
+
+    await getSqliteExpenseRepository().commit(result.data);
+    return new Response(null, { status: 204 });
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
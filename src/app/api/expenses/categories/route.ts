@@ -0,0 +1,40 @@
+/**
+ * Categories API Route
+ *
+ * Server storage mode: repository-level access to the categories used by
+ * the HTTP repository. GET lists every category (archived included); POST
+ * applies a `CategoryWriteBatch` atomically after validating it with the
+ * Zod schemas.
+ *
+ * @module app/api/expenses/categories/route
+ */
+
+import { toErrorResponse } from '@/domains/expenses/api-contract';
+import { fromZodError } from '@/domains/expenses/errors';
+import { getSqliteExpenseRepository } from '@/domains/expenses/repositories/sqlite-repository';
+import { categoryWriteBatchSchema } from '@/domains/expenses/schema';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    return Response.json(await getSqliteExpenseRepository().getCategories());
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    const result = categoryWriteBatchSchema.safeParse(await req.json());
+    if (!result.success) {
+      throw fromZodError(result.error);
+    }
+
+    await getSqliteExpenseRepository().commitCategories(result.data);
+    return new Response(null, { status: 204 });
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * Expenses API Route
+ *
+ * Server storage mode: same contract as `getExpenses` (GET) and
+ * `createExpense` (POST), backed by SQLite.
+ *
+ * @module app/api/expenses/route
+ */
+
+import { createExpense, getExpenses } from '@/domains/expenses/actions';
+import {
+  searchParamsToFilters,
+  toErrorResponse
+} from '@/domains/expenses/api-contract';
+import { activateSqliteExpenseRepository } from '@/domains/expenses/repositories/sqlite-repository';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(req: Request) {
+  try {
+    activateSqliteExpenseRepository();
+    const filters = searchParamsToFilters(new URL(req.url).searchParams);
+    return Response.json(await getExpenses(filters));
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    activateSqliteExpenseRepository();
+    const expense = await createExpense(await req.json());
+    return Response.json(expense, { status: 201 });
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
@@ -0,0 +1,21 @@
+/**
+ * Tags API Route
+ *
+ * Server storage mode: every distinct tag in use, A-Z (for autocomplete).
+ *
+ * @module app/api/expenses/tags/route
+ */
+
+import { toErrorResponse } from '@/domains/expenses/api-contract';
+import { getSqliteExpenseRepository } from '@/domains/expenses/repositories/sqlite-repository';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    return Response.json(await getSqliteExpenseRepository().getTags());
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
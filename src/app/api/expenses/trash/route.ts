@@ -0,0 +1,26 @@
+/**
+ * Trash API Route
+ *
+ * Server storage mode: trashed expenses, optionally only those deleted on
+ * or before `?deletedBefore=` (oldest deletion first).
+ *
+ * @module app/api/expenses/trash/route
+ */
+
+import { toErrorResponse } from '@/domains/expenses/api-contract';
+import { getSqliteExpenseRepository } from '@/domains/expenses/repositories/sqlite-repository';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(req: Request) {
+  try {
+    const deletedBefore =
+      new URL(req.url).searchParams.get('deletedBefore') ?? undefined;
+    return Response.json(
+      await getSqliteExpenseRepository().getDeleted(deletedBefore)
+    );
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
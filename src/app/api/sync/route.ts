@@ -0,0 +1,36 @@
+/**
+ * Sync API Route
+ *
+ * POST a `SyncRequest` (pending local changes and the last pulled sequence
+ * number); the response carries the merged result, everything changed on
+ * the server since, and the conflicts that need review.
+ *
+ * @module app/api/sync/route
+ */
+
+import { toErrorResponse } from '@/domains/expenses/api-contract';
+import { fromZodError } from '@/domains/expenses/errors';
+import { getSqliteSyncStore } from '@/domains/expenses/repositories/sqlite-repository';
+import { syncRequestSchema } from '@/domains/expenses/schema';
+import { handleSyncRequest } from '@/domains/expenses/sync/server';
+import type { SyncRequest } from '@/domains/expenses/types';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function POST(req: Request) {
+  try {
+    const result = syncRequestSchema.safeParse(await req.json());
+    if (!result.success) {
+      throw fromZodError(result.error);
+    }
+
+    const response = await handleSyncRequest(
+      getSqliteSyncStore(),
+      result.data as SyncRequest
+    );
+    return Response.json(response);
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
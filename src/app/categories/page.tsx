@@ -0,0 +1,165 @@
+/**
+ * Categories Page
+ *
+ * Lists the expense categories with create, edit, archive and delete actions.
+ * Deleting a category moves its expenses to another one.
+ *
+ * @module app/categories/page
+ */
+
+'use client';
+
+import * as React from 'react';
+import { useRouter } from 'next/navigation';
+import { toast } from 'sonner';
+import { Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { CategoryList } from '@/domains/expenses/components/organisms/category-list';
+import { CategoryFormDialog } from '@/domains/expenses/components/organisms/category-form-dialog';
+import { CategoryDeleteDialog } from '@/domains/expenses/components/organisms/category-delete-dialog';
+import { useCategories } from '@/domains/expenses/hooks/use-categories';
+import { getUserFriendlyMessage } from '@/domains/expenses/errors';
+import type {
+  CategoryDefinition,
+  CategoryInput
+} from '@/domains/expenses/types';
+import { expensesTextMap } from '@/domains/expenses/expenses.text-map';
+
+/**
+ * Categories Page Component
+ */
+export default function CategoriesPage() {
+  const router = useRouter();
+  const {
+    categories,
+    getCategory,
+    isLoading,
+    createCategory,
+    updateCategory,
+    archiveCategory,
+    restoreCategory,
+    deleteCategory
+  } = useCategories();
+
+  // null: closed; 'new': creating; otherwise the category being edited
+  const [editing, setEditing] = React.useState<
+    CategoryDefinition | 'new' | null
+  >(null);
+  const [deleting, setDeleting] = React.useState<CategoryDefinition | null>(
+    null
+  );
+  const [isBusy, setIsBusy] = React.useState(false);
+
+  const handleSave = async (input: CategoryInput) => {
+    try {
+      if (editing && editing !== 'new') {
+        await updateCategory(editing.id, input);
+        toast.success(expensesTextMap.categoryUpdated);
+      } else {
+        const category = await createCategory(input);
+        toast.success(
+          expensesTextMap.categoryCreated.replace('{name}', category.name)
+        );
+      }
+    } catch (error) {
+      toast.error(expensesTextMap.errorSavingCategory, {
+        description: getUserFriendlyMessage(error)
+      });
+      throw error;
+    }
+  };
+
+  const handleArchive = async (category: CategoryDefinition, archived: boolean) => {
+    try {
+      setIsBusy(true);
+      if (archived) {
+        await archiveCategory(category.id);
+      } else {
+        await restoreCategory(category.id);
+      }
+      toast.success(
+        (archived
+          ? expensesTextMap.categoryArchived
+          : expensesTextMap.categoryRestored
+        ).replace('{name}', category.name)
+      );
+    } catch (error) {
+      toast.error(expensesTextMap.errorSavingCategory, {
+        description: getUserFriendlyMessage(error)
+      });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleDelete = async (replacementId: string) => {
+    if (!deleting) return;
+
+    try {
+      const moved = await deleteCategory(deleting.id, replacementId);
+      toast.success(
+        expensesTextMap.categoryDeleted
+          .replace('{count}', String(moved))
+          .replace('{name}', getCategory(replacementId).name)
+      );
+    } catch (error) {
+      toast.error(expensesTextMap.errorDeletingCategory, {
+        description: getUserFriendlyMessage(error)
+      });
+      throw error;
+    }
+  };
+
+  return (
+    <div className="container mx-auto max-w-3xl space-y-6 py-8">
+      {/* Header */}
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">
+            {expensesTextMap.categoriesHeading}
+          </h1>
+          <p className="text-muted-foreground">
+            {expensesTextMap.categoriesSubheading}
+          </p>
+        </div>
+        <div className="flex gap-3">
+          <Button variant="outline" onClick={() => router.push('/expenses')}>
+            {expensesTextMap.heading}
+          </Button>
+          <Button onClick={() => setEditing('new')}>
+            <Plus className="size-4" />
+            {expensesTextMap.addCategory}
+          </Button>
+        </div>
+      </div>
+
+      <CategoryList
+        categories={categories}
+        isLoading={isLoading}
+        onEdit={setEditing}
+        onArchive={category => handleArchive(category, true)}
+        onRestore={category => handleArchive(category, false)}
+        onDelete={setDeleting}
+        disabled={isBusy}
+      />
+
+      {editing && (
+        <CategoryFormDialog
+          open
+          onOpenChange={open => !open && setEditing(null)}
+          category={editing === 'new' ? null : editing}
+          onSave={handleSave}
+        />
+      )}
+
+      {deleting && (
+        <CategoryDeleteDialog
+          category={deleting}
+          categories={categories}
+          onOpenChange={open => !open && setDeleting(null)}
+          onDelete={handleDelete}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+/**
+ * Currencies Page
+ *
+ * Base currency setting and the exchange rate table used to convert
+ * expenses in other currencies for totals.
+ *
+ * @module app/currencies/page
+ */
+
+'use client';
+
+import * as React from 'react';
+import { useRouter } from 'next/navigation';
+import { toast } from 'sonner';
+import { Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import {
+  ExchangeRateList,
+  formatExchangeRate
+} from '@/domains/expenses/components/organisms/exchange-rate-list';
+import { ExchangeRateFormDialog } from '@/domains/expenses/components/organisms/exchange-rate-form-dialog';
+import { CurrencySelectItems } from '@/domains/expenses/components/molecules/currency-select-items';
+import { useExchangeRates } from '@/domains/expenses/hooks/use-exchange-rates';
+import { getUserFriendlyMessage } from '@/domains/expenses/errors';
+import type {
+  ExchangeRate,
+  ExchangeRateInput
+} from '@/domains/expenses/types';
+import { expensesTextMap } from '@/domains/expenses/expenses.text-map';
+import {
+  useBaseCurrency,
+  useSettingsStore
+} from '@/domains/settings/stores/settings-store';
+
+/**
+ * Currencies Page Component
+ */
+export default function CurrenciesPage() {
+  const router = useRouter();
+  const baseCurrency = useBaseCurrency();
+  const setBaseCurrency = useSettingsStore(state => state.setBaseCurrency);
+  const { rates, isLoading, createRate, updateRate, deleteRate } =
+    useExchangeRates();
+
+  // null: closed; 'new': adding; otherwise the rate being edited
+  const [editing, setEditing] = React.useState<ExchangeRate | 'new' | null>(
+    null
+  );
+  const [isBusy, setIsBusy] = React.useState(false);
+
+  const handleSave = async (input: ExchangeRateInput) => {
+    try {
+      if (editing && editing !== 'new') {
+        await updateRate(editing.id, input);
+        toast.success(expensesTextMap.exchangeRateUpdated);
+      } else {
+        await createRate(input);
+        toast.success(expensesTextMap.exchangeRateCreated);
+      }
+    } catch (error) {
+      toast.error(expensesTextMap.errorSavingExchangeRate, {
+        description: getUserFriendlyMessage(error)
+      });
+      throw error;
+    }
+  };
+
+  const handleDelete = async (rate: ExchangeRate) => {
+    const message = expensesTextMap.deleteExchangeRateConfirm
+      .replace('{summary}', formatExchangeRate(rate))
+      .replace('{date}', rate.date);
+    if (!confirm(message)) return;
+
+    try {
+      setIsBusy(true);
+      await deleteRate(rate.id);
+      toast.success(expensesTextMap.exchangeRateDeleted);
+    } catch (error) {
+      toast.error(expensesTextMap.errorDeletingExchangeRate, {
+        description: getUserFriendlyMessage(error)
+      });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="container mx-auto max-w-3xl space-y-6 py-8">
+      {/* Header */}
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">
+            {expensesTextMap.currenciesHeading}
+          </h1>
+          <p className="text-muted-foreground">
+            {expensesTextMap.currenciesSubheading}
+          </p>
+        </div>
+        <div className="flex gap-3">
+          <Button variant="outline" onClick={() => router.push('/expenses')}>
+            {expensesTextMap.heading}
+          </Button>
+          <Button onClick={() => setEditing('new')}>
+            <Plus className="size-4" />
+            {expensesTextMap.addExchangeRate}
+          </Button>
+        </div>
+      </div>
+
+      {/* Base currency */}
+      <div className="space-y-2 rounded-lg border p-4">
+        <Label htmlFor="base-currency">{expensesTextMap.baseCurrencyLabel}</Label>
+        <Select value={baseCurrency} onValueChange={setBaseCurrency}>
+          <SelectTrigger id="base-currency" className="w-full sm:w-72">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <CurrencySelectItems include={[baseCurrency]} />
+          </SelectContent>
+        </Select>
+        <p className="text-muted-foreground text-sm">
+          {expensesTextMap.baseCurrencyHelp}
+        </p>
+      </div>
+
+      {/* Exchange rates */}
+      <section className="space-y-3">
+        <h2 className="text-lg font-semibold">
+          {expensesTextMap.exchangeRatesHeading}
+        </h2>
+        <ExchangeRateList
+          rates={rates}
+          isLoading={isLoading}
+          onEdit={setEditing}
+          onDelete={handleDelete}
+          disabled={isBusy}
+        />
+      </section>
+
+      {editing && (
+        <ExchangeRateFormDialog
+          open
+          onOpenChange={open => !open && setEditing(null)}
+          rate={editing === 'new' ? null : editing}
+          defaultTo={baseCurrency}
+          onSave={handleSave}
+        />
+      )}
+    </div>
+  );
+}
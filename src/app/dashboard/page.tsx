@@ -12,31 +12,57 @@
 import * as React from 'react';
 import { useRouter } from 'next/navigation';
 import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { DashboardMetrics } from '@/domains/dashboard/components/organisms/dashboard-metrics';
 import { RecentExpensesList } from '@/domains/dashboard/components/organisms/recent-expenses-list';
 import { ExpenseFormModal } from '@/domains/expenses/components/organisms/expense-form-modal';
+import { StorageModeSelect } from '@/domains/expenses/components/molecules/storage-mode-select';
+import { SyncStatusPopover } from '@/domains/expenses/components/organisms/sync-status-popover';
 import { useExpenses } from '@/domains/expenses/hooks/use-expenses';
 import { useCreateExpense } from '@/domains/expenses/hooks/use-create-expense';
-import type { CreateExpenseInput, ExpenseCategory } from '@/domains/expenses/types';
+import { useAutoPurgeTrash } from '@/domains/expenses/hooks/use-auto-purge-trash';
+import { useUndoRedo } from '@/domains/expenses/hooks/use-undo-redo';
+import { getUserFriendlyMessage } from '@/domains/expenses/errors';
+import { getExpensesUrl } from '@/domains/expenses/filter-url';
+import { toDateFilters } from '@/domains/expenses/date-range';
+import { useCategories } from '@/domains/expenses/hooks/use-categories';
+import { useCurrencyConversion } from '@/domains/expenses/hooks/use-currency-conversion';
+import type { CategoryDefinition, CreateExpenseInput, Expense, ExpenseCategory } from '@/domains/expenses/types';
 import { getCategoryIconComponent } from '@/domains/expenses/components/atoms/category-badge';
 import { dashboardTextMap } from '@/domains/dashboard/dashboard.text-map';
+import { useCategoryRollup, useSettingsStore } from '@/domains/settings/stores/settings-store';
 import { toast } from 'sonner';
 
 /**
  * Calculate dashboard metrics from expenses
+ *
+ * @param getCategory - Category an expense counts toward (its own, or its parent
+ * when rolling subcategories up); also gives the top category name and icon
+ * @param toBaseCurrency - Amount of an expense in the base currency, or null
+ * when there is no exchange rate for it (left out of the totals and counted)
  */
-function calculateMetrics(expenses: Array<{ amount: number; category: string; date: string }>) {
+function calculateMetrics(
+  expenses: Array<Pick<Expense, 'amount' | 'currency' | 'category' | 'date'>>,
+  getCategory: (id: ExpenseCategory) => CategoryDefinition,
+  toBaseCurrency: (expense: Pick<Expense, 'amount' | 'currency' | 'date'>) => number | null
+) {
   if (expenses.length === 0) {
     return {
       totalSpent: 0,
       averageDaily: 0,
       topCategory: null,
+      unconvertedCount: 0,
       transactionCount: 0,
     };
   }
 
+  // Amounts in the base currency
+  const converted = expenses.map((exp) => ({ category: exp.category, amount: toBaseCurrency(exp) }));
+  const unconvertedCount = converted.filter((exp) => exp.amount === null).length;
+
   // Total spent
-  const totalSpent = expenses.reduce((sum, exp) => sum + exp.amount, 0);
+  const totalSpent = converted.reduce((sum, exp) => sum + (exp.amount ?? 0), 0);
 
   // Transaction count
   const transactionCount = expenses.length;
@@ -47,20 +73,24 @@ function calculateMetrics(expenses: Array<{ amount: number; category: string; da
   const averageDaily = totalSpent / Math.max(daysInMonth, 1);
 
   // Top category
-  const categoryTotals = expenses.reduce(
+  const categoryTotals = converted.reduce(
     (acc, exp) => {
-      acc[exp.category] = (acc[exp.category] || 0) + exp.amount;
+      if (exp.amount === null) return acc;
+      const { id } = getCategory(exp.category);
+      acc[id] = (acc[id] || 0) + exp.amount;
       return acc;
     },
     {} as Record<string, number>
   );
 
   const topCategoryEntry = Object.entries(categoryTotals).sort(([, a], [, b]) => b - a)[0];
-  const topCategory = topCategoryEntry
+  const topCategoryDefinition = topCategoryEntry ? getCategory(topCategoryEntry[0]) : null;
+  const topCategory = topCategoryEntry && topCategoryDefinition
     ? {
-        name: topCategoryEntry[0],
+        id: topCategoryDefinition.id,
+        name: topCategoryDefinition.name,
         amount: topCategoryEntry[1],
-        Icon: getCategoryIconComponent(topCategoryEntry[0] as ExpenseCategory),
+        Icon: getCategoryIconComponent(topCategoryDefinition.icon)
       }
     : null;
 
@@ -68,6 +98,7 @@ function calculateMetrics(expenses: Array<{ amount: number; category: string; da
     totalSpent,
     averageDaily,
     topCategory,
+    unconvertedCount,
     transactionCount,
   };
 }
@@ -81,39 +112,63 @@ export default function DashboardPage() {
 
   // Fetch current month expenses
   const filters = React.useMemo(() => {
-    const now = new Date();
-    const currentYear = now.getFullYear();
-    const currentMonth = now.getMonth();
-
     return {
-      dateFrom: new Date(currentYear, currentMonth, 1).toISOString(),
-      dateTo: new Date(currentYear, currentMonth + 1, 0, 23, 59, 59, 999).toISOString(),
+      ...toDateFilters({ type: 'thisMonth' }),
       sortBy: 'date' as const,
       sortOrder: 'desc' as const,
       limit: 100, // Get all for metrics calculation
     };
   }, []);
 
-  const { expenses, isLoading, error, refetch } = useExpenses(filters);
+  const { expenses, isLoading, error } = useExpenses(filters);
+
+  const { mutate: createExpense, isLoading: isCreating } = useCreateExpense({ optimistic: true });
 
-  const { mutate: createExpense, isLoading: isCreating } = useCreateExpense();
+  // Purge trashed expenses past the retention period
+  useAutoPurgeTrash();
 
-  // Calculate metrics
-  const metricsData = React.useMemo(() => calculateMetrics(expenses), [expenses]);
+  // Undo/redo (Ctrl+Z / Ctrl+Shift+Z and toast actions)
+  const { undoAction } = useUndoRedo();
+
+  // Calculate metrics (category totals per parent or per subcategory)
+  const categoryRollup = useCategoryRollup();
+  const setCategoryRollup = useSettingsStore((state) => state.setCategoryRollup);
+  const { getCategory, getRollupCategory } = useCategories();
+  const { toBaseCurrency } = useCurrencyConversion();
+  const metricsData = React.useMemo(
+    () => calculateMetrics(expenses, categoryRollup ? getRollupCategory : getCategory, toBaseCurrency),
+    [expenses, categoryRollup, getCategory, getRollupCategory, toBaseCurrency]
+  );
 
   // Get recent expenses (last 5)
   const recentExpenses = expenses.slice(0, 5);
 
+  // Metric cards open this month's expenses (the top category card, only that category)
+  const handleMetricClick = (metric: 'totalSpent' | 'averageDaily' | 'topCategory' | 'transactionCount') => {
+    const topCategory = metricsData.topCategory?.id;
+
+    router.push(
+      getExpensesUrl({
+        dateRange: { type: 'thisMonth' },
+        categories: metric === 'topCategory' && topCategory ? [topCategory] : [],
+        sort: metric === 'topCategory' ? { field: 'amount', order: 'desc' } : null
+      })
+    );
+  };
+
   // Handle create expense
   const handleCreateExpense = async (data: CreateExpenseInput) => {
+    // Optimistic: metrics update (and the modal closes) before the write commits
+    setIsFormOpen(false);
     try {
       await createExpense(data);
-      toast.success(dashboardTextMap.expenseCreated || 'Gasto creado exitosamente');
-      setIsFormOpen(false);
-      refetch();
+      toast.success(dashboardTextMap.expenseCreated || 'Gasto creado exitosamente', {
+        action: undoAction()
+      });
     } catch (error) {
-      console.error('Error creating expense:', error);
-      toast.error(dashboardTextMap.errorCreatingExpense || 'Error al crear el gasto');
+      toast.error(dashboardTextMap.errorCreatingExpense || 'Error al crear el gasto', {
+        description: getUserFriendlyMessage(error)
+      });
     }
   };
 
@@ -125,7 +180,9 @@ export default function DashboardPage() {
           <h1 className="text-3xl font-bold tracking-tight">{dashboardTextMap.heading}</h1>
           <p className="text-muted-foreground">{dashboardTextMap.subheading}</p>
         </div>
-        <div className="flex gap-3">
+        <div className="flex flex-wrap items-center gap-3">
+          <StorageModeSelect />
+          <SyncStatusPopover />
           <Button variant="outline" onClick={() => router.push('/expenses')}>
             {dashboardTextMap.viewExpenses || 'Ver gastos'}
           </Button>
@@ -136,7 +193,37 @@ export default function DashboardPage() {
       </div>
 
       {/* Metrics */}
-      <DashboardMetrics data={metricsData} isLoading={isLoading} error={error} />
+      <div className="flex items-center justify-end gap-3">
+        <Label htmlFor="category-totals">{dashboardTextMap.categoryTotalsLabel}</Label>
+        <Select
+          value={categoryRollup ? 'rollup' : 'detail'}
+          onValueChange={(value) => setCategoryRollup(value === 'rollup')}
+        >
+          <SelectTrigger id="category-totals" size="sm" className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="rollup">{dashboardTextMap.categoryTotalsRollup}</SelectItem>
+            <SelectItem value="detail">{dashboardTextMap.categoryTotalsDetail}</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      {metricsData.unconvertedCount > 0 && (
+        <div className="flex flex-col gap-3 rounded-lg border border-amber-500/50 bg-amber-500/10 p-4 text-sm sm:flex-row sm:items-center sm:justify-between">
+          <p>
+            {dashboardTextMap.unconvertedExpenses.replace('{count}', String(metricsData.unconvertedCount))}
+          </p>
+          <Button variant="outline" size="sm" onClick={() => router.push('/currencies')}>
+            {dashboardTextMap.addExchangeRates}
+          </Button>
+        </div>
+      )}
+      <DashboardMetrics
+        data={metricsData}
+        isLoading={isLoading}
+        error={error}
+        onMetricClick={handleMetricClick}
+      />
 
       {/* Recent Expenses */}
       <RecentExpensesList
@@ -3,6 +3,8 @@
  *
  * Full expense management page with filtering, sorting, and CRUD operations.
  * Main view for browsing and managing all expenses.
+ * The filters live in the query string, so filtered lists can be
+ * reloaded, navigated with back/forward and linked to.
  *
  * @module app/expenses/page
  */
@@ -16,65 +18,124 @@ import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from '@/co
 import { ExpenseList } from '@/domains/expenses/components/organisms/expense-list';
 import { ExpenseFilters } from '@/domains/expenses/components/organisms/expense-filters';
 import { ExpenseFormModal } from '@/domains/expenses/components/organisms/expense-form-modal';
-import { useExpenses } from '@/domains/expenses/hooks/use-expenses';
+import { SavedViewsMenu } from '@/domains/expenses/components/organisms/saved-views-menu';
+import { useInfiniteExpenses } from '@/domains/expenses/hooks/use-infinite-expenses';
+import { useExpenseAmountBounds } from '@/domains/expenses/hooks/use-expense-amount-bounds';
 import { useCreateExpense } from '@/domains/expenses/hooks/use-create-expense';
 import { useUpdateExpense } from '@/domains/expenses/hooks/use-update-expense';
 import { useDeleteExpense } from '@/domains/expenses/hooks/use-delete-expense';
+import { useBulkUpdateExpenses } from '@/domains/expenses/hooks/use-bulk-update-expenses';
+import { useBulkDeleteExpenses } from '@/domains/expenses/hooks/use-bulk-delete-expenses';
+import { useAutoPurgeTrash } from '@/domains/expenses/hooks/use-auto-purge-trash';
+import { useUndoRedo } from '@/domains/expenses/hooks/use-undo-redo';
+import { getUserFriendlyMessage } from '@/domains/expenses/errors';
 import { useExpenseFilters, useHasActiveFilters } from '@/domains/expenses/hooks/use-expense-filters';
-import type { Expense, CreateExpenseInput, UpdateExpenseInput } from '@/domains/expenses/types';
+import { useExpenseFiltersUrl } from '@/domains/expenses/hooks/use-expense-filters-url';
+import { useCategories } from '@/domains/expenses/hooks/use-categories';
+import { toDateFilters } from '@/domains/expenses/date-range';
+import type {
+  BulkOperationResult,
+  Expense,
+  ExpenseCategory,
+  ExpenseFilters as ExpenseFilterOptions,
+  ExpenseGroupBy,
+  CreateExpenseInput,
+  UpdateExpenseInput
+} from '@/domains/expenses/types';
 import { expensesTextMap } from '@/domains/expenses/expenses.text-map';
 import { toast } from 'sonner';
+import { addDays } from 'date-fns';
 
 /**
- * Expenses Page Component
+ * Expenses Page Content
  */
-export default function ExpensesPage() {
+function ExpensesPageContent() {
   const router = useRouter();
   const [isFormOpen, setIsFormOpen] = React.useState(false);
   const [editingExpense, setEditingExpense] = React.useState<Expense | null>(null);
   const [filtersOpen, setFiltersOpen] = React.useState(false);
+  const [selectionMode, setSelectionMode] = React.useState(false);
+  const [selectedIds, setSelectedIds] = React.useState<string[]>([]);
+  const [groupBy, setGroupBy] = React.useState<ExpenseGroupBy | null>(null);
 
-  // Filters state
+  // Filters state (kept in sync with the URL query string)
+  useExpenseFiltersUrl();
   const {
+    queryText,
     selectedCategories,
+    selectedTags,
+    tagMatch,
     dateRange,
+    amountRange,
     searchQuery,
+    excludedTerms,
     sort,
+    setQueryText,
     setSelectedCategories,
+    setSelectedTags,
+    setTagMatch,
     setDateRange,
-    setSearchQuery,
+    setAmountRange,
     setSort,
     resetFilters,
   } = useExpenseFilters();
 
   const hasActiveFilters = useHasActiveFilters();
+  const { expandCategories } = useCategories();
 
   // Fetch expenses with filters
-  const { expenses, isLoading, error, refetch, totalCount, hasMore } = useExpenses({
-    categories: selectedCategories.length > 0 ? selectedCategories : undefined,
-    dateFrom: dateRange?.from?.toISOString(),
-    dateTo: dateRange?.to?.toISOString(),
+  const filters: ExpenseFilterOptions = {
+    // A parent category also matches its subcategories
+    categories: selectedCategories.length > 0 ? expandCategories(selectedCategories) : undefined,
+    tags: selectedTags.length > 0 ? selectedTags : undefined,
+    tagMatch: selectedTags.length > 0 ? tagMatch : undefined,
+    ...toDateFilters(dateRange),
     searchQuery: searchQuery || undefined,
+    excludeTerms: excludedTerms.length > 0 ? excludedTerms : undefined,
+    amountMin: amountRange.min ?? undefined,
+    amountMax: amountRange.max ?? undefined,
     sortBy: sort.field,
     sortOrder: sort.order,
-    limit: 20,
-  });
+    groupBy: groupBy ?? undefined,
+    limit: 50 // Page size; more pages load while scrolling
+  };
+  const {
+    expenses,
+    isLoading,
+    isFetchingMore,
+    error,
+    refetch,
+    totalCount,
+    hasMore,
+    groups,
+    loadMore
+  } = useInfiniteExpenses(filters);
+
+  // Amount slider bounds (amounts present under the other filters)
+  const amountBounds = useExpenseAmountBounds(filters);
 
   // Mutations
-  const { mutate: createExpense, isLoading: isCreating } = useCreateExpense();
-  const { mutate: updateExpense, isLoading: isUpdating } = useUpdateExpense();
-  const { mutate: deleteExpense, isLoading: isDeleting } = useDeleteExpense();
+  const { mutate: createExpense, isLoading: isCreating } = useCreateExpense({ optimistic: true });
+  const { mutate: updateExpense, isLoading: isUpdating } = useUpdateExpense({ optimistic: true });
+  const { mutate: deleteExpense } = useDeleteExpense({ optimistic: true });
+  const { mutate: bulkUpdateExpenses, isLoading: isBulkUpdating } = useBulkUpdateExpenses();
+  const { mutate: bulkDeleteExpenses, isLoading: isBulkDeleting } = useBulkDeleteExpenses();
+
+  // Purge trashed expenses past the retention period
+  useAutoPurgeTrash();
+
+  // Undo/redo (Ctrl+Z / Ctrl+Shift+Z and toast actions)
+  const { undoAction } = useUndoRedo();
 
   // Handle create expense
   const handleCreateExpense = async (data: CreateExpenseInput) => {
+    // Optimistic: the list updates (and the modal closes) before the write commits
+    setIsFormOpen(false);
     try {
       await createExpense(data);
-      toast.success(expensesTextMap.expenseCreated);
-      setIsFormOpen(false);
-      refetch();
+      toast.success(expensesTextMap.expenseCreated, { action: undoAction() });
     } catch (error) {
-      console.error('Error creating expense:', error);
-      toast.error(expensesTextMap.errorSaving);
+      toast.error(expensesTextMap.errorSaving, { description: getUserFriendlyMessage(error) });
     }
   };
 
@@ -82,14 +143,12 @@ export default function ExpensesPage() {
   const handleUpdateExpense = async (data: UpdateExpenseInput) => {
     if (!editingExpense) return;
 
+    setEditingExpense(null);
     try {
       await updateExpense({ id: editingExpense.id, input: data });
-      toast.success(expensesTextMap.expenseUpdated);
-      setEditingExpense(null);
-      refetch();
+      toast.success(expensesTextMap.expenseUpdated, { action: undoAction() });
     } catch (error) {
-      console.error('Error updating expense:', error);
-      toast.error(expensesTextMap.errorSaving);
+      toast.error(expensesTextMap.errorSaving, { description: getUserFriendlyMessage(error) });
     }
   };
 
@@ -101,11 +160,9 @@ export default function ExpensesPage() {
 
     try {
       await deleteExpense(expense.id);
-      toast.success(expensesTextMap.expenseDeleted);
-      refetch();
+      toast.success(expensesTextMap.expenseDeleted, { action: undoAction() });
     } catch (error) {
-      console.error('Error deleting expense:', error);
-      toast.error(expensesTextMap.errorDeleting);
+      toast.error(expensesTextMap.errorDeleting, { description: getUserFriendlyMessage(error) });
     }
   };
 
@@ -114,6 +171,74 @@ export default function ExpensesPage() {
     setEditingExpense(expense);
   };
 
+  // Toggle selection mode (clears the selection)
+  const handleToggleSelectionMode = () => {
+    setSelectionMode((current) => !current);
+    setSelectedIds([]);
+  };
+
+  // Report a finished bulk mutation
+  const reportBulkResult = (result: BulkOperationResult<Expense>, successMessage: string) => {
+    if (result.succeeded.length > 0) {
+      toast.success(successMessage.replace('{count}', String(result.succeeded.length)), {
+        action: undoAction()
+      });
+    }
+    if (result.errors.length > 0) {
+      toast.error(
+        expensesTextMap.bulkPartialFailure.replace('{count}', String(result.errors.length)),
+        { description: result.errors[0].error.message }
+      );
+    }
+    setSelectedIds([]);
+  };
+
+  // Handle bulk recategorize
+  const handleBulkRecategorize = async (selected: Expense[], category: ExpenseCategory) => {
+    try {
+      const result = await bulkUpdateExpenses(
+        selected.map((expense) => ({ id: expense.id, input: { category } }))
+      );
+      reportBulkResult(result, expensesTextMap.bulkUpdated);
+    } catch {
+      toast.error(expensesTextMap.errorBulk);
+    }
+  };
+
+  // Handle bulk date shift
+  const handleBulkShiftDate = async (selected: Expense[], days: number) => {
+    try {
+      const result = await bulkUpdateExpenses(
+        selected.map((expense) => ({
+          id: expense.id,
+          input: { date: addDays(new Date(expense.date), days).toISOString() }
+        }))
+      );
+      reportBulkResult(result, expensesTextMap.bulkUpdated);
+    } catch {
+      toast.error(expensesTextMap.errorBulk);
+    }
+  };
+
+  // Handle bulk delete
+  const handleBulkDelete = async (selected: Expense[]) => {
+    if (!confirm(expensesTextMap.bulkDeleteConfirm.replace('{count}', String(selected.length)))) {
+      return;
+    }
+
+    try {
+      const result = await bulkDeleteExpenses(selected.map((expense) => expense.id));
+      reportBulkResult(result, expensesTextMap.bulkDeleted);
+    } catch {
+      toast.error(expensesTextMap.errorBulk);
+    }
+  };
+
+  // Handle revert from the history panel (keep the modal open on the reverted values)
+  const handleRevertedExpense = (expense: Expense) => {
+    setEditingExpense(expense);
+  };
+
   return (
     <div className="container mx-auto space-y-6 py-8">
       {/* Header */}
@@ -126,6 +251,18 @@ export default function ExpensesPage() {
           <Button variant="outline" onClick={() => router.push('/dashboard')}>
             {expensesTextMap.backToDashboard}
           </Button>
+          <Button variant="outline" onClick={() => router.push('/categories')}>
+            {expensesTextMap.categoriesButton}
+          </Button>
+          <Button variant="outline" onClick={() => router.push('/currencies')}>
+            {expensesTextMap.currenciesButton}
+          </Button>
+          <Button variant="outline" onClick={() => router.push('/trash')}>
+            {expensesTextMap.trashButton}
+          </Button>
+          <Button variant={selectionMode ? 'secondary' : 'outline'} onClick={handleToggleSelectionMode}>
+            {selectionMode ? expensesTextMap.selectModeExit : expensesTextMap.selectMode}
+          </Button>
           <Button onClick={() => setIsFormOpen(true)}>{expensesTextMap.addExpense}</Button>
         </div>
       </div>
@@ -138,12 +275,19 @@ export default function ExpensesPage() {
             <h2 className="font-semibold">{expensesTextMap.filterButton || 'Filtros'}</h2>
             <ExpenseFilters
               selectedCategories={selectedCategories}
+              selectedTags={selectedTags}
+              tagMatch={tagMatch}
               dateRange={dateRange}
-              searchQuery={searchQuery}
+              amountRange={amountRange}
+              amountBounds={amountBounds}
+              queryText={queryText}
               sort={sort}
               onCategoriesChange={setSelectedCategories}
+              onTagsChange={setSelectedTags}
+              onTagMatchChange={setTagMatch}
               onDateRangeChange={setDateRange}
-              onSearchQueryChange={setSearchQuery}
+              onAmountRangeChange={setAmountRange}
+              onQueryTextChange={setQueryText}
               onSortChange={setSort}
               onResetFilters={resetFilters}
               hasActiveFilters={hasActiveFilters}
@@ -154,11 +298,11 @@ export default function ExpensesPage() {
 
         {/* Main Content */}
         <main className="space-y-4">
-          {/* Mobile Filters (Sheet) */}
-          <div className="lg:hidden">
+          {/* Mobile Filters (Sheet) + Saved Views */}
+          <div className="flex gap-2 lg:justify-end">
             <Sheet open={filtersOpen} onOpenChange={setFiltersOpen}>
               <SheetTrigger asChild>
-                <Button variant="outline" className="w-full">
+                <Button variant="outline" className="flex-1 lg:hidden">
                   {expensesTextMap.filterButton || 'Filtros'}
                   {hasActiveFilters && ' •'}
                 </Button>
@@ -170,12 +314,19 @@ export default function ExpensesPage() {
                 <div className="mt-6">
                   <ExpenseFilters
                     selectedCategories={selectedCategories}
+                    selectedTags={selectedTags}
+                    tagMatch={tagMatch}
                     dateRange={dateRange}
-                    searchQuery={searchQuery}
+                    amountRange={amountRange}
+                    amountBounds={amountBounds}
+                    queryText={queryText}
                     sort={sort}
                     onCategoriesChange={setSelectedCategories}
+                    onTagsChange={setSelectedTags}
+                    onTagMatchChange={setTagMatch}
                     onDateRangeChange={setDateRange}
-                    onSearchQueryChange={setSearchQuery}
+                    onAmountRangeChange={setAmountRange}
+                    onQueryTextChange={setQueryText}
                     onSortChange={setSort}
                     onResetFilters={resetFilters}
                     hasActiveFilters={hasActiveFilters}
@@ -184,6 +335,7 @@ export default function ExpensesPage() {
                 </div>
               </SheetContent>
             </Sheet>
+            <SavedViewsMenu />
           </div>
 
           {/* Expense List */}
@@ -192,14 +344,23 @@ export default function ExpensesPage() {
             isLoading={isLoading}
             error={error}
             hasMore={hasMore}
+            isLoadingMore={isFetchingMore}
             totalCount={totalCount}
-            onLoadMore={() => {
-              // Future: Implement pagination
-              console.log('Load more');
-            }}
+            highlightQuery={searchQuery}
+            onLoadMore={loadMore}
             onExpenseEdit={handleEditExpense}
             onExpenseDelete={handleDeleteExpense}
             onRetry={refetch}
+            selectionMode={selectionMode}
+            selectedIds={selectedIds}
+            onSelectionChange={setSelectedIds}
+            onBulkRecategorize={handleBulkRecategorize}
+            onBulkShiftDate={handleBulkShiftDate}
+            onBulkDelete={handleBulkDelete}
+            isBulkLoading={isBulkUpdating || isBulkDeleting}
+            groupBy={groupBy}
+            groups={groups}
+            onGroupByChange={setGroupBy}
           />
         </main>
       </div>
@@ -221,9 +382,23 @@ export default function ExpensesPage() {
           mode="edit"
           initialData={editingExpense}
           onSubmit={handleUpdateExpense}
+          onReverted={handleRevertedExpense}
           isLoading={isUpdating}
         />
       )}
     </div>
   );
 }
+
+/**
+ * Expenses Page Component
+ *
+ * The filters are read from the URL, which needs a Suspense boundary.
+ */
+export default function ExpensesPage() {
+  return (
+    <React.Suspense>
+      <ExpensesPageContent />
+    </React.Suspense>
+  );
+}
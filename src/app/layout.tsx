@@ -3,6 +3,7 @@ import { Geist, Geist_Mono } from 'next/font/google';
 import { ThemeProvider } from 'next-themes';
 import { Toaster } from 'sonner';
 import { ChatBubble } from '@/domains/ai-chat/components/organisms/chat-bubble';
+import { StorageHealthBanner } from '@/domains/expenses/components/organisms/storage-health-banner';
 import './globals.css';
 
 const geistSans = Geist({
@@ -29,6 +30,7 @@ export default function RootLayout({
     <html lang="es" suppressHydrationWarning>
       <body className={`${geistSans.variable} ${geistMono.variable} antialiased`}>
         <ThemeProvider attribute="class" defaultTheme="system" enableSystem disableTransitionOnChange>
+          <StorageHealthBanner />
           {children}
           <Toaster position="bottom-right" richColors />
           <ChatBubble />
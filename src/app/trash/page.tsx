@@ -0,0 +1,166 @@
+/**
+ * Trash Page
+ *
+ * Lists soft-deleted expenses with restore, permanent delete and empty trash actions.
+ * Expired entries are purged automatically based on the retention setting.
+ *
+ * @module app/trash/page
+ */
+
+'use client';
+
+import * as React from 'react';
+import { useRouter } from 'next/navigation';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { TrashList } from '@/domains/expenses/components/organisms/trash-list';
+import { useTrashedExpenses } from '@/domains/expenses/hooks/use-trashed-expenses';
+import { useRestoreExpense } from '@/domains/expenses/hooks/use-restore-expense';
+import { usePermanentlyDeleteExpense } from '@/domains/expenses/hooks/use-permanently-delete-expense';
+import { useEmptyTrash } from '@/domains/expenses/hooks/use-empty-trash';
+import { useAutoPurgeTrash } from '@/domains/expenses/hooks/use-auto-purge-trash';
+import type { Expense } from '@/domains/expenses/types';
+import { expensesTextMap } from '@/domains/expenses/expenses.text-map';
+import {
+  TRASH_RETENTION_OPTIONS,
+  useSettingsStore
+} from '@/domains/settings/stores/settings-store';
+
+/**
+ * Trash Page Component
+ */
+export default function TrashPage() {
+  const router = useRouter();
+  const { expenses, isLoading, error, refetch } = useTrashedExpenses();
+
+  const retentionDays = useSettingsStore(state => state.trashRetentionDays);
+  const setRetentionDays = useSettingsStore(
+    state => state.setTrashRetentionDays
+  );
+
+  const { mutate: restoreExpense, isLoading: isRestoring } =
+    useRestoreExpense();
+  const { mutate: deleteForever, isLoading: isDeleting } =
+    usePermanentlyDeleteExpense();
+  const { mutate: emptyTrash, isLoading: isEmptying } = useEmptyTrash();
+
+  useAutoPurgeTrash(count => {
+    toast.info(expensesTextMap.trashPurged.replace('{count}', String(count)));
+  });
+
+  const isBusy = isRestoring || isDeleting || isEmptying;
+
+  const handleRestore = async (expense: Expense) => {
+    try {
+      await restoreExpense(expense.id);
+      toast.success(expensesTextMap.expenseRestored);
+    } catch {
+      toast.error(expensesTextMap.errorRestoring);
+    }
+  };
+
+  const handleDeleteForever = async (expense: Expense) => {
+    if (!confirm(expensesTextMap.trashDeleteForeverConfirm)) {
+      return;
+    }
+
+    try {
+      await deleteForever(expense.id);
+      toast.success(expensesTextMap.expensePermanentlyDeleted);
+    } catch {
+      toast.error(expensesTextMap.errorDeleting);
+    }
+  };
+
+  const handleEmptyTrash = async () => {
+    if (!confirm(expensesTextMap.trashEmptyConfirm)) {
+      return;
+    }
+
+    try {
+      await emptyTrash();
+      toast.success(expensesTextMap.trashEmptied);
+    } catch {
+      toast.error(expensesTextMap.errorDeleting);
+    }
+  };
+
+  return (
+    <div className="container mx-auto max-w-3xl space-y-6 py-8">
+      {/* Header */}
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">
+            {expensesTextMap.trashHeading}
+          </h1>
+          <p className="text-muted-foreground">
+            {expensesTextMap.trashSubheading}
+          </p>
+        </div>
+        <div className="flex gap-3">
+          <Button variant="outline" onClick={() => router.push('/expenses')}>
+            {expensesTextMap.heading}
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={handleEmptyTrash}
+            disabled={isBusy || expenses.length === 0}
+          >
+            {expensesTextMap.trashEmptyAction}
+          </Button>
+        </div>
+      </div>
+
+      {/* Retention */}
+      <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+        <p className="text-muted-foreground text-sm">
+          {expensesTextMap.trashCount.replace(
+            '{count}',
+            String(expenses.length)
+          )}
+        </p>
+        <div className="flex items-center gap-3">
+          <Label htmlFor="trash-retention">
+            {expensesTextMap.trashRetentionLabel}
+          </Label>
+          <Select
+            value={String(retentionDays)}
+            onValueChange={value => setRetentionDays(Number(value))}
+          >
+            <SelectTrigger id="trash-retention" className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TRASH_RETENTION_OPTIONS.map(days => (
+                <SelectItem key={days} value={String(days)}>
+                  {expensesTextMap.trashRetentionOption.replace(
+                    '{days}',
+                    String(days)
+                  )}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <TrashList
+        expenses={expenses}
+        isLoading={isLoading}
+        error={error}
+        onRestore={handleRestore}
+        onDeleteForever={handleDeleteForever}
+        onRetry={refetch}
+        disabled={isBusy}
+      />
+    </div>
+  );
+}
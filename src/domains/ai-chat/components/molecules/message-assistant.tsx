@@ -7,6 +7,7 @@ import {
   Paperclip,
   RefreshCcw
 } from 'lucide-react';
+import Link from 'next/link';
 import { Button } from '@/components/ui/button';
 import type {
   ReasoningUIPart,
@@ -16,6 +17,7 @@ import type {
 } from 'ai';
 import { useState } from 'react';
 import { getMessageText } from '@/lib/util-message';
+import { EXPENSES_PAGE_PATH } from '@/domains/expenses/filter-url';
 
 type FileUIPart = {
   type: 'file';
@@ -23,6 +25,37 @@ type FileUIPart = {
   data: string;
 };
 
+// Links to the filtered expenses list (`/expenses?category=Comida`), without trailing punctuation
+const EXPENSES_LINK_PATTERN = new RegExp(
+  `(${EXPENSES_PAGE_PATH}(?:\\?[^\\s]*[^\\s.,;:!?)\\]])?)(?![\\w/])`,
+  'g'
+);
+
+/**
+ * Render message text with the expenses list paths as in-app links
+ */
+const MessageText = ({ text }: { text: string }) => {
+  const parts = text.split(EXPENSES_LINK_PATTERN);
+
+  return (
+    <>
+      {parts.map((part, index) =>
+        index % 2 === 1 ? (
+          <Link
+            key={index}
+            href={part}
+            className="text-primary break-all underline underline-offset-2"
+          >
+            {part}
+          </Link>
+        ) : (
+          part
+        )
+      )}
+    </>
+  );
+};
+
 interface MessageAssistantProps {
   message: UIMessage;
   parts: UIMessage['parts'];
@@ -76,7 +109,9 @@ export const MessageAssistant = ({
         )}
 
         {textContent && (
-          <div className="text-foreground bg-transparent">{textContent}</div>
+          <div className="text-foreground bg-transparent">
+            <MessageText text={textContent} />
+          </div>
         )}
 
         {fileParts && (
@@ -37,6 +37,11 @@ export interface MetricCardProps {
    */
   valueType?: 'currency' | 'number' | 'percentage';
 
+  /**
+   * Short text under the value (e.g. what the value belongs to)
+   */
+  caption?: string;
+
   /**
    * Trend indicator
    * Positive number shows increase, negative shows decrease
@@ -195,6 +200,7 @@ export function MetricCard({
   value,
   icon,
   valueType = 'currency',
+  caption,
   trend,
   trendSentiment = 'neutral',
   isLoading = false,
@@ -243,6 +249,9 @@ export function MetricCard({
           {formatValue(value, valueType)}
         </div>
 
+        {/* Caption (optional) */}
+        {caption && <p className="truncate text-sm text-muted-foreground">{caption}</p>}
+
         {/* Trend (optional) */}
         {trend !== undefined && <TrendIndicator trend={trend} sentiment={trendSentiment} />}
       </div>
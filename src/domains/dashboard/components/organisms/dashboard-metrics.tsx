@@ -188,6 +188,7 @@ export function DashboardMetrics({
         value={metrics.topCategory?.amount || 0}
         icon={<TopCategoryIcon className="size-5" />}
         valueType="currency"
+        caption={metrics.topCategory?.name ?? dashboardTextMap.noCategory}
         className={onMetricClick ? 'cursor-pointer transition-transform hover:scale-105' : undefined}
         onClick={() => onMetricClick?.('topCategory')}
       />
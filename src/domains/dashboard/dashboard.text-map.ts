@@ -170,6 +170,15 @@ export const dashboardTextMap = {
   tooltipTotalSpent: 'Suma total de gastos en el mes actual',
   tooltipAvgDaily: 'Promedio calculado: Total ÷ días transcurridos del mes',
   tooltipTopCategory: 'Categoría con el monto total más alto',
+
+  // Category totals (subcategories rolled up to their parent, or not)
+  categoryTotalsLabel: 'Totales por categoría',
+  categoryTotalsRollup: 'Categorías principales',
+  categoryTotalsDetail: 'Subcategorías',
+
+  // Totals in the base currency
+  unconvertedExpenses: '{count} gastos en otra moneda no tienen tipo de cambio y no se incluyen en los totales',
+  addExchangeRates: 'Agregar tipos de cambio',
   tooltipTransactionCount: 'Cantidad de gastos registrados',
 } as const;
 
@@ -0,0 +1,145 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  createExpense,
+  createExpenses,
+  deleteExpenses,
+  getExpenses,
+  updateExpense,
+  updateExpenses
+} from './actions';
+import { createCategory, setCategoryArchived } from './categories';
+import { ExpenseValidationError } from './errors';
+import { setExpenseRepository } from './repository';
+import { createMemoryExpenseRepository } from './repositories/memory-repository';
+
+const DINNER = {
+  description: 'Cena en el centro',
+  amount: 450,
+  category: 'Comida',
+  date: '2025-03-14T20:00:00.000Z'
+};
+
+describe('expense actions category validation', () => {
+  beforeEach(() => {
+    setExpenseRepository(createMemoryExpenseRepository());
+  });
+
+  it('rejects unknown categories on create and update', async () => {
+    await expect(
+      createExpense({ ...DINNER, category: 'Inventada' })
+    ).rejects.toBeInstanceOf(ExpenseValidationError);
+
+    const expense = await createExpense(DINNER);
+    await expect(
+      updateExpense(expense.id, { category: 'Inventada' })
+    ).rejects.toMatchObject({
+      validationErrors: { category: ['Selecciona una categoría válida'] }
+    });
+  });
+
+  it('only assigns active leaves, but keeps the current category on edits', async () => {
+    const restaurants = await createCategory({
+      name: 'Restaurantes',
+      color: 'orange',
+      icon: 'utensils',
+      parentId: 'Comida'
+    });
+    await expect(createExpense(DINNER)).rejects.toBeInstanceOf(
+      ExpenseValidationError
+    );
+
+    const expense = await createExpense({
+      ...DINNER,
+      category: restaurants.id
+    });
+    await setCategoryArchived(restaurants.id, true);
+
+    await expect(
+      updateExpense(expense.id, { amount: 480, category: restaurants.id })
+    ).resolves.toMatchObject({ amount: 480 });
+    await expect(
+      createExpense({ ...DINNER, category: restaurants.id })
+    ).rejects.toBeInstanceOf(ExpenseValidationError);
+  });
+
+  it('reports invalid categories per item in bulk writes', async () => {
+    const created = await createExpenses([
+      DINNER,
+      { ...DINNER, category: 'Inventada' }
+    ]);
+    expect(created.succeeded).toHaveLength(1);
+    expect(created.errors.map(({ index }) => index)).toEqual([1]);
+
+    const [expense] = created.succeeded;
+    const updated = await updateExpenses([
+      { id: expense.id, input: { category: 'Inventada' } },
+      { id: expense.id, input: { category: 'Salud' } }
+    ]);
+    expect(updated.errors).toHaveLength(1);
+    expect(updated.errors[0]).toMatchObject({ index: 0, id: expense.id });
+    expect(updated.succeeded[0].category).toBe('Salud');
+  });
+});
+
+describe('bulk expense actions', () => {
+  it('writes nothing when every item fails', async () => {
+    const repository = createMemoryExpenseRepository();
+    setExpenseRepository(repository);
+    const expense = await createExpense(DINNER);
+    const commit = vi.spyOn(repository, 'commit');
+
+    const updated = await updateExpenses([
+      { id: expense.id, input: { category: 'Inventada' } }
+    ]);
+    const deleted = await deleteExpenses(['no-existe']);
+
+    expect(updated).toMatchObject({ succeeded: [], errors: [{ index: 0 }] });
+    expect(deleted).toMatchObject({ succeeded: [], errors: [{ index: 0 }] });
+    expect(commit).not.toHaveBeenCalled();
+  });
+});
+
+describe('expenses grouped by category', () => {
+  beforeEach(() => {
+    setExpenseRepository(createMemoryExpenseRepository());
+  });
+
+  it('orders the groups by category name across pages', async () => {
+    // Its ID is a UUID, which would sort before every built-in
+    const trips = await createCategory({
+      name: 'Viajes',
+      color: 'blue',
+      icon: 'plane',
+      parentId: null
+    });
+    await createExpenses(
+      ['Transporte', trips.id, 'Salud', trips.id].map((category, index) => ({
+        ...DINNER,
+        category,
+        date: `2025-03-1${index}T20:00:00.000Z`
+      }))
+    );
+
+    const first = await getExpenses({ groupBy: 'category', limit: 2 });
+    expect(first.groups?.map(({ key }) => key)).toEqual([
+      'Salud',
+      'Transporte',
+      trips.id
+    ]);
+    expect(first.expenses.map(({ category }) => category)).toEqual([
+      'Salud',
+      'Transporte'
+    ]);
+
+    const second = await getExpenses({
+      groupBy: 'category',
+      limit: 2,
+      cursor: first.nextCursor!
+    });
+    expect(second.expenses.map(({ category }) => category)).toEqual([
+      trips.id,
+      trips.id
+    ]);
+    expect(second.hasMore).toBe(false);
+  });
+});
@@ -1,34 +1,50 @@
 /**
- * Expense CRUD Actions (Client-Side)
+ * Expense CRUD Actions
  *
  * Provides all Create, Read, Update, Delete operations for expenses.
- * These are CLIENT-SIDE functions that interact with IndexedDB.
- * NOT Server Actions - this is offline-first with no backend.
+ * These are plain functions (NOT Server Actions) that store data through the
+ * active `ExpenseRepository`: IndexedDB (or memory when it is unavailable)
+ * or the expenses API in the browser, SQLite inside the `/api/expenses`
+ * route handlers.
+ * Every committed write is announced through `events.ts`, which keeps the
+ * query cache and other tabs up to date.
  *
  * @module domains/expenses/actions
  */
 
-'use client';
-
-import { openExpenseDB, STORE_NAME } from '@/lib/db';
 import type {
+  CategoryDefinition,
   Expense,
+  ExpenseCategory,
   CreateExpenseInput,
   UpdateExpenseInput,
   ExpenseFilters,
   ExpenseQueryResult,
+  ExpenseMutationOptions,
+  ExpenseRevision,
+  ExpenseRevisionSource,
+  BulkItemError,
+  BulkOperationResult,
+  BulkUpdateItem
 } from './types';
 import {
-  validateCreateExpense,
+  getExpenseInputSchemas,
+  updateExpenseSchema,
   validateUpdateExpense,
   type CreateExpenseSchemaType,
 } from './schema';
 import {
   ExpenseNotFoundError,
+  ExpenseOperationError,
   ExpenseValidationError,
   IndexedDBError,
   fromZodError,
 } from './errors';
+import { isDeleted } from './query';
+import { diffExpenses, getExpenseAtRevision, sortRevisions } from './revisions';
+import { publishExpenseChange, type ExpenseChange } from './events';
+import { getExpenseRepository } from './repository';
+import { isAssignable } from './categories';
 
 /**
  * Generate a UUID v4
@@ -45,12 +61,65 @@ function getCurrentTimestamp(): string {
   return new Date().toISOString();
 }
 
+/**
+ * IDs of the categories expenses can be assigned to (active, without
+ * active subcategories)
+ *
+ * Validate inputs with `getExpenseInputSchemas` over these IDs; updates
+ * also accept the expense's current category, which may be archived.
+ *
+ * @throws {IndexedDBError} If the categories cannot be read
+ */
+async function getAssignableCategoryIds(): Promise<ExpenseCategory[]> {
+  let categories: CategoryDefinition[];
+  try {
+    const repository = await getExpenseRepository();
+    categories = await repository.getCategories();
+  } catch (error) {
+    throw new IndexedDBError(
+      'Failed to get categories',
+      'read',
+      error instanceof Error ? error : undefined
+    );
+  }
+
+  return categories
+    .filter((category) => isAssignable(categories, category))
+    .map((category) => category.id);
+}
+
+/**
+ * Build a revision log entry for a change (null when nothing tracked changed)
+ */
+function buildRevision(
+  before: Expense | null,
+  after: Expense,
+  source: ExpenseRevisionSource,
+  revertedTo: string | null = null
+): ExpenseRevision | null {
+  const changes = diffExpenses(before, after);
+  if (changes.length === 0) {
+    return null;
+  }
+
+  return {
+    id: generateId(),
+    expenseId: after.id,
+    timestamp: after.updatedAt,
+    source,
+    changes,
+    revertedTo
+  };
+}
+
 /**
  * Create a new expense
  *
- * Validates input, generates ID and timestamps, saves to IndexedDB.
+ * Validates input (the category must be assignable), generates ID and
+ * timestamps, saves it together with the initial revision.
  *
  * @param input - Expense data (without ID and timestamps)
+ * @param options - Mutation options (revision source)
  * @returns Created expense with generated fields
  * @throws {ExpenseValidationError} If input validation fails
  * @throws {IndexedDBError} If database operation fails
@@ -66,11 +135,13 @@ function getCurrentTimestamp(): string {
  * ```
  */
 export async function createExpense(
-  input: CreateExpenseInput
+  input: CreateExpenseInput,
+  options: ExpenseMutationOptions = {}
 ): Promise<Expense> {
   try {
     // Validate input with Zod schema
-    const validated = validateCreateExpense(input);
+    const { create } = getExpenseInputSchemas(await getAssignableCategoryIds());
+    const validated = create.parse(input);
 
     // Generate ID and timestamps
     const now = getCurrentTimestamp();
@@ -79,15 +150,17 @@ export async function createExpense(
       ...validated,
       createdAt: now,
       updatedAt: now,
+      deletedAt: null
     };
+    const revision = buildRevision(null, expense, options.source ?? 'form');
 
-    // Save to IndexedDB
-    const db = await openExpenseDB();
-    const tx = db.transaction(STORE_NAME, 'readwrite');
-    const store = tx.objectStore(STORE_NAME);
-
-    await store.add(expense);
-    await tx.done;
+    // Expense and revision commit together
+    const repository = await getExpenseRepository();
+    await repository.commit({
+      put: [expense],
+      revisions: revision ? [revision] : []
+    });
+    publishExpenseChange('create', [{ before: null, after: expense }]);
 
     return expense;
   } catch (error) {
@@ -109,7 +182,14 @@ export async function createExpense(
  * Get all expenses with optional filters
  *
  * Supports category filtering, date range, search, sorting, and pagination.
- * Default: Current year, sorted by date descending, first 20 items.
+ * Default: all dates, sorted by date descending, first 20 items.
+ * Date bounds are explicit: resolve a relative range with `toDateFilters`.
+ *
+ * The IndexedDB repository answers from its indexes (see
+ * `repositories/indexeddb-repository.ts` for the query plan).
+ *
+ * Pass `nextCursor` from a previous result as `cursor` to fetch the next page.
+ * `offset` is still honored for callers that do not use cursors.
  *
  * @param filters - Optional filter criteria
  * @returns Query result with expenses and pagination metadata
@@ -117,116 +197,39 @@ export async function createExpense(
  *
  * @example
  * ```typescript
- * // Get current year expenses (default)
+ * // Get all expenses (default)
  * const result = await getExpenses();
  *
+ * // Get this month's expenses
+ * const result = await getExpenses(toDateFilters({ type: 'thisMonth' }));
+ *
  * // Get expenses with filters
  * const result = await getExpenses({
  *   categories: ['Comida', 'Transporte'],
  *   dateFrom: '2025-01-01',
  *   dateTo: '2025-12-31',
  *   searchQuery: 'coffee',
+ *   amountMin: 100,
+ *   amountMax: 500,
  *   sortBy: 'amount',
  *   sortOrder: 'desc',
- *   limit: 20,
- *   offset: 0
+ *   limit: 20
  * });
+ *
+ * // Next page
+ * const next = await getExpenses({ ...filters, cursor: result.nextCursor });
  * ```
  */
 export async function getExpenses(
   filters: ExpenseFilters = {}
 ): Promise<ExpenseQueryResult> {
   try {
-    const db = await openExpenseDB();
-    const tx = db.transaction(STORE_NAME, 'readonly');
-    const store = tx.objectStore(STORE_NAME);
-
-    // Get all expenses from IndexedDB
-    let expenses = await store.getAll();
-
-    // Apply default date filter: current year
-    if (!filters.dateFrom && !filters.dateTo) {
-      const currentYear = new Date().getFullYear();
-      filters.dateFrom = `${currentYear}-01-01T00:00:00.000Z`;
-      filters.dateTo = `${currentYear}-12-31T23:59:59.999Z`;
-    }
-
-    // Filter by date range
-    if (filters.dateFrom || filters.dateTo) {
-      expenses = expenses.filter((expense) => {
-        const expenseDate = new Date(expense.date);
-        if (filters.dateFrom && expenseDate < new Date(filters.dateFrom)) {
-          return false;
-        }
-        if (filters.dateTo && expenseDate > new Date(filters.dateTo)) {
-          return false;
-        }
-        return true;
-      });
-    }
-
-    // Filter by categories (OR logic)
-    if (filters.categories && filters.categories.length > 0) {
-      expenses = expenses.filter((expense) =>
-        filters.categories!.includes(expense.category)
-      );
-    }
-
-    // Filter by search query (case-insensitive description search)
-    if (filters.searchQuery && filters.searchQuery.trim().length > 0) {
-      const query = filters.searchQuery.toLowerCase().trim();
-      expenses = expenses.filter((expense) =>
-        expense.description.toLowerCase().includes(query)
-      );
-    }
-
-    // Sort
-    const sortBy = filters.sortBy || 'date';
-    const sortOrder = filters.sortOrder || 'desc';
-
-    expenses.sort((a, b) => {
-      let aVal: string | number;
-      let bVal: string | number;
-
-      switch (sortBy) {
-        case 'amount':
-          aVal = a.amount;
-          bVal = b.amount;
-          break;
-        case 'createdAt':
-          aVal = a.createdAt;
-          bVal = b.createdAt;
-          break;
-        case 'date':
-        default:
-          aVal = a.date;
-          bVal = b.date;
-          break;
-      }
-
-      if (sortOrder === 'asc') {
-        return aVal > bVal ? 1 : aVal < bVal ? -1 : 0;
-      } else {
-        return aVal < bVal ? 1 : aVal > bVal ? -1 : 0;
-      }
-    });
-
-    // Pagination
-    const totalCount = expenses.length;
-    const limit = filters.limit || 20;
-    const offset = filters.offset || 0;
-
-    const paginatedExpenses = expenses.slice(offset, offset + limit);
-    const hasMore = offset + limit < totalCount;
-
-    return {
-      expenses: paginatedExpenses,
-      totalCount,
-      hasMore,
-      offset,
-      limit,
-    };
+    const repository = await getExpenseRepository();
+    return await repository.query(filters);
   } catch (error) {
+    if (error instanceof ExpenseOperationError) {
+      throw error;
+    }
     throw new IndexedDBError(
       'Failed to get expenses',
       'read',
@@ -250,11 +253,8 @@ export async function getExpenses(
  */
 export async function getExpenseById(id: string): Promise<Expense> {
   try {
-    const db = await openExpenseDB();
-    const tx = db.transaction(STORE_NAME, 'readonly');
-    const store = tx.objectStore(STORE_NAME);
-
-    const expense = await store.get(id);
+    const repository = await getExpenseRepository();
+    const expense = await repository.getById(id);
 
     if (!expense) {
       throw new ExpenseNotFoundError(id);
@@ -274,14 +274,83 @@ export async function getExpenseById(id: string): Promise<Expense> {
   }
 }
 
+/**
+ * Get several expenses by ID in a single read
+ *
+ * Unknown IDs are skipped, so the result may be shorter than `ids`.
+ *
+ * @param ids - Expense UUIDs
+ * @returns Found expenses, in the order of `ids`
+ * @throws {IndexedDBError} If database operation fails
+ */
+export async function getExpensesByIds(ids: string[]): Promise<Expense[]> {
+  try {
+    const repository = await getExpenseRepository();
+    return await repository.getByIds(ids);
+  } catch (error) {
+    throw new IndexedDBError(
+      'Failed to get expenses by ID',
+      'read',
+      error instanceof Error ? error : undefined,
+      { count: ids.length }
+    );
+  }
+}
+
+/**
+ * Merge changes into an expense and save it with its revision
+ *
+ * Shared by `updateExpense` and `revertExpenseToRevision`. Edits must use
+ * an assignable category (or keep the current one); reverts and values
+ * kept from the sync review may go back to a category archived since.
+ */
+async function saveExpenseChanges(
+  id: string,
+  input: UpdateExpenseInput,
+  source: ExpenseRevisionSource,
+  revertedTo: string | null = null
+): Promise<Expense> {
+  // Get existing expense
+  const existing = await getExpenseById(id);
+
+  // Validate input
+  const validated =
+    revertedTo === null && source !== 'sync'
+      ? getExpenseInputSchemas([
+          ...(await getAssignableCategoryIds()),
+          existing.category
+        ]).update.parse(input)
+      : validateUpdateExpense(input);
+
+  // Merge changes and update timestamp
+  const updated: Expense = {
+    ...existing,
+    ...validated,
+    updatedAt: getCurrentTimestamp()
+  };
+  const revision = buildRevision(existing, updated, source, revertedTo);
+
+  // Expense and revision commit together
+  const repository = await getExpenseRepository();
+  await repository.commit({
+    put: [updated],
+    revisions: revision ? [revision] : []
+  });
+  publishExpenseChange('update', [{ before: existing, after: updated }]);
+
+  return updated;
+}
+
 /**
  * Update an existing expense
  *
  * Validates input, updates specified fields, auto-updates `updatedAt` timestamp.
  * Fetches current expense, merges changes, validates, then saves.
+ * Changed fields are recorded in the revision log.
  *
  * @param id - Expense UUID
  * @param input - Partial expense data to update
+ * @param options - Mutation options (revision source)
  * @returns Updated expense
  * @throws {ExpenseNotFoundError} If expense doesn't exist
  * @throws {ExpenseValidationError} If input validation fails
@@ -296,31 +365,11 @@ export async function getExpenseById(id: string): Promise<Expense> {
  */
 export async function updateExpense(
   id: string,
-  input: UpdateExpenseInput
+  input: UpdateExpenseInput,
+  options: ExpenseMutationOptions = {}
 ): Promise<Expense> {
   try {
-    // Validate input
-    const validated = validateUpdateExpense(input);
-
-    // Get existing expense
-    const existing = await getExpenseById(id);
-
-    // Merge changes and update timestamp
-    const updated: Expense = {
-      ...existing,
-      ...validated,
-      updatedAt: getCurrentTimestamp(),
-    };
-
-    // Save to IndexedDB
-    const db = await openExpenseDB();
-    const tx = db.transaction(STORE_NAME, 'readwrite');
-    const store = tx.objectStore(STORE_NAME);
-
-    await store.put(updated);
-    await tx.done;
-
-    return updated;
+    return await saveExpenseChanges(id, input, options.source ?? 'form');
   } catch (error) {
     if (error instanceof ExpenseNotFoundError) {
       throw error;
@@ -340,10 +389,87 @@ export async function updateExpense(
   }
 }
 
+/**
+ * Get the revision log of an expense
+ *
+ * @param expenseId - Expense UUID
+ * @returns Revisions, newest first
+ * @throws {IndexedDBError} If database operation fails
+ *
+ * @example
+ * ```typescript
+ * const revisions = await getExpenseRevisions('123e4567-e89b-12d3-a456-426614174000');
+ * ```
+ */
+export async function getExpenseRevisions(expenseId: string): Promise<ExpenseRevision[]> {
+  try {
+    const repository = await getExpenseRepository();
+    const revisions = await repository.getRevisions(expenseId);
+
+    return sortRevisions(revisions).reverse();
+  } catch (error) {
+    throw new IndexedDBError(
+      'Failed to get expense revisions',
+      'read',
+      error instanceof Error ? error : undefined,
+      { expenseId }
+    );
+  }
+}
+
+/**
+ * Revert an expense to the state it had right after an earlier revision
+ *
+ * The revert is saved as a new revision, so it can be reverted as well.
+ *
+ * @param expenseId - Expense UUID
+ * @param revisionId - Revision to go back to
+ * @returns Reverted expense
+ * @throws {ExpenseNotFoundError} If expense doesn't exist
+ * @throws {ExpenseOperationError} If the revision does not belong to the expense
+ * @throws {IndexedDBError} If database operation fails
+ *
+ * @example
+ * ```typescript
+ * const expense = await revertExpenseToRevision(expense.id, revision.id);
+ * ```
+ */
+export async function revertExpenseToRevision(
+  expenseId: string,
+  revisionId: string
+): Promise<Expense> {
+  try {
+    const [current, revisions] = await Promise.all([
+      getExpenseById(expenseId),
+      getExpenseRevisions(expenseId)
+    ]);
+
+    const snapshot = getExpenseAtRevision(current, revisions, revisionId);
+
+    return await saveExpenseChanges(expenseId, snapshot, 'form', revisionId);
+  } catch (error) {
+    if (
+      error instanceof ExpenseNotFoundError ||
+      error instanceof ExpenseOperationError ||
+      error instanceof IndexedDBError
+    ) {
+      throw error;
+    }
+    throw new IndexedDBError(
+      'Failed to revert expense',
+      'write',
+      error instanceof Error ? error : undefined,
+      { expenseId, revisionId }
+    );
+  }
+}
+
 /**
  * Delete an expense
  *
- * Hard delete - permanently removes from IndexedDB.
+ * Soft delete - moves the expense to the trash by setting `deletedAt`.
+ * Trashed expenses are excluded from `getExpenses` and can be brought back
+ * with `restoreExpense` until they are purged.
  *
  * @param id - Expense UUID
  * @returns void
@@ -358,15 +484,18 @@ export async function updateExpense(
 export async function deleteExpense(id: string): Promise<void> {
   try {
     // Check if expense exists first
-    await getExpenseById(id);
+    const existing = await getExpenseById(id);
 
-    // Delete from IndexedDB
-    const db = await openExpenseDB();
-    const tx = db.transaction(STORE_NAME, 'readwrite');
-    const store = tx.objectStore(STORE_NAME);
+    const now = getCurrentTimestamp();
+    const trashed: Expense = {
+      ...existing,
+      deletedAt: now,
+      updatedAt: now
+    };
 
-    await store.delete(id);
-    await tx.done;
+    const repository = await getExpenseRepository();
+    await repository.commit({ put: [trashed] });
+    publishExpenseChange('delete', [{ before: existing, after: trashed }]);
   } catch (error) {
     if (error instanceof ExpenseNotFoundError) {
       throw error;
@@ -380,6 +509,604 @@ export async function deleteExpense(id: string): Promise<void> {
   }
 }
 
+/**
+ * Create several expenses in a single atomic write
+ *
+ * Every input is validated first (categories must be assignable); invalid
+ * inputs are reported per item and skipped, the rest are saved together
+ * with their revisions.
+ *
+ * @param inputs - Expense data (without ID and timestamps)
+ * @param options - Mutation options (revision source)
+ * @returns Created expenses and per-item validation errors
+ * @throws {IndexedDBError} If database operation fails
+ *
+ * @example
+ * ```typescript
+ * const { succeeded, errors } = await createExpenses(rows, { source: 'import' });
+ * ```
+ */
+export async function createExpenses(
+  inputs: CreateExpenseInput[],
+  options: ExpenseMutationOptions = {}
+): Promise<BulkOperationResult<Expense>> {
+  const succeeded: Expense[] = [];
+  const errors: BulkItemError[] = [];
+  const revisions: ExpenseRevision[] = [];
+  const now = getCurrentTimestamp();
+  const { create } = getExpenseInputSchemas(await getAssignableCategoryIds());
+
+  inputs.forEach((input, index) => {
+    const result = create.safeParse(input);
+    if (!result.success) {
+      errors.push({ index, error: fromZodError(result.error) });
+      return;
+    }
+
+    const expense: Expense = {
+      id: generateId(),
+      ...result.data,
+      createdAt: now,
+      updatedAt: now,
+      deletedAt: null
+    };
+    const revision = buildRevision(null, expense, options.source ?? 'form');
+
+    succeeded.push(expense);
+    if (revision) {
+      revisions.push(revision);
+    }
+  });
+
+  if (succeeded.length === 0) {
+    return { succeeded, errors };
+  }
+
+  try {
+    const repository = await getExpenseRepository();
+    await repository.commit({ put: succeeded, revisions });
+    publishExpenseChange(
+      'create',
+      succeeded.map((expense) => ({ before: null, after: expense }))
+    );
+
+    return { succeeded, errors };
+  } catch (error) {
+    throw new IndexedDBError(
+      'Failed to create expenses',
+      'write',
+      error instanceof Error ? error : undefined,
+      { count: succeeded.length }
+    );
+  }
+}
+
+/**
+ * Apply partial inputs to several expenses in a single atomic write
+ *
+ * Shared by `updateExpenses` and `restoreExpenseValues`. With
+ * `restrictCategories`, a category must be assignable or the expense's
+ * current one.
+ */
+async function saveExpenseUpdates(
+  items: BulkUpdateItem[],
+  source: ExpenseRevisionSource,
+  restrictCategories: boolean
+): Promise<BulkOperationResult<Expense>> {
+  const succeeded: Expense[] = [];
+  const errors: BulkItemError[] = [];
+  const changes: ExpenseChange[] = [];
+
+  if (items.length === 0) {
+    return { succeeded, errors };
+  }
+
+  const repository = await getExpenseRepository();
+  const existingById = new Map(
+    (await repository.getByIds(items.map(({ id }) => id))).map((expense) => [expense.id, expense])
+  );
+  const assignable = restrictCategories ? await getAssignableCategoryIds() : null;
+  const revisions: ExpenseRevision[] = [];
+  const now = getCurrentTimestamp();
+
+  for (const [index, { id, input }] of items.entries()) {
+    // Later items for the same ID build on the earlier ones
+    const existing = existingById.get(id);
+    if (!existing || isDeleted(existing)) {
+      errors.push({ index, id, error: new ExpenseNotFoundError(id) });
+      continue;
+    }
+
+    const result = (
+      assignable
+        ? getExpenseInputSchemas([...assignable, existing.category]).update
+        : updateExpenseSchema
+    ).safeParse(input);
+    if (!result.success) {
+      errors.push({ index, id, error: fromZodError(result.error) });
+      continue;
+    }
+
+    const updated: Expense = { ...existing, ...result.data, updatedAt: now };
+    const revision = buildRevision(existing, updated, source);
+
+    existingById.set(id, updated);
+    if (revision) {
+      revisions.push(revision);
+    }
+    succeeded.push(updated);
+    changes.push({ before: existing, after: updated });
+  }
+
+  errors.sort((a, b) => a.index - b.index);
+  if (succeeded.length === 0) {
+    return { succeeded, errors };
+  }
+
+  await repository.commit({ put: succeeded, revisions });
+  publishExpenseChange('update', changes);
+
+  return { succeeded, errors };
+}
+
+/**
+ * Update several expenses in a single atomic write
+ *
+ * Each item carries its own partial input. Invalid inputs (categories must
+ * be assignable, or the expense's current one) and unknown or trashed
+ * expenses are reported per item and skipped.
+ *
+ * @param items - Expense IDs with the fields to update
+ * @param options - Mutation options (revision source)
+ * @returns Updated expenses and per-item errors
+ * @throws {IndexedDBError} If database operation fails
+ *
+ * @example
+ * ```typescript
+ * const { succeeded } = await updateExpenses(
+ *   selected.map((expense) => ({ id: expense.id, input: { category: 'Comida' } }))
+ * );
+ * ```
+ */
+export async function updateExpenses(
+  items: BulkUpdateItem[],
+  options: ExpenseMutationOptions = {}
+): Promise<BulkOperationResult<Expense>> {
+  try {
+    return await saveExpenseUpdates(items, options.source ?? 'form', true);
+  } catch (error) {
+    throw new IndexedDBError(
+      'Failed to update expenses',
+      'write',
+      error instanceof Error ? error : undefined,
+      { count: items.length }
+    );
+  }
+}
+
+/**
+ * Put expenses back to values they had before, in a single atomic write
+ *
+ * Used by undo and redo. Like a revert, the values may use a category
+ * archived since, so categories are not limited to the assignable ones.
+ * Unknown or trashed expenses are reported per item and skipped.
+ *
+ * @param items - Expense IDs with the values to put back
+ * @returns Updated expenses and per-item errors
+ * @throws {IndexedDBError} If database operation fails
+ *
+ * @example
+ * ```typescript
+ * await restoreExpenseValues([{ id: before.id, input: { category: before.category } }]);
+ * ```
+ */
+export async function restoreExpenseValues(
+  items: BulkUpdateItem[]
+): Promise<BulkOperationResult<Expense>> {
+  try {
+    return await saveExpenseUpdates(items, 'form', false);
+  } catch (error) {
+    throw new IndexedDBError(
+      'Failed to restore expense values',
+      'write',
+      error instanceof Error ? error : undefined,
+      { count: items.length }
+    );
+  }
+}
+
+/**
+ * Move every expense of a category to another category
+ *
+ * Used before deleting a category. Trashed expenses move too, so restoring
+ * them later does not bring back a category that no longer exists. All
+ * expenses change in a single atomic write, each with its revision.
+ *
+ * @param from - Category ID to empty
+ * @param to - Category ID that receives the expenses
+ * @param options - Mutation options (revision source)
+ * @returns Number of reassigned expenses
+ * @throws {IndexedDBError} If database operation fails
+ *
+ * @example
+ * ```typescript
+ * const moved = await reassignExpenseCategory('Mascotas', 'Otros');
+ * ```
+ */
+export async function reassignExpenseCategory(
+  from: ExpenseCategory,
+  to: ExpenseCategory,
+  options: ExpenseMutationOptions = {}
+): Promise<number> {
+  if (from === to) {
+    return 0;
+  }
+
+  try {
+    const repository = await getExpenseRepository();
+
+    // Page through the active expenses, then add the trashed ones
+    const matches: Expense[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await repository.query({ categories: [from], limit: 100, cursor });
+      matches.push(...page.expenses);
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+    matches.push(...(await repository.getDeleted()).filter((expense) => expense.category === from));
+
+    if (matches.length === 0) {
+      return 0;
+    }
+
+    const now = getCurrentTimestamp();
+    const updated: Expense[] = [];
+    const revisions: ExpenseRevision[] = [];
+    const changes: ExpenseChange[] = [];
+
+    for (const existing of matches) {
+      const expense: Expense = { ...existing, category: to, updatedAt: now };
+      const revision = buildRevision(existing, expense, options.source ?? 'form');
+
+      if (revision) {
+        revisions.push(revision);
+      }
+      updated.push(expense);
+      changes.push({ before: existing, after: expense });
+    }
+
+    await repository.commit({ put: updated, revisions });
+    publishExpenseChange('update', changes);
+
+    return updated.length;
+  } catch (error) {
+    throw new IndexedDBError(
+      'Failed to reassign expenses',
+      'write',
+      error instanceof Error ? error : undefined,
+      { from, to }
+    );
+  }
+}
+
+/**
+ * Move several expenses to the trash in a single atomic write
+ *
+ * Unknown or already trashed expenses are reported per item and skipped.
+ *
+ * @param ids - Expense UUIDs
+ * @returns Trashed expenses and per-item errors
+ * @throws {IndexedDBError} If database operation fails
+ *
+ * @example
+ * ```typescript
+ * const { succeeded } = await deleteExpenses(selectedIds);
+ * ```
+ */
+export async function deleteExpenses(
+  ids: string[]
+): Promise<BulkOperationResult<Expense>> {
+  const succeeded: Expense[] = [];
+  const errors: BulkItemError[] = [];
+  const changes: ExpenseChange[] = [];
+
+  try {
+    const repository = await getExpenseRepository();
+    const existingById = new Map(
+      (await repository.getByIds(ids)).map((expense) => [expense.id, expense])
+    );
+    const now = getCurrentTimestamp();
+
+    for (const [index, id] of ids.entries()) {
+      const existing = existingById.get(id);
+      if (!existing || isDeleted(existing)) {
+        errors.push({ index, id, error: new ExpenseNotFoundError(id) });
+        continue;
+      }
+
+      const trashed: Expense = { ...existing, deletedAt: now, updatedAt: now };
+      existingById.set(id, trashed);
+      succeeded.push(trashed);
+      changes.push({ before: existing, after: trashed });
+    }
+
+    if (succeeded.length === 0) {
+      return { succeeded, errors };
+    }
+
+    await repository.commit({ put: succeeded });
+    publishExpenseChange('delete', changes);
+
+    return { succeeded, errors };
+  } catch (error) {
+    throw new IndexedDBError(
+      'Failed to delete expenses',
+      'delete',
+      error instanceof Error ? error : undefined,
+      { count: ids.length }
+    );
+  }
+}
+
+/**
+ * Restore an expense from the trash
+ *
+ * @param id - Expense UUID
+ * @returns Restored expense
+ * @throws {ExpenseNotFoundError} If expense doesn't exist
+ * @throws {ExpenseOperationError} If expense is not in the trash
+ * @throws {IndexedDBError} If database operation fails
+ *
+ * @example
+ * ```typescript
+ * const expense = await restoreExpense('123e4567-e89b-12d3-a456-426614174000');
+ * ```
+ */
+export async function restoreExpense(id: string): Promise<Expense> {
+  try {
+    const existing = await getExpenseById(id);
+
+    if (!isDeleted(existing)) {
+      throw new ExpenseOperationError('restore expense', 'expense is not in the trash', {
+        expenseId: id
+      });
+    }
+
+    const restored: Expense = {
+      ...existing,
+      deletedAt: null,
+      updatedAt: getCurrentTimestamp()
+    };
+
+    const repository = await getExpenseRepository();
+    await repository.commit({ put: [restored] });
+    publishExpenseChange('restore', [{ before: existing, after: restored }]);
+
+    return restored;
+  } catch (error) {
+    if (error instanceof ExpenseNotFoundError || error instanceof ExpenseOperationError) {
+      throw error;
+    }
+    throw new IndexedDBError(
+      'Failed to restore expense',
+      'write',
+      error instanceof Error ? error : undefined,
+      { expenseId: id }
+    );
+  }
+}
+
+/**
+ * Restore several expenses from the trash in a single atomic write
+ *
+ * Unknown expenses and expenses not in the trash are reported per item
+ * and skipped.
+ *
+ * @param ids - Expense UUIDs
+ * @returns Restored expenses and per-item errors
+ * @throws {IndexedDBError} If database operation fails
+ *
+ * @example
+ * ```typescript
+ * const { succeeded } = await restoreExpenses(trashedIds);
+ * ```
+ */
+export async function restoreExpenses(
+  ids: string[]
+): Promise<BulkOperationResult<Expense>> {
+  const succeeded: Expense[] = [];
+  const errors: BulkItemError[] = [];
+  const changes: ExpenseChange[] = [];
+
+  try {
+    const repository = await getExpenseRepository();
+    const existingById = new Map(
+      (await repository.getByIds(ids)).map((expense) => [expense.id, expense])
+    );
+    const now = getCurrentTimestamp();
+
+    for (const [index, id] of ids.entries()) {
+      const existing = existingById.get(id);
+      if (!existing) {
+        errors.push({ index, id, error: new ExpenseNotFoundError(id) });
+        continue;
+      }
+      if (!isDeleted(existing)) {
+        errors.push({
+          index,
+          id,
+          error: new ExpenseOperationError('restore expense', 'expense is not in the trash', {
+            expenseId: id
+          })
+        });
+        continue;
+      }
+
+      const restored: Expense = { ...existing, deletedAt: null, updatedAt: now };
+      existingById.set(id, restored);
+      succeeded.push(restored);
+      changes.push({ before: existing, after: restored });
+    }
+
+    if (succeeded.length === 0) {
+      return { succeeded, errors };
+    }
+
+    await repository.commit({ put: succeeded });
+    publishExpenseChange('restore', changes);
+
+    return { succeeded, errors };
+  } catch (error) {
+    throw new IndexedDBError(
+      'Failed to restore expenses',
+      'write',
+      error instanceof Error ? error : undefined,
+      { count: ids.length }
+    );
+  }
+}
+
+/**
+ * Get all expenses in the trash
+ *
+ * Reads the trash only (the IndexedDB `deletedAt` index holds just trashed expenses).
+ *
+ * @returns Trashed expenses, most recently deleted first
+ * @throws {IndexedDBError} If database operation fails
+ */
+export async function getDeletedExpenses(): Promise<Expense[]> {
+  try {
+    const repository = await getExpenseRepository();
+    const trashed = await repository.getDeleted();
+    return trashed.reverse();
+  } catch (error) {
+    throw new IndexedDBError(
+      'Failed to get deleted expenses',
+      'read',
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
+/**
+ * Get every tag in use, for autocomplete
+ *
+ * Trashed expenses count too, so restoring one brings back no unknown tags.
+ *
+ * @returns Distinct tags, A-Z
+ * @throws {IndexedDBError} If database operation fails
+ */
+export async function getExpenseTags(): Promise<string[]> {
+  try {
+    const repository = await getExpenseRepository();
+    return await repository.getTags();
+  } catch (error) {
+    throw new IndexedDBError(
+      'Failed to get expense tags',
+      'read',
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
+/**
+ * Permanently delete an expense
+ *
+ * Hard delete - removes the record and its revision log from storage.
+ * Cannot be undone.
+ *
+ * @param id - Expense UUID
+ * @returns void
+ * @throws {ExpenseNotFoundError} If expense doesn't exist
+ * @throws {IndexedDBError} If database operation fails
+ */
+export async function permanentlyDeleteExpense(id: string): Promise<void> {
+  try {
+    // Check if expense exists first
+    const existing = await getExpenseById(id);
+
+    const repository = await getExpenseRepository();
+    await repository.commit({ delete: [id] });
+    publishExpenseChange('purge', [{ before: existing, after: null }]);
+  } catch (error) {
+    if (error instanceof ExpenseNotFoundError) {
+      throw error;
+    }
+    throw new IndexedDBError(
+      'Failed to permanently delete expense',
+      'delete',
+      error instanceof Error ? error : undefined,
+      { expenseId: id }
+    );
+  }
+}
+
+/**
+ * Permanently delete trashed expenses deleted on or before a cutoff
+ *
+ * Without a cutoff, the whole trash is emptied.
+ *
+ * @param deletedBefore - ISO 8601 cutoff (inclusive)
+ * @returns Number of purged expenses
+ * @throws {IndexedDBError} If database operation fails
+ */
+async function purgeTrash(deletedBefore?: string): Promise<number> {
+  try {
+    const repository = await getExpenseRepository();
+    const purged = await repository.getDeleted(deletedBefore);
+    const ids = purged.map((expense) => expense.id);
+
+    if (ids.length === 0) {
+      return 0;
+    }
+
+    await repository.commit({ delete: ids });
+    publishExpenseChange(
+      'purge',
+      purged.map((expense) => ({ before: expense, after: null }))
+    );
+
+    return ids.length;
+  } catch (error) {
+    throw new IndexedDBError(
+      'Failed to purge trash',
+      'delete',
+      error instanceof Error ? error : undefined,
+      { deletedBefore }
+    );
+  }
+}
+
+/**
+ * Empty the trash
+ *
+ * Permanently deletes every trashed expense. Cannot be undone.
+ *
+ * @returns Number of deleted expenses
+ * @throws {IndexedDBError} If database operation fails
+ */
+export async function emptyTrash(): Promise<number> {
+  return purgeTrash();
+}
+
+/**
+ * Purge expenses that have been in the trash longer than the retention period
+ *
+ * @param retentionDays - Days a trashed expense is kept before being purged
+ * @returns Number of purged expenses
+ * @throws {IndexedDBError} If database operation fails
+ *
+ * @example
+ * ```typescript
+ * const purged = await purgeExpiredTrash(30);
+ * ```
+ */
+export async function purgeExpiredTrash(retentionDays: number): Promise<number> {
+  const cutoff = new Date();
+  cutoff.setDate(cutoff.getDate() - retentionDays);
+  return purgeTrash(cutoff.toISOString());
+}
+
 /**
  * Get count of expenses matching filters
  *
@@ -0,0 +1,214 @@
+/**
+ * Expenses API Contract
+ *
+ * Shared by the `/api/expenses` route handlers and the HTTP repository:
+ * paths, filter (de)serialization and the JSON error format.
+ *
+ * @module domains/expenses/api-contract
+ */
+
+import type { ExpenseFilters } from './types';
+import { expenseFiltersSchema } from './schema';
+import {
+  ExpenseApiError,
+  ExpenseError,
+  ExpenseNotFoundError,
+  ExpenseOperationError,
+  ExpenseValidationError,
+  fromZodError
+} from './errors';
+
+/**
+ * Base path of the expenses API
+ */
+export const EXPENSES_API_PATH = '/api/expenses';
+
+/**
+ * Path of the sync endpoint (push and pull in one request)
+ */
+export const SYNC_API_PATH = '/api/sync';
+
+/**
+ * JSON body of every failed API response
+ */
+export interface ExpenseApiErrorBody {
+  error: {
+    code: string;
+    message: string;
+    context?: Record<string, unknown>;
+  };
+}
+
+/**
+ * Serialize filters as query string parameters
+ * (`categories` is repeated as `category`, `tags` as `tag`, `excludeTerms`
+ * as `exclude`, `exchangeRates` as `rate=FROM,TO,YYYY-MM-DD,RATE`)
+ */
+export function filtersToSearchParams(
+  filters: ExpenseFilters
+): URLSearchParams {
+  const params = new URLSearchParams();
+
+  filters.categories?.forEach(category => params.append('category', category));
+  filters.tags?.forEach(tag => params.append('tag', tag));
+  if (filters.tagMatch) params.set('tagMatch', filters.tagMatch);
+  if (filters.dateFrom) params.set('dateFrom', filters.dateFrom);
+  if (filters.dateTo) params.set('dateTo', filters.dateTo);
+  if (filters.searchQuery) params.set('searchQuery', filters.searchQuery);
+  filters.excludeTerms?.forEach(term => params.append('exclude', term));
+  if (filters.amountMin !== undefined)
+    params.set('amountMin', String(filters.amountMin));
+  if (filters.amountMax !== undefined)
+    params.set('amountMax', String(filters.amountMax));
+  if (filters.amountCurrency)
+    params.set('amountCurrency', filters.amountCurrency);
+  filters.exchangeRates?.forEach(({ from, to, date, rate }) =>
+    params.append('rate', [from, to, date, rate].join(','))
+  );
+  if (filters.sortBy) params.set('sortBy', filters.sortBy);
+  if (filters.sortOrder) params.set('sortOrder', filters.sortOrder);
+  if (filters.limit !== undefined) params.set('limit', String(filters.limit));
+  if (filters.offset !== undefined)
+    params.set('offset', String(filters.offset));
+  if (filters.cursor) params.set('cursor', filters.cursor);
+  if (filters.groupBy) params.set('groupBy', filters.groupBy);
+
+  return params;
+}
+
+/**
+ * Parse and validate filters from query string parameters
+ *
+ * @param params - Request search params
+ * @returns Validated filters
+ * @throws {ExpenseValidationError} If a parameter is invalid
+ */
+export function searchParamsToFilters(params: URLSearchParams): ExpenseFilters {
+  const numberParam = (name: string) =>
+    params.has(name) ? Number(params.get(name)) : undefined;
+
+  const result = expenseFiltersSchema.safeParse({
+    categories: params.has('category') ? params.getAll('category') : undefined,
+    tags: params.has('tag') ? params.getAll('tag') : undefined,
+    tagMatch: params.get('tagMatch') ?? undefined,
+    dateFrom: params.get('dateFrom') ?? undefined,
+    dateTo: params.get('dateTo') ?? undefined,
+    searchQuery: params.get('searchQuery') ?? undefined,
+    excludeTerms: params.has('exclude') ? params.getAll('exclude') : undefined,
+    amountMin: numberParam('amountMin'),
+    amountMax: numberParam('amountMax'),
+    amountCurrency: params.get('amountCurrency') ?? undefined,
+    exchangeRates: params.has('rate')
+      ? params.getAll('rate').map(value => {
+          const [from, to, date, rate] = value.split(',');
+          return { from, to, date, rate: Number(rate) };
+        })
+      : undefined,
+    sortBy: params.get('sortBy') ?? undefined,
+    sortOrder: params.get('sortOrder') ?? undefined,
+    limit: numberParam('limit'),
+    offset: numberParam('offset'),
+    cursor: params.get('cursor') ?? undefined,
+    groupBy: params.get('groupBy') ?? undefined
+  });
+
+  if (!result.success) {
+    throw fromZodError(result.error);
+  }
+  return result.data;
+}
+
+/**
+ * Map a domain error to its HTTP status
+ */
+function getErrorStatus(error: unknown): number {
+  if (error instanceof ExpenseValidationError) return 400;
+  if (error instanceof ExpenseNotFoundError) return 404;
+  if (error instanceof ExpenseOperationError) return 409;
+  return 500;
+}
+
+/**
+ * Build the JSON response for a failed request (server side)
+ *
+ * @param error - Error thrown by an action
+ * @returns Response with the matching status and an `ExpenseApiErrorBody`
+ */
+export function toErrorResponse(error: unknown): Response {
+  const body: ExpenseApiErrorBody = {
+    error:
+      error instanceof ExpenseError
+        ? { code: error.code, message: error.message, context: error.context }
+        : { code: 'INTERNAL_ERROR', message: 'Internal server error' }
+  };
+
+  return Response.json(body, { status: getErrorStatus(error) });
+}
+
+/**
+ * Rebuild the domain error from a failed response (client side)
+ *
+ * @param response - Non-OK response from the expenses API
+ * @returns The matching domain error, or ExpenseApiError
+ */
+export async function fromErrorResponse(response: Response): Promise<Error> {
+  const body = (await response
+    .json()
+    .catch(() => null)) as ExpenseApiErrorBody | null;
+  const { code, message, context } = body?.error ?? {
+    code: 'UNKNOWN',
+    message: response.statusText
+  };
+
+  switch (code) {
+    case 'EXPENSE_VALIDATION_ERROR':
+      return new ExpenseValidationError(
+        message,
+        (context?.validationErrors as Record<string, string[]>) ?? {}
+      );
+    case 'EXPENSE_NOT_FOUND':
+      return new ExpenseNotFoundError(String(context?.expenseId ?? ''));
+    case 'EXPENSE_OPERATION_ERROR':
+      return new ExpenseOperationError(
+        String(context?.operation ?? 'complete request'),
+        String(context?.reason ?? message),
+        context
+      );
+    default:
+      return new ExpenseApiError(message, response.status, { code });
+  }
+}
+
+/**
+ * Send a request to the expenses API and parse the JSON response (client side)
+ *
+ * @param url - Full URL of the endpoint
+ * @param init - Fetch options
+ * @returns Parsed body (undefined for 204 responses)
+ * @throws {ExpenseApiError} If the server cannot be reached or fails
+ * @throws {ExpenseValidationError} If the server rejects the payload
+ */
+export async function requestExpensesApi<T>(
+  url: string,
+  init?: RequestInit
+): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', ...init?.headers }
+    });
+  } catch (error) {
+    throw new ExpenseApiError('Expenses API unreachable', 0, {
+      url,
+      originalError: error instanceof Error ? error.message : String(error)
+    });
+  }
+
+  if (!response.ok) {
+    throw await fromErrorResponse(response);
+  }
+  return response.status === 204
+    ? (undefined as T)
+    : ((await response.json()) as T);
+}
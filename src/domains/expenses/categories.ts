@@ -0,0 +1,430 @@
+/**
+ * Expense Categories
+ *
+ * User-defined categories, stored by the active repository next to the
+ * expenses (IndexedDB `categories` store, or the server in server mode).
+ * Local writes land in the category change log and sync like expenses.
+ *
+ * Categories are archived rather than deleted while they are still useful
+ * for history: archived categories keep rendering on their expenses but are
+ * no longer offered in pickers. Deleting a category moves its expenses to
+ * another one first.
+ *
+ * Categories nest one level deep (Comida → Restaurantes, Supermercado):
+ * expenses go to leaves, filtering by a parent includes its subcategories,
+ * and totals can roll up to the parent.
+ *
+ * @module domains/expenses/categories
+ */
+
+import type {
+  CategoryDefinition,
+  CategoryInput,
+  ExpenseCategory
+} from './types';
+import { categoryInputSchema } from './schema';
+import { ExpenseValidationError, IndexedDBError, fromZodError } from './errors';
+import { reassignExpenseCategory } from './actions';
+import { getExpenseRepository } from './repository';
+
+/**
+ * Built-in categories (seeded by the v8 migration)
+ *
+ * Their names double as IDs, so expenses recorded before categories were
+ * editable keep pointing at them. Also seeded by the in-memory repository
+ * and the SQLite server.
+ */
+export const DEFAULT_CATEGORIES: readonly CategoryDefinition[] = (
+  [
+    ['Comida', 'orange', 'utensils'],
+    ['Transporte', 'blue', 'car'],
+    ['Entretenimiento', 'purple', 'gamepad'],
+    ['Salud', 'green', 'heart'],
+    ['Compras', 'pink', 'shopping-bag'],
+    ['Servicios', 'cyan', 'briefcase'],
+    ['Otros', 'gray', 'package']
+  ] as const
+).map(([id, color, icon]) => ({
+  id,
+  name: id,
+  color,
+  icon,
+  parentId: null,
+  archivedAt: null,
+  createdAt: new Date(0).toISOString(),
+  updatedAt: new Date(0).toISOString()
+}));
+
+/**
+ * Category preselected for new expenses (when it is active)
+ */
+export const DEFAULT_CATEGORY_ID: ExpenseCategory = 'Otros';
+
+/**
+ * Check if a category is archived
+ */
+export function isArchived(
+  category: Pick<CategoryDefinition, 'archivedAt'>
+): boolean {
+  return category.archivedAt !== null;
+}
+
+/**
+ * Sort categories by name
+ */
+function sortCategories(
+  categories: CategoryDefinition[]
+): CategoryDefinition[] {
+  return categories.sort((a, b) => a.name.localeCompare(b.name, 'es'));
+}
+
+/**
+ * Find a category by ID
+ *
+ * Expenses can reference a category this device does not know yet (e.g.
+ * one created on another device, pulled before the next category load): it
+ * shows as a gray placeholder named after its ID.
+ */
+export function findCategory(
+  categories: readonly CategoryDefinition[],
+  id: ExpenseCategory
+): CategoryDefinition {
+  return (
+    categories.find(category => category.id === id) ?? {
+      id,
+      name: id,
+      color: 'gray',
+      icon: 'package',
+      parentId: null,
+      archivedAt: null,
+      createdAt: new Date(0).toISOString(),
+      updatedAt: new Date(0).toISOString()
+    }
+  );
+}
+
+/**
+ * A top-level category and its subcategories
+ */
+export interface CategoryTreeNode {
+  category: CategoryDefinition;
+  children: CategoryDefinition[];
+}
+
+/**
+ * Arrange categories as parents followed by their subcategories
+ *
+ * Keeps the order of `categories` on both levels. A subcategory whose
+ * parent is not in the list is shown at the top level.
+ */
+export function buildCategoryTree(
+  categories: readonly CategoryDefinition[]
+): CategoryTreeNode[] {
+  const ids = new Set(categories.map(category => category.id));
+  const isTopLevel = (category: CategoryDefinition) =>
+    category.parentId === null || !ids.has(category.parentId);
+
+  return categories.filter(isTopLevel).map(category => ({
+    category,
+    children: categories.filter(
+      child => !isTopLevel(child) && child.parentId === category.id
+    )
+  }));
+}
+
+/**
+ * Check if expenses can be assigned to a category: it is active and has no
+ * active subcategories
+ */
+export function isAssignable(
+  categories: readonly CategoryDefinition[],
+  category: CategoryDefinition
+): boolean {
+  return (
+    !isArchived(category) &&
+    !categories.some(
+      child => child.parentId === category.id && !isArchived(child)
+    )
+  );
+}
+
+/**
+ * Add the subcategories of each category (archived included)
+ *
+ * Used to filter by a parent: its expenses and its subcategories' ones.
+ *
+ * @example
+ * ```typescript
+ * withSubcategories(categories, ['Comida']);
+ * // ['Comida', 'restaurantes-id', 'supermercado-id']
+ * ```
+ */
+export function withSubcategories(
+  categories: readonly CategoryDefinition[],
+  ids: readonly ExpenseCategory[]
+): ExpenseCategory[] {
+  const expanded = new Set(ids);
+  categories.forEach(category => {
+    if (category.parentId !== null && expanded.has(category.parentId)) {
+      expanded.add(category.id);
+    }
+  });
+  return [...expanded];
+}
+
+/**
+ * Category that a category's totals roll up to (its parent, or itself)
+ */
+export function getRollupCategoryId(
+  categories: readonly CategoryDefinition[],
+  id: ExpenseCategory
+): ExpenseCategory {
+  return findCategory(categories, id).parentId ?? id;
+}
+
+/**
+ * Validate category fields against the other categories
+ *
+ * @returns Validated fields with the name trimmed
+ * @throws {ExpenseValidationError} If a field is invalid, the name is taken
+ * or the parent cannot hold subcategories
+ */
+function validateCategoryInput(
+  input: CategoryInput,
+  categories: CategoryDefinition[],
+  id: string | null = null
+): CategoryInput {
+  const result = categoryInputSchema.safeParse(input);
+  if (!result.success) {
+    throw fromZodError(result.error);
+  }
+
+  const name = result.data.name.toLocaleLowerCase();
+  if (
+    categories.some(
+      category =>
+        category.id !== id && category.name.toLocaleLowerCase() === name
+    )
+  ) {
+    const message = 'Ya existe una categoría con ese nombre';
+    throw new ExpenseValidationError(message, { name: [message] });
+  }
+
+  const { parentId } = result.data;
+  if (parentId !== null) {
+    const parent = categories.find(category => category.id === parentId);
+    const message = !parent
+      ? 'La categoría principal ya no existe'
+      : parent.id === id || parent.parentId !== null
+        ? 'Elige una categoría principal sin categoría superior'
+        : categories.some(category => id !== null && category.parentId === id)
+          ? 'Una categoría con subcategorías no puede ser subcategoría'
+          : null;
+
+    if (message) {
+      throw new ExpenseValidationError(message, { parentId: [message] });
+    }
+  }
+  return result.data;
+}
+
+/**
+ * Find a category or fail with a validation error
+ */
+function requireCategory(
+  categories: CategoryDefinition[],
+  id: string
+): CategoryDefinition {
+  const category = categories.find(candidate => candidate.id === id);
+  if (!category) {
+    const message = 'La categoría ya no existe';
+    throw new ExpenseValidationError(message, { id: [message] }, { id });
+  }
+  return category;
+}
+
+/**
+ * Save a category record
+ */
+async function putCategory(
+  category: CategoryDefinition,
+  operation: string
+): Promise<CategoryDefinition> {
+  try {
+    const repository = await getExpenseRepository();
+    await repository.commitCategories({ put: [category] });
+    return category;
+  } catch (error) {
+    throw new IndexedDBError(
+      `Failed to ${operation} category`,
+      'write',
+      error instanceof Error ? error : undefined,
+      { id: category.id }
+    );
+  }
+}
+
+/**
+ * Get all categories (archived included), sorted by name
+ *
+ * @throws {IndexedDBError} If database operation fails
+ */
+export async function getCategories(): Promise<CategoryDefinition[]> {
+  try {
+    const repository = await getExpenseRepository();
+    return sortCategories(await repository.getCategories());
+  } catch (error) {
+    throw new IndexedDBError(
+      'Failed to get categories',
+      'read',
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
+/**
+ * Create a category
+ *
+ * @returns Created category
+ * @throws {ExpenseValidationError} If a field is invalid or the name is taken
+ * @throws {IndexedDBError} If database operation fails
+ *
+ * @example
+ * ```typescript
+ * const category = await createCategory({
+ *   name: 'Mascotas',
+ *   color: 'amber',
+ *   icon: 'paw-print'
+ * });
+ * ```
+ */
+export async function createCategory(
+  input: CategoryInput
+): Promise<CategoryDefinition> {
+  const categories = await getCategories();
+  const now = new Date().toISOString();
+
+  return putCategory(
+    {
+      id: crypto.randomUUID(),
+      ...validateCategoryInput(input, categories),
+      archivedAt: null,
+      createdAt: now,
+      updatedAt: now
+    },
+    'create'
+  );
+}
+
+/**
+ * Rename, recolor or change the icon of a category
+ *
+ * @param changes - Fields to change (the rest are kept)
+ * @returns Updated category
+ * @throws {ExpenseValidationError} If the category is gone or a field is invalid
+ * @throws {IndexedDBError} If database operation fails
+ */
+export async function updateCategory(
+  id: string,
+  changes: Partial<CategoryInput>
+): Promise<CategoryDefinition> {
+  const categories = await getCategories();
+  const category = requireCategory(categories, id);
+  const { name, color, icon, parentId } = { ...category, ...changes };
+
+  return putCategory(
+    {
+      ...category,
+      ...validateCategoryInput({ name, color, icon, parentId }, categories, id),
+      updatedAt: new Date().toISOString()
+    },
+    'update'
+  );
+}
+
+/**
+ * Archive a category (hide it from pickers) or bring it back
+ *
+ * @param archived - True to archive, false to restore
+ * @returns Updated category
+ * @throws {ExpenseValidationError} If the category is gone or it is the last active one
+ * @throws {IndexedDBError} If database operation fails
+ */
+export async function setCategoryArchived(
+  id: string,
+  archived: boolean
+): Promise<CategoryDefinition> {
+  const categories = await getCategories();
+  const category = requireCategory(categories, id);
+
+  if (
+    archived &&
+    !categories.some(other => other.id !== id && !isArchived(other))
+  ) {
+    const message = 'Debe quedar al menos una categoría activa';
+    throw new ExpenseValidationError(message, { id: [message] }, { id });
+  }
+
+  const now = new Date().toISOString();
+  return putCategory(
+    { ...category, archivedAt: archived ? now : null, updatedAt: now },
+    archived ? 'archive' : 'restore'
+  );
+}
+
+/**
+ * Delete a category, moving its expenses to another one first
+ *
+ * Its subcategories become top-level categories.
+ *
+ * @param id - Category to delete
+ * @param replacementId - Assignable category that receives its expenses
+ * @returns Number of expenses moved
+ * @throws {ExpenseValidationError} If either category is gone, or the replacement is not valid
+ * @throws {IndexedDBError} If database operation fails
+ *
+ * @example
+ * ```typescript
+ * const moved = await deleteCategory(category.id, 'Otros');
+ * ```
+ */
+export async function deleteCategory(
+  id: string,
+  replacementId: string
+): Promise<number> {
+  const categories = await getCategories();
+  requireCategory(categories, id);
+  const replacement = requireCategory(categories, replacementId);
+
+  const remaining = categories.filter(category => category.id !== id);
+  if (replacement.id === id || !isAssignable(remaining, replacement)) {
+    const message = 'Elige otra categoría activa para sus gastos';
+    throw new ExpenseValidationError(
+      message,
+      { replacementId: [message] },
+      { id, replacementId }
+    );
+  }
+
+  // Expenses first: if this fails the category is still there to retry
+  const moved = await reassignExpenseCategory(id, replacement.id);
+
+  try {
+    const repository = await getExpenseRepository();
+    const now = new Date().toISOString();
+    await repository.commitCategories({
+      put: remaining
+        .filter(category => category.parentId === id)
+        .map(category => ({ ...category, parentId: null, updatedAt: now })),
+      delete: [id]
+    });
+    return moved;
+  } catch (error) {
+    throw new IndexedDBError(
+      'Failed to delete category',
+      'delete',
+      error instanceof Error ? error : undefined,
+      { id }
+    );
+  }
+}
@@ -0,0 +1,67 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  createExpense,
+  createExpenses,
+  deleteExpenses,
+  getExpenseById,
+  updateExpense
+} from './actions';
+import { createCategory, setCategoryArchived } from './categories';
+import { bulkDeleteExpensesCommand, updateExpenseCommand } from './commands';
+import { setExpenseRepository } from './repository';
+import { createMemoryExpenseRepository } from './repositories/memory-repository';
+import type { ExpenseRepository } from './types';
+
+const DINNER = {
+  description: 'Cena en el centro',
+  amount: 450,
+  category: 'Salud',
+  date: '2025-03-14T20:00:00.000Z'
+};
+
+let repository: ExpenseRepository;
+
+describe('expense undo commands', () => {
+  beforeEach(() => {
+    repository = createMemoryExpenseRepository();
+    setExpenseRepository(repository);
+  });
+
+  it('undoes an edit whose earlier category was archived since', async () => {
+    const pets = await createCategory({
+      name: 'Mascotas',
+      color: 'amber',
+      icon: 'paw-print',
+      parentId: null
+    });
+    const before = await createExpense({ ...DINNER, category: pets.id });
+    const after = await updateExpense(before.id, { category: 'Salud' });
+    await setCategoryArchived(pets.id, true);
+
+    const command = updateExpenseCommand(before, after);
+    await command.undo();
+    expect(await getExpenseById(before.id)).toMatchObject({
+      category: pets.id
+    });
+
+    await command.redo();
+    expect(await getExpenseById(before.id)).toMatchObject({
+      category: 'Salud'
+    });
+  });
+
+  it('restores a bulk delete in a single write', async () => {
+    const { succeeded } = await createExpenses([DINNER, DINNER, DINNER]);
+    const { succeeded: trashed } = await deleteExpenses(
+      succeeded.map(({ id }) => id)
+    );
+    const commit = vi.spyOn(repository, 'commit');
+
+    await bulkDeleteExpensesCommand(trashed).undo();
+
+    expect(commit).toHaveBeenCalledTimes(1);
+    for (const { id } of trashed) {
+      expect(await getExpenseById(id)).toMatchObject({ deletedAt: null });
+    }
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Expense Undo Commands
+ *
+ * Factories that pair each expense mutation with its inverse so the
+ * undo/redo stack can replay them. Deletes are soft, so undoing a create
+ * moves the expense to the trash and undoing a delete restores it.
+ * Undoing an edit puts back the earlier values even when their category
+ * has been archived since.
+ *
+ * @module domains/expenses/commands
+ */
+
+'use client';
+
+import {
+  deleteExpense,
+  deleteExpenses,
+  restoreExpense,
+  restoreExpenses,
+  restoreExpenseValues
+} from './actions';
+import type { Expense, ExpenseCommand, UpdateExpenseInput } from './types';
+import { expensesTextMap } from './expenses.text-map';
+
+/**
+ * Pick the editable fields of an expense
+ */
+function toUpdateInput(expense: Expense): UpdateExpenseInput {
+  return {
+    description: expense.description,
+    amount: expense.amount,
+    currency: expense.currency,
+    category: expense.category,
+    date: expense.date,
+    tags: expense.tags
+  };
+}
+
+/**
+ * Put one expense back to the values of a snapshot
+ *
+ * @throws The item error when the expense cannot be updated
+ */
+async function restoreSnapshot(expense: Expense): Promise<void> {
+  const { errors } = await restoreExpenseValues([
+    { id: expense.id, input: toUpdateInput(expense) }
+  ]);
+  if (errors.length > 0) {
+    throw errors[0].error;
+  }
+}
+
+/**
+ * Build the label shown in undo/redo toasts
+ */
+function formatLabel(template: string, expense: Expense): string {
+  return template.replace('{description}', expense.description);
+}
+
+/**
+ * Command for a created expense
+ */
+export function createExpenseCommand(expense: Expense): ExpenseCommand {
+  return {
+    id: crypto.randomUUID(),
+    type: 'create',
+    expenseIds: [expense.id],
+    label: formatLabel(expensesTextMap.undoLabelCreate, expense),
+    undo: () => deleteExpense(expense.id),
+    redo: async () => {
+      await restoreExpense(expense.id);
+    }
+  };
+}
+
+/**
+ * Command for an updated expense
+ *
+ * @param before - Expense as it was before the update
+ * @param after - Expense as returned by the update
+ */
+export function updateExpenseCommand(
+  before: Expense,
+  after: Expense
+): ExpenseCommand {
+  return {
+    id: crypto.randomUUID(),
+    type: 'update',
+    expenseIds: [after.id],
+    label: formatLabel(expensesTextMap.undoLabelUpdate, after),
+    undo: () => restoreSnapshot(before),
+    redo: () => restoreSnapshot(after)
+  };
+}
+
+/**
+ * Command for a deleted (trashed) expense
+ */
+export function deleteExpenseCommand(expense: Expense): ExpenseCommand {
+  return {
+    id: crypto.randomUUID(),
+    type: 'delete',
+    expenseIds: [expense.id],
+    label: formatLabel(expensesTextMap.undoLabelDelete, expense),
+    undo: async () => {
+      await restoreExpense(expense.id);
+    },
+    redo: () => deleteExpense(expense.id)
+  };
+}
+
+/**
+ * Command for a bulk update
+ *
+ * @param before - Expenses as they were before the update
+ * @param after - Expenses as returned by the update
+ */
+export function bulkUpdateExpensesCommand(
+  before: Expense[],
+  after: Expense[]
+): ExpenseCommand {
+  const updatedIds = new Set(after.map(expense => expense.id));
+  const previous = before.filter(expense => updatedIds.has(expense.id));
+
+  return {
+    id: crypto.randomUUID(),
+    type: 'update',
+    expenseIds: after.map(expense => expense.id),
+    label: expensesTextMap.undoLabelBulkUpdate.replace(
+      '{count}',
+      String(after.length)
+    ),
+    undo: async () => {
+      await restoreExpenseValues(
+        previous.map(expense => ({
+          id: expense.id,
+          input: toUpdateInput(expense)
+        }))
+      );
+    },
+    redo: async () => {
+      await restoreExpenseValues(
+        after.map(expense => ({
+          id: expense.id,
+          input: toUpdateInput(expense)
+        }))
+      );
+    }
+  };
+}
+
+/**
+ * Command for a bulk delete (trash)
+ */
+export function bulkDeleteExpensesCommand(expenses: Expense[]): ExpenseCommand {
+  const ids = expenses.map(expense => expense.id);
+
+  return {
+    id: crypto.randomUUID(),
+    type: 'delete',
+    expenseIds: ids,
+    label: expensesTextMap.undoLabelBulkDelete.replace(
+      '{count}',
+      String(ids.length)
+    ),
+    undo: async () => {
+      await restoreExpenses(ids);
+    },
+    redo: async () => {
+      await deleteExpenses(ids);
+    }
+  };
+}
@@ -3,6 +3,7 @@
  *
  * Displays an expense category with color-coded badge.
  * Wraps shadcn Badge component with category-specific styling.
+ * Name, color and icon come from the user's categories (see `useCategory`).
  *
  * @module domains/expenses/components/atoms/category-badge
  */
@@ -10,18 +11,38 @@
 'use client';
 
 import {
-  UtensilsCrossed,
+  Baby,
+  Book,
+  Briefcase,
+  Bus,
   Car,
+  Coffee,
+  Dumbbell,
+  Film,
+  Fuel,
   Gamepad2,
+  Gift,
+  GraduationCap,
   Heart,
+  House,
+  Music,
+  Package,
+  PawPrint,
+  PiggyBank,
+  Plane,
+  Receipt,
+  Shirt,
   ShoppingBag,
-  Briefcase,
-  Package
+  Smartphone,
+  Stethoscope,
+  UtensilsCrossed,
+  Wifi,
+  Zap
 } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import { cn } from '@/lib/utils';
-import type { ExpenseCategory } from '../../types';
-import { expensesTextMap } from '../../expenses.text-map';
+import type { CategoryColor, CategoryIconName, ExpenseCategory } from '../../types';
+import { useCategory } from '../../hooks/use-category';
 
 export interface CategoryBadgeProps {
   /**
@@ -53,51 +74,55 @@ export interface CategoryBadgeProps {
 }
 
 /**
- * Category configuration with colors and icons
+ * Badge classes of each category color
+ * (full class names, so Tailwind keeps them)
  */
-const categoryConfig: Record<
-  ExpenseCategory,
-  {
-    label: string;
-    colors: string;
-    Icon: React.ComponentType<{ className?: string }>;
-  }
-> = {
-  Comida: {
-    label: expensesTextMap.categoryComida,
-    colors: 'bg-orange-100 text-orange-800 dark:bg-orange-900/20 dark:text-orange-400',
-    Icon: UtensilsCrossed,
-  },
-  Transporte: {
-    label: expensesTextMap.categoryTransporte,
-    colors: 'bg-blue-100 text-blue-800 dark:bg-blue-900/20 dark:text-blue-400',
-    Icon: Car,
-  },
-  Entretenimiento: {
-    label: expensesTextMap.categoryEntretenimiento,
-    colors: 'bg-purple-100 text-purple-800 dark:bg-purple-900/20 dark:text-purple-400',
-    Icon: Gamepad2,
-  },
-  Salud: {
-    label: expensesTextMap.categorySalud,
-    colors: 'bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-400',
-    Icon: Heart,
-  },
-  Compras: {
-    label: expensesTextMap.categoryCompras,
-    colors: 'bg-pink-100 text-pink-800 dark:bg-pink-900/20 dark:text-pink-400',
-    Icon: ShoppingBag,
-  },
-  Servicios: {
-    label: expensesTextMap.categoryServicios,
-    colors: 'bg-cyan-100 text-cyan-800 dark:bg-cyan-900/20 dark:text-cyan-400',
-    Icon: Briefcase,
-  },
-  Otros: {
-    label: expensesTextMap.categoryOtros,
-    colors: 'bg-gray-100 text-gray-800 dark:bg-gray-900/20 dark:text-gray-400',
-    Icon: Package,
-  },
+const colorClasses: Record<CategoryColor, string> = {
+  orange: 'bg-orange-100 text-orange-800 dark:bg-orange-900/20 dark:text-orange-400',
+  amber: 'bg-amber-100 text-amber-800 dark:bg-amber-900/20 dark:text-amber-400',
+  lime: 'bg-lime-100 text-lime-800 dark:bg-lime-900/20 dark:text-lime-400',
+  green: 'bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-400',
+  teal: 'bg-teal-100 text-teal-800 dark:bg-teal-900/20 dark:text-teal-400',
+  cyan: 'bg-cyan-100 text-cyan-800 dark:bg-cyan-900/20 dark:text-cyan-400',
+  blue: 'bg-blue-100 text-blue-800 dark:bg-blue-900/20 dark:text-blue-400',
+  indigo: 'bg-indigo-100 text-indigo-800 dark:bg-indigo-900/20 dark:text-indigo-400',
+  purple: 'bg-purple-100 text-purple-800 dark:bg-purple-900/20 dark:text-purple-400',
+  pink: 'bg-pink-100 text-pink-800 dark:bg-pink-900/20 dark:text-pink-400',
+  red: 'bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-400',
+  gray: 'bg-gray-100 text-gray-800 dark:bg-gray-900/20 dark:text-gray-400'
+};
+
+/**
+ * Icon component of each category icon
+ */
+const iconComponents: Record<CategoryIconName, React.ComponentType<{ className?: string }>> = {
+  utensils: UtensilsCrossed,
+  coffee: Coffee,
+  car: Car,
+  bus: Bus,
+  plane: Plane,
+  fuel: Fuel,
+  gamepad: Gamepad2,
+  film: Film,
+  music: Music,
+  heart: Heart,
+  stethoscope: Stethoscope,
+  dumbbell: Dumbbell,
+  'shopping-bag': ShoppingBag,
+  shirt: Shirt,
+  gift: Gift,
+  briefcase: Briefcase,
+  receipt: Receipt,
+  zap: Zap,
+  wifi: Wifi,
+  smartphone: Smartphone,
+  house: House,
+  'graduation-cap': GraduationCap,
+  book: Book,
+  'paw-print': PawPrint,
+  baby: Baby,
+  'piggy-bank': PiggyBank,
+  package: Package
 };
 
 /**
@@ -140,15 +165,15 @@ export function CategoryBadge({
   className,
   onClick,
 }: CategoryBadgeProps) {
-  const config = categoryConfig[category];
-  const { Icon } = config;
+  const config = useCategory(category);
+  const Icon = iconComponents[config.icon];
 
   return (
     <Badge
       variant="secondary"
       className={cn(
         'inline-flex items-center gap-1.5 font-medium transition-colors',
-        config.colors,
+        colorClasses[config.color],
         getSizeClasses(size),
         onClick && 'cursor-pointer hover:opacity-80',
         className
@@ -168,7 +193,7 @@ export function CategoryBadge({
       }
     >
       {showIcon && <Icon className="size-3.5" />}
-      <span>{config.label}</span>
+      <span>{config.name}</span>
     </Badge>
   );
 }
@@ -192,33 +217,38 @@ export function CategoryIcon({
   category,
   className,
 }: Pick<CategoryBadgeProps, 'category' | 'className'>) {
-  const config = categoryConfig[category];
-  const { Icon } = config;
+  const config = useCategory(category);
+  const Icon = iconComponents[config.icon];
 
   return (
-    <span title={config.label} aria-label={config.label}>
+    <span title={config.name} aria-label={config.name}>
       <Icon className={cn('size-4', className)} />
     </span>
   );
 }
 
 /**
- * Get category color classes (for custom implementations)
+ * Category name only (plain text)
+ * Useful where a badge would be too loud, e.g. inside sentences
  */
-export function getCategoryColors(category: ExpenseCategory): string {
-  return categoryConfig[category].colors;
+export function CategoryName({
+  category,
+  className
+}: Pick<CategoryBadgeProps, 'category' | 'className'>) {
+  const config = useCategory(category);
+  return <span className={className}>{config.name}</span>;
 }
 
 /**
- * Get category label (localized)
+ * Get category color classes (for custom implementations)
  */
-export function getCategoryLabel(category: ExpenseCategory): string {
-  return categoryConfig[category].label;
+export function getCategoryColorClasses(color: CategoryColor): string {
+  return colorClasses[color];
 }
 
 /**
  * Get category icon component
  */
-export function getCategoryIconComponent(category: ExpenseCategory): React.ComponentType<{ className?: string }> {
-  return categoryConfig[category].Icon;
+export function getCategoryIconComponent(icon: CategoryIconName): React.ComponentType<{ className?: string }> {
+  return iconComponents[icon];
 }
@@ -2,7 +2,7 @@
  * ExpenseAmount Atom Component
  *
  * Displays a formatted currency amount using Intl.NumberFormat.
- * Follows MXN (Mexican Peso) format by default.
+ * Defaults to the base currency chosen in settings (MXN unless changed).
  *
  * @module domains/expenses/components/atoms/expense-amount
  */
@@ -10,6 +10,9 @@
 'use client';
 
 import { cn } from '@/lib/utils';
+import { useBaseCurrency } from '@/domains/settings/stores/settings-store';
+import type { CurrencyCode } from '../../types';
+import { formatMoney } from '../../currencies';
 import { expensesTextMap } from '../../expenses.text-map';
 
 export interface ExpenseAmountProps {
@@ -20,9 +23,9 @@ export interface ExpenseAmountProps {
 
   /**
    * Currency code (ISO 4217)
-   * @default 'MXN'
+   * @default the base currency (settings)
    */
-  currency?: string;
+  currency?: CurrencyCode;
 
   /**
    * Size variant
@@ -48,24 +51,6 @@ export interface ExpenseAmountProps {
   showCurrency?: boolean;
 }
 
-/**
- * Format amount using Intl.NumberFormat
- */
-function formatAmount(
-  amount: number,
-  currency: string,
-  showCurrency: boolean
-): string {
-  const formatter = new Intl.NumberFormat('es-MX', {
-    style: showCurrency ? 'currency' : 'decimal',
-    currency: currency,
-    minimumFractionDigits: 2,
-    maximumFractionDigits: 2,
-  });
-
-  return formatter.format(amount);
-}
-
 /**
  * Get size classes
  */
@@ -119,17 +104,21 @@ function getVariantClasses(variant: ExpenseAmountProps['variant']): string {
  *
  * <ExpenseAmount amount={1250.50} showCurrency={false} />
  * // Output: 1,250.50
+ *
+ * <ExpenseAmount amount={expense.amount} currency={expense.currency} />
+ * // Output: USD 1,250.50
  * ```
  */
 export function ExpenseAmount({
   amount,
-  currency = 'MXN',
+  currency,
   size = 'md',
   variant = 'default',
   className,
   showCurrency = true,
 }: ExpenseAmountProps) {
-  const formattedAmount = formatAmount(amount, currency, showCurrency);
+  const baseCurrency = useBaseCurrency();
+  const formattedAmount = formatMoney(amount, currency ?? baseCurrency, showCurrency);
 
   return (
     <span
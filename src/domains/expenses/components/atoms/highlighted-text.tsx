@@ -0,0 +1,80 @@
+/**
+ * HighlightedText Atom Component
+ *
+ * Renders text with the words matched by a search query marked,
+ * using the same accent- and typo-tolerant rules as the search itself.
+ *
+ * @module domains/expenses/components/atoms/highlighted-text
+ */
+
+'use client';
+
+import * as React from 'react';
+import { cn } from '@/lib/utils';
+import { getSearchHighlights } from '../../search';
+
+export interface HighlightedTextProps {
+  /**
+   * Text to display
+   */
+  text: string;
+
+  /**
+   * Search query whose matches are highlighted (none when empty)
+   */
+  searchQuery?: string;
+
+  /**
+   * Additional CSS classes for the highlighted parts
+   */
+  markClassName?: string;
+}
+
+/**
+ * HighlightedText Component
+ *
+ * @example
+ * ```tsx
+ * <HighlightedText text="Café con leche" searchQuery="cafe" />
+ * // Output: <mark>Café</mark> con leche
+ * ```
+ */
+export function HighlightedText({
+  text,
+  searchQuery,
+  markClassName
+}: HighlightedTextProps) {
+  const highlights = React.useMemo(
+    () => (searchQuery ? getSearchHighlights(text, searchQuery) : []),
+    [text, searchQuery]
+  );
+
+  if (highlights.length === 0) {
+    return <>{text}</>;
+  }
+
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  highlights.forEach(({ start, end }) => {
+    if (start > position) {
+      parts.push(text.slice(position, start));
+    }
+    parts.push(
+      <mark
+        key={start}
+        className={cn(
+          'rounded-sm bg-yellow-200 px-0.5 text-inherit dark:bg-yellow-500/30',
+          markClassName
+        )}
+      >
+        {text.slice(start, end)}
+      </mark>
+    );
+    position = end;
+  });
+  if (position < text.length) {
+    parts.push(text.slice(position));
+  }
+
+  return <>{parts}</>;
+}
@@ -0,0 +1,90 @@
+/**
+ * TagChip Atom Component
+ *
+ * Displays an expense tag as a small `#tag` chip, optionally removable.
+ *
+ * @module domains/expenses/components/atoms/tag-chip
+ */
+
+'use client';
+
+import { X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { formatTag } from '../../tags';
+import { expensesTextMap } from '../../expenses.text-map';
+
+export interface TagChipProps {
+  /**
+   * Normalized tag (without `#`)
+   */
+  tag: string;
+
+  /**
+   * Remove handler (shows a remove button)
+   */
+  onRemove?: () => void;
+
+  /**
+   * Additional CSS classes
+   */
+  className?: string;
+}
+
+/**
+ * TagChip Component
+ *
+ * @example
+ * ```tsx
+ * <TagChip tag="trabajo" />
+ * <TagChip tag="regalo" onRemove={() => removeTag('regalo')} />
+ * ```
+ */
+export function TagChip({ tag, onRemove, className }: TagChipProps) {
+  return (
+    <Badge variant="secondary" className={cn('font-normal', className)}>
+      {formatTag(tag)}
+      {onRemove && (
+        <button
+          type="button"
+          onClick={(e) => {
+            e.stopPropagation();
+            onRemove();
+          }}
+          className="-mr-1 rounded-full p-0.5 hover:bg-foreground/10"
+          aria-label={expensesTextMap.removeTag.replace('{tag}', formatTag(tag))}
+        >
+          <X className="size-3" />
+        </button>
+      )}
+    </Badge>
+  );
+}
+
+/**
+ * Tags of an expense as a row of chips (renders nothing without tags)
+ *
+ * @example
+ * ```tsx
+ * <TagList tags={expense.tags} />
+ * ```
+ */
+export function TagList({
+  tags,
+  className
+}: {
+  tags: string[];
+  className?: string;
+}) {
+  if (tags.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className={cn('flex flex-wrap gap-1', className)}>
+      {tags.map((tag) => (
+        <TagChip key={tag} tag={tag} />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,229 @@
+/**
+ * AmountRangeFilter Molecule Component
+ *
+ * Two-thumb slider plus min/max inputs for filtering by amount.
+ * The slider spans the amounts present in the data; a thumb at either end
+ * means that side is unbounded.
+ *
+ * @module domains/expenses/components/molecules/amount-range-filter
+ */
+
+'use client';
+
+import * as React from 'react';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+import type { AmountRange } from '../../types';
+import { ExpenseAmount } from '../atoms/expense-amount';
+import { expensesTextMap } from '../../expenses.text-map';
+
+export interface AmountRangeFilterProps {
+  /**
+   * Current amount range filter (null = unbounded)
+   */
+  amountRange: AmountRange;
+
+  /**
+   * Smallest and largest amount in the data (null while unknown)
+   */
+  bounds: AmountRange | null;
+
+  /**
+   * Amount range change handler
+   */
+  onAmountRangeChange: (range: AmountRange) => void;
+
+  /**
+   * Debounce delay in milliseconds
+   * @default 300
+   */
+  debounceMs?: number;
+
+  /**
+   * Disabled state
+   * @default false
+   */
+  disabled?: boolean;
+
+  /**
+   * Additional CSS classes
+   */
+  className?: string;
+}
+
+/**
+ * Native range input restyled as a slider thumb (the track is drawn separately)
+ */
+const thumbClasses = cn(
+  'pointer-events-none absolute inset-0 h-5 w-full appearance-none bg-transparent focus-visible:outline-none',
+  '[&::-webkit-slider-thumb]:pointer-events-auto [&::-webkit-slider-thumb]:size-4 [&::-webkit-slider-thumb]:cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:border-2 [&::-webkit-slider-thumb]:border-primary [&::-webkit-slider-thumb]:bg-background',
+  '[&::-moz-range-thumb]:pointer-events-auto [&::-moz-range-thumb]:size-4 [&::-moz-range-thumb]:cursor-pointer [&::-moz-range-thumb]:rounded-full [&::-moz-range-thumb]:border-2 [&::-moz-range-thumb]:border-primary [&::-moz-range-thumb]:bg-background'
+);
+
+/**
+ * Parse a number input (empty = unbounded)
+ */
+function parseInput(value: string): number | null {
+  if (value.trim() === '') {
+    return null;
+  }
+  const amount = Number(value);
+  return Number.isFinite(amount) && amount >= 0 ? amount : null;
+}
+
+/**
+ * AmountRangeFilter Component
+ *
+ * @example
+ * ```tsx
+ * const bounds = useExpenseAmountBounds(filters);
+ *
+ * <AmountRangeFilter
+ *   amountRange={amountRange}
+ *   bounds={bounds}
+ *   onAmountRangeChange={setAmountRange}
+ * />
+ * ```
+ */
+export function AmountRangeFilter({
+  amountRange,
+  bounds,
+  onAmountRangeChange,
+  debounceMs = 300,
+  disabled = false,
+  className
+}: AmountRangeFilterProps) {
+  const [localRange, setLocalRange] = React.useState(amountRange);
+  const timeoutRef = React.useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+
+  // Sync local value with prop value
+  React.useEffect(() => {
+    setLocalRange(amountRange);
+  }, [amountRange]);
+
+  // Cleanup timeout on unmount
+  React.useEffect(() => {
+    return () => {
+      if (timeoutRef.current) {
+        clearTimeout(timeoutRef.current);
+      }
+    };
+  }, []);
+
+  // The slider covers the data and any bound typed outside of it
+  const domain = React.useMemo(() => {
+    if (!bounds || bounds.min === null || bounds.max === null) {
+      return null;
+    }
+    const min = Math.floor(Math.min(bounds.min, localRange.min ?? Infinity));
+    const max = Math.ceil(Math.max(bounds.max, localRange.max ?? -Infinity));
+    return { min, max: Math.max(max, min + 1) };
+  }, [bounds, localRange.min, localRange.max]);
+
+  const step = domain && domain.max - domain.min >= 100 ? 1 : 0.01;
+
+  // Debounced onAmountRangeChange
+  const handleChange = (range: AmountRange) => {
+    setLocalRange(range);
+
+    if (timeoutRef.current) {
+      clearTimeout(timeoutRef.current);
+    }
+    timeoutRef.current = setTimeout(() => {
+      onAmountRangeChange(range);
+    }, debounceMs);
+  };
+
+  // Thumbs at the ends of the slider mean "no bound"
+  const handleSliderChange = (side: 'min' | 'max', value: number) => {
+    if (!domain) return;
+
+    const low = localRange.min ?? domain.min;
+    const high = localRange.max ?? domain.max;
+    if (side === 'min') {
+      const min = Math.min(value, high);
+      handleChange({ ...localRange, min: min <= domain.min ? null : min });
+    } else {
+      const max = Math.max(value, low);
+      handleChange({ ...localRange, max: max >= domain.max ? null : max });
+    }
+  };
+
+  const low = localRange.min ?? domain?.min ?? 0;
+  const high = localRange.max ?? domain?.max ?? 0;
+  const toPercent = (value: number) =>
+    domain ? ((value - domain.min) / (domain.max - domain.min)) * 100 : 0;
+
+  return (
+    <div className={cn('space-y-3', className)}>
+      {/* Slider */}
+      {domain && (
+        <div className="relative h-5">
+          <div className="absolute top-1/2 h-1.5 w-full -translate-y-1/2 rounded-full bg-secondary" />
+          <div
+            className="absolute top-1/2 h-1.5 -translate-y-1/2 rounded-full bg-primary"
+            style={{ left: `${toPercent(low)}%`, right: `${100 - toPercent(high)}%` }}
+          />
+          <input
+            type="range"
+            min={domain.min}
+            max={domain.max}
+            step={step}
+            value={low}
+            disabled={disabled}
+            onChange={(e) => handleSliderChange('min', Number(e.target.value))}
+            aria-label={expensesTextMap.amountMinLabel}
+            className={thumbClasses}
+          />
+          <input
+            type="range"
+            min={domain.min}
+            max={domain.max}
+            step={step}
+            value={high}
+            disabled={disabled}
+            onChange={(e) => handleSliderChange('max', Number(e.target.value))}
+            aria-label={expensesTextMap.amountMaxLabel}
+            className={thumbClasses}
+          />
+        </div>
+      )}
+
+      {/* Current range */}
+      <p className="text-xs text-muted-foreground">
+        {localRange.min === null && localRange.max === null && expensesTextMap.amountAny}
+        {localRange.min !== null && localRange.max === null && '≥ '}
+        {localRange.min === null && localRange.max !== null && '≤ '}
+        {localRange.min !== null && <ExpenseAmount amount={low} size="sm" className="text-xs" />}
+        {localRange.min !== null && localRange.max !== null && ' – '}
+        {localRange.max !== null && <ExpenseAmount amount={high} size="sm" className="text-xs" />}
+      </p>
+
+      {/* Exact bounds */}
+      <div className="grid grid-cols-2 gap-2">
+        <Input
+          type="number"
+          inputMode="decimal"
+          min={0}
+          step="0.01"
+          value={localRange.min ?? ''}
+          placeholder={domain ? String(domain.min) : expensesTextMap.amountMinLabel}
+          disabled={disabled}
+          onChange={(e) => handleChange({ ...localRange, min: parseInput(e.target.value) })}
+          aria-label={expensesTextMap.amountMinLabel}
+        />
+        <Input
+          type="number"
+          inputMode="decimal"
+          min={0}
+          step="0.01"
+          value={localRange.max ?? ''}
+          placeholder={domain ? String(domain.max) : expensesTextMap.amountMaxLabel}
+          disabled={disabled}
+          onChange={(e) => handleChange({ ...localRange, max: parseInput(e.target.value) })}
+          aria-label={expensesTextMap.amountMaxLabel}
+        />
+      </div>
+    </div>
+  );
+}
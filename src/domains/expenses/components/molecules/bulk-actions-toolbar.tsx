@@ -0,0 +1,206 @@
+/**
+ * BulkActionsToolbar Molecule Component
+ *
+ * Toolbar shown in selection mode: selection count, select all / clear,
+ * and bulk recategorize, date shift and delete actions.
+ *
+ * @module domains/expenses/components/molecules/bulk-actions-toolbar
+ */
+
+'use client';
+
+import * as React from 'react';
+import { CalendarClock, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger
+} from '@/components/ui/popover';
+import {
+  Select,
+  SelectContent,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import type { ExpenseCategory } from '../../types';
+import { useCategories } from '../../hooks/use-categories';
+import { CategorySelectItems } from './category-select-items';
+import { expensesTextMap } from '../../expenses.text-map';
+
+export interface BulkActionsToolbarProps {
+  /**
+   * Number of selected expenses
+   */
+  selectedCount: number;
+
+  /**
+   * Number of selectable expenses (currently loaded)
+   */
+  totalCount: number;
+
+  /**
+   * Select every loaded expense
+   */
+  onSelectAll: () => void;
+
+  /**
+   * Clear the selection
+   */
+  onClearSelection: () => void;
+
+  /**
+   * Move the selection to a category
+   */
+  onRecategorize: (category: ExpenseCategory) => void;
+
+  /**
+   * Shift the date of the selection by a number of days (negative = earlier)
+   */
+  onShiftDate: (days: number) => void;
+
+  /**
+   * Move the selection to the trash
+   */
+  onDelete: () => void;
+
+  /**
+   * Disable actions (while a bulk mutation is running)
+   * @default false
+   */
+  isLoading?: boolean;
+
+  /**
+   * Additional CSS classes
+   */
+  className?: string;
+}
+
+/**
+ * BulkActionsToolbar Component
+ *
+ * @example
+ * ```tsx
+ * <BulkActionsToolbar
+ *   selectedCount={selectedIds.length}
+ *   totalCount={expenses.length}
+ *   onSelectAll={selectAll}
+ *   onClearSelection={clearSelection}
+ *   onRecategorize={category => recategorize(category)}
+ *   onShiftDate={days => shiftDates(days)}
+ *   onDelete={deleteSelected}
+ * />
+ * ```
+ */
+export function BulkActionsToolbar({
+  selectedCount,
+  totalCount,
+  onSelectAll,
+  onClearSelection,
+  onRecategorize,
+  onShiftDate,
+  onDelete,
+  isLoading = false,
+  className
+}: BulkActionsToolbarProps) {
+  const [shiftDays, setShiftDays] = React.useState('1');
+  const [isShiftOpen, setIsShiftOpen] = React.useState(false);
+  const { assignableCategories } = useCategories();
+
+  const disabled = isLoading || selectedCount === 0;
+  const parsedShiftDays = Number.parseInt(shiftDays, 10);
+
+  const handleShift = () => {
+    if (!Number.isFinite(parsedShiftDays) || parsedShiftDays === 0) {
+      return;
+    }
+    onShiftDate(parsedShiftDays);
+    setIsShiftOpen(false);
+  };
+
+  return (
+    <div
+      className={cn(
+        'bg-card flex flex-wrap items-center gap-2 rounded-lg border p-3',
+        className
+      )}
+    >
+      <span className="mr-auto text-sm font-medium">
+        {expensesTextMap.selectedCount.replace(
+          '{count}',
+          String(selectedCount)
+        )}
+      </span>
+
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={selectedCount === totalCount ? onClearSelection : onSelectAll}
+        disabled={isLoading || totalCount === 0}
+      >
+        {selectedCount === totalCount
+          ? expensesTextMap.clearSelection
+          : expensesTextMap.selectAll}
+      </Button>
+
+      <Select
+        value=""
+        onValueChange={value => onRecategorize(value as ExpenseCategory)}
+        disabled={disabled}
+      >
+        <SelectTrigger size="sm" className="w-44">
+          <SelectValue placeholder={expensesTextMap.bulkRecategorize} />
+        </SelectTrigger>
+        <SelectContent>
+          <CategorySelectItems options={assignableCategories} />
+        </SelectContent>
+      </Select>
+
+      <Popover open={isShiftOpen} onOpenChange={setIsShiftOpen}>
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="sm" disabled={disabled}>
+            <CalendarClock className="size-4" />
+            {expensesTextMap.bulkShiftDate}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-56 space-y-3" align="end">
+          <div className="space-y-2">
+            <Label htmlFor="bulk-shift-days">
+              {expensesTextMap.bulkShiftDays}
+            </Label>
+            <Input
+              id="bulk-shift-days"
+              type="number"
+              step={1}
+              value={shiftDays}
+              onChange={event => setShiftDays(event.target.value)}
+            />
+          </div>
+          <Button
+            size="sm"
+            className="w-full"
+            onClick={handleShift}
+            disabled={
+              !Number.isFinite(parsedShiftDays) || parsedShiftDays === 0
+            }
+          >
+            {expensesTextMap.bulkShiftApply}
+          </Button>
+        </PopoverContent>
+      </Popover>
+
+      <Button
+        variant="destructive"
+        size="sm"
+        onClick={onDelete}
+        disabled={disabled}
+      >
+        <Trash2 className="size-4" />
+        {expensesTextMap.bulkDelete}
+      </Button>
+    </div>
+  );
+}
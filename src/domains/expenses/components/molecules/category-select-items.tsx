@@ -0,0 +1,99 @@
+/**
+ * CategorySelectItems Molecule Component
+ *
+ * Options of a category Select, with subcategories grouped under their
+ * parent. Parents that are not options themselves show as group labels.
+ *
+ * @module domains/expenses/components/molecules/category-select-items
+ */
+
+'use client';
+
+import * as React from 'react';
+import {
+  SelectGroup,
+  SelectItem,
+  SelectLabel
+} from '@/components/ui/select';
+import type { CategoryDefinition } from '../../types';
+import { useCategories } from '../../hooks/use-categories';
+import { getCategoryIconComponent } from '../atoms/category-badge';
+
+export interface CategorySelectItemsProps {
+  /**
+   * Categories that can be picked
+   */
+  options: CategoryDefinition[];
+}
+
+/**
+ * Option with the category icon and name
+ */
+function CategoryOption({
+  category,
+  indent = false
+}: {
+  category: CategoryDefinition;
+  indent?: boolean;
+}) {
+  const Icon = getCategoryIconComponent(category.icon);
+
+  return (
+    <SelectItem value={category.id} className={indent ? 'pl-6' : undefined}>
+      <Icon className="size-4" />
+      <span>{category.name}</span>
+    </SelectItem>
+  );
+}
+
+/**
+ * CategorySelectItems Component
+ *
+ * @example
+ * ```tsx
+ * <Select value={category} onValueChange={setCategory}>
+ *   <SelectTrigger>
+ *     <SelectValue />
+ *   </SelectTrigger>
+ *   <SelectContent>
+ *     <CategorySelectItems options={assignableCategories} />
+ *   </SelectContent>
+ * </Select>
+ * ```
+ */
+export function CategorySelectItems({ options }: CategorySelectItemsProps) {
+  const { categoryTree } = useCategories();
+  const optionIds = new Set(options.map(option => option.id));
+
+  return (
+    <>
+      {categoryTree.map(({ category, children }) => {
+        const childOptions = children.filter(child => optionIds.has(child.id));
+        const isOption = optionIds.has(category.id);
+
+        if (childOptions.length === 0) {
+          return isOption ? (
+            <CategoryOption key={category.id} category={category} />
+          ) : null;
+        }
+
+        const Icon = getCategoryIconComponent(category.icon);
+        return (
+          <SelectGroup key={category.id}>
+            {isOption ? (
+              <CategoryOption category={category} />
+            ) : (
+              <SelectLabel className="flex items-center gap-2">
+                <Icon className="size-4" />
+                {category.name}
+              </SelectLabel>
+            )}
+            {childOptions.map(child => (
+              <CategoryOption key={child.id} category={child} indent />
+            ))}
+          </SelectGroup>
+        );
+      })}
+    </>
+  );
+}
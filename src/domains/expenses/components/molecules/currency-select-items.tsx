@@ -0,0 +1,56 @@
+/**
+ * CurrencySelectItems Molecule Component
+ *
+ * Options of a currency Select: the common currencies, plus any other code
+ * already in use (e.g. on an expense synced from another device).
+ *
+ * @module domains/expenses/components/molecules/currency-select-items
+ */
+
+'use client';
+
+import * as React from 'react';
+import { SelectItem } from '@/components/ui/select';
+import type { CurrencyCode } from '../../types';
+import { CURRENCIES, getCurrencyName } from '../../currencies';
+import { expensesTextMap } from '../../expenses.text-map';
+
+export interface CurrencySelectItemsProps {
+  /**
+   * Codes that must be offered even if they are not common ones
+   * (the current value)
+   * @default []
+   */
+  include?: readonly CurrencyCode[];
+}
+
+/**
+ * CurrencySelectItems Component
+ *
+ * @example
+ * ```tsx
+ * <Select value={currency} onValueChange={setCurrency}>
+ *   <SelectTrigger>
+ *     <SelectValue />
+ *   </SelectTrigger>
+ *   <SelectContent>
+ *     <CurrencySelectItems include={[currency]} />
+ *   </SelectContent>
+ * </Select>
+ * ```
+ */
+export function CurrencySelectItems({ include = [] }: CurrencySelectItemsProps) {
+  const codes = [...new Set([...CURRENCIES, ...include])];
+
+  return (
+    <>
+      {codes.map(code => (
+        <SelectItem key={code} value={code}>
+          {expensesTextMap.currencyOption
+            .replace('{code}', code)
+            .replace('{name}', getCurrencyName(code))}
+        </SelectItem>
+      ))}
+    </>
+  );
+}
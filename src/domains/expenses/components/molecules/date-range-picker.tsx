@@ -2,7 +2,8 @@
  * DateRangePicker Molecule Component
  *
  * Date range picker with calendar popover.
- * Supports selecting start and end dates for filtering.
+ * Presets pick a relative range ("Últimos 30 días"), the calendar picks
+ * fixed dates (see `date-range.ts`).
  *
  * @module domains/expenses/components/molecules/date-range-picker
  */
@@ -16,19 +17,20 @@ import { Calendar } from '@/components/ui/calendar';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
-import type { DateRange } from '../../types';
+import type { DateRangeFilter, RelativeDateRange } from '../../types';
 import { expensesTextMap } from '../../expenses.text-map';
+import { RELATIVE_DATE_RANGES, getDateRangeKey, resolveDateRange } from '../../date-range';
 
 export interface DateRangePickerProps {
   /**
    * Date range value
    */
-  dateRange?: DateRange;
+  dateRange?: DateRangeFilter;
 
   /**
    * Date range change handler
    */
-  onDateRangeChange?: (range: DateRange) => void;
+  onDateRangeChange?: (range: DateRangeFilter) => void;
 
   /**
    * Placeholder text
@@ -76,67 +78,65 @@ export interface DateRangePickerProps {
   showPresets?: boolean;
 }
 
+/**
+ * Label of an all-time or relative range ("Últimos 30 días")
+ */
+export function getDateRangeLabel(range: { type: 'allTime' } | RelativeDateRange): string {
+  switch (range.type) {
+    case 'allTime':
+      return expensesTextMap.presetAllTime;
+    case 'lastDays':
+      return range.days === 1
+        ? expensesTextMap.presetToday
+        : expensesTextMap.presetLastDays.replace('{days}', String(range.days));
+    case 'thisMonth':
+      return expensesTextMap.presetThisMonth;
+    case 'lastMonth':
+      return expensesTextMap.presetLastMonth;
+    case 'thisQuarter':
+      return expensesTextMap.presetThisQuarter;
+    case 'yearToDate':
+      return expensesTextMap.presetYearToDate;
+    case 'thisYear':
+      return expensesTextMap.presetThisYear;
+  }
+}
+
 /**
  * Date range presets
  */
-function getPresets(): Array<{ label: string; range: DateRange }> {
-  const today = new Date();
-  const currentYear = today.getFullYear();
-  const currentMonth = today.getMonth();
+function getPresets(): Array<{ label: string; range: DateRangeFilter }> {
+  const lastYear = new Date().getFullYear() - 1;
 
   return [
-    {
-      label: expensesTextMap.presetToday || 'Hoy',
-      range: {
-        from: new Date(today.setHours(0, 0, 0, 0)),
-        to: new Date(today.setHours(23, 59, 59, 999)),
-      },
-    },
-    {
-      label: expensesTextMap.presetThisWeek || 'Esta semana',
-      range: {
-        from: new Date(today.setDate(today.getDate() - today.getDay())),
-        to: new Date(),
-      },
-    },
-    {
-      label: expensesTextMap.presetThisMonth || 'Este mes',
-      range: {
-        from: new Date(currentYear, currentMonth, 1),
-        to: new Date(currentYear, currentMonth + 1, 0, 23, 59, 59, 999),
-      },
-    },
-    {
-      label: expensesTextMap.presetThisYear || 'Este año',
-      range: {
-        from: new Date(currentYear, 0, 1),
-        to: new Date(currentYear, 11, 31, 23, 59, 59, 999),
-      },
-    },
-    {
-      label: expensesTextMap.presetLastMonth || 'Mes pasado',
-      range: {
-        from: new Date(currentYear, currentMonth - 1, 1),
-        to: new Date(currentYear, currentMonth, 0, 23, 59, 59, 999),
-      },
-    },
+    ...[{ type: 'allTime' } as const, ...RELATIVE_DATE_RANGES].map((range) => ({
+      label: getDateRangeLabel(range),
+      range
+    })),
     {
       label: expensesTextMap.presetLastYear || 'Año pasado',
       range: {
-        from: new Date(currentYear - 1, 0, 1),
-        to: new Date(currentYear - 1, 11, 31, 23, 59, 59, 999),
+        type: 'absolute',
+        from: new Date(lastYear, 0, 1),
+        to: new Date(lastYear, 11, 31, 23, 59, 59, 999)
       },
     },
   ];
 }
 
 /**
- * Format date range for display
+ * Format date range for display (empty for all time)
  */
-function formatDateRange(range?: DateRange): string {
-  if (!range?.from) {
+function formatDateRange(range?: DateRangeFilter): string {
+  if (!range || range.type === 'allTime') {
     return '';
   }
+  if (range.type !== 'absolute') {
+    return getDateRangeLabel(range);
+  }
+  if (!range.from) {
+    return range.to ? `- ${format(range.to, 'PP', { locale: es })}` : '';
+  }
 
   if (!range.to) {
     return format(range.from, 'PPP', { locale: es });
@@ -145,6 +145,16 @@ function formatDateRange(range?: DateRange): string {
   return `${format(range.from, 'PP', { locale: es })} - ${format(range.to, 'PP', { locale: es })}`;
 }
 
+/**
+ * Check if a preset is the current value
+ */
+function isSelectedPreset(preset: DateRangeFilter, value?: DateRangeFilter): boolean {
+  if (!value || preset.type === 'absolute' || value.type === 'absolute') {
+    return false;
+  }
+  return getDateRangeKey(preset) === getDateRangeKey(value);
+}
+
 /**
  * DateRangePicker Component
  *
@@ -152,7 +162,7 @@ function formatDateRange(range?: DateRange): string {
  *
  * @example
  * ```tsx
- * const [dateRange, setDateRange] = useState<DateRange>();
+ * const [dateRange, setDateRange] = useState<DateRangeFilter>({ type: 'allTime' });
  *
  * <DateRangePicker
  *   dateRange={dateRange}
@@ -210,8 +220,9 @@ export function DateRangePicker({
 
   const handleSelect = (range: { from?: Date; to?: Date } | undefined) => {
     if (range && range.from) {
-      // Convert react-day-picker DateRange (undefined) to our DateRange (null)
-      const convertedRange: DateRange = {
+      // Convert react-day-picker DateRange (undefined) to fixed dates (null)
+      const convertedRange: DateRangeFilter = {
+        type: 'absolute',
         from: range.from,
         to: range.to || null,
       };
@@ -219,12 +230,14 @@ export function DateRangePicker({
     }
   };
 
-  const handlePresetClick = (preset: DateRange) => {
+  const handlePresetClick = (preset: DateRangeFilter) => {
     onDateRangeChange?.(preset);
     setOpen(false);
   };
 
   const presets = showPresets ? getPresets() : [];
+  const label = formatDateRange(dateRange);
+  const selected = dateRange ? resolveDateRange(dateRange) : null;
 
   return (
     <Popover open={open} onOpenChange={setOpen}>
@@ -233,7 +246,7 @@ export function DateRangePicker({
           variant={variant}
           className={cn(
             'w-full justify-start text-left font-normal',
-            !dateRange?.from && 'text-muted-foreground',
+            !label && 'text-muted-foreground',
             className
           )}
           disabled={disabled}
@@ -256,11 +269,7 @@ export function DateRangePicker({
             <line x1="8" x2="8" y1="2" y2="6" />
             <line x1="3" x2="21" y1="10" y2="10" />
           </svg>
-          {dateRange?.from ? (
-            formatDateRange(dateRange)
-          ) : (
-            <span>{placeholder}</span>
-          )}
+          {label || <span>{placeholder}</span>}
         </Button>
       </PopoverTrigger>
       <PopoverContent className="w-auto p-0" align="start">
@@ -274,7 +283,7 @@ export function DateRangePicker({
               {presets.map((preset) => (
                 <Button
                   key={preset.label}
-                  variant="ghost"
+                  variant={isSelectedPreset(preset.range, dateRange) ? 'secondary' : 'ghost'}
                   size="sm"
                   className="justify-start font-normal"
                   onClick={() => handlePresetClick(preset.range)}
@@ -290,8 +299,8 @@ export function DateRangePicker({
             <Calendar
               mode="range"
               selected={
-                dateRange?.from
-                  ? { from: dateRange.from, to: dateRange.to || undefined }
+                selected?.from
+                  ? { from: selected.from, to: selected.to || undefined }
                   : undefined
               }
               onSelect={handleSelect}
@@ -2,7 +2,7 @@
  * ExpenseCard Molecule Component
  *
  * Displays a single expense item with description, amount, category, and date.
- * Composes atoms: ExpenseAmount, ExpenseDate, CategoryBadge.
+ * Composes atoms: ExpenseAmount, ExpenseDate, CategoryBadge, TagList.
  *
  * @module domains/expenses/components/molecules/expense-card
  */
@@ -16,6 +16,10 @@ import type { Expense } from '../../types';
 import { ExpenseAmount } from '../atoms/expense-amount';
 import { ExpenseDate, RelativeDate } from '../atoms/expense-date';
 import { CategoryBadge, CategoryIcon } from '../atoms/category-badge';
+import { HighlightedText } from '../atoms/highlighted-text';
+import { TagList } from '../atoms/tag-chip';
+import { useCurrencyConversion } from '../../hooks/use-currency-conversion';
+import { expensesTextMap } from '../../expenses.text-map';
 
 export interface ExpenseCardProps {
   /**
@@ -47,6 +51,11 @@ export interface ExpenseCardProps {
    */
   dateVariant?: 'short' | 'long' | 'numeric' | 'relative';
 
+  /**
+   * Search query whose matches are highlighted in the description
+   */
+  highlightQuery?: string;
+
   /**
    * Click handler
    */
@@ -62,6 +71,24 @@ export interface ExpenseCardProps {
    */
   onEdit?: () => void;
 
+  /**
+   * Show a selection checkbox (selection mode)
+   * Clicking the card toggles selection and edit/delete buttons are hidden.
+   * @default false
+   */
+  selectable?: boolean;
+
+  /**
+   * Selected state (selection mode)
+   * @default false
+   */
+  selected?: boolean;
+
+  /**
+   * Selection change handler (selection mode)
+   */
+  onSelectedChange?: (selected: boolean) => void;
+
   /**
    * Loading state
    * @default false
@@ -142,6 +169,25 @@ function ActionButtons({
   );
 }
 
+/**
+ * Amount in the base currency, under an amount paid in another currency
+ */
+function BaseCurrencyAmount({ expense }: { expense: Expense }) {
+  const { baseCurrency, toBaseCurrency } = useCurrencyConversion();
+  if (expense.currency === baseCurrency) {
+    return null;
+  }
+
+  const converted = toBaseCurrency(expense);
+  return converted === null ? (
+    <span className="text-xs text-muted-foreground">{expensesTextMap.noExchangeRate}</span>
+  ) : (
+    <span className="text-xs text-muted-foreground">
+      ≈ <ExpenseAmount amount={converted} size="sm" variant="muted" className="text-xs" />
+    </span>
+  );
+}
+
 /**
  * ExpenseCard - Default variant
  */
@@ -150,6 +196,7 @@ function DefaultExpenseCard({
   showCategory,
   showDate,
   dateVariant,
+  highlightQuery,
   onClick,
   onEdit,
   onDelete,
@@ -174,7 +221,9 @@ function DefaultExpenseCard({
 
           {/* Content */}
           <div className="flex-1 space-y-1.5">
-            <p className="font-medium leading-tight">{expense.description}</p>
+            <p className="font-medium leading-tight">
+              <HighlightedText text={expense.description} searchQuery={highlightQuery} />
+            </p>
             <div className="flex flex-wrap items-center gap-2">
               {showCategory && <CategoryBadge category={expense.category} size="sm" showIcon={false} />}
               {showDate && (
@@ -184,13 +233,17 @@ function DefaultExpenseCard({
                   size="sm"
                 />
               )}
+              <TagList tags={expense.tags} />
             </div>
           </div>
         </div>
 
         {/* Right: Amount + Actions */}
         <div className="flex flex-col items-end gap-2">
-          <ExpenseAmount amount={expense.amount} size="lg" />
+          <div className="flex flex-col items-end">
+            <ExpenseAmount amount={expense.amount} currency={expense.currency} size="lg" />
+            <BaseCurrencyAmount expense={expense} />
+          </div>
           {(onEdit || onDelete) && <ActionButtons onEdit={onEdit} onDelete={onDelete} />}
         </div>
       </div>
@@ -205,6 +258,7 @@ function CompactExpenseCard({
   expense,
   showCategory,
   showDate,
+  highlightQuery,
   onClick,
   className,
 }: ExpenseCardProps) {
@@ -220,13 +274,15 @@ function CompactExpenseCard({
       <div className="flex min-w-0 flex-1 items-center gap-2">
         <CategoryIcon category={expense.category} />
         <div className="min-w-0 flex-1">
-          <p className="truncate text-sm font-medium">{expense.description}</p>
+          <p className="truncate text-sm font-medium">
+            <HighlightedText text={expense.description} searchQuery={highlightQuery} />
+          </p>
           {showDate && <RelativeDate date={expense.date} className="text-xs" />}
         </div>
       </div>
       <div className="flex shrink-0 items-center gap-2">
         {showCategory && <CategoryIcon category={expense.category} />}
-        <ExpenseAmount amount={expense.amount} size="md" />
+        <ExpenseAmount amount={expense.amount} currency={expense.currency} size="md" />
       </div>
     </div>
   );
@@ -239,6 +295,7 @@ function DetailedExpenseCard({
   expense,
   showCategory,
   showDate,
+  highlightQuery,
   onClick,
   onEdit,
   onDelete,
@@ -261,10 +318,13 @@ function DetailedExpenseCard({
               <CategoryIcon category={expense.category} />
             </div>
             <div>
-              <h3 className="font-semibold">{expense.description}</h3>
+              <h3 className="font-semibold">
+                <HighlightedText text={expense.description} searchQuery={highlightQuery} />
+              </h3>
               {showCategory && (
                 <CategoryBadge category={expense.category} className="mt-1" />
               )}
+              <TagList tags={expense.tags} className="mt-2" />
             </div>
           </div>
           {(onEdit || onDelete) && <ActionButtons onEdit={onEdit} onDelete={onDelete} />}
@@ -272,7 +332,8 @@ function DetailedExpenseCard({
 
         {/* Amount */}
         <div className="flex items-baseline gap-2">
-          <ExpenseAmount amount={expense.amount} size="xl" />
+          <ExpenseAmount amount={expense.amount} currency={expense.currency} size="xl" />
+          <BaseCurrencyAmount expense={expense} />
         </div>
 
         {/* Metadata */}
@@ -322,9 +383,13 @@ export function ExpenseCard({
   showCategory = true,
   showDate = true,
   dateVariant = 'relative',
+  highlightQuery,
   onClick,
   onDelete,
   onEdit,
+  selectable = false,
+  selected = false,
+  onSelectedChange,
   isLoading = false,
   className,
 }: ExpenseCardProps) {
@@ -332,17 +397,55 @@ export function ExpenseCard({
     return <ExpenseCardSkeleton variant={variant} className={className} />;
   }
 
+  if (selectable) {
+    const selectionProps: ExpenseCardProps = {
+      expense,
+      showCategory,
+      showDate,
+      dateVariant,
+      highlightQuery,
+      onClick: () => onSelectedChange?.(!selected),
+      className: cn(className, selected && 'border-primary ring-1 ring-primary')
+    };
+
+    return (
+      <div className="flex items-center gap-3">
+        <input
+          type="checkbox"
+          checked={selected}
+          onChange={(e) => onSelectedChange?.(e.target.checked)}
+          aria-label={expensesTextMap.selectExpense}
+          className="size-4 shrink-0 cursor-pointer accent-primary"
+        />
+        <div className="min-w-0 flex-1">
+          {renderVariant(variant, selectionProps)}
+        </div>
+      </div>
+    );
+  }
+
   const props: ExpenseCardProps = {
     expense,
     showCategory,
     showDate,
     dateVariant,
+    highlightQuery,
     onClick,
     onEdit,
     onDelete,
     className,
   };
 
+  return renderVariant(variant, props);
+}
+
+/**
+ * Render the layout for a variant
+ */
+function renderVariant(
+  variant: ExpenseCardProps['variant'],
+  props: ExpenseCardProps
+) {
   switch (variant) {
     case 'compact':
       return <CompactExpenseCard {...props} />;
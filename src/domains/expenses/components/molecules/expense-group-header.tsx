@@ -0,0 +1,169 @@
+/**
+ * ExpenseGroupHeader Molecule Component
+ *
+ * Header of a group in the grouped ledger: group name, number of expenses
+ * and subtotal (over the full filtered set), and a collapse toggle.
+ *
+ * @module domains/expenses/components/molecules/expense-group-header
+ */
+
+'use client';
+
+import * as React from 'react';
+import { format, parseISO } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { AlertTriangle, ChevronDown } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { ExpenseGroupBy } from '../../types';
+import { useCategory } from '../../hooks/use-category';
+import { ExpenseAmount } from '../atoms/expense-amount';
+import { CategoryIcon } from '../atoms/category-badge';
+import { expensesTextMap } from '../../expenses.text-map';
+
+export interface ExpenseGroupHeaderProps {
+  /**
+   * Group key (see `ExpenseGroupSummary.key`)
+   */
+  groupKey: string;
+
+  /**
+   * Grouping the key belongs to
+   */
+  groupBy: ExpenseGroupBy;
+
+  /**
+   * Number of expenses in the group
+   */
+  count: number;
+
+  /**
+   * Sum of the amounts in the group, in the base currency
+   */
+  total: number;
+
+  /**
+   * Amounts left out of the total for lack of an exchange rate
+   * @default 0
+   */
+  unconvertedCount?: number;
+
+  /**
+   * Whether the group rows are hidden
+   * @default false
+   */
+  collapsed?: boolean;
+
+  /**
+   * Collapse toggle handler
+   */
+  onToggle?: () => void;
+
+  /**
+   * Additional CSS classes
+   */
+  className?: string;
+}
+
+/**
+ * Capitalize the first letter (date-fns writes Spanish names in lowercase)
+ */
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+/**
+ * Display name of a date group (category groups show the category name)
+ *
+ * @example
+ * ```typescript
+ * getExpenseGroupLabel('2025-03', 'month'); // 'Marzo 2025'
+ * getExpenseGroupLabel('2025-03-03', 'week'); // 'Semana del 3 mar 2025'
+ * ```
+ */
+export function getExpenseGroupLabel(key: string, groupBy: Exclude<ExpenseGroupBy, 'category'>): string {
+  switch (groupBy) {
+    case 'month':
+      return capitalize(format(parseISO(key), 'MMMM yyyy', { locale: es }));
+    case 'week':
+      return expensesTextMap.groupWeekOf.replace(
+        '{date}',
+        format(parseISO(key), 'd MMM yyyy', { locale: es })
+      );
+    case 'day':
+    default:
+      return capitalize(format(parseISO(key), "EEEE, d 'de' MMMM yyyy", { locale: es }));
+  }
+}
+
+/**
+ * ExpenseGroupHeader Component
+ *
+ * @example
+ * ```tsx
+ * <ExpenseGroupHeader
+ *   groupKey="2025-03"
+ *   groupBy="month"
+ *   count={12}
+ *   total={4350.5}
+ *   collapsed={collapsed}
+ *   onToggle={() => setCollapsed(!collapsed)}
+ * />
+ * ```
+ */
+export function ExpenseGroupHeader({
+  groupKey,
+  groupBy,
+  count,
+  total,
+  unconvertedCount = 0,
+  collapsed = false,
+  onToggle,
+  className
+}: ExpenseGroupHeaderProps) {
+  const category = useCategory(groupKey);
+  const parent = useCategory(category.parentId ?? groupKey);
+  const categoryLabel = category.parentId
+    ? expensesTextMap.categoryPath.replace('{parent}', parent.name).replace('{name}', category.name)
+    : category.name;
+  const label = groupBy === 'category' ? categoryLabel : getExpenseGroupLabel(groupKey, groupBy);
+
+  return (
+    <button
+      type="button"
+      onClick={onToggle}
+      aria-expanded={!collapsed}
+      aria-label={(collapsed ? expensesTextMap.expandGroup : expensesTextMap.collapseGroup).replace(
+        '{group}',
+        label
+      )}
+      className={cn(
+        'flex w-full items-center gap-2 rounded-md border bg-muted/95 px-3 py-2 text-left backdrop-blur supports-[backdrop-filter]:bg-muted/80',
+        className
+      )}
+    >
+      <ChevronDown
+        className={cn('size-4 shrink-0 transition-transform', collapsed && '-rotate-90')}
+        aria-hidden="true"
+      />
+      {groupBy === 'category' && <CategoryIcon category={groupKey} />}
+      <span className="min-w-0 flex-1 truncate text-sm font-semibold">{label}</span>
+      <span className="shrink-0 text-xs text-muted-foreground">
+        {count === 1
+          ? expensesTextMap.groupCountOne
+          : expensesTextMap.groupCount.replace('{count}', String(count))}
+      </span>
+      {unconvertedCount > 0 && (
+        <span
+          className="shrink-0 text-amber-600 dark:text-amber-400"
+          title={expensesTextMap.groupTotalPartial.replace('{count}', String(unconvertedCount))}
+        >
+          <AlertTriangle className="size-3.5" aria-hidden="true" />
+          <span className="sr-only">
+            {expensesTextMap.groupTotalPartial.replace('{count}', String(unconvertedCount))}
+          </span>
+        </span>
+      )}
+      <ExpenseAmount amount={total} size="sm" className="shrink-0 font-semibold" />
+    </button>
+  );
+}
@@ -1,8 +1,8 @@
 /**
  * SearchBar Molecule Component
  *
- * Search input with icon and clear button.
- * Used for filtering expenses by description.
+ * Search input with icon, clear button and optional autocomplete.
+ * Used for filtering expenses by description and the query syntax.
  *
  * @module domains/expenses/components/molecules/search-bar
  */
@@ -15,6 +15,18 @@ import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
 import { expensesTextMap } from '../../expenses.text-map';
 
+/**
+ * Autocomplete entry
+ * Accepting it replaces `value.slice(from, to)` with `insertText`.
+ */
+export interface SearchBarSuggestion {
+  label: string;
+  hint?: string;
+  insertText: string;
+  from: number;
+  to: number;
+}
+
 export interface SearchBarProps {
   /**
    * Search query value
@@ -60,6 +72,11 @@ export interface SearchBarProps {
    * @default false
    */
   autoFocus?: boolean;
+
+  /**
+   * Autocomplete entries for the text at the caret (no list when omitted)
+   */
+  getSuggestions?: (value: string, caret: number) => SearchBarSuggestion[];
 }
 
 /**
@@ -83,6 +100,12 @@ export interface SearchBarProps {
  *   debounceMs={500}
  *   autoFocus
  * />
+ *
+ * <SearchBar
+ *   value={queryText}
+ *   onChange={setQueryText}
+ *   getSuggestions={getExpenseQuerySuggestions}
+ * />
  * ```
  */
 export function SearchBar({
@@ -93,11 +116,22 @@ export function SearchBar({
   showClearButton = true,
   disabled = false,
   className,
+  getSuggestions,
   autoFocus = false,
 }: SearchBarProps) {
   const [localValue, setLocalValue] = React.useState(value);
+  const [caret, setCaret] = React.useState(0);
+  const [isListOpen, setIsListOpen] = React.useState(false);
+  const [activeIndex, setActiveIndex] = React.useState(0);
   const timeoutRef = React.useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
   const inputRef = React.useRef<HTMLInputElement>(null);
+  const listboxId = React.useId();
+
+  const suggestions = React.useMemo(
+    () => (getSuggestions && isListOpen ? getSuggestions(localValue, caret) : []),
+    [getSuggestions, isListOpen, localValue, caret]
+  );
+  const showSuggestions = suggestions.length > 0 && !disabled;
 
   // Sync local value with prop value
   React.useEffect(() => {
@@ -105,8 +139,11 @@ export function SearchBar({
   }, [value]);
 
   // Debounced onChange
-  const handleChange = (newValue: string) => {
+  const handleChange = (newValue: string, newCaret = newValue.length) => {
     setLocalValue(newValue);
+    setCaret(newCaret);
+    setIsListOpen(true);
+    setActiveIndex(0);
 
     // Clear existing timeout
     if (timeoutRef.current) {
@@ -119,6 +156,21 @@ export function SearchBar({
     }, debounceMs);
   };
 
+  // Replace the completed part and keep typing after it
+  const acceptSuggestion = (suggestion: SearchBarSuggestion) => {
+    const newValue =
+      localValue.slice(0, suggestion.from) +
+      suggestion.insertText +
+      localValue.slice(suggestion.to);
+    const newCaret = suggestion.from + suggestion.insertText.length;
+
+    handleChange(newValue, newCaret);
+    requestAnimationFrame(() => {
+      inputRef.current?.focus();
+      inputRef.current?.setSelectionRange(newCaret, newCaret);
+    });
+  };
+
   // Clear search
   const handleClear = () => {
     setLocalValue('');
@@ -137,6 +189,26 @@ export function SearchBar({
 
   // Keyboard shortcuts
   const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    // Navigate and accept suggestions
+    if (showSuggestions) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setActiveIndex((index) => (index + step + suggestions.length) % suggestions.length);
+        return;
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        acceptSuggestion(suggestions[Math.min(activeIndex, suggestions.length - 1)]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setIsListOpen(false);
+        return;
+      }
+    }
+
     // Clear on Escape
     if (e.key === 'Escape' && localValue) {
       e.preventDefault();
@@ -171,7 +243,9 @@ export function SearchBar({
         ref={inputRef}
         type="text"
         value={localValue}
-        onChange={(e) => handleChange(e.target.value)}
+        onChange={(e) => handleChange(e.target.value, e.target.selectionStart ?? e.target.value.length)}
+        onSelect={(e) => setCaret(e.currentTarget.selectionStart ?? 0)}
+        onBlur={() => setIsListOpen(false)}
         onKeyDown={handleKeyDown}
         placeholder={placeholder}
         disabled={disabled}
@@ -181,8 +255,46 @@ export function SearchBar({
           showClearButton && localValue && 'pr-10'
         )}
         aria-label={placeholder}
+        role={getSuggestions ? 'combobox' : undefined}
+        aria-autocomplete={getSuggestions ? 'list' : undefined}
+        aria-expanded={getSuggestions ? showSuggestions : undefined}
+        aria-controls={showSuggestions ? listboxId : undefined}
+        aria-activedescendant={showSuggestions ? `${listboxId}-${activeIndex}` : undefined}
       />
 
+      {/* Suggestions */}
+      {showSuggestions && (
+        <ul
+          id={listboxId}
+          role="listbox"
+          className="absolute left-0 right-0 top-full z-50 mt-1 max-h-64 overflow-auto rounded-md border bg-popover p-1 text-popover-foreground shadow-md"
+        >
+          {suggestions.map((suggestion, index) => (
+            <li
+              key={`${suggestion.label}-${index}`}
+              id={`${listboxId}-${index}`}
+              role="option"
+              aria-selected={index === activeIndex}
+              // Keep focus in the input
+              onMouseDown={(e) => {
+                e.preventDefault();
+                acceptSuggestion(suggestion);
+              }}
+              onMouseEnter={() => setActiveIndex(index)}
+              className={cn(
+                'flex cursor-pointer items-center justify-between gap-3 rounded-sm px-2 py-1.5 text-sm',
+                index === activeIndex && 'bg-accent text-accent-foreground'
+              )}
+            >
+              <span className="font-mono">{suggestion.label}</span>
+              {suggestion.hint && (
+                <span className="truncate text-xs text-muted-foreground">{suggestion.hint}</span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
       {/* Clear Button */}
       {showClearButton && localValue && !disabled && (
         <Button
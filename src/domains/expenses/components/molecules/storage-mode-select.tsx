@@ -0,0 +1,73 @@
+/**
+ * StorageModeSelect Molecule Component
+ *
+ * Lets the user choose where expenses are stored: this browser (IndexedDB)
+ * or the shared server (SQLite behind `/api/expenses`).
+ *
+ * @module domains/expenses/components/molecules/storage-mode-select
+ */
+
+'use client';
+
+import * as React from 'react';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import { useExpenseStorageMode } from '../../hooks/use-storage-mode';
+import type { ExpenseStorageMode } from '../../types';
+import { expensesTextMap } from '../../expenses.text-map';
+
+const STORAGE_MODE_LABELS: Record<ExpenseStorageMode, string> = {
+  local: expensesTextMap.storageModeLocal,
+  server: expensesTextMap.storageModeServer
+};
+
+export interface StorageModeSelectProps {
+  /**
+   * Additional CSS classes
+   */
+  className?: string;
+}
+
+/**
+ * StorageModeSelect Component
+ *
+ * Data is not copied when switching: each mode shows its own expenses.
+ *
+ * @example
+ * ```tsx
+ * <StorageModeSelect />
+ * ```
+ */
+export function StorageModeSelect({ className }: StorageModeSelectProps) {
+  const { storageMode, setStorageMode } = useExpenseStorageMode();
+
+  return (
+    <div className={cn('flex items-center gap-2', className)}>
+      <Label htmlFor="storage-mode" className="text-muted-foreground text-sm">
+        {expensesTextMap.storageModeLabel}
+      </Label>
+      <Select
+        value={storageMode}
+        onValueChange={value => setStorageMode(value as ExpenseStorageMode)}
+      >
+        <SelectTrigger id="storage-mode" className="w-48">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {Object.entries(STORAGE_MODE_LABELS).map(([mode, label]) => (
+            <SelectItem key={mode} value={mode}>
+              {label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
@@ -0,0 +1,235 @@
+/**
+ * TagInput Molecule Component
+ *
+ * Chip input for the tags of an expense, with autocomplete from the tags
+ * already in use.
+ *
+ * @module domains/expenses/components/molecules/tag-input
+ */
+
+'use client';
+
+import * as React from 'react';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+import { MAX_TAGS, formatTag, isValidTag, normalizeTag } from '../../tags';
+import { TagChip } from '../atoms/tag-chip';
+import { expensesTextMap } from '../../expenses.text-map';
+
+export interface TagInputProps {
+  /**
+   * Normalized tags
+   */
+  value: string[];
+
+  /**
+   * Change handler
+   */
+  onChange: (tags: string[]) => void;
+
+  /**
+   * Known tags offered as suggestions
+   * @default []
+   */
+  suggestions?: readonly string[];
+
+  /**
+   * Placeholder text
+   */
+  placeholder?: string;
+
+  /**
+   * Disabled state
+   * @default false
+   */
+  disabled?: boolean;
+
+  /**
+   * Input id (for the form label)
+   */
+  id?: string;
+
+  /**
+   * Additional CSS classes
+   */
+  className?: string;
+}
+
+/**
+ * TagInput Component
+ *
+ * Enter or comma adds the typed tag, Backspace on an empty input removes the
+ * last one. Typed text that is not a valid tag stays in the input.
+ *
+ * @example
+ * ```tsx
+ * const { tags: knownTags } = useExpenseTags();
+ *
+ * <TagInput value={tags} onChange={setTags} suggestions={knownTags} />
+ * ```
+ */
+export function TagInput({
+  value,
+  onChange,
+  suggestions = [],
+  placeholder = expensesTextMap.tagsPlaceholder,
+  disabled = false,
+  id,
+  className
+}: TagInputProps) {
+  const [draft, setDraft] = React.useState('');
+  const [isListOpen, setIsListOpen] = React.useState(false);
+  const [activeIndex, setActiveIndex] = React.useState(0);
+  const [error, setError] = React.useState<string | null>(null);
+  const listboxId = React.useId();
+
+  const isFull = value.length >= MAX_TAGS;
+  const prefix = normalizeTag(draft);
+  const matches = React.useMemo(
+    () =>
+      isListOpen && !isFull
+        ? suggestions
+            .filter(tag => tag.startsWith(prefix) && !value.includes(tag))
+            .slice(0, 8)
+        : [],
+    [isListOpen, isFull, suggestions, prefix, value]
+  );
+  const showSuggestions = matches.length > 0 && !disabled;
+
+  const addTag = (text: string) => {
+    const tag = normalizeTag(text);
+    if (!tag) {
+      return;
+    }
+    if (!isValidTag(tag)) {
+      setError(expensesTextMap.tagInvalid.replace('{tag}', formatTag(tag)));
+      return;
+    }
+    if (!value.includes(tag)) {
+      if (isFull) {
+        setError(expensesTextMap.tagsLimitReached.replace('{max}', String(MAX_TAGS)));
+        return;
+      }
+      onChange([...value, tag]);
+    }
+    setDraft('');
+    setError(null);
+    setActiveIndex(0);
+  };
+
+  const removeTag = (tag: string) => {
+    onChange(value.filter(other => other !== tag));
+    setError(null);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    // Navigate and accept suggestions
+    if (showSuggestions) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setActiveIndex(index => (index + step + matches.length) % matches.length);
+        return;
+      }
+      if ((e.key === 'Enter' || e.key === 'Tab') && prefix) {
+        e.preventDefault();
+        addTag(matches[Math.min(activeIndex, matches.length - 1)]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setIsListOpen(false);
+        return;
+      }
+    }
+
+    // Enter would submit the form
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      addTag(draft);
+      return;
+    }
+
+    if (e.key === 'Backspace' && !draft && value.length > 0) {
+      e.preventDefault();
+      removeTag(value[value.length - 1]);
+    }
+  };
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {value.map(tag => (
+            <TagChip
+              key={tag}
+              tag={tag}
+              onRemove={disabled ? undefined : () => removeTag(tag)}
+            />
+          ))}
+        </div>
+      )}
+
+      <div className="relative">
+        <Input
+          id={id}
+          type="text"
+          value={draft}
+          onChange={e => {
+            setDraft(e.target.value.replace(/,/g, ''));
+            setIsListOpen(true);
+            setActiveIndex(0);
+            setError(null);
+          }}
+          onFocus={() => setIsListOpen(true)}
+          onBlur={() => {
+            // Keep what was typed instead of dropping it silently
+            addTag(draft);
+            setIsListOpen(false);
+          }}
+          onKeyDown={handleKeyDown}
+          placeholder={placeholder}
+          disabled={disabled || isFull}
+          aria-invalid={error ? true : undefined}
+          role="combobox"
+          aria-autocomplete="list"
+          aria-expanded={showSuggestions}
+          aria-controls={showSuggestions ? listboxId : undefined}
+          aria-activedescendant={showSuggestions ? `${listboxId}-${activeIndex}` : undefined}
+        />
+
+        {/* Suggestions */}
+        {showSuggestions && (
+          <ul
+            id={listboxId}
+            role="listbox"
+            className="absolute left-0 right-0 top-full z-50 mt-1 max-h-48 overflow-auto rounded-md border bg-popover p-1 text-popover-foreground shadow-md"
+          >
+            {matches.map((tag, index) => (
+              <li
+                key={tag}
+                id={`${listboxId}-${index}`}
+                role="option"
+                aria-selected={index === activeIndex}
+                // Keep focus in the input
+                onMouseDown={e => {
+                  e.preventDefault();
+                  addTag(tag);
+                }}
+                onMouseEnter={() => setActiveIndex(index)}
+                className={cn(
+                  'cursor-pointer rounded-sm px-2 py-1.5 text-sm',
+                  index === activeIndex && 'bg-accent text-accent-foreground'
+                )}
+              >
+                {formatTag(tag)}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {error && <p className="text-destructive text-sm">{error}</p>}
+    </div>
+  );
+}
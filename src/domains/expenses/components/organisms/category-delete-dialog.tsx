@@ -0,0 +1,162 @@
+/**
+ * CategoryDeleteDialog Organism Component
+ *
+ * Confirms deleting a category and asks which category receives its
+ * expenses.
+ *
+ * @module domains/expenses/components/organisms/category-delete-dialog
+ */
+
+'use client';
+
+import * as React from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import type { CategoryDefinition } from '../../types';
+import { DEFAULT_CATEGORY_ID, isAssignable } from '../../categories';
+import { useExpenses } from '../../hooks/use-expenses';
+import { CategorySelectItems } from '../molecules/category-select-items';
+import { expensesTextMap } from '../../expenses.text-map';
+
+export interface CategoryDeleteDialogProps {
+  /**
+   * Category to delete (mount the dialog while it is set)
+   */
+  category: CategoryDefinition;
+
+  /**
+   * All categories (the ones expenses can be assigned to once this one is
+   * gone are offered to receive its expenses)
+   */
+  categories: CategoryDefinition[];
+
+  /**
+   * Open state change handler
+   */
+  onOpenChange: (open: boolean) => void;
+
+  /**
+   * Delete handler; reports its own errors and rejects to keep the dialog open
+   */
+  onDelete: (replacementId: string) => Promise<void>;
+}
+
+/**
+ * CategoryDeleteDialog Component
+ *
+ * @example
+ * ```tsx
+ * {deleting && (
+ *   <CategoryDeleteDialog
+ *     category={deleting}
+ *     categories={categories}
+ *     onOpenChange={() => setDeleting(null)}
+ *     onDelete={(replacementId) => deleteCategory(deleting.id, replacementId)}
+ *   />
+ * )}
+ * ```
+ */
+export function CategoryDeleteDialog({
+  category,
+  categories,
+  onOpenChange,
+  onDelete
+}: CategoryDeleteDialogProps) {
+  const remaining = categories.filter(other => other.id !== category.id);
+  const candidates = remaining.filter(other => isAssignable(remaining, other));
+  const [replacementId, setReplacementId] = React.useState(
+    () =>
+      candidates.find(candidate => candidate.id === DEFAULT_CATEGORY_ID)?.id ??
+      candidates[0]?.id ??
+      ''
+  );
+  const [isDeleting, setIsDeleting] = React.useState(false);
+
+  const { totalCount, isLoading } = useExpenses({
+    categories: [category.id],
+    limit: 1
+  });
+
+  const handleDelete = async () => {
+    try {
+      setIsDeleting(true);
+      await onDelete(replacementId);
+      onOpenChange(false);
+    } catch {
+      // Reported by onDelete
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[420px]">
+        <DialogHeader>
+          <DialogTitle>
+            {expensesTextMap.deleteCategoryTitle.replace(
+              '{name}',
+              category.name
+            )}
+          </DialogTitle>
+          <DialogDescription>
+            {expensesTextMap.deleteCategoryDescription}
+          </DialogDescription>
+        </DialogHeader>
+
+        <p className="text-muted-foreground text-sm">
+          {expensesTextMap.deleteCategoryExpenseCount.replace(
+            '{count}',
+            isLoading ? '…' : String(totalCount)
+          )}
+        </p>
+        {remaining.some(other => other.parentId === category.id) && (
+          <p className="text-muted-foreground text-sm">
+            {expensesTextMap.deleteCategoryChildrenNote}
+          </p>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="category-replacement">
+            {expensesTextMap.deleteCategoryReplacementLabel}
+          </Label>
+          <Select value={replacementId} onValueChange={setReplacementId}>
+            <SelectTrigger id="category-replacement" className="w-full">
+              <SelectValue placeholder={expensesTextMap.categoryPlaceholder} />
+            </SelectTrigger>
+            <SelectContent>
+              <CategorySelectItems options={candidates} />
+            </SelectContent>
+          </Select>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            {expensesTextMap.cancel}
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={handleDelete}
+            disabled={isDeleting || !replacementId}
+          >
+            {expensesTextMap.deleteCategoryButton}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,312 @@
+/**
+ * CategoryFormDialog Organism Component
+ *
+ * Dialog for creating a category or editing one: name, parent, color and
+ * icon, with a live preview of the badge.
+ *
+ * @module domains/expenses/components/organisms/category-form-dialog
+ */
+
+'use client';
+
+import * as React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import {
+  CATEGORY_COLORS,
+  CATEGORY_ICONS,
+  type CategoryColor,
+  type CategoryDefinition,
+  type CategoryInput
+} from '../../types';
+import { isArchived } from '../../categories';
+import { MAX_CATEGORY_NAME_LENGTH } from '../../schema';
+import { useCategories } from '../../hooks/use-categories';
+import {
+  getCategoryColorClasses,
+  getCategoryIconComponent
+} from '../atoms/category-badge';
+import { expensesTextMap } from '../../expenses.text-map';
+
+export interface CategoryFormDialogProps {
+  /**
+   * Whether the dialog is open (mount it while open, so every form starts
+   * from the category being edited)
+   */
+  open: boolean;
+
+  /**
+   * Open state change handler
+   */
+  onOpenChange: (open: boolean) => void;
+
+  /**
+   * Category to edit (omit to create one)
+   */
+  category?: CategoryDefinition | null;
+
+  /**
+   * Save handler; reports its own errors and rejects to keep the dialog open
+   */
+  onSave: (input: CategoryInput) => Promise<void>;
+}
+
+/**
+ * Select value for "no parent" (Select values cannot be empty)
+ */
+const NO_PARENT = 'none';
+
+/**
+ * Color names, for screen readers
+ */
+const colorLabels: Record<CategoryColor, string> = {
+  orange: expensesTextMap.categoryColorOrange,
+  amber: expensesTextMap.categoryColorAmber,
+  lime: expensesTextMap.categoryColorLime,
+  green: expensesTextMap.categoryColorGreen,
+  teal: expensesTextMap.categoryColorTeal,
+  cyan: expensesTextMap.categoryColorCyan,
+  blue: expensesTextMap.categoryColorBlue,
+  indigo: expensesTextMap.categoryColorIndigo,
+  purple: expensesTextMap.categoryColorPurple,
+  pink: expensesTextMap.categoryColorPink,
+  red: expensesTextMap.categoryColorRed,
+  gray: expensesTextMap.categoryColorGray
+};
+
+/**
+ * CategoryFormDialog Component
+ *
+ * @example
+ * ```tsx
+ * {editing && (
+ *   <CategoryFormDialog
+ *     open
+ *     onOpenChange={() => setEditing(null)}
+ *     category={editing}
+ *     onSave={(input) => updateCategory(editing.id, input)}
+ *   />
+ * )}
+ * ```
+ */
+export function CategoryFormDialog({
+  open,
+  onOpenChange,
+  category = null,
+  onSave
+}: CategoryFormDialogProps) {
+  const [name, setName] = React.useState(category?.name ?? '');
+  const [color, setColor] = React.useState<CategoryColor>(
+    category?.color ?? 'blue'
+  );
+  const [icon, setIcon] = React.useState(category?.icon ?? 'package');
+  const [parentId, setParentId] = React.useState(category?.parentId ?? null);
+  const [isSaving, setIsSaving] = React.useState(false);
+
+  // Parents are top-level; a category with subcategories stays top-level
+  const { categoryTree } = useCategories();
+  const hasChildren = categoryTree.some(
+    node => node.category.id === category?.id && node.children.length > 0
+  );
+  const parentOptions = categoryTree
+    .map(node => node.category)
+    .filter(
+      option =>
+        option.id !== category?.id &&
+        option.parentId === null &&
+        (!isArchived(option) || option.id === parentId)
+    );
+
+  const PreviewIcon = getCategoryIconComponent(icon);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    try {
+      setIsSaving(true);
+      await onSave({ name, color, icon, parentId });
+      onOpenChange(false);
+    } catch {
+      // Reported by onSave; keep the dialog open to fix the name
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>
+              {category
+                ? expensesTextMap.editCategory
+                : expensesTextMap.addCategory}
+            </DialogTitle>
+            <DialogDescription>
+              {expensesTextMap.categoryFormDescription}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="category-name">
+              {expensesTextMap.categoryNameLabel}
+            </Label>
+            <Input
+              id="category-name"
+              value={name}
+              maxLength={MAX_CATEGORY_NAME_LENGTH}
+              placeholder={expensesTextMap.categoryNamePlaceholder}
+              onChange={e => setName(e.target.value)}
+              autoFocus
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="category-parent">
+              {expensesTextMap.categoryParentLabel}
+            </Label>
+            <Select
+              value={parentId ?? NO_PARENT}
+              onValueChange={value =>
+                setParentId(value === NO_PARENT ? null : value)
+              }
+              disabled={hasChildren}
+            >
+              <SelectTrigger id="category-parent" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_PARENT}>
+                  {expensesTextMap.categoryNoParent}
+                </SelectItem>
+                {parentOptions.map(option => {
+                  const Icon = getCategoryIconComponent(option.icon);
+                  return (
+                    <SelectItem key={option.id} value={option.id}>
+                      <Icon className="size-4" />
+                      <span>{option.name}</span>
+                    </SelectItem>
+                  );
+                })}
+              </SelectContent>
+            </Select>
+            {hasChildren && (
+              <p className="text-muted-foreground text-xs">
+                {expensesTextMap.categoryParentLocked}
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label id="category-color-label">
+              {expensesTextMap.categoryColorLabel}
+            </Label>
+            <div
+              role="radiogroup"
+              aria-labelledby="category-color-label"
+              className="flex flex-wrap gap-2"
+            >
+              {CATEGORY_COLORS.map(option => (
+                <button
+                  key={option}
+                  type="button"
+                  role="radio"
+                  aria-checked={color === option}
+                  aria-label={colorLabels[option]}
+                  title={colorLabels[option]}
+                  onClick={() => setColor(option)}
+                  className={cn(
+                    'size-7 rounded-full border transition-shadow',
+                    getCategoryColorClasses(option),
+                    color === option &&
+                      'ring-2 ring-ring ring-offset-2 ring-offset-background'
+                  )}
+                />
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label id="category-icon-label">
+              {expensesTextMap.categoryIconLabel}
+            </Label>
+            <div
+              role="radiogroup"
+              aria-labelledby="category-icon-label"
+              className="grid grid-cols-9 gap-1"
+            >
+              {CATEGORY_ICONS.map(option => {
+                const Icon = getCategoryIconComponent(option);
+                return (
+                  <button
+                    key={option}
+                    type="button"
+                    role="radio"
+                    aria-checked={icon === option}
+                    aria-label={expensesTextMap.categoryIconOption.replace(
+                      '{icon}',
+                      option
+                    )}
+                    onClick={() => setIcon(option)}
+                    className={cn(
+                      'flex size-9 items-center justify-center rounded-md transition-colors hover:bg-accent',
+                      icon === option && getCategoryColorClasses(color)
+                    )}
+                  >
+                    <Icon className="size-4" />
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+
+          <div className="flex items-center gap-3">
+            <span className="text-sm text-muted-foreground">
+              {expensesTextMap.categoryPreviewLabel}
+            </span>
+            <span
+              className={cn(
+                'inline-flex items-center gap-1.5 rounded-md px-2.5 py-1 text-sm font-medium',
+                getCategoryColorClasses(color)
+              )}
+            >
+              <PreviewIcon className="size-3.5" />
+              {name.trim() || expensesTextMap.categoryNamePlaceholder}
+            </span>
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+            >
+              {expensesTextMap.cancel}
+            </Button>
+            <Button type="submit" disabled={isSaving || !name.trim()}>
+              {expensesTextMap.categorySaveButton}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,199 @@
+/**
+ * CategoryList Organism Component
+ *
+ * Displays the categories, active first and archived below, with edit,
+ * archive/restore and delete actions. Subcategories are indented under
+ * their parent.
+ *
+ * @module domains/expenses/components/organisms/category-list
+ */
+
+'use client';
+
+import * as React from 'react';
+import { Archive, ArchiveRestore, Pencil, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { cn } from '@/lib/utils';
+import type { CategoryDefinition } from '../../types';
+import { buildCategoryTree, isArchived, isAssignable } from '../../categories';
+import { CategoryBadge } from '../atoms/category-badge';
+import { expensesTextMap } from '../../expenses.text-map';
+
+export interface CategoryListProps {
+  /**
+   * Categories to display (archived included)
+   */
+  categories: CategoryDefinition[];
+
+  /**
+   * Loading state
+   * @default false
+   */
+  isLoading?: boolean;
+
+  /**
+   * Edit handler
+   */
+  onEdit: (category: CategoryDefinition) => void;
+
+  /**
+   * Archive handler
+   */
+  onArchive: (category: CategoryDefinition) => void;
+
+  /**
+   * Restore handler (archived categories)
+   */
+  onRestore: (category: CategoryDefinition) => void;
+
+  /**
+   * Delete handler
+   */
+  onDelete: (category: CategoryDefinition) => void;
+
+  /**
+   * Disable actions (while a mutation is running)
+   * @default false
+   */
+  disabled?: boolean;
+
+  /**
+   * Additional CSS classes
+   */
+  className?: string;
+}
+
+/**
+ * CategoryList Component
+ *
+ * @example
+ * ```tsx
+ * <CategoryList
+ *   categories={categories}
+ *   onEdit={setEditing}
+ *   onArchive={category => archiveCategory(category.id)}
+ *   onRestore={category => restoreCategory(category.id)}
+ *   onDelete={setDeleting}
+ * />
+ * ```
+ */
+export function CategoryList({
+  categories,
+  isLoading = false,
+  onEdit,
+  onArchive,
+  onRestore,
+  onDelete,
+  disabled = false,
+  className
+}: CategoryListProps) {
+  if (isLoading && categories.length === 0) {
+    return (
+      <div className={cn('space-y-2', className)}>
+        {Array.from({ length: 4 }).map((_, index) => (
+          <Skeleton key={index} className="h-14 w-full" />
+        ))}
+      </div>
+    );
+  }
+
+  const active = categories.filter(category => !isArchived(category));
+  const archived = categories.filter(isArchived);
+
+  // Deleting needs another category to receive the expenses
+  const canDelete = (category: CategoryDefinition) => {
+    const remaining = categories.filter(other => other.id !== category.id);
+    return remaining.some(other => isAssignable(remaining, other));
+  };
+
+  const renderRow = (category: CategoryDefinition, isChild = false) => {
+    const archivedRow = isArchived(category);
+
+    return (
+      <li
+        key={category.id}
+        className={cn(
+          'flex items-center justify-between gap-3 rounded-lg border px-4 py-3',
+          isChild && 'ml-6'
+        )}
+      >
+        <CategoryBadge
+          category={category.id}
+          className={cn(archivedRow && 'opacity-60')}
+        />
+        <div className="flex gap-1">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onEdit(category)}
+            disabled={disabled}
+          >
+            <Pencil className="size-4" />
+            <span className="sr-only sm:not-sr-only">
+              {expensesTextMap.editCategoryAction}
+            </span>
+          </Button>
+          {archivedRow ? (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onRestore(category)}
+              disabled={disabled}
+            >
+              <ArchiveRestore className="size-4" />
+              <span className="sr-only sm:not-sr-only">
+                {expensesTextMap.restoreCategory}
+              </span>
+            </Button>
+          ) : (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onArchive(category)}
+              disabled={disabled || active.length <= 1}
+            >
+              <Archive className="size-4" />
+              <span className="sr-only sm:not-sr-only">
+                {expensesTextMap.archiveCategory}
+              </span>
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onDelete(category)}
+            disabled={disabled || !canDelete(category)}
+            className="text-destructive hover:text-destructive"
+          >
+            <Trash2 className="size-4" />
+            <span className="sr-only sm:not-sr-only">
+              {expensesTextMap.deleteCategory}
+            </span>
+          </Button>
+        </div>
+      </li>
+    );
+  };
+
+  const renderTree = (section: CategoryDefinition[]) =>
+    buildCategoryTree(section).flatMap(({ category, children }) => [
+      renderRow(category),
+      ...children.map(child => renderRow(child, true))
+    ]);
+
+  return (
+    <div className={cn('space-y-6', className)}>
+      <ul className="space-y-2">{renderTree(active)}</ul>
+
+      {archived.length > 0 && (
+        <section className="space-y-2">
+          <h2 className="text-muted-foreground text-sm font-medium">
+            {expensesTextMap.categoriesArchivedSection}
+          </h2>
+          <ul className="space-y-2">{renderTree(archived)}</ul>
+        </section>
+      )}
+    </div>
+  );
+}
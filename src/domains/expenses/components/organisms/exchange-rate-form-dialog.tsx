@@ -0,0 +1,214 @@
+/**
+ * ExchangeRateFormDialog Organism Component
+ *
+ * Dialog for adding an exchange rate or editing one: currency pair, the
+ * day it applies from and the rate.
+ *
+ * @module domains/expenses/components/organisms/exchange-rate-form-dialog
+ */
+
+'use client';
+
+import * as React from 'react';
+import { format, parseISO } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import type {
+  CurrencyCode,
+  ExchangeRate,
+  ExchangeRateInput
+} from '../../types';
+import { CurrencySelectItems } from '../molecules/currency-select-items';
+import { DatePicker } from '../molecules/date-picker';
+import { expensesTextMap } from '../../expenses.text-map';
+
+export interface ExchangeRateFormDialogProps {
+  /**
+   * Whether the dialog is open (mount it while open, so every form starts
+   * from the rate being edited)
+   */
+  open: boolean;
+
+  /**
+   * Open state change handler
+   */
+  onOpenChange: (open: boolean) => void;
+
+  /**
+   * Rate to edit (omit to add one)
+   */
+  rate?: ExchangeRate | null;
+
+  /**
+   * Currency new rates convert to (the base currency)
+   */
+  defaultTo: CurrencyCode;
+
+  /**
+   * Save handler; reports its own errors and rejects to keep the dialog open
+   */
+  onSave: (input: ExchangeRateInput) => Promise<void>;
+}
+
+/**
+ * ExchangeRateFormDialog Component
+ *
+ * @example
+ * ```tsx
+ * {editing && (
+ *   <ExchangeRateFormDialog
+ *     open
+ *     onOpenChange={() => setEditing(null)}
+ *     rate={editing}
+ *     defaultTo={baseCurrency}
+ *     onSave={(input) => updateRate(editing.id, input)}
+ *   />
+ * )}
+ * ```
+ */
+export function ExchangeRateFormDialog({
+  open,
+  onOpenChange,
+  rate = null,
+  defaultTo,
+  onSave
+}: ExchangeRateFormDialogProps) {
+  const [from, setFrom] = React.useState(
+    rate?.from ?? (defaultTo === 'USD' ? 'EUR' : 'USD')
+  );
+  const [to, setTo] = React.useState(rate?.to ?? defaultTo);
+  const [date, setDate] = React.useState(
+    rate ? parseISO(rate.date) : new Date()
+  );
+  const [value, setValue] = React.useState(rate ? String(rate.rate) : '');
+  const [isSaving, setIsSaving] = React.useState(false);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    try {
+      setIsSaving(true);
+      await onSave({
+        from,
+        to,
+        date: format(date, 'yyyy-MM-dd'),
+        rate: parseFloat(value)
+      });
+      onOpenChange(false);
+    } catch {
+      // Reported by onSave; keep the dialog open to fix the rate
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[420px]">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>
+              {rate
+                ? expensesTextMap.editExchangeRate
+                : expensesTextMap.addExchangeRate}
+            </DialogTitle>
+            <DialogDescription>
+              {expensesTextMap.exchangeRateFormDescription}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="exchange-rate-from">
+                {expensesTextMap.exchangeRateFromLabel}
+              </Label>
+              <Select value={from} onValueChange={setFrom}>
+                <SelectTrigger id="exchange-rate-from" className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <CurrencySelectItems include={[from]} />
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="exchange-rate-to">
+                {expensesTextMap.exchangeRateToLabel}
+              </Label>
+              <Select value={to} onValueChange={setTo}>
+                <SelectTrigger id="exchange-rate-to" className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <CurrencySelectItems include={[to]} />
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="exchange-rate-value">
+              {expensesTextMap.exchangeRateValueLabel}
+            </Label>
+            <Input
+              id="exchange-rate-value"
+              type="number"
+              step="any"
+              min="0"
+              value={value}
+              onChange={e => setValue(e.target.value)}
+              onWheel={e => e.currentTarget.blur()}
+              autoFocus
+            />
+            <p className="text-muted-foreground text-xs">
+              {expensesTextMap.exchangeRateSummary
+                .replace('{from}', from)
+                .replace('{rate}', value || '…')
+                .replace('{to}', to)}
+            </p>
+          </div>
+
+          <div className="flex flex-col gap-2">
+            <Label>{expensesTextMap.exchangeRateDateLabel}</Label>
+            <DatePicker
+              date={date}
+              onDateChange={selected => selected && setDate(selected)}
+              minDate={new Date('1900-01-01')}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+            >
+              {expensesTextMap.cancel}
+            </Button>
+            <Button
+              type="submit"
+              disabled={isSaving || !(parseFloat(value) > 0) || from === to}
+            >
+              {expensesTextMap.exchangeRateSaveButton}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
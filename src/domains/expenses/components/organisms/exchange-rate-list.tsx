@@ -0,0 +1,157 @@
+/**
+ * ExchangeRateList Organism Component
+ *
+ * Displays the exchange rate table, newest first, with edit and delete
+ * actions.
+ *
+ * @module domains/expenses/components/organisms/exchange-rate-list
+ */
+
+'use client';
+
+import * as React from 'react';
+import { ArrowRightLeft, Pencil, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { cn } from '@/lib/utils';
+import type { ExchangeRate } from '../../types';
+import { ExpenseDate } from '../atoms/expense-date';
+import { expensesTextMap } from '../../expenses.text-map';
+
+export interface ExchangeRateListProps {
+  /**
+   * Rates to display (newest first)
+   */
+  rates: ExchangeRate[];
+
+  /**
+   * Loading state
+   * @default false
+   */
+  isLoading?: boolean;
+
+  /**
+   * Edit handler
+   */
+  onEdit: (rate: ExchangeRate) => void;
+
+  /**
+   * Delete handler
+   */
+  onDelete: (rate: ExchangeRate) => void;
+
+  /**
+   * Disable actions (while a mutation is running)
+   * @default false
+   */
+  disabled?: boolean;
+
+  /**
+   * Additional CSS classes
+   */
+  className?: string;
+}
+
+/**
+ * Rate as `1 USD = 17.05 MXN`
+ */
+export function formatExchangeRate(rate: ExchangeRate): string {
+  return expensesTextMap.exchangeRateSummary
+    .replace('{from}', rate.from)
+    .replace('{rate}', String(rate.rate))
+    .replace('{to}', rate.to);
+}
+
+/**
+ * ExchangeRateList Component
+ *
+ * @example
+ * ```tsx
+ * <ExchangeRateList
+ *   rates={rates}
+ *   onEdit={setEditing}
+ *   onDelete={rate => deleteRate(rate.id)}
+ * />
+ * ```
+ */
+export function ExchangeRateList({
+  rates,
+  isLoading = false,
+  onEdit,
+  onDelete,
+  disabled = false,
+  className
+}: ExchangeRateListProps) {
+  if (isLoading && rates.length === 0) {
+    return (
+      <div className={cn('space-y-2', className)}>
+        {Array.from({ length: 3 }).map((_, index) => (
+          <Skeleton key={index} className="h-14 w-full" />
+        ))}
+      </div>
+    );
+  }
+
+  if (rates.length === 0) {
+    return (
+      <div
+        className={cn(
+          'flex flex-col items-center gap-1 rounded-lg border border-dashed px-4 py-8 text-center',
+          className
+        )}
+      >
+        <ArrowRightLeft className="text-muted-foreground mb-2 size-6" />
+        <p className="font-medium">{expensesTextMap.exchangeRatesEmpty}</p>
+        <p className="text-muted-foreground text-sm">
+          {expensesTextMap.exchangeRatesEmptyDescription}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <ul className={cn('space-y-2', className)}>
+      {rates.map(rate => (
+        <li
+          key={rate.id}
+          className="flex items-center justify-between gap-3 rounded-lg border px-4 py-3"
+        >
+          <div className="min-w-0">
+            <p className="font-mono text-sm font-medium tabular-nums">
+              {formatExchangeRate(rate)}
+            </p>
+            <p className="text-muted-foreground text-xs">
+              {expensesTextMap.exchangeRateDateLabel}{' '}
+              <ExpenseDate date={rate.date} variant="numeric" size="sm" />
+            </p>
+          </div>
+          <div className="flex gap-1">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onEdit(rate)}
+              disabled={disabled}
+            >
+              <Pencil className="size-4" />
+              <span className="sr-only sm:not-sr-only">
+                {expensesTextMap.editExchangeRateAction}
+              </span>
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onDelete(rate)}
+              disabled={disabled}
+              className="text-destructive hover:text-destructive"
+            >
+              <Trash2 className="size-4" />
+              <span className="sr-only sm:not-sr-only">
+                {expensesTextMap.deleteExchangeRateAction}
+              </span>
+            </Button>
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -2,7 +2,8 @@
  * ExpenseFilters Organism Component
  *
  * Complete filtering interface for expenses.
- * Includes search, date range, categories, and sort controls.
+ * Includes search (with the query syntax), date range, amount range, categories, tags, and sort controls.
+ * Both views edit the same filters: the panel rewrites the query text.
  *
  * @module domains/expenses/components/organisms/expense-filters
  */
@@ -15,11 +16,25 @@ import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Separator } from '@/components/ui/separator';
 import { cn } from '@/lib/utils';
-import type { ExpenseCategory, DateRange, ExpenseSort } from '../../types';
-import { EXPENSE_CATEGORIES } from '../../types';
-import { SearchBar } from '../molecules/search-bar';
+import type {
+  AmountRange,
+  CategoryDefinition,
+  ExpenseCategory,
+  DateRangeFilter,
+  ExpenseQueryIssue,
+  ExpenseQueryKey,
+  ExpenseSort,
+  ExpenseTagMatch
+} from '../../types';
+import { getExpenseQuerySuggestions, parseExpenseQuery } from '../../query-syntax';
+import { isArchived } from '../../categories';
+import { SearchBar, type SearchBarSuggestion } from '../molecules/search-bar';
 import { ExpenseDateRangePicker } from '../molecules/date-range-picker';
+import { AmountRangeFilter } from '../molecules/amount-range-filter';
 import { CategoryBadge, getCategoryIconComponent } from '../atoms/category-badge';
+import { useCategories } from '../../hooks/use-categories';
+import { useExpenseTags } from '../../hooks/use-expense-tags';
+import { formatTag } from '../../tags';
 import { expensesTextMap } from '../../expenses.text-map';
 
 export interface ExpenseFiltersProps {
@@ -28,15 +43,35 @@ export interface ExpenseFiltersProps {
    */
   selectedCategories: ExpenseCategory[];
 
+  /**
+   * Selected tags
+   */
+  selectedTags: string[];
+
+  /**
+   * Whether expenses need every selected tag or one of them
+   */
+  tagMatch: ExpenseTagMatch;
+
   /**
    * Date range
    */
-  dateRange?: DateRange;
+  dateRange?: DateRangeFilter;
 
   /**
-   * Search query
+   * Amount range
    */
-  searchQuery: string;
+  amountRange: AmountRange;
+
+  /**
+   * Smallest and largest amount in the data (slider bounds)
+   */
+  amountBounds?: AmountRange | null;
+
+  /**
+   * Search bar text (query syntax, e.g. `categoria:Comida monto>500 cena`)
+   */
+  queryText: string;
 
   /**
    * Sort configuration
@@ -48,15 +83,30 @@ export interface ExpenseFiltersProps {
    */
   onCategoriesChange: (categories: ExpenseCategory[]) => void;
 
+  /**
+   * Tag selection change handler
+   */
+  onTagsChange: (tags: string[]) => void;
+
+  /**
+   * Tag match change handler
+   */
+  onTagMatchChange: (tagMatch: ExpenseTagMatch) => void;
+
   /**
    * Date range change handler
    */
-  onDateRangeChange: (range: DateRange) => void;
+  onDateRangeChange: (range: DateRangeFilter) => void;
+
+  /**
+   * Amount range change handler
+   */
+  onAmountRangeChange: (range: AmountRange) => void;
 
   /**
-   * Search query change handler
+   * Search bar text change handler
    */
-  onSearchQueryChange: (query: string) => void;
+  onQueryTextChange: (text: string) => void;
 
   /**
    * Sort change handler
@@ -85,8 +135,87 @@ export interface ExpenseFiltersProps {
   className?: string;
 }
 
+/**
+ * Hints shown next to key suggestions
+ */
+const queryKeyHints: Record<ExpenseQueryKey, string> = {
+  categoria: expensesTextMap.queryKeyCategoria,
+  monto: expensesTextMap.queryKeyMonto,
+  desde: expensesTextMap.queryKeyDesde,
+  hasta: expensesTextMap.queryKeyHasta,
+  fecha: expensesTextMap.queryKeyFecha,
+  orden: expensesTextMap.queryKeyOrden,
+  etiquetas: expensesTextMap.queryKeyEtiquetas
+};
+
+/**
+ * Messages for tokens the query parser ignored
+ */
+const queryIssueMessages: Record<ExpenseQueryIssue['code'], string> = {
+  unknownCategory: expensesTextMap.queryIssueUnknownCategory,
+  invalidAmount: expensesTextMap.queryIssueInvalidAmount,
+  invalidDate: expensesTextMap.queryIssueInvalidDate,
+  invalidSort: expensesTextMap.queryIssueInvalidSort,
+  invalidOperator: expensesTextMap.queryIssueInvalidOperator,
+  invalidExclusion: expensesTextMap.queryIssueInvalidExclusion,
+  invalidTag: expensesTextMap.queryIssueInvalidTag,
+  invalidTagMatch: expensesTextMap.queryIssueInvalidTagMatch
+};
+
+/**
+ * Autocomplete for the query syntax (keys with a hint, category, sort and tag values)
+ */
+function getQuerySuggestions(
+  value: string,
+  caret: number,
+  tags: readonly string[]
+): SearchBarSuggestion[] {
+  return getExpenseQuerySuggestions(value, caret, tags).map((suggestion) => ({
+    ...suggestion,
+    hint: suggestion.kind === 'key' ? queryKeyHints[suggestion.key] : undefined
+  }));
+}
+
+/**
+ * Search bar with query syntax autocomplete and parse errors
+ */
+function QuerySearch({
+  queryText,
+  onQueryTextChange,
+  showHelp = false,
+  className
+}: Pick<ExpenseFiltersProps, 'queryText' | 'onQueryTextChange' | 'className'> & {
+  showHelp?: boolean;
+}) {
+  const issues = React.useMemo(() => parseExpenseQuery(queryText).issues, [queryText]);
+  const { tags } = useExpenseTags();
+  const getSuggestions = React.useCallback(
+    (value: string, caret: number) => getQuerySuggestions(value, caret, tags),
+    [tags]
+  );
+
+  return (
+    <div className={cn('space-y-1.5', className)}>
+      <SearchBar
+        value={queryText}
+        onChange={onQueryTextChange}
+        getSuggestions={getSuggestions}
+      />
+      {issues.map((issue, index) => (
+        <p key={`${issue.code}-${index}`} className="text-xs text-destructive">
+          {queryIssueMessages[issue.code].replace('{token}', issue.token)}
+        </p>
+      ))}
+      {showHelp && issues.length === 0 && (
+        <p className="text-xs text-muted-foreground">{expensesTextMap.queryHelp}</p>
+      )}
+    </div>
+  );
+}
+
 /**
  * Category filter buttons
+ * Subcategories follow their parent; selecting a parent includes them.
  */
 function CategoryFilters({
   selectedCategories,
@@ -102,6 +231,14 @@ function CategoryFilters({
 
   const isAllSelected = selectedCategories.length === 0;
 
+  // Archived categories only show while they are selected
+  const { categoryTree } = useCategories();
+  const isOption = (category: CategoryDefinition) =>
+    !isArchived(category) || selectedCategories.includes(category.id);
+  const options = categoryTree.flatMap(({ category, children }) =>
+    [category, ...children].filter(isOption)
+  );
+
   return (
     <div className="space-y-3">
       <Label>{expensesTextMap.filterByCategory}</Label>
@@ -116,19 +253,21 @@ function CategoryFilters({
         </Button>
 
         {/* Individual category buttons */}
-        {EXPENSE_CATEGORIES.map((category) => {
-          const isSelected = selectedCategories.includes(category);
-          const Icon = getCategoryIconComponent(category);
+        {options.map((category) => {
+          const isSelected = selectedCategories.includes(category.id);
+          const isIncluded =
+            category.parentId !== null && selectedCategories.includes(category.parentId);
+          const Icon = getCategoryIconComponent(category.icon);
           return (
             <Button
-              key={category}
-              variant={isSelected ? 'default' : 'outline'}
+              key={category.id}
+              variant={isSelected ? 'default' : isIncluded ? 'secondary' : 'outline'}
               size="sm"
-              onClick={() => toggleCategory(category)}
+              onClick={() => toggleCategory(category.id)}
               className="gap-1.5"
             >
               <Icon className="size-4" />
-              <span>{expensesTextMap[`category${category}` as keyof typeof expensesTextMap]}</span>
+              <span>{category.name}</span>
             </Button>
           );
         })}
@@ -137,6 +276,67 @@ function CategoryFilters({
   );
 }
 
+/**
+ * Tag filter buttons with the all/any switch
+ * Selected tags that no expense uses anymore stay visible so they can be removed.
+ */
+function TagFilters({
+  selectedTags,
+  tagMatch,
+  onTagsChange,
+  onTagMatchChange
+}: Pick<
+  ExpenseFiltersProps,
+  'selectedTags' | 'tagMatch' | 'onTagsChange' | 'onTagMatchChange'
+>) {
+  const { tags } = useExpenseTags();
+  const options = [...tags, ...selectedTags.filter((tag) => !tags.includes(tag))];
+
+  const toggleTag = (tag: string) => {
+    if (selectedTags.includes(tag)) {
+      onTagsChange(selectedTags.filter((t) => t !== tag));
+    } else {
+      onTagsChange([...selectedTags, tag]);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <Label>{expensesTextMap.filterByTag}</Label>
+        <Select
+          value={tagMatch}
+          onValueChange={(value) => onTagMatchChange(value as ExpenseTagMatch)}
+        >
+          <SelectTrigger size="sm" aria-label={expensesTextMap.tagMatchLabel}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">{expensesTextMap.tagMatchAll}</SelectItem>
+            <SelectItem value="any">{expensesTextMap.tagMatchAny}</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      {options.length === 0 ? (
+        <p className="text-sm text-muted-foreground">{expensesTextMap.noTags}</p>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          {options.map((tag) => (
+            <Button
+              key={tag}
+              variant={selectedTags.includes(tag) ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => toggleTag(tag)}
+            >
+              {formatTag(tag)}
+            </Button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
 /**
  * Sort controls
  */
@@ -149,6 +349,8 @@ function SortControls({
     { value: 'date-asc', label: expensesTextMap.sortByDateAsc, field: 'date', order: 'asc' },
     { value: 'amount-desc', label: expensesTextMap.sortByAmountDesc, field: 'amount', order: 'desc' },
     { value: 'amount-asc', label: expensesTextMap.sortByAmountAsc, field: 'amount', order: 'asc' },
+    // Without a search query results fall back to date order
+    { value: 'relevance-desc', label: expensesTextMap.sortByRelevance, field: 'relevance', order: 'desc' }
   ];
 
   const currentValue = `${sort.field}-${sort.order}`;
@@ -183,30 +385,43 @@ function SortControls({
 /**
  * ExpenseFilters Component
  *
- * Complete filtering interface with search, date range, categories, and sort.
+ * Complete filtering interface with search, date range, categories, tags, and sort.
  *
  * @example
  * ```tsx
  * const {
+ *   queryText,
  *   selectedCategories,
+ *   selectedTags,
+ *   tagMatch,
  *   dateRange,
- *   searchQuery,
+ *   amountRange,
  *   sort,
+ *   setQueryText,
  *   setSelectedCategories,
+ *   setSelectedTags,
+ *   setTagMatch,
  *   setDateRange,
- *   setSearchQuery,
+ *   setAmountRange,
  *   setSort,
  *   resetFilters
  * } = useExpenseFilters();
  *
  * <ExpenseFilters
+ *   queryText={queryText}
  *   selectedCategories={selectedCategories}
+ *   selectedTags={selectedTags}
+ *   tagMatch={tagMatch}
  *   dateRange={dateRange}
- *   searchQuery={searchQuery}
+ *   amountRange={amountRange}
+ *   amountBounds={useExpenseAmountBounds(filters)}
  *   sort={sort}
+ *   onQueryTextChange={setQueryText}
  *   onCategoriesChange={setSelectedCategories}
+ *   onTagsChange={setSelectedTags}
+ *   onTagMatchChange={setTagMatch}
  *   onDateRangeChange={setDateRange}
- *   onSearchQueryChange={setSearchQuery}
+ *   onAmountRangeChange={setAmountRange}
  *   onSortChange={setSort}
  *   onResetFilters={resetFilters}
  * />
@@ -214,12 +429,19 @@ function SortControls({
  */
 export function ExpenseFilters({
   selectedCategories,
+  selectedTags,
+  tagMatch,
   dateRange,
-  searchQuery,
+  amountRange,
+  amountBounds = null,
+  queryText,
   sort,
   onCategoriesChange,
+  onTagsChange,
+  onTagMatchChange,
   onDateRangeChange,
-  onSearchQueryChange,
+  onAmountRangeChange,
+  onQueryTextChange,
   onSortChange,
   onResetFilters,
   hasActiveFilters = false,
@@ -230,10 +452,10 @@ export function ExpenseFilters({
     return (
       <div className={cn('space-y-4', className)}>
         {/* Search + Reset */}
-        <div className="flex gap-2">
-          <SearchBar
-            value={searchQuery}
-            onChange={onSearchQueryChange}
+        <div className="flex items-start gap-2">
+          <QuerySearch
+            queryText={queryText}
+            onQueryTextChange={onQueryTextChange}
             className="flex-1"
           />
           {hasActiveFilters && (
@@ -260,9 +482,10 @@ export function ExpenseFilters({
       {/* Search */}
       <div className="space-y-2">
         <Label>{expensesTextMap.searchByDescription}</Label>
-        <SearchBar
-          value={searchQuery}
-          onChange={onSearchQueryChange}
+        <QuerySearch
+          queryText={queryText}
+          onQueryTextChange={onQueryTextChange}
+          showHelp
         />
       </div>
 
@@ -279,6 +502,18 @@ export function ExpenseFilters({
 
       <Separator />
 
+      {/* Amount Range */}
+      <div className="space-y-2">
+        <Label>{expensesTextMap.filterByAmount}</Label>
+        <AmountRangeFilter
+          amountRange={amountRange}
+          bounds={amountBounds}
+          onAmountRangeChange={onAmountRangeChange}
+        />
+      </div>
+
+      <Separator />
+
       {/* Categories */}
       <CategoryFilters
         selectedCategories={selectedCategories}
@@ -287,6 +522,16 @@ export function ExpenseFilters({
 
       <Separator />
 
+      {/* Tags */}
+      <TagFilters
+        selectedTags={selectedTags}
+        tagMatch={tagMatch}
+        onTagsChange={onTagsChange}
+        onTagMatchChange={onTagMatchChange}
+      />
+
+      <Separator />
+
       {/* Sort */}
       <SortControls sort={sort} onSortChange={onSortChange} />
 
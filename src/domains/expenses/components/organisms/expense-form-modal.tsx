@@ -13,7 +13,9 @@ import * as React from 'react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
 import { Drawer, DrawerContent, DrawerHeader, DrawerTitle, DrawerDescription } from '@/components/ui/drawer';
 import { useMediaQuery } from '@/hooks/use-media-query';
+import { Separator } from '@/components/ui/separator';
 import { ExpenseForm } from './expense-form';
+import { ExpenseHistoryPanel } from './expense-history-panel';
 import type { Expense, CreateExpenseInput, UpdateExpenseInput } from '../../types';
 import { expensesTextMap } from '../../expenses.text-map';
 
@@ -50,6 +52,11 @@ export interface ExpenseFormModalCreateProps extends ExpenseFormModalPropsBase {
    * Submit handler for create
    */
   onSubmit: (data: CreateExpenseInput) => void | Promise<void>;
+
+  /**
+   * Revert handler (not used in create mode)
+   */
+  onReverted?: never;
 }
 
 export interface ExpenseFormModalEditProps extends ExpenseFormModalPropsBase {
@@ -67,6 +74,11 @@ export interface ExpenseFormModalEditProps extends ExpenseFormModalPropsBase {
    * Submit handler for edit
    */
   onSubmit: (data: UpdateExpenseInput) => void | Promise<void>;
+
+  /**
+   * Called with the reverted expense after reverting from the history panel
+   */
+  onReverted?: (expense: Expense) => void;
 }
 
 export type ExpenseFormModalProps = ExpenseFormModalCreateProps | ExpenseFormModalEditProps;
@@ -100,6 +112,7 @@ export function ExpenseFormModal({
   initialData,
   mode = 'create',
   onSubmit,
+  onReverted,
   isLoading = false,
 }: ExpenseFormModalProps) {
   const isDesktop = useMediaQuery('(min-width: 768px)');
@@ -127,22 +140,35 @@ export function ExpenseFormModal({
     onOpenChange(false);
   };
 
+  // Remount the form after a revert so it picks up the reverted values
+  const formKey = initialData?.updatedAt ?? 'create';
+
+  const history =
+    mode === 'edit' && initialData ? (
+      <>
+        <Separator />
+        <ExpenseHistoryPanel expense={initialData} onReverted={onReverted} />
+      </>
+    ) : null;
+
   // Desktop: Dialog
   if (isDesktop) {
     return (
       <Dialog open={open} onOpenChange={onOpenChange}>
-        <DialogContent className="sm:max-w-[500px]">
+        <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-[500px]">
           <DialogHeader>
             <DialogTitle>{title}</DialogTitle>
             <DialogDescription>{description}</DialogDescription>
           </DialogHeader>
           <ExpenseForm
+            key={formKey}
             initialData={initialData}
             mode={mode}
             onSubmit={handleSubmit}
             onCancel={handleCancel}
             isLoading={isLoading}
           />
+          {history}
         </DialogContent>
       </Dialog>
     );
@@ -156,14 +182,16 @@ export function ExpenseFormModal({
           <DrawerTitle>{title}</DrawerTitle>
           <DrawerDescription>{description}</DrawerDescription>
         </DrawerHeader>
-        <div className="px-4 pb-4">
+        <div className="space-y-4 overflow-y-auto px-4 pb-4">
           <ExpenseForm
+            key={formKey}
             initialData={initialData}
             mode={mode}
             onSubmit={handleSubmit}
             onCancel={handleCancel}
             isLoading={isLoading}
           />
+          {history}
         </div>
       </DrawerContent>
     </Drawer>
@@ -15,14 +15,19 @@ import { zodResolver } from '@hookform/resolvers/zod';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Select, SelectContent, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { cn } from '@/lib/utils';
-import type { Expense, CreateExpenseInput, UpdateExpenseInput, ExpenseCategory } from '../../types';
-import { createExpenseSchema, updateExpenseSchema } from '../../schema';
-import { EXPENSE_CATEGORIES } from '../../types';
-import { CategoryBadge, getCategoryIconComponent } from '../atoms/category-badge';
+import { useBaseCurrency } from '@/domains/settings/stores/settings-store';
+import type { Expense, CreateExpenseInput, UpdateExpenseInput, ExpenseCategory, CurrencyCode } from '../../types';
+import { getExpenseInputSchemas } from '../../schema';
+import { DEFAULT_CATEGORY_ID } from '../../categories';
+import { useCategories } from '../../hooks/use-categories';
+import { useExpenseTags } from '../../hooks/use-expense-tags';
+import { CategorySelectItems } from '../molecules/category-select-items';
+import { CurrencySelectItems } from '../molecules/currency-select-items';
 import { ExpenseDatePicker } from '../molecules/date-picker';
+import { TagInput } from '../molecules/tag-input';
 import { expensesTextMap } from '../../expenses.text-map';
 
 export interface ExpenseFormProps {
@@ -71,19 +76,30 @@ export interface ExpenseFormProps {
 type ExpenseFormData = {
   description: string;
   amount: string; // String for input, converted to number on submit
+  currency: CurrencyCode;
   category: ExpenseCategory;
   date: Date;
+  tags: string[];
 };
 
 /**
  * Get default form values
+ *
+ * @param defaultCategory - Category preselected when creating
+ * @param defaultCurrency - Currency preselected when creating (the base currency)
  */
-function getDefaultValues(initialData?: Expense): ExpenseFormData {
+function getDefaultValues(
+  initialData: Expense | undefined,
+  defaultCategory: ExpenseCategory,
+  defaultCurrency: CurrencyCode
+): ExpenseFormData {
   if (initialData) {
     return {
       description: initialData.description,
       amount: initialData.amount.toString(),
+      currency: initialData.currency,
       category: initialData.category,
+      tags: initialData.tags,
       date: new Date(initialData.date),
     };
   }
@@ -91,7 +107,9 @@ function getDefaultValues(initialData?: Expense): ExpenseFormData {
   return {
     description: '',
     amount: '',
-    category: 'Otros',
+    currency: defaultCurrency,
+    category: defaultCategory,
+    tags: [],
     date: new Date(),
   };
 }
@@ -132,11 +150,36 @@ export function ExpenseForm({
   disabled = false,
   className,
 }: ExpenseFormProps) {
-  // Create a custom schema for form validation that accepts string for amount
-  const formSchema = mode === 'create' ? createExpenseSchema : updateExpenseSchema;
+  // Assignable categories (active leaves), plus the current one when editing an
+  // expense in an archived category or in a parent
+  const { categories, assignableCategories } = useCategories();
+  const categoryOptions = React.useMemo(
+    () =>
+      categories.filter(
+        (category) =>
+          assignableCategories.includes(category) || category.id === initialData?.category
+      ),
+    [categories, assignableCategories, initialData?.category]
+  );
+
+  // Validate against the categories that can be picked
+  const formSchema = React.useMemo(() => {
+    const schemas = getExpenseInputSchemas(categoryOptions.map((category) => category.id));
+    return mode === 'create' ? schemas.create : schemas.update;
+  }, [categoryOptions, mode]);
+
+  const defaultCategory = assignableCategories.some((category) => category.id === DEFAULT_CATEGORY_ID)
+    ? DEFAULT_CATEGORY_ID
+    : (assignableCategories[0]?.id ?? '');
+
+  // Tags already in use, for autocomplete
+  const { tags: knownTags } = useExpenseTags();
+
+  // New expenses start in the base currency
+  const baseCurrency = useBaseCurrency();
 
   const form = useForm<ExpenseFormData>({
-    defaultValues: getDefaultValues(initialData),
+    defaultValues: getDefaultValues(initialData, defaultCategory, baseCurrency),
     mode: 'onBlur',
   });
 
@@ -166,10 +209,23 @@ export function ExpenseForm({
       const submitData: CreateExpenseInput | UpdateExpenseInput = {
         description: data.description,
         amount,
+        currency: data.currency,
         category: data.category,
+        tags: data.tags,
         date,
       };
 
+      const result = formSchema.safeParse(submitData);
+      if (!result.success) {
+        result.error.issues.forEach((issue) => {
+          const [field] = issue.path;
+          if (field === 'description' || field === 'amount' || field === 'currency' || field === 'category' || field === 'date' || field === 'tags') {
+            form.setError(field, { type: 'manual', message: issue.message });
+          }
+        });
+        return;
+      }
+
       await onSubmit(submitData);
 
       // Reset form on successful create
@@ -216,18 +272,15 @@ export function ExpenseForm({
           )}
         />
 
-        {/* Amount Field */}
-        <FormField
-          control={control}
-          name="amount"
-          render={({ field }) => (
-            <FormItem>
-              <FormLabel>{expensesTextMap.amountLabel}</FormLabel>
-              <FormControl>
-                <div className="relative">
-                  <span className="pointer-events-none absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground">
-                    $
-                  </span>
+        {/* Amount and Currency Fields */}
+        <div className="grid grid-cols-[1fr_auto] items-start gap-3">
+          <FormField
+            control={control}
+            name="amount"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{expensesTextMap.amountLabel}</FormLabel>
+                <FormControl>
                   <Input
                     {...field}
                     type="number"
@@ -236,16 +289,40 @@ export function ExpenseForm({
                     max="999999999.99"
                     placeholder={expensesTextMap.amountPlaceholder}
                     disabled={isFormDisabled}
-                    className="pl-7"
                     onWheel={(e) => e.currentTarget.blur()} // Prevent scroll changing value
                   />
-                </div>
-              </FormControl>
-              <FormDescription>{expensesTextMap.amountHelp}</FormDescription>
-              <FormMessage />
-            </FormItem>
-          )}
-        />
+                </FormControl>
+                <FormDescription>{expensesTextMap.amountHelp}</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={control}
+            name="currency"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{expensesTextMap.currencyLabel}</FormLabel>
+                <Select
+                  onValueChange={field.onChange}
+                  defaultValue={field.value}
+                  disabled={isFormDisabled}
+                >
+                  <FormControl>
+                    <SelectTrigger className="w-40">
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <CurrencySelectItems include={field.value ? [field.value] : []} />
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
 
         {/* Category Field */}
         <FormField
@@ -265,17 +342,7 @@ export function ExpenseForm({
                   </SelectTrigger>
                 </FormControl>
                 <SelectContent>
-                  {EXPENSE_CATEGORIES.map((category) => {
-                    const Icon = getCategoryIconComponent(category);
-                    return (
-                      <SelectItem key={category} value={category}>
-                        <div className="flex items-center gap-2">
-                          <Icon className="size-4" />
-                          <span>{expensesTextMap[`category${category}` as keyof typeof expensesTextMap]}</span>
-                        </div>
-                      </SelectItem>
-                    );
-                  })}
+                  <CategorySelectItems options={categoryOptions} />
                 </SelectContent>
               </Select>
               <FormDescription>{expensesTextMap.categoryHelp}</FormDescription>
@@ -307,6 +374,27 @@ export function ExpenseForm({
           )}
         />
 
+        {/* Tags Field */}
+        <FormField
+          control={control}
+          name="tags"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>{expensesTextMap.tagsLabel}</FormLabel>
+              <FormControl>
+                <TagInput
+                  value={field.value ?? []}
+                  onChange={field.onChange}
+                  suggestions={knownTags}
+                  disabled={isFormDisabled}
+                />
+              </FormControl>
+              <FormDescription>{expensesTextMap.tagsHelp}</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
         {/* Form Actions */}
         <div className="flex flex-col-reverse gap-3 sm:flex-row sm:justify-end">
           {onCancel && (
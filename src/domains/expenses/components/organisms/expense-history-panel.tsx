@@ -0,0 +1,228 @@
+/**
+ * ExpenseHistoryPanel Organism Component
+ *
+ * Shows the revision log of an expense (field-level diffs, time and source)
+ * and lets the user revert to any earlier revision.
+ *
+ * @module domains/expenses/components/organisms/expense-history-panel
+ */
+
+'use client';
+
+import * as React from 'react';
+import { ArrowRight, History, RotateCcw } from 'lucide-react';
+import { toast } from 'sonner';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { cn } from '@/lib/utils';
+import type {
+  CurrencyCode,
+  Expense,
+  ExpenseCategory,
+  ExpenseFieldChange,
+  ExpenseRevisionSource
+} from '../../types';
+import { useExpenseRevisions } from '../../hooks/use-expense-revisions';
+import { useRevertExpense } from '../../hooks/use-revert-expense';
+import { ExpenseAmount } from '../atoms/expense-amount';
+import { ExpenseDate, RelativeDate } from '../atoms/expense-date';
+import { CategoryName } from '../atoms/category-badge';
+import { TagList } from '../atoms/tag-chip';
+import { expensesTextMap } from '../../expenses.text-map';
+
+export interface ExpenseHistoryPanelProps {
+  /**
+   * Expense whose history is shown
+   */
+  expense: Expense;
+
+  /**
+   * Called with the reverted expense after a successful revert
+   */
+  onReverted?: (expense: Expense) => void;
+
+  /**
+   * Additional CSS classes
+   */
+  className?: string;
+}
+
+const fieldLabels: Record<ExpenseFieldChange['field'], string> = {
+  description: expensesTextMap.descriptionLabel,
+  amount: expensesTextMap.amountLabel,
+  currency: expensesTextMap.currencyLabel,
+  category: expensesTextMap.categoryLabel,
+  date: expensesTextMap.dateLabel,
+  tags: expensesTextMap.tagsLabel
+};
+
+const sourceLabels: Record<ExpenseRevisionSource, string> = {
+  form: expensesTextMap.historySourceForm,
+  chat: expensesTextMap.historySourceChat,
+  import: expensesTextMap.historySourceImport,
+  sync: expensesTextMap.historySourceSync
+};
+
+/**
+ * Render a single field value in its natural format
+ */
+function FieldValue({
+  field,
+  value,
+  currency
+}: {
+  field: ExpenseFieldChange['field'];
+  value: ExpenseFieldChange['to'];
+  currency: CurrencyCode;
+}) {
+  switch (field) {
+    case 'amount':
+      return <ExpenseAmount amount={value as number} currency={currency} size="sm" />;
+    case 'date':
+      return <ExpenseDate date={value as string} variant="short" size="sm" />;
+    case 'category':
+      return <CategoryName category={value as ExpenseCategory} />;
+    case 'tags':
+      return (value as string[]).length > 0 ? (
+        <TagList tags={value as string[]} className="inline-flex" />
+      ) : (
+        <span>{expensesTextMap.noTags}</span>
+      );
+    case 'description':
+    default:
+      return <span className="break-all">{String(value)}</span>;
+  }
+}
+
+/**
+ * ExpenseHistoryPanel Component
+ *
+ * Newest revision first; the newest one is the current state and cannot be reverted to.
+ *
+ * @example
+ * ```tsx
+ * <ExpenseHistoryPanel
+ *   expense={expense}
+ *   onReverted={updated => setEditingExpense(updated)}
+ * />
+ * ```
+ */
+export function ExpenseHistoryPanel({
+  expense,
+  onReverted,
+  className
+}: ExpenseHistoryPanelProps) {
+  const { revisions, isLoading, refetch } = useExpenseRevisions(expense.id);
+  const { mutate: revert, isLoading: isReverting } = useRevertExpense();
+
+  const handleRevert = async (revisionId: string) => {
+    if (!confirm(expensesTextMap.historyRevertConfirm)) {
+      return;
+    }
+
+    try {
+      const reverted = await revert({ expenseId: expense.id, revisionId });
+      toast.success(expensesTextMap.expenseReverted);
+      await refetch();
+      onReverted?.(reverted);
+    } catch {
+      toast.error(expensesTextMap.errorReverting);
+    }
+  };
+
+  return (
+    <section className={cn('space-y-3', className)}>
+      <h3 className="flex items-center gap-2 text-sm font-semibold">
+        <History className="size-4" />
+        {expensesTextMap.historyHeading}
+      </h3>
+
+      {isLoading && revisions.length === 0 ? (
+        <div className="space-y-2">
+          <Skeleton className="h-14 w-full" />
+          <Skeleton className="h-14 w-full" />
+        </div>
+      ) : revisions.length === 0 ? (
+        <p className="text-muted-foreground text-sm">
+          {expensesTextMap.historyEmpty}
+        </p>
+      ) : (
+        <ol className="max-h-64 space-y-2 overflow-y-auto pr-1">
+          {revisions.map((revision, index) => {
+            const isCurrent = index === 0;
+            const isCreation = revision.changes.every(
+              change => change.from === null
+            );
+
+            return (
+              <li key={revision.id} className="rounded-md border p-3 text-sm">
+                <div className="mb-2 flex flex-wrap items-center justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    <RelativeDate date={revision.timestamp} />
+                    <Badge variant="secondary">
+                      {sourceLabels[revision.source]}
+                    </Badge>
+                  </div>
+                  {isCurrent ? (
+                    <span className="text-muted-foreground text-xs">
+                      {expensesTextMap.historyCurrent}
+                    </span>
+                  ) : (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleRevert(revision.id)}
+                      disabled={isReverting}
+                    >
+                      <RotateCcw className="size-4" />
+                      {expensesTextMap.historyRevert}
+                    </Button>
+                  )}
+                </div>
+
+                {isCreation ? (
+                  <p className="text-muted-foreground">
+                    {expensesTextMap.historyCreated}
+                  </p>
+                ) : (
+                  <ul className="space-y-1">
+                    {revision.revertedTo && (
+                      <li className="text-muted-foreground">
+                        {expensesTextMap.historyReverted}
+                      </li>
+                    )}
+                    {revision.changes.map(change => (
+                      <li
+                        key={change.field}
+                        className="flex flex-wrap items-center gap-2"
+                      >
+                        <span className="text-muted-foreground">
+                          {fieldLabels[change.field]}:
+                        </span>
+                        <span className="line-through opacity-60">
+                          <FieldValue
+                            field={change.field}
+                            value={change.from!}
+                            currency={expense.currency}
+                          />
+                        </span>
+                        <ArrowRight className="text-muted-foreground size-3" />
+                        <FieldValue
+                          field={change.field}
+                          value={change.to}
+                          currency={expense.currency}
+                        />
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </section>
+  );
+}
@@ -2,7 +2,9 @@
  * ExpenseList Organism Component
  *
  * Displays a list of expenses with loading, empty, and error states.
- * Supports pagination and actions on individual expenses.
+ * Only the rows near the viewport are rendered (the page scrolls), and the
+ * next page loads when the last rows come into view. Expenses can be grouped
+ * by day, week, month or category under collapsible headers.
  *
  * @module domains/expenses/components/organisms/expense-list
  */
@@ -12,9 +14,15 @@
 import * as React from 'react';
 import { Button } from '@/components/ui/button';
 import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { cn } from '@/lib/utils';
-import type { Expense } from '../../types';
+import { useWindowVirtualizer } from '@/hooks/use-window-virtualizer';
+import type { Expense, ExpenseCategory, ExpenseGroupBy, ExpenseGroupSummary } from '../../types';
+import { getExpenseGroupKey } from '../../query';
+import { useCurrencyConversion } from '../../hooks/use-currency-conversion';
 import { ExpenseCard, ExpenseCardSkeleton } from '../molecules/expense-card';
+import { ExpenseGroupHeader } from '../molecules/expense-group-header';
+import { BulkActionsToolbar } from '../molecules/bulk-actions-toolbar';
 import { expensesTextMap } from '../../expenses.text-map';
 
 export interface ExpenseListProps {
@@ -40,13 +48,19 @@ export interface ExpenseListProps {
    */
   hasMore?: boolean;
 
+  /**
+   * Whether the next page is loading
+   * @default false
+   */
+  isLoadingMore?: boolean;
+
   /**
    * Total count of expenses (for display)
    */
   totalCount?: number;
 
   /**
-   * Load more handler
+   * Load more handler (called when the last rows come into view)
    */
   onLoadMore?: () => void;
 
@@ -82,17 +96,141 @@ export interface ExpenseListProps {
    */
   showActions?: boolean;
 
+  /**
+   * Search query whose matches are highlighted in descriptions
+   */
+  highlightQuery?: string;
+
   /**
    * Empty state component
    */
   emptyState?: React.ReactNode;
 
+  /**
+   * Selection mode (checkboxes + bulk actions toolbar)
+   * @default false
+   */
+  selectionMode?: boolean;
+
+  /**
+   * Selected expense IDs (selection mode)
+   * @default []
+   */
+  selectedIds?: string[];
+
+  /**
+   * Selection change handler (selection mode)
+   */
+  onSelectionChange?: (ids: string[]) => void;
+
+  /**
+   * Bulk recategorize handler (selection mode)
+   */
+  onBulkRecategorize?: (expenses: Expense[], category: ExpenseCategory) => void;
+
+  /**
+   * Bulk date shift handler, in days (selection mode)
+   */
+  onBulkShiftDate?: (expenses: Expense[], days: number) => void;
+
+  /**
+   * Bulk delete handler (selection mode)
+   */
+  onBulkDelete?: (expenses: Expense[]) => void;
+
+  /**
+   * Bulk mutation in progress
+   * @default false
+   */
+  isBulkLoading?: boolean;
+
+  /**
+   * Grouping of the rows (the expenses must be sorted by group, see
+   * `ExpenseFilters.groupBy`)
+   * @default null
+   */
+  groupBy?: ExpenseGroupBy | null;
+
+  /**
+   * Count and subtotal of every group over the full filtered set
+   */
+  groups?: ExpenseGroupSummary[];
+
+  /**
+   * Grouping change handler (shows the grouping select)
+   */
+  onGroupByChange?: (groupBy: ExpenseGroupBy | null) => void;
+
   /**
    * Additional CSS classes
    */
   className?: string;
 }
 
+/**
+ * Estimated row heights before measuring, in pixels
+ */
+const ROW_ESTIMATES = { default: 96, compact: 52 } as const;
+
+/**
+ * Gap between rows, in pixels (matches `space-y-3`)
+ */
+const ROW_GAP = 12;
+
+/**
+ * Rows from the end at which the next page starts loading
+ */
+const LOAD_MORE_THRESHOLD = 10;
+
+/**
+ * Grouping select value for "no grouping"
+ */
+const NO_GROUPING = 'none';
+
+const groupByOptions: { value: ExpenseGroupBy | typeof NO_GROUPING; label: string }[] = [
+  { value: NO_GROUPING, label: expensesTextMap.groupByNone },
+  { value: 'day', label: expensesTextMap.groupByDay },
+  { value: 'week', label: expensesTextMap.groupByWeek },
+  { value: 'month', label: expensesTextMap.groupByMonth },
+  { value: 'category', label: expensesTextMap.groupByCategory }
+];
+
+/**
+ * Row of the (possibly grouped) list
+ */
+type ListRow =
+  | { type: 'group'; id: string; group: string }
+  | { type: 'expense'; id: string; group: string | null; expense: Expense };
+
+/**
+ * Flatten expenses into rows, with a header before each group
+ *
+ * Rows of collapsed groups are left out (their header stays).
+ */
+function buildRows(
+  expenses: Expense[],
+  groupBy: ExpenseGroupBy | null,
+  collapsed: Set<string>
+): ListRow[] {
+  if (!groupBy) {
+    return expenses.map((expense) => ({ type: 'expense', id: expense.id, group: null, expense }));
+  }
+
+  const rows: ListRow[] = [];
+  let current: string | null = null;
+  expenses.forEach((expense) => {
+    const group = getExpenseGroupKey(expense, groupBy);
+    if (group !== current) {
+      current = group;
+      rows.push({ type: 'group', id: `group:${group}`, group });
+    }
+    if (!collapsed.has(group)) {
+      rows.push({ type: 'expense', id: expense.id, group, expense });
+    }
+  });
+  return rows;
+}
+
 /**
  * Loading skeleton
  */
@@ -184,6 +322,7 @@ function ErrorState({ error, onRetry }: { error: Error; onRetry?: () => void })
  *   expenses={expenses}
  *   isLoading={isLoading}
  *   hasMore={hasMore}
+ *   isLoadingMore={isFetchingMore}
  *   totalCount={totalCount}
  *   onLoadMore={loadMore}
  *   onExpenseEdit={(expense) => setEditingExpense(expense)}
@@ -204,6 +343,7 @@ export function ExpenseList({
   isLoading = false,
   error = null,
   hasMore = false,
+  isLoadingMore = false,
   totalCount,
   onLoadMore,
   onExpenseClick,
@@ -212,9 +352,107 @@ export function ExpenseList({
   onRetry,
   variant = 'default',
   showActions = true,
+  highlightQuery,
   emptyState,
+  selectionMode = false,
+  selectedIds = [],
+  onSelectionChange,
+  onBulkRecategorize,
+  onBulkShiftDate,
+  onBulkDelete,
+  isBulkLoading = false,
+  groupBy = null,
+  groups,
+  onGroupByChange,
   className,
 }: ExpenseListProps) {
+  const selectedSet = React.useMemo(() => new Set(selectedIds), [selectedIds]);
+  const selectedExpenses = React.useMemo(
+    () => expenses.filter((expense) => selectedSet.has(expense.id)),
+    [expenses, selectedSet]
+  );
+
+  // Collapsed groups (start over when the grouping changes)
+  const [collapsedState, setCollapsedState] = React.useState({
+    groupBy,
+    keys: new Set<string>()
+  });
+  const collapsed = React.useMemo(
+    () => (collapsedState.groupBy === groupBy ? collapsedState.keys : new Set<string>()),
+    [collapsedState, groupBy]
+  );
+  const toggleGroup = (group: string) => {
+    const keys = new Set(collapsed);
+    if (!keys.delete(group)) keys.add(group);
+    setCollapsedState({ groupBy, keys });
+  };
+
+  const rows = React.useMemo(
+    () => buildRows(expenses, groupBy, collapsed),
+    [expenses, groupBy, collapsed]
+  );
+  const groupSummaries = React.useMemo(
+    () => new Map((groups ?? []).map((group) => [group.key, group])),
+    [groups]
+  );
+  // Subtotals in the base currency (rates live on this device, not the server)
+  const { sumInBaseCurrency } = useCurrencyConversion();
+
+  const getItemKey = React.useCallback((index: number) => rows[index].id, [rows]);
+  const { containerRef, items, totalSize, firstVisibleIndex, measureElement } =
+    useWindowVirtualizer({
+      count: rows.length,
+      getItemKey,
+      estimateSize: ROW_ESTIMATES[variant],
+      gap: ROW_GAP
+    });
+
+  // Load the next page as the end of the list comes into view
+  const lastVisibleIndex = items.length > 0 ? items[items.length - 1].index : -1;
+  React.useEffect(() => {
+    if (
+      hasMore &&
+      !isLoadingMore &&
+      lastVisibleIndex >= rows.length - LOAD_MORE_THRESHOLD
+    ) {
+      onLoadMore?.();
+    }
+  }, [hasMore, isLoadingMore, lastVisibleIndex, rows.length, onLoadMore]);
+
+  const renderGroupHeader = (group: string) => {
+    if (!groupBy) return null;
+
+    // Loaded rows only cover part of the group until the summaries arrive
+    const summary = groupSummaries.get(group) ?? {
+      key: group,
+      count: 0,
+      amounts: []
+    };
+    const { total, unconverted } = sumInBaseCurrency(summary.amounts);
+    return (
+      <ExpenseGroupHeader
+        groupKey={group}
+        groupBy={groupBy}
+        count={summary.count}
+        total={total}
+        unconvertedCount={unconverted}
+        collapsed={collapsed.has(group)}
+        onToggle={() => toggleGroup(group)}
+      />
+    );
+  };
+
+  // Header of the group at the top of the viewport, pinned while scrolling
+  const stickyGroup = groupBy ? rows[firstVisibleIndex]?.group ?? null : null;
+
+  const handleSelectedChange = (expense: Expense, selected: boolean) => {
+    onSelectionChange?.(
+      selected
+        ? [...selectedIds, expense.id]
+        : selectedIds.filter((id) => id !== expense.id)
+    );
+  };
+
   // Loading state
   if (isLoading && expenses.length === 0) {
     return (
@@ -244,42 +482,118 @@ export function ExpenseList({
 
   return (
     <div className={cn('space-y-4', className)}>
-      {/* Results count */}
-      {totalCount !== undefined && (
-        <div className="flex items-center justify-between">
-          <p className="text-sm text-muted-foreground">
-            {totalCount === expenses.length
-              ? expensesTextMap.showingResults.replace('{count}', String(expenses.length))
-              : expensesTextMap.showingResultsFiltered
-                  .replace('{count}', String(expenses.length))
-                  .replace('{total}', String(totalCount))}
-          </p>
+      {/* Bulk actions */}
+      {selectionMode && (
+        <BulkActionsToolbar
+          className="sticky top-2 z-10"
+          selectedCount={selectedExpenses.length}
+          totalCount={expenses.length}
+          onSelectAll={() => onSelectionChange?.(expenses.map((expense) => expense.id))}
+          onClearSelection={() => onSelectionChange?.([])}
+          onRecategorize={(category) => onBulkRecategorize?.(selectedExpenses, category)}
+          onShiftDate={(days) => onBulkShiftDate?.(selectedExpenses, days)}
+          onDelete={() => onBulkDelete?.(selectedExpenses)}
+          isLoading={isBulkLoading}
+        />
+      )}
+
+      {/* Results count and grouping */}
+      {(totalCount !== undefined || onGroupByChange) && (
+        <div className="flex items-center justify-between gap-4">
+          {totalCount !== undefined && (
+            <p className="text-sm text-muted-foreground">
+              {totalCount === expenses.length
+                ? expensesTextMap.showingResults.replace('{count}', String(expenses.length))
+                : expensesTextMap.showingResultsFiltered
+                    .replace('{count}', String(expenses.length))
+                    .replace('{total}', String(totalCount))}
+            </p>
+          )}
+          {onGroupByChange && (
+            <Select
+              value={groupBy ?? NO_GROUPING}
+              onValueChange={(value) =>
+                onGroupByChange(value === NO_GROUPING ? null : (value as ExpenseGroupBy))
+              }
+            >
+              <SelectTrigger
+                className="ml-auto h-8 w-auto gap-2"
+                aria-label={expensesTextMap.groupByLabel}
+              >
+                <span className="text-muted-foreground">{expensesTextMap.groupByLabel}:</span>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {groupByOptions.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
         </div>
       )}
 
-      {/* Expense list */}
-      <div className="space-y-3">
-        {expenses.map((expense) => (
-          <ExpenseCard
-            key={expense.id}
-            expense={expense}
-            variant={variant}
-            onClick={onExpenseClick ? () => onExpenseClick(expense) : undefined}
-            onEdit={showActions && onExpenseEdit ? () => onExpenseEdit(expense) : undefined}
-            onDelete={showActions && onExpenseDelete ? () => onExpenseDelete(expense) : undefined}
-          />
-        ))}
+      {/* Expense list (visible rows only) */}
+      <div
+        ref={containerRef}
+        className="relative [overflow-anchor:none]"
+        style={{ height: totalSize }}
+      >
+        {stickyGroup && (
+          <div className="sticky top-0 z-[5] h-0">{renderGroupHeader(stickyGroup)}</div>
+        )}
+        {items.map(({ index, key, start }) => {
+          const row = rows[index];
+          if (row.type === 'group') {
+            return (
+              <div
+                key={key}
+                data-key={key}
+                ref={measureElement}
+                className="absolute inset-x-0 top-0"
+                style={{ transform: `translateY(${start}px)` }}
+              >
+                {renderGroupHeader(row.group)}
+              </div>
+            );
+          }
+
+          const { expense } = row;
+          return (
+            <div
+              key={key}
+              data-key={key}
+              ref={measureElement}
+              className="absolute inset-x-0 top-0"
+              style={{ transform: `translateY(${start}px)` }}
+            >
+              <ExpenseCard
+                expense={expense}
+                variant={variant}
+                highlightQuery={highlightQuery}
+                onClick={onExpenseClick ? () => onExpenseClick(expense) : undefined}
+                onEdit={showActions && onExpenseEdit ? () => onExpenseEdit(expense) : undefined}
+                onDelete={showActions && onExpenseDelete ? () => onExpenseDelete(expense) : undefined}
+                selectable={selectionMode}
+                selected={selectedSet.has(expense.id)}
+                onSelectedChange={(selected) => handleSelectedChange(expense, selected)}
+              />
+            </div>
+          );
+        })}
       </div>
 
-      {/* Load more button */}
+      {/* Load more (fallback for when scrolling does not trigger it) */}
       {hasMore && onLoadMore && (
         <div className="flex justify-center pt-4">
           <Button
             variant="outline"
             onClick={onLoadMore}
-            disabled={isLoading}
+            disabled={isLoadingMore}
           >
-            {isLoading ? (
+            {isLoadingMore ? (
               <>
                 <svg
                   xmlns="http://www.w3.org/2000/svg"
@@ -0,0 +1,412 @@
+/**
+ * SavedViewsMenu Organism Component
+ *
+ * Dropdown of the saved filter views: applies a view, saves the current
+ * filters as a new one (with fixed, relative or no dates), renames and
+ * deletes views.
+ *
+ * @module domains/expenses/components/organisms/saved-views-menu
+ */
+
+'use client';
+
+import * as React from 'react';
+import { Bookmark, Check, Pencil, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger
+} from '@/components/ui/popover';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import { useSavedViews } from '../../hooks/use-saved-views';
+import { useExpenseFilterValues } from '../../hooks/use-expense-filters';
+import { MAX_VIEW_NAME_LENGTH } from '../../saved-views';
+import {
+  RELATIVE_DATE_RANGES,
+  getDateRangeKey,
+  parseDateRangeKey
+} from '../../date-range';
+import { getDateRangeLabel } from '../molecules/date-range-picker';
+import { getUserFriendlyMessage } from '../../errors';
+import type {
+  DateRangeFilter,
+  RelativeDateRange,
+  SavedFilterView
+} from '../../types';
+import { expensesTextMap } from '../../expenses.text-map';
+
+export interface SavedViewsMenuProps {
+  /**
+   * Additional CSS classes
+   */
+  className?: string;
+}
+
+/**
+ * Select value of the "fixed dates" option (the current absolute dates)
+ */
+const FIXED_DATES_KEY = 'fixed';
+
+/**
+ * Select value of a date filter
+ */
+function getDateRangeOptionKey(range: DateRangeFilter): string {
+  return range.type === 'absolute' ? FIXED_DATES_KEY : getDateRangeKey(range);
+}
+
+/**
+ * Dialog that names the current filters and picks how their dates are kept
+ * (mounted while open, so every save starts blank)
+ */
+function SaveViewDialog({
+  open,
+  onOpenChange,
+  onSave
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSave: (name: string, dateRange: DateRangeFilter) => Promise<void>;
+}) {
+  const { dateRange } = useExpenseFilterValues();
+  const [name, setName] = React.useState('');
+  const [dateRangeKey, setDateRangeKey] = React.useState(() =>
+    getDateRangeOptionKey(dateRange)
+  );
+  const [isSaving, setIsSaving] = React.useState(false);
+
+  // The current range is offered even when it is not a preset (`last-45-days`)
+  const options = React.useMemo(() => {
+    const ranges: Array<{ type: 'allTime' } | RelativeDateRange> = [
+      { type: 'allTime' },
+      ...RELATIVE_DATE_RANGES
+    ];
+    if (
+      dateRange.type !== 'absolute' &&
+      !ranges.some(range => getDateRangeKey(range) === getDateRangeKey(dateRange))
+    ) {
+      ranges.push(dateRange);
+    }
+    return ranges;
+  }, [dateRange]);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    try {
+      setIsSaving(true);
+      await onSave(name, parseDateRangeKey(dateRangeKey) ?? dateRange);
+      onOpenChange(false);
+    } catch {
+      // Reported by onSave; keep the dialog open to fix the name
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[420px]">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{expensesTextMap.saveViewTitle}</DialogTitle>
+            <DialogDescription>
+              {expensesTextMap.saveViewDescription}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="saved-view-name">
+              {expensesTextMap.viewNameLabel}
+            </Label>
+            <Input
+              id="saved-view-name"
+              value={name}
+              maxLength={MAX_VIEW_NAME_LENGTH}
+              placeholder={expensesTextMap.viewNamePlaceholder}
+              onChange={e => setName(e.target.value)}
+              autoFocus
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="saved-view-dates">
+              {expensesTextMap.viewDateRangeLabel}
+            </Label>
+            <Select value={dateRangeKey} onValueChange={setDateRangeKey}>
+              <SelectTrigger id="saved-view-dates">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {dateRange.type === 'absolute' && (
+                  <SelectItem value={FIXED_DATES_KEY}>
+                    {expensesTextMap.viewDateRangeFixed}
+                  </SelectItem>
+                )}
+                {options.map(range => (
+                  <SelectItem
+                    key={getDateRangeKey(range)}
+                    value={getDateRangeKey(range)}
+                  >
+                    {getDateRangeLabel(range)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+            >
+              {expensesTextMap.cancel}
+            </Button>
+            <Button type="submit" disabled={isSaving || !name.trim()}>
+              {expensesTextMap.saveViewButton}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/**
+ * SavedViewsMenu Component
+ *
+ * The trigger shows the name of the view matching the current filters.
+ *
+ * @example
+ * ```tsx
+ * <SavedViewsMenu />
+ * ```
+ */
+export function SavedViewsMenu({ className }: SavedViewsMenuProps) {
+  const { views, activeView, saveView, renameView, deleteView, applyView } =
+    useSavedViews();
+  const [isOpen, setIsOpen] = React.useState(false);
+  const [isSaveOpen, setIsSaveOpen] = React.useState(false);
+  const [editing, setEditing] = React.useState<{
+    id: string;
+    name: string;
+  } | null>(null);
+  const [deleting, setDeleting] = React.useState<SavedFilterView | null>(null);
+
+  const handleSave = async (name: string, dateRange: DateRangeFilter) => {
+    try {
+      const view = await saveView(name, dateRange);
+      // Apply it so relative dates take effect right away
+      applyView(view);
+      toast.success(expensesTextMap.viewSaved.replace('{name}', view.name));
+    } catch (error) {
+      toast.error(expensesTextMap.errorSavingView, {
+        description: getUserFriendlyMessage(error)
+      });
+      throw error;
+    }
+  };
+
+  const handleApply = (view: SavedFilterView) => {
+    applyView(view);
+    setIsOpen(false);
+  };
+
+  const handleRename = async () => {
+    if (!editing) return;
+
+    try {
+      await renameView(editing.id, editing.name);
+      setEditing(null);
+      toast.success(expensesTextMap.viewRenamed);
+    } catch (error) {
+      toast.error(expensesTextMap.errorSavingView, {
+        description: getUserFriendlyMessage(error)
+      });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+
+    try {
+      await deleteView(deleting.id);
+      toast.success(expensesTextMap.viewDeleted);
+    } catch (error) {
+      toast.error(expensesTextMap.errorDeletingView, {
+        description: getUserFriendlyMessage(error)
+      });
+    } finally {
+      setDeleting(null);
+    }
+  };
+
+  return (
+    <>
+      <Popover
+        open={isOpen}
+        onOpenChange={open => {
+          setIsOpen(open);
+          setEditing(null);
+        }}
+      >
+        <PopoverTrigger asChild>
+          <Button variant="outline" className={cn('gap-2', className)}>
+            <Bookmark className="size-4" />
+            <span className="max-w-40 truncate">
+              {activeView?.name ?? expensesTextMap.savedViewsButton}
+            </span>
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="end" className="w-80 space-y-2 p-2">
+          {views.length === 0 ? (
+            <p className="px-2 py-3 text-center text-sm text-muted-foreground">
+              {expensesTextMap.savedViewsEmpty}
+            </p>
+          ) : (
+            <ul className="max-h-72 space-y-1 overflow-y-auto">
+              {views.map(view =>
+                editing?.id === view.id ? (
+                  <li key={view.id}>
+                    <Input
+                      value={editing.name}
+                      maxLength={MAX_VIEW_NAME_LENGTH}
+                      aria-label={expensesTextMap.renameView}
+                      onChange={e =>
+                        setEditing({ id: view.id, name: e.target.value })
+                      }
+                      onKeyDown={e => {
+                        if (e.key === 'Enter') {
+                          e.preventDefault();
+                          handleRename();
+                        } else if (e.key === 'Escape') {
+                          e.preventDefault();
+                          setEditing(null);
+                        }
+                      }}
+                      onBlur={() => setEditing(null)}
+                      autoFocus
+                    />
+                  </li>
+                ) : (
+                  <li key={view.id} className="flex items-center gap-1">
+                    <Button
+                      variant="ghost"
+                      className="h-auto flex-1 justify-start gap-2 px-2 py-1.5 text-left font-normal"
+                      onClick={() => handleApply(view)}
+                    >
+                      <Check
+                        className={cn(
+                          'size-4 shrink-0',
+                          activeView?.id !== view.id && 'invisible'
+                        )}
+                      />
+                      <span className="min-w-0 flex-1">
+                        <span className="block truncate">{view.name}</span>
+                        {view.filters.dateRange.type !== 'absolute' && (
+                          <span className="block text-xs text-muted-foreground">
+                            {getDateRangeLabel(view.filters.dateRange)}
+                          </span>
+                        )}
+                      </span>
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="size-8 shrink-0"
+                      aria-label={expensesTextMap.renameView}
+                      onClick={() => setEditing({ id: view.id, name: view.name })}
+                    >
+                      <Pencil className="size-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="size-8 shrink-0 text-destructive"
+                      aria-label={expensesTextMap.deleteView}
+                      onClick={() => setDeleting(view)}
+                    >
+                      <Trash2 className="size-4" />
+                    </Button>
+                  </li>
+                )
+              )}
+            </ul>
+          )}
+
+          <Button
+            variant="outline"
+            className="w-full gap-2"
+            onClick={() => {
+              setIsOpen(false);
+              setIsSaveOpen(true);
+            }}
+          >
+            <Plus className="size-4" />
+            {expensesTextMap.saveView}
+          </Button>
+        </PopoverContent>
+      </Popover>
+
+      {isSaveOpen && (
+        <SaveViewDialog
+          open={isSaveOpen}
+          onOpenChange={setIsSaveOpen}
+          onSave={handleSave}
+        />
+      )}
+
+      <AlertDialog
+        open={deleting !== null}
+        onOpenChange={open => !open && setDeleting(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{expensesTextMap.deleteViewTitle}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {expensesTextMap.deleteViewDescription.replace(
+                '{name}',
+                deleting?.name ?? ''
+              )}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{expensesTextMap.cancel}</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>
+              {expensesTextMap.deleteConfirmButton}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
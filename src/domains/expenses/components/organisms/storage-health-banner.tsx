@@ -0,0 +1,126 @@
+/**
+ * StorageHealthBanner Organism Component
+ *
+ * Banner shown when the local database is terminated, outdated or
+ * unavailable, with a reconnect (or reload) action, and a warning when
+ * expenses are only kept in memory. Also applies the storage mode chosen in
+ * settings and runs automatic sync, since it is mounted once for the whole app.
+ *
+ * @module domains/expenses/components/organisms/storage-health-banner
+ */
+
+'use client';
+
+import * as React from 'react';
+import { DatabaseZap, RefreshCw, TriangleAlert } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { useStorageHealth } from '../../hooks/use-storage-health';
+import { useExpenseStorageMode } from '../../hooks/use-storage-mode';
+import { useAutoSync } from '../../hooks/use-auto-sync';
+import { invalidateExpenseQueries } from '../../query-cache';
+import { expensesTextMap } from '../../expenses.text-map';
+
+export interface StorageHealthBannerProps {
+  /**
+   * Additional CSS classes
+   */
+  className?: string;
+}
+
+/**
+ * StorageHealthBanner Component
+ *
+ * Renders nothing while storage is healthy.
+ *
+ * @example
+ * ```tsx
+ * <StorageHealthBanner />
+ * ```
+ */
+export function StorageHealthBanner({ className }: StorageHealthBannerProps) {
+  useExpenseStorageMode();
+  useAutoSync();
+  const { health, isUnhealthy, isPersistent, isReconnecting, reconnect } =
+    useStorageHealth();
+
+  // In-memory fallback: the app works, but nothing survives a reload
+  if (!isPersistent) {
+    return (
+      <div
+        className={cn(
+          'fixed inset-x-0 top-0 z-50 mx-auto max-w-2xl p-4',
+          className
+        )}
+      >
+        <Alert className="shadow-lg">
+          <TriangleAlert />
+          <AlertTitle>{expensesTextMap.storageNotPersistentTitle}</AlertTitle>
+          <AlertDescription>
+            <p>{expensesTextMap.storageNotPersistentDescription}</p>
+          </AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+
+  if (!isUnhealthy) {
+    return null;
+  }
+
+  const handleReconnect = async () => {
+    if (await reconnect()) {
+      invalidateExpenseQueries();
+    }
+  };
+
+  const isOutdated = health.status === 'outdated';
+  const { title, description } = isOutdated
+    ? {
+        title: expensesTextMap.storageOutdatedTitle,
+        description: expensesTextMap.storageOutdatedDescription
+      }
+    : health.status === 'terminated'
+      ? {
+          title: expensesTextMap.storageTerminatedTitle,
+          description: expensesTextMap.storageTerminatedDescription
+        }
+      : {
+          title: expensesTextMap.storageUnavailableTitle,
+          description: expensesTextMap.storageUnavailableDescription
+        };
+
+  return (
+    <div
+      className={cn(
+        'fixed inset-x-0 top-0 z-50 mx-auto max-w-2xl p-4',
+        className
+      )}
+    >
+      <Alert variant="destructive" className="shadow-lg">
+        <DatabaseZap />
+        <AlertTitle>{title}</AlertTitle>
+        <AlertDescription>
+          <p>{description}</p>
+          <Button
+            variant="outline"
+            size="sm"
+            className="mt-2"
+            onClick={
+              isOutdated ? () => window.location.reload() : handleReconnect
+            }
+            disabled={isReconnecting}
+          >
+            <RefreshCw
+              className={cn('size-4', isReconnecting && 'animate-spin')}
+            />
+            {isOutdated
+              ? expensesTextMap.storageReload
+              : expensesTextMap.storageReconnect}
+          </Button>
+        </AlertDescription>
+      </Alert>
+    </div>
+  );
+}
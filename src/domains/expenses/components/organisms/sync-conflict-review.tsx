@@ -0,0 +1,204 @@
+/**
+ * SyncConflictReview Organism Component
+ *
+ * Dialog listing fields that were changed on this device and on the server
+ * to different values, letting the user keep either value per field.
+ *
+ * @module domains/expenses/components/organisms/sync-conflict-review
+ */
+
+'use client';
+
+import * as React from 'react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import type {
+  ExpenseCategory,
+  ExpenseSyncConflict,
+  ExpenseSyncField
+} from '../../types';
+import { useExpenseSync } from '../../hooks/use-expense-sync';
+import { useResolveSyncConflict } from '../../hooks/use-resolve-sync-conflict';
+import { getUserFriendlyMessage } from '../../errors';
+import { ExpenseAmount } from '../atoms/expense-amount';
+import { ExpenseDate } from '../atoms/expense-date';
+import { CategoryName } from '../atoms/category-badge';
+import { TagList } from '../atoms/tag-chip';
+import { expensesTextMap } from '../../expenses.text-map';
+
+export interface SyncConflictReviewProps {
+  /**
+   * Whether the dialog is open
+   */
+  open: boolean;
+
+  /**
+   * Called when the dialog wants to open or close
+   */
+  onOpenChange: (open: boolean) => void;
+}
+
+const fieldLabels: Record<ExpenseSyncField, string> = {
+  description: expensesTextMap.descriptionLabel,
+  amount: expensesTextMap.amountLabel,
+  currency: expensesTextMap.currencyLabel,
+  category: expensesTextMap.categoryLabel,
+  date: expensesTextMap.dateLabel,
+  tags: expensesTextMap.tagsLabel,
+  deletedAt: expensesTextMap.syncTrashLabel
+};
+
+/**
+ * Render a conflicting value in its natural format
+ */
+function ConflictValue({
+  field,
+  value
+}: {
+  field: ExpenseSyncField;
+  value: ExpenseSyncConflict['local'];
+}) {
+  switch (field) {
+    case 'amount':
+      // The currency may be part of the conflict too
+      return <ExpenseAmount amount={value as number} size="sm" showCurrency={false} />;
+    case 'date':
+      return <ExpenseDate date={value as string} variant="short" size="sm" />;
+    case 'category':
+      return <CategoryName category={value as ExpenseCategory} />;
+    case 'tags':
+      return (value as string[]).length > 0 ? (
+        <TagList tags={value as string[]} className="inline-flex" />
+      ) : (
+        <span>{expensesTextMap.noTags}</span>
+      );
+    case 'deletedAt':
+      return (
+        <span>
+          {value === null
+            ? expensesTextMap.syncNotInTrash
+            : expensesTextMap.syncInTrash}
+        </span>
+      );
+    case 'description':
+    default:
+      return <span className="break-all">{String(value)}</span>;
+  }
+}
+
+/**
+ * SyncConflictReview Component
+ *
+ * Oldest conflict first. Closes itself once every conflict is settled.
+ *
+ * @example
+ * ```tsx
+ * <SyncConflictReview open={isReviewOpen} onOpenChange={setIsReviewOpen} />
+ * ```
+ */
+export function SyncConflictReview({
+  open,
+  onOpenChange
+}: SyncConflictReviewProps) {
+  const { conflicts } = useExpenseSync();
+  const { mutate: resolve, isLoading } = useResolveSyncConflict();
+
+  const handleResolve = async (
+    conflict: ExpenseSyncConflict,
+    keep: 'local' | 'server'
+  ) => {
+    try {
+      await resolve({ conflict, keep });
+      toast.success(expensesTextMap.syncConflictResolved);
+      if (conflicts.length === 1) {
+        onOpenChange(false);
+      }
+    } catch (error) {
+      toast.error(expensesTextMap.errorResolvingConflict, {
+        description: getUserFriendlyMessage(error)
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[85vh] overflow-y-auto sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{expensesTextMap.syncConflictsTitle}</DialogTitle>
+          <DialogDescription>
+            {expensesTextMap.syncConflictsDescription}
+          </DialogDescription>
+        </DialogHeader>
+
+        {conflicts.length === 0 ? (
+          <p className="text-muted-foreground py-6 text-center text-sm">
+            {expensesTextMap.syncConflictsEmpty}
+          </p>
+        ) : (
+          <ul className="space-y-3">
+            {conflicts.map(conflict => (
+              <li key={conflict.id} className="space-y-3 rounded-lg border p-3">
+                <div className="flex items-baseline justify-between gap-2">
+                  <p className="truncate font-medium">{conflict.description}</p>
+                  <span className="text-muted-foreground shrink-0 text-xs">
+                    {fieldLabels[conflict.field]}
+                  </span>
+                </div>
+
+                <dl className="grid grid-cols-2 gap-3 text-sm">
+                  <div>
+                    <dt className="text-muted-foreground text-xs">
+                      {expensesTextMap.syncLocalValue}
+                    </dt>
+                    <dd>
+                      <ConflictValue
+                        field={conflict.field}
+                        value={conflict.local}
+                      />
+                    </dd>
+                  </div>
+                  <div>
+                    <dt className="text-muted-foreground text-xs">
+                      {expensesTextMap.syncServerValue}
+                    </dt>
+                    <dd>
+                      <ConflictValue
+                        field={conflict.field}
+                        value={conflict.server}
+                      />
+                    </dd>
+                  </div>
+                </dl>
+
+                <div className="flex justify-end gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={isLoading}
+                    onClick={() => handleResolve(conflict, 'server')}
+                  >
+                    {expensesTextMap.syncKeepServer}
+                  </Button>
+                  <Button
+                    size="sm"
+                    disabled={isLoading}
+                    onClick={() => handleResolve(conflict, 'local')}
+                  >
+                    {expensesTextMap.syncKeepLocal}
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
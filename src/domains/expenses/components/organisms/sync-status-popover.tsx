@@ -0,0 +1,178 @@
+/**
+ * SyncStatusPopover Organism Component
+ *
+ * Header control for sync in local storage mode: shows the sync status,
+ * runs a sync on demand, toggles automatic sync and opens the conflict
+ * review when fields could not be merged.
+ *
+ * @module domains/expenses/components/organisms/sync-status-popover
+ */
+
+'use client';
+
+import * as React from 'react';
+import { Cloud, CloudAlert, CloudOff, RefreshCw } from 'lucide-react';
+import { toast } from 'sonner';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger
+} from '@/components/ui/popover';
+import { cn } from '@/lib/utils';
+import { useExpenseSync } from '../../hooks/use-expense-sync';
+import { getUserFriendlyMessage } from '../../errors';
+import { RelativeDate } from '../atoms/expense-date';
+import { SyncConflictReview } from './sync-conflict-review';
+import { expensesTextMap } from '../../expenses.text-map';
+
+export interface SyncStatusPopoverProps {
+  /**
+   * Additional CSS classes
+   */
+  className?: string;
+}
+
+const statusIcons = {
+  idle: Cloud,
+  syncing: RefreshCw,
+  offline: CloudOff,
+  error: CloudAlert
+} as const;
+
+/**
+ * SyncStatusPopover Component
+ *
+ * Renders nothing in server storage mode.
+ *
+ * @example
+ * ```tsx
+ * <SyncStatusPopover />
+ * ```
+ */
+export function SyncStatusPopover({ className }: SyncStatusPopoverProps) {
+  const {
+    status,
+    error,
+    lastSyncedAt,
+    pendingCount,
+    conflicts,
+    isAvailable,
+    syncEnabled,
+    setSyncEnabled,
+    sync
+  } = useExpenseSync();
+  const [isReviewOpen, setIsReviewOpen] = React.useState(false);
+
+  if (!isAvailable) {
+    return null;
+  }
+
+  const StatusIcon = statusIcons[status];
+
+  const handleSync = async () => {
+    try {
+      const result = await sync();
+      if (!result) {
+        return;
+      }
+      if (result.conflicts > 0) {
+        toast.warning(
+          expensesTextMap.syncConflictsFound.replace(
+            '{count}',
+            String(result.conflicts)
+          )
+        );
+      } else {
+        toast.success(expensesTextMap.syncDone, {
+          description: expensesTextMap.syncDoneDescription
+            .replace('{pushed}', String(result.pushed))
+            .replace('{pulled}', String(result.pulled))
+        });
+      }
+    } catch (error) {
+      toast.error(expensesTextMap.syncFailed, {
+        description: getUserFriendlyMessage(error)
+      });
+    }
+  };
+
+  return (
+    <>
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant="outline" className={cn('gap-2', className)}>
+            <StatusIcon
+              className={cn('size-4', status === 'syncing' && 'animate-spin')}
+            />
+            {expensesTextMap.syncButton}
+            {conflicts.length > 0 && (
+              <Badge variant="destructive">{conflicts.length}</Badge>
+            )}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="end" className="w-72 space-y-4">
+          <div className="space-y-1 text-sm">
+            <p className="font-medium">{expensesTextMap.syncLastSynced}</p>
+            {lastSyncedAt ? (
+              <RelativeDate date={lastSyncedAt} />
+            ) : (
+              <p className="text-muted-foreground">
+                {expensesTextMap.syncNever}
+              </p>
+            )}
+            {pendingCount > 0 && (
+              <p className="text-muted-foreground">
+                {expensesTextMap.syncPending.replace(
+                  '{count}',
+                  String(pendingCount)
+                )}
+              </p>
+            )}
+            {status === 'offline' && (
+              <p className="text-muted-foreground">
+                {expensesTextMap.syncOffline}
+              </p>
+            )}
+            {status === 'error' && error && (
+              <p className="text-destructive">
+                {getUserFriendlyMessage(error)}
+              </p>
+            )}
+          </div>
+
+          <div className="flex items-center gap-2">
+            <input
+              id="sync-auto"
+              type="checkbox"
+              checked={syncEnabled}
+              onChange={e => setSyncEnabled(e.target.checked)}
+              className="accent-primary size-4 cursor-pointer"
+            />
+            <Label htmlFor="sync-auto">{expensesTextMap.syncAuto}</Label>
+          </div>
+
+          <div className="flex flex-col gap-2">
+            <Button onClick={handleSync} disabled={status === 'syncing'}>
+              {status === 'syncing'
+                ? expensesTextMap.syncing
+                : expensesTextMap.syncNow}
+            </Button>
+            {conflicts.length > 0 && (
+              <Button variant="outline" onClick={() => setIsReviewOpen(true)}>
+                {expensesTextMap.syncReviewConflicts.replace(
+                  '{count}',
+                  String(conflicts.length)
+                )}
+              </Button>
+            )}
+          </div>
+        </PopoverContent>
+      </Popover>
+
+      <SyncConflictReview open={isReviewOpen} onOpenChange={setIsReviewOpen} />
+    </>
+  );
+}
@@ -0,0 +1,176 @@
+/**
+ * TrashList Organism Component
+ *
+ * Displays trashed expenses with restore and permanent delete actions.
+ *
+ * @module domains/expenses/components/organisms/trash-list
+ */
+
+'use client';
+
+import * as React from 'react';
+import { RotateCcw, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import type { Expense } from '../../types';
+import { ExpenseCard, ExpenseCardSkeleton } from '../molecules/expense-card';
+import { RelativeDate } from '../atoms/expense-date';
+import { expensesTextMap } from '../../expenses.text-map';
+
+export interface TrashListProps {
+  /**
+   * Trashed expenses to display
+   */
+  expenses: Expense[];
+
+  /**
+   * Loading state
+   * @default false
+   */
+  isLoading?: boolean;
+
+  /**
+   * Error state
+   */
+  error?: Error | null;
+
+  /**
+   * Restore handler
+   */
+  onRestore: (expense: Expense) => void;
+
+  /**
+   * Permanent delete handler
+   */
+  onDeleteForever: (expense: Expense) => void;
+
+  /**
+   * Retry handler (for error state)
+   */
+  onRetry?: () => void;
+
+  /**
+   * Disable actions (while a mutation is running)
+   * @default false
+   */
+  disabled?: boolean;
+
+  /**
+   * Additional CSS classes
+   */
+  className?: string;
+}
+
+/**
+ * TrashList Component
+ *
+ * @example
+ * ```tsx
+ * <TrashList
+ *   expenses={trashed}
+ *   onRestore={expense => restore(expense.id)}
+ *   onDeleteForever={expense => destroy(expense.id)}
+ * />
+ * ```
+ */
+export function TrashList({
+  expenses,
+  isLoading = false,
+  error = null,
+  onRestore,
+  onDeleteForever,
+  onRetry,
+  disabled = false,
+  className
+}: TrashListProps) {
+  if (isLoading && expenses.length === 0) {
+    return (
+      <div className={cn('space-y-3', className)}>
+        {Array.from({ length: 3 }).map((_, index) => (
+          <ExpenseCardSkeleton key={index} />
+        ))}
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div
+        className={cn(
+          'flex flex-col items-center justify-center py-12 text-center',
+          className
+        )}
+      >
+        <h3 className="mb-2 text-lg font-semibold">
+          {expensesTextMap.errorLoading}
+        </h3>
+        <p className="text-muted-foreground mb-4 text-sm">
+          {error.message || expensesTextMap.errorLoadingDescription}
+        </p>
+        {onRetry && (
+          <Button onClick={onRetry} variant="outline">
+            {expensesTextMap.retry}
+          </Button>
+        )}
+      </div>
+    );
+  }
+
+  if (expenses.length === 0) {
+    return (
+      <div
+        className={cn(
+          'flex flex-col items-center justify-center py-12 text-center',
+          className
+        )}
+      >
+        <div className="bg-muted mb-4 flex size-16 items-center justify-center rounded-full">
+          <Trash2 className="text-muted-foreground size-8" />
+        </div>
+        <h3 className="mb-2 text-lg font-semibold">
+          {expensesTextMap.trashEmpty}
+        </h3>
+        <p className="text-muted-foreground text-sm">
+          {expensesTextMap.trashEmptyDescription}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className={cn('space-y-3', className)}>
+      {expenses.map(expense => (
+        <div key={expense.id} className="space-y-2">
+          <ExpenseCard expense={expense} className="opacity-75" />
+          <div className="flex flex-wrap items-center justify-between gap-2 px-1">
+            <span className="text-muted-foreground flex items-center gap-1 text-xs">
+              {expensesTextMap.trashDeletedAt}
+              {expense.deletedAt && <RelativeDate date={expense.deletedAt} />}
+            </span>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => onRestore(expense)}
+                disabled={disabled}
+              >
+                <RotateCcw className="size-4" />
+                {expensesTextMap.trashRestore}
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onDeleteForever(expense)}
+                disabled={disabled}
+                className="text-destructive hover:text-destructive"
+              >
+                <Trash2 className="size-4" />
+                {expensesTextMap.trashDeleteForever}
+              </Button>
+            </div>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,254 @@
+/**
+ * Currencies and Conversion
+ *
+ * Every expense keeps the amount and currency it was paid in. Totals
+ * (dashboard metrics, group subtotals) are shown in the base currency chosen
+ * in the settings, converted with the exchange rates the user entered
+ * (`exchange-rates.ts`):
+ *
+ * - A rate applies from its date on: an expense uses the latest rate dated
+ *   on or before its day, or the earliest rate when it predates them all
+ * - A rate converts both ways (`USD → MXN 17.0` also gives `MXN → USD`)
+ * - Without any rate between the two currencies the amount cannot be
+ *   converted; totals leave it out and report how many were skipped
+ *
+ * Pure functions, shared by the dashboard, the ledger and the settings.
+ *
+ * @module domains/expenses/currencies
+ */
+
+import { format } from 'date-fns';
+import type {
+  CurrencyCode,
+  CurrencyDayAmount,
+  ExchangeRateInput,
+  Expense
+} from './types';
+
+/**
+ * Currency of expenses recorded before currencies existed, and the default
+ * base currency
+ */
+export const DEFAULT_CURRENCY: CurrencyCode = 'MXN';
+
+/**
+ * Currencies offered in pickers (any ISO 4217 code is accepted)
+ */
+export const CURRENCIES: readonly CurrencyCode[] = [
+  'MXN',
+  'USD',
+  'EUR',
+  'CAD',
+  'GBP',
+  'JPY',
+  'CNY',
+  'BRL',
+  'ARS',
+  'COP',
+  'CLP',
+  'PEN',
+  'GTQ',
+  'CRC',
+  'CHF',
+  'AUD'
+];
+
+/**
+ * Shape of an ISO 4217 code
+ */
+export const CURRENCY_PATTERN = /^[A-Z]{3}$/;
+
+/**
+ * Locale used to format amounts
+ */
+const AMOUNT_LOCALE = 'es-MX';
+
+/**
+ * Format an amount in a currency (`1250.5, 'USD'` → `'USD 1,250.50'`)
+ *
+ * @param showCurrency - Include the symbol or code (plain number otherwise)
+ */
+export function formatMoney(
+  amount: number,
+  currency: CurrencyCode,
+  showCurrency = true
+): string {
+  return new Intl.NumberFormat(AMOUNT_LOCALE, {
+    style: showCurrency ? 'currency' : 'decimal',
+    currency,
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2
+  }).format(amount);
+}
+
+/**
+ * Localized name of a currency (`'USD'` → `'dólar estadounidense'`)
+ */
+export function getCurrencyName(currency: CurrencyCode): string {
+  try {
+    return (
+      new Intl.DisplayNames(AMOUNT_LOCALE, { type: 'currency' }).of(currency) ??
+      currency
+    );
+  } catch {
+    return currency;
+  }
+}
+
+/**
+ * Round to cents so float sums do not drift
+ */
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Find the rate that converts `from` into `to` on a day
+ *
+ * @param day - `YYYY-MM-DD`
+ * @returns Units of `to` per unit of `from`, or null without any rate
+ * between the two currencies
+ */
+export function findExchangeRate(
+  rates: readonly ExchangeRateInput[],
+  from: CurrencyCode,
+  to: CurrencyCode,
+  day: string
+): number | null {
+  if (from === to) {
+    return 1;
+  }
+
+  let before: { date: string; rate: number } | null = null;
+  let after: { date: string; rate: number } | null = null;
+
+  for (const entry of rates) {
+    const rate =
+      entry.from === from && entry.to === to
+        ? entry.rate
+        : entry.from === to && entry.to === from
+          ? 1 / entry.rate
+          : null;
+    if (rate === null) {
+      continue;
+    }
+
+    if (entry.date <= day) {
+      if (!before || entry.date > before.date) {
+        before = { date: entry.date, rate };
+      }
+    } else if (!after || entry.date < after.date) {
+      after = { date: entry.date, rate };
+    }
+  }
+
+  return (before ?? after)?.rate ?? null;
+}
+
+/**
+ * Convert an amount into another currency with the rate of its day
+ *
+ * @param day - `YYYY-MM-DD`
+ * @returns Converted amount (rounded to cents), or null without a rate
+ */
+export function convertAmount(
+  rates: readonly ExchangeRateInput[],
+  amount: number,
+  from: CurrencyCode,
+  to: CurrencyCode,
+  day: string
+): number | null {
+  const rate = findExchangeRate(rates, from, to, day);
+  return rate === null ? null : roundCents(amount * rate);
+}
+
+/**
+ * Convert the amount of an expense with the rate of its (local) day
+ *
+ * @returns Converted amount, or null without a rate
+ *
+ * @example
+ * ```typescript
+ * convertExpenseAmount(rates, { amount: 20, currency: 'USD', date }, 'MXN');
+ * // 341
+ * ```
+ */
+export function convertExpenseAmount(
+  rates: readonly ExchangeRateInput[],
+  expense: Pick<Expense, 'amount' | 'currency' | 'date'>,
+  currency: CurrencyCode
+): number | null {
+  return convertAmount(
+    rates,
+    expense.amount,
+    expense.currency,
+    currency,
+    format(new Date(expense.date), 'yyyy-MM-dd')
+  );
+}
+
+/**
+ * Total of several amounts in one currency
+ *
+ * @returns Total of the convertible amounts, and how many could not be
+ * converted (left out of the total)
+ *
+ * @example
+ * ```typescript
+ * sumInCurrency(rates, group.amounts, 'MXN');
+ * // { total: 5230.4, unconverted: 0 }
+ * ```
+ */
+export function sumInCurrency(
+  rates: readonly ExchangeRateInput[],
+  amounts: readonly CurrencyDayAmount[],
+  currency: CurrencyCode
+): { total: number; unconverted: number } {
+  let total = 0;
+  let unconverted = 0;
+
+  amounts.forEach(entry => {
+    const converted = convertAmount(
+      rates,
+      entry.amount,
+      entry.currency,
+      currency,
+      entry.date
+    );
+    if (converted === null) {
+      unconverted++;
+    } else {
+      total = roundCents(total + converted);
+    }
+  });
+
+  return { total, unconverted };
+}
+
+/**
+ * Add an amount to a per-currency, per-day breakdown (in place)
+ *
+ * Entries that drop to zero are removed, so taking an expense back out
+ * leaves no trace.
+ */
+export function addCurrencyDayAmount(
+  amounts: CurrencyDayAmount[],
+  currency: CurrencyCode,
+  date: string,
+  amount: number
+): void {
+  const index = amounts.findIndex(
+    entry => entry.currency === currency && entry.date === date
+  );
+  if (index === -1) {
+    amounts.push({ currency, date, amount: roundCents(amount) });
+    return;
+  }
+
+  const sum = roundCents(amounts[index].amount + amount);
+  if (sum === 0) {
+    amounts.splice(index, 1);
+  } else {
+    amounts[index] = { ...amounts[index], amount: sum };
+  }
+}
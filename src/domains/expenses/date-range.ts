@@ -0,0 +1,190 @@
+/**
+ * Date Range Filters
+ *
+ * A date filter is one of:
+ * - `allTime`: no date bounds (the default, every expense)
+ * - a relative range (`lastDays`, `thisMonth`, `lastMonth`, `thisQuarter`,
+ *   `yearToDate`, `thisYear`) that moves with the current date
+ * - `absolute`: fixed dates, either end may be open
+ *
+ * Filters are resolved to concrete bounds in local time only when a query
+ * is built (`toDateFilters`), so a relative range never goes stale.
+ *
+ * @module domains/expenses/date-range
+ */
+
+import {
+  endOfDay,
+  endOfMonth,
+  endOfQuarter,
+  endOfYear,
+  startOfDay,
+  startOfMonth,
+  startOfQuarter,
+  startOfYear,
+  subDays,
+  subMonths
+} from 'date-fns';
+import type {
+  DateRange,
+  DateRangeFilter,
+  ExpenseFilters,
+  RelativeDateRange
+} from './types';
+
+/**
+ * Relative ranges offered by the date picker and saved views, in display order
+ */
+export const RELATIVE_DATE_RANGES: readonly RelativeDateRange[] = [
+  { type: 'lastDays', days: 1 },
+  { type: 'lastDays', days: 7 },
+  { type: 'lastDays', days: 30 },
+  { type: 'lastDays', days: 90 },
+  { type: 'thisMonth' },
+  { type: 'lastMonth' },
+  { type: 'thisQuarter' },
+  { type: 'yearToDate' },
+  { type: 'thisYear' }
+] as const;
+
+/**
+ * Check if a date filter is a relative range
+ */
+export function isRelativeDateRange(
+  range: DateRangeFilter
+): range is RelativeDateRange {
+  return range.type !== 'allTime' && range.type !== 'absolute';
+}
+
+/**
+ * Resolve a date filter to bounds (relative ranges as of `now`)
+ *
+ * @example
+ * ```typescript
+ * resolveDateRange({ type: 'lastDays', days: 30 });
+ * // { from: <29 days ago, 00:00>, to: <today, 23:59:59.999> }
+ *
+ * resolveDateRange({ type: 'allTime' });
+ * // { from: null, to: null }
+ * ```
+ */
+export function resolveDateRange(
+  range: DateRangeFilter,
+  now: Date = new Date()
+): DateRange {
+  switch (range.type) {
+    case 'allTime':
+      return { from: null, to: null };
+    case 'absolute':
+      return { from: range.from, to: range.to };
+    case 'lastDays':
+      return {
+        from: startOfDay(subDays(now, range.days - 1)),
+        to: endOfDay(now)
+      };
+    case 'thisMonth':
+      return { from: startOfMonth(now), to: endOfMonth(now) };
+    case 'lastMonth': {
+      const lastMonth = subMonths(now, 1);
+      return { from: startOfMonth(lastMonth), to: endOfMonth(lastMonth) };
+    }
+    case 'thisQuarter':
+      return { from: startOfQuarter(now), to: endOfQuarter(now) };
+    case 'yearToDate':
+      return { from: startOfYear(now), to: endOfDay(now) };
+    case 'thisYear':
+      return { from: startOfYear(now), to: endOfYear(now) };
+  }
+}
+
+/**
+ * Resolve a date filter to the `dateFrom` / `dateTo` of a query
+ * (absent bounds are left out, so `allTime` adds nothing)
+ *
+ * @example
+ * ```typescript
+ * useExpenses({ categories: ['Comida'], ...toDateFilters(dateRange) });
+ * ```
+ */
+export function toDateFilters(
+  range: DateRangeFilter,
+  now: Date = new Date()
+): Pick<ExpenseFilters, 'dateFrom' | 'dateTo'> {
+  const { from, to } = resolveDateRange(range, now);
+  return {
+    ...(from && { dateFrom: from.toISOString() }),
+    ...(to && { dateTo: to.toISOString() })
+  };
+}
+
+/**
+ * Check if two date filters are the same (relative ranges by kind, not by dates)
+ */
+export function isSameDateRangeFilter(
+  a: DateRangeFilter,
+  b: DateRangeFilter
+): boolean {
+  if (a.type === 'absolute' || b.type === 'absolute') {
+    return (
+      a.type === b.type &&
+      isSameDateRange(resolveDateRange(a), resolveDateRange(b))
+    );
+  }
+  return getDateRangeKey(a) === getDateRangeKey(b);
+}
+
+/**
+ * Check if two bounds cover the same instants
+ */
+function isSameDateRange(a: DateRange, b: DateRange): boolean {
+  return (
+    (a.from?.getTime() ?? null) === (b.from?.getTime() ?? null) &&
+    (a.to?.getTime() ?? null) === (b.to?.getTime() ?? null)
+  );
+}
+
+/**
+ * Stable key of a non-absolute date filter (`all-time`, `last-30-days`, `ytd`, ...)
+ * Used in URLs and as option values.
+ */
+export function getDateRangeKey(
+  range: { type: 'allTime' } | RelativeDateRange
+): string {
+  switch (range.type) {
+    case 'allTime':
+      return 'all-time';
+    case 'lastDays':
+      return `last-${range.days}-days`;
+    case 'thisMonth':
+      return 'this-month';
+    case 'lastMonth':
+      return 'last-month';
+    case 'thisQuarter':
+      return 'this-quarter';
+    case 'yearToDate':
+      return 'ytd';
+    case 'thisYear':
+      return 'this-year';
+  }
+}
+
+/**
+ * Parse a key from `getDateRangeKey` (null if unknown)
+ *
+ * Any positive number of days is accepted (`last-45-days`).
+ */
+export function parseDateRangeKey(
+  key: string
+): { type: 'allTime' } | RelativeDateRange | null {
+  const lastDays = /^last-(\d{1,4})-days$/.exec(key);
+  if (lastDays) {
+    const days = Number(lastDays[1]);
+    return days > 0 ? { type: 'lastDays', days } : null;
+  }
+  if (key === 'all-time') {
+    return { type: 'allTime' };
+  }
+  return (
+    RELATIVE_DATE_RANGES.find(range => getDateRangeKey(range) === key) ?? null
+  );
+}
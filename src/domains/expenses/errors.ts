@@ -148,6 +148,28 @@ export class ExpenseOperationError extends ExpenseError {
   }
 }
 
+/**
+ * Thrown when the expenses API (server storage mode) fails or is unreachable
+ * `status` is 0 when the request never got a response
+ */
+export class ExpenseApiError extends ExpenseError {
+  constructor(
+    message: string,
+    public readonly status: number,
+    context?: Record<string, unknown>
+  ) {
+    super(message, 'EXPENSE_API_ERROR', { status, ...context });
+    this.name = 'ExpenseApiError';
+  }
+
+  /**
+   * Check if the server could not be reached
+   */
+  isNetworkError(): boolean {
+    return this.status === 0;
+  }
+}
+
 /**
  * Type guard to check if error is an ExpenseError
  */
@@ -180,6 +202,13 @@ export function isIndexedDBError(error: unknown): error is IndexedDBError {
   return error instanceof IndexedDBError;
 }
 
+/**
+ * Type guard to check if error is ExpenseApiError
+ */
+export function isExpenseApiError(error: unknown): error is ExpenseApiError {
+  return error instanceof ExpenseApiError;
+}
+
 /**
  * Convert Zod validation error to ExpenseValidationError
  *
@@ -187,12 +216,12 @@ export function isIndexedDBError(error: unknown): error is IndexedDBError {
  * @returns ExpenseValidationError instance
  */
 export function fromZodError(zodError: {
-  issues: Array<{ path: (string | number)[]; message: string }>;
+  issues: Array<{ path: PropertyKey[]; message: string }>;
 }): ExpenseValidationError {
   const validationErrors: Record<string, string[]> = {};
 
   for (const issue of zodError.issues) {
-    const field = issue.path.join('.');
+    const field = issue.path.map(String).join('.');
     if (!validationErrors[field]) {
       validationErrors[field] = [];
     }
@@ -224,6 +253,14 @@ export function getUserFriendlyMessage(error: unknown): string {
       : 'Los datos ingresados no son válidos.';
   }
 
+  // Actions wrap storage failures; in server mode the cause is an API error
+  const apiError = isIndexedDBError(error) ? error.originalError : error;
+  if (isExpenseApiError(apiError)) {
+    return apiError.isNetworkError()
+      ? 'No se pudo conectar con el servidor. Revisa tu conexión e intenta nuevamente.'
+      : 'El servidor no pudo completar la operación. Por favor, intenta nuevamente.';
+  }
+
   if (isIndexedDBError(error)) {
     if (error.isQuotaExceeded()) {
       return 'El almacenamiento está lleno. Por favor, elimina algunos gastos antiguos.';
@@ -0,0 +1,158 @@
+/**
+ * Expense Change Events
+ *
+ * Notifications for expense mutations. `actions.ts` publishes after every
+ * committed write; the event reaches listeners in this tab (with the full
+ * before/after snapshots) and other tabs over a BroadcastChannel (IDs only).
+ *
+ * @module domains/expenses/events
+ */
+
+import type { Expense } from './types';
+import { logError } from './errors';
+
+/**
+ * BroadcastChannel name shared by every tab of the app
+ */
+export const EXPENSE_CHANNEL_NAME = 'expense-tracker-changes';
+
+/**
+ * Kind of change that happened
+ */
+export type ExpenseChangeType =
+  | 'create'
+  | 'update'
+  | 'delete'
+  | 'restore'
+  | 'purge';
+
+/**
+ * A single expense before and after a write
+ * (`before` is null for creates, `after` is null for permanent deletes)
+ */
+export interface ExpenseChange {
+  before: Expense | null;
+  after: Expense | null;
+}
+
+/**
+ * Event delivered to listeners after a committed write
+ */
+export interface ExpenseChangeEvent {
+  /** Kind of change */
+  type: ExpenseChangeType;
+
+  /** Affected expense IDs */
+  expenseIds: string[];
+
+  /** When the change was committed (ISO 8601 string) */
+  timestamp: string;
+
+  /** 'local' for writes made in this tab, 'remote' for other tabs */
+  origin: 'local' | 'remote';
+
+  /** Before/after snapshots (local events only) */
+  changes?: ExpenseChange[];
+}
+
+type ExpenseChangeListener = (event: ExpenseChangeEvent) => void;
+
+const listeners = new Set<ExpenseChangeListener>();
+let channel: BroadcastChannel | null = null;
+
+/**
+ * Deliver an event to every listener in this tab
+ */
+function dispatch(event: ExpenseChangeEvent): void {
+  listeners.forEach(listener => {
+    try {
+      listener(event);
+    } catch (error) {
+      logError(error, { operation: 'dispatchExpenseChange', type: event.type });
+    }
+  });
+}
+
+/**
+ * Lazily open the shared channel (null when unsupported, e.g. during SSR)
+ *
+ * BroadcastChannel does not deliver a message back to the channel that
+ * posted it, so messages received here always come from other tabs.
+ */
+function getChannel(): BroadcastChannel | null {
+  if (
+    typeof window === 'undefined' ||
+    typeof BroadcastChannel === 'undefined'
+  ) {
+    return null;
+  }
+  if (!channel) {
+    channel = new BroadcastChannel(EXPENSE_CHANNEL_NAME);
+    channel.addEventListener(
+      'message',
+      (message: MessageEvent<Omit<ExpenseChangeEvent, 'origin'>>) => {
+        dispatch({ ...message.data, origin: 'remote' });
+      }
+    );
+  }
+  return channel;
+}
+
+/**
+ * Announce a committed write to this tab and to other tabs
+ *
+ * Never throws: a failed notification must not fail the write it follows.
+ *
+ * @param type - Kind of change
+ * @param changes - Before/after snapshots of every affected expense
+ *
+ * @example
+ * ```typescript
+ * await tx.done;
+ * publishExpenseChange('create', [{ before: null, after: expense }]);
+ * ```
+ */
+export function publishExpenseChange(
+  type: ExpenseChangeType,
+  changes: ExpenseChange[]
+): void {
+  const expenseIds = changes
+    .map(change => (change.after ?? change.before)?.id)
+    .filter((id): id is string => !!id);
+
+  if (expenseIds.length === 0) {
+    return;
+  }
+
+  const timestamp = new Date().toISOString();
+  dispatch({ type, expenseIds, timestamp, origin: 'local', changes });
+
+  try {
+    getChannel()?.postMessage({ type, expenseIds, timestamp });
+  } catch (error) {
+    logError(error, { operation: 'broadcastExpenseChange', type });
+  }
+}
+
+/**
+ * Listen for committed expense writes from this tab and other tabs
+ *
+ * @param listener - Called with every change event
+ * @returns Unsubscribe function
+ *
+ * @example
+ * ```typescript
+ * useEffect(() => subscribeToExpenseChanges(() => refetch()), [refetch]);
+ * ```
+ */
+export function subscribeToExpenseChanges(
+  listener: ExpenseChangeListener
+): () => void {
+  // Open the channel so changes from other tabs are received
+  getChannel();
+
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
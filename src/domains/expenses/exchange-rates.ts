@@ -0,0 +1,184 @@
+/**
+ * Exchange Rates
+ *
+ * Rates entered by the user, stored in IndexedDB (`exchangeRates` store).
+ * Like categories they belong to this device: they are not synced and
+ * work offline. See `currencies.ts` for how they convert amounts.
+ *
+ * @module domains/expenses/exchange-rates
+ */
+
+import { isIndexedDBSupported, EXCHANGE_RATES_STORE_NAME } from '@/lib/db';
+import { getExpenseDB } from '@/lib/db-connection';
+import type { ExchangeRate, ExchangeRateInput } from './types';
+import { exchangeRateInputSchema } from './schema';
+import { ExpenseValidationError, IndexedDBError, fromZodError } from './errors';
+
+/**
+ * Sort rates by date (newest first), then by currency pair
+ */
+function sortRates(rates: ExchangeRate[]): ExchangeRate[] {
+  return rates.sort(
+    (a, b) =>
+      b.date.localeCompare(a.date) ||
+      `${a.from}${a.to}`.localeCompare(`${b.from}${b.to}`)
+  );
+}
+
+/**
+ * Validate rate fields against the other rates
+ *
+ * @returns Validated fields with the currency codes uppercased
+ * @throws {ExpenseValidationError} If a field is invalid or the pair
+ * already has a rate that day
+ */
+function validateExchangeRateInput(
+  input: ExchangeRateInput,
+  rates: ExchangeRate[],
+  id: string | null = null
+): ExchangeRateInput {
+  const result = exchangeRateInputSchema.safeParse(input);
+  if (!result.success) {
+    throw fromZodError(result.error);
+  }
+
+  const { from, to, date } = result.data;
+  if (
+    rates.some(
+      rate =>
+        rate.id !== id &&
+        rate.date === date &&
+        ((rate.from === from && rate.to === to) ||
+          (rate.from === to && rate.to === from))
+    )
+  ) {
+    const message = 'Ya hay un tipo de cambio para esas monedas en esa fecha';
+    throw new ExpenseValidationError(message, { date: [message] });
+  }
+  return result.data;
+}
+
+/**
+ * Save a rate record
+ */
+async function putExchangeRate(
+  rate: ExchangeRate,
+  operation: string
+): Promise<ExchangeRate> {
+  try {
+    const db = await getExpenseDB();
+    await db.put(EXCHANGE_RATES_STORE_NAME, rate);
+    return rate;
+  } catch (error) {
+    throw new IndexedDBError(
+      `Failed to ${operation} exchange rate`,
+      'write',
+      error instanceof Error ? error : undefined,
+      { id: rate.id }
+    );
+  }
+}
+
+/**
+ * Get all exchange rates, newest date first
+ *
+ * Returns no rates when IndexedDB is unavailable.
+ *
+ * @throws {IndexedDBError} If database operation fails
+ */
+export async function getExchangeRates(): Promise<ExchangeRate[]> {
+  if (!isIndexedDBSupported()) {
+    return [];
+  }
+
+  try {
+    const db = await getExpenseDB();
+    return sortRates(await db.getAll(EXCHANGE_RATES_STORE_NAME));
+  } catch (error) {
+    throw new IndexedDBError(
+      'Failed to get exchange rates',
+      'read',
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
+/**
+ * Add an exchange rate
+ *
+ * @returns Created rate
+ * @throws {ExpenseValidationError} If a field is invalid or the pair already
+ * has a rate that day
+ * @throws {IndexedDBError} If database operation fails
+ *
+ * @example
+ * ```typescript
+ * // 1 USD = 17.05 MXN from March 1st
+ * await createExchangeRate({ from: 'USD', to: 'MXN', date: '2025-03-01', rate: 17.05 });
+ * ```
+ */
+export async function createExchangeRate(
+  input: ExchangeRateInput
+): Promise<ExchangeRate> {
+  const rates = await getExchangeRates();
+  const now = new Date().toISOString();
+
+  return putExchangeRate(
+    {
+      id: crypto.randomUUID(),
+      ...validateExchangeRateInput(input, rates),
+      createdAt: now,
+      updatedAt: now
+    },
+    'create'
+  );
+}
+
+/**
+ * Change an exchange rate
+ *
+ * @param changes - Fields to change (the rest are kept)
+ * @returns Updated rate
+ * @throws {ExpenseValidationError} If the rate is gone or a field is invalid
+ * @throws {IndexedDBError} If database operation fails
+ */
+export async function updateExchangeRate(
+  id: string,
+  changes: Partial<ExchangeRateInput>
+): Promise<ExchangeRate> {
+  const rates = await getExchangeRates();
+  const rate = rates.find(candidate => candidate.id === id);
+  if (!rate) {
+    const message = 'El tipo de cambio ya no existe';
+    throw new ExpenseValidationError(message, { id: [message] }, { id });
+  }
+  const { from, to, date, rate: value } = { ...rate, ...changes };
+
+  return putExchangeRate(
+    {
+      ...rate,
+      ...validateExchangeRateInput({ from, to, date, rate: value }, rates, id),
+      updatedAt: new Date().toISOString()
+    },
+    'update'
+  );
+}
+
+/**
+ * Delete an exchange rate
+ *
+ * @throws {IndexedDBError} If database operation fails
+ */
+export async function deleteExchangeRate(id: string): Promise<void> {
+  try {
+    const db = await getExpenseDB();
+    await db.delete(EXCHANGE_RATES_STORE_NAME, id);
+  } catch (error) {
+    throw new IndexedDBError(
+      'Failed to delete exchange rate',
+      'delete',
+      error instanceof Error ? error : undefined,
+      { id }
+    );
+  }
+}
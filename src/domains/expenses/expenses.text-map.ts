@@ -31,21 +31,25 @@ export const expensesTextMap = {
   // Form labels
   descriptionLabel: 'Descripción',
   amountLabel: 'Monto',
+  currencyLabel: 'Moneda',
   categoryLabel: 'Categoría',
   dateLabel: 'Fecha',
+  tagsLabel: 'Etiquetas',
 
   // Form placeholders
   descriptionPlaceholder: 'Ej: Almuerzo en restaurante',
   amountPlaceholder: '0.00',
   categoryPlaceholder: 'Selecciona una categoría',
   datePlaceholder: 'Selecciona una fecha',
+  tagsPlaceholder: 'Ej: #trabajo',
   searchPlaceholder: 'Buscar gastos...',
 
   // Form help text
   descriptionHelp: 'Describe brevemente este gasto',
-  amountHelp: 'Monto en tu moneda local',
+  amountHelp: 'Monto en la moneda en que pagaste',
   categoryHelp: 'Categoría del gasto',
   dateHelp: 'Fecha en que realizaste el gasto',
+  tagsHelp: 'Opcional. Presiona Enter o coma para agregar cada etiqueta',
 
   // Validation errors
   descriptionRequired: 'La descripción es obligatoria',
@@ -59,29 +63,39 @@ export const expensesTextMap = {
   dateRequired: 'La fecha es obligatoria',
   dateInvalid: 'Selecciona una fecha válida',
   dateFuture: 'La fecha no puede ser futura',
-
-  // Categories (matching PROJECT.md requirements)
-  categoryComida: 'Comida',
-  categoryTransporte: 'Transporte',
-  categoryEntretenimiento: 'Entretenimiento',
-  categorySalud: 'Salud',
-  categoryCompras: 'Compras',
-  categoryServicios: 'Servicios',
-  categoryOtros: 'Otros',
-
-  // Category short names (for badges/chips)
-  categoryComidaShort: 'Comida',
-  categoryTransporteShort: 'Transporte',
-  categoryEntretenimientoShort: 'Entretenim.',
-  categorySaludShort: 'Salud',
-  categoryComprasShort: 'Compras',
-  categoryServiciosShort: 'Servicios',
-  categoryOtrosShort: 'Otros',
+  tagInvalid: 'Etiqueta no válida (solo letras, números, - y _, máximo 30 caracteres): {tag}',
+  tagsLimitReached: 'Máximo {max} etiquetas por gasto',
 
   // Filter labels
   filterByCategory: 'Filtrar por categoría',
   filterByDateRange: 'Filtrar por rango de fechas',
+  filterByAmount: 'Filtrar por monto',
+  filterByTag: 'Filtrar por etiqueta',
+  tagMatchAll: 'Todas',
+  tagMatchAny: 'Alguna',
+  tagMatchLabel: 'Coincidencia de etiquetas',
+  noTags: 'Sin etiquetas',
+  removeTag: 'Quitar {tag}',
+  amountMinLabel: 'Monto mínimo',
+  amountMaxLabel: 'Monto máximo',
+  amountAny: 'Cualquier monto',
   searchByDescription: 'Buscar por descripción',
+  queryHelp: 'Ej.: categoria:Comida #trabajo monto>500 desde:2025-03 -uber',
+  queryKeyCategoria: 'Filtrar por categoría',
+  queryKeyMonto: 'Comparar el monto en la moneda base',
+  queryKeyDesde: 'Desde un año, mes o día',
+  queryKeyHasta: 'Hasta un año, mes o día',
+  queryKeyFecha: 'Un año, mes o día (AAAA-MM-DD)',
+  queryKeyOrden: 'Ordenar por fecha, monto, creado o relevancia',
+  queryKeyEtiquetas: 'Exigir todas las etiquetas (#) o alguna',
+  queryIssueUnknownCategory: 'Categoría desconocida: {token}',
+  queryIssueInvalidAmount: 'Monto no válido: {token}',
+  queryIssueInvalidDate: 'Fecha no válida (usa AAAA, AAAA-MM o AAAA-MM-DD): {token}',
+  queryIssueInvalidSort: 'Orden no válido: {token}',
+  queryIssueInvalidOperator: 'Operador no válido: {token}',
+  queryIssueInvalidExclusion: 'Solo se pueden excluir palabras: {token}',
+  queryIssueInvalidTag: 'Etiqueta no válida (solo letras, números, - y _): {token}',
+  queryIssueInvalidTagMatch: 'Usa etiquetas:todas o etiquetas:alguna: {token}',
   allCategories: 'Todas las categorías',
   dateFrom: 'Desde',
   dateTo: 'Hasta',
@@ -92,6 +106,7 @@ export const expensesTextMap = {
   sortByDateAsc: 'Fecha (más antiguos)',
   sortByAmountDesc: 'Monto (mayor a menor)',
   sortByAmountAsc: 'Monto (menor a mayor)',
+  sortByRelevance: 'Relevancia (búsqueda)',
 
   // Empty states
   noExpenses: 'No hay gastos registrados',
@@ -120,12 +135,12 @@ export const expensesTextMap = {
   // Success feedback
   expenseCreated: 'Gasto creado exitosamente',
   expenseUpdated: 'Gasto actualizado exitosamente',
-  expenseDeleted: 'Gasto eliminado exitosamente',
+  expenseDeleted: 'Gasto movido a la papelera',
 
   // Confirmation dialogs
   deleteConfirmTitle: '¿Eliminar gasto?',
   deleteConfirmDescription:
-    'Esta acción no se puede deshacer. El gasto será eliminado permanentemente.',
+    'El gasto se moverá a la papelera. Podrás restaurarlo desde allí.',
   deleteConfirmButton: 'Sí, eliminar',
   deleteConfirmCancel: 'Cancelar',
 
@@ -140,6 +155,237 @@ export const expensesTextMap = {
   loadingMore: 'Cargando más gastos...',
   noMoreResults: 'No hay más gastos para mostrar',
 
+  // Grouped ledger
+  groupByLabel: 'Agrupar por',
+  groupByNone: 'Sin agrupar',
+  groupByDay: 'Día',
+  groupByWeek: 'Semana',
+  groupByMonth: 'Mes',
+  groupByCategory: 'Categoría',
+  groupWeekOf: 'Semana del {date}',
+  groupCount: '{count} gastos',
+  groupCountOne: '1 gasto',
+  expandGroup: 'Mostrar {group}',
+  collapseGroup: 'Ocultar {group}',
+
+  // Trash
+  trashHeading: 'Papelera',
+  trashSubheading: 'Gastos eliminados que aún puedes restaurar',
+  trashButton: 'Papelera',
+  trashEmpty: 'La papelera está vacía',
+  trashEmptyDescription: 'Los gastos que elimines aparecerán aquí',
+  trashRestore: 'Restaurar',
+  trashDeleteForever: 'Eliminar definitivamente',
+  trashEmptyAction: 'Vaciar papelera',
+  trashEmptyConfirm: 'Se eliminarán definitivamente todos los gastos de la papelera. Esta acción no se puede deshacer.',
+  trashDeleteForeverConfirm: 'El gasto será eliminado permanentemente. Esta acción no se puede deshacer.',
+  trashRetentionLabel: 'Eliminar automáticamente después de',
+  trashRetentionOption: '{days} días',
+  trashDeletedAt: 'Eliminado',
+  trashCount: '{count} gastos en la papelera',
+  expenseRestored: 'Gasto restaurado',
+  expensePermanentlyDeleted: 'Gasto eliminado definitivamente',
+  trashEmptied: 'Papelera vaciada',
+  trashPurged: '{count} gastos antiguos se eliminaron de la papelera',
+  errorRestoring: 'Error al restaurar',
+
+  // Revision history
+  historyHeading: 'Historial de cambios',
+  historyEmpty: 'Este gasto aún no tiene cambios registrados',
+  historyCreated: 'Gasto creado',
+  historyReverted: 'Revertido a una versión anterior',
+  historyCurrent: 'Versión actual',
+  historyRevert: 'Revertir',
+  historyRevertConfirm: 'El gasto volverá a como estaba en esta versión. Podrás deshacerlo desde el historial.',
+  historySourceForm: 'Formulario',
+  historySourceChat: 'Chat',
+  historySourceImport: 'Importación',
+  historySourceSync: 'Sincronización',
+  expenseReverted: 'Gasto revertido',
+  errorReverting: 'Error al revertir',
+
+  // Undo / redo
+  undo: 'Deshacer',
+  redo: 'Rehacer',
+  undoLabelCreate: 'crear "{description}"',
+  undoLabelUpdate: 'editar "{description}"',
+  undoLabelDelete: 'eliminar "{description}"',
+  undoLabelBulkUpdate: 'editar {count} gastos',
+  undoLabelBulkDelete: 'eliminar {count} gastos',
+  undoDone: 'Se deshizo: {label}',
+  redoDone: 'Se rehízo: {label}',
+  errorUndoing: 'No se pudo deshacer el cambio',
+  errorRedoing: 'No se pudo rehacer el cambio',
+
+  // Bulk actions
+  selectMode: 'Seleccionar',
+  selectModeExit: 'Cancelar selección',
+  selectAll: 'Seleccionar todos',
+  clearSelection: 'Quitar selección',
+  selectedCount: '{count} seleccionados',
+  selectExpense: 'Seleccionar gasto',
+  bulkRecategorize: 'Cambiar categoría',
+  bulkShiftDate: 'Mover fecha',
+  bulkShiftDays: 'Días',
+  bulkShiftApply: 'Aplicar',
+  bulkDelete: 'Eliminar',
+  bulkDeleteConfirm: 'Se moverán {count} gastos a la papelera.',
+  bulkUpdated: '{count} gastos actualizados',
+  bulkDeleted: '{count} gastos movidos a la papelera',
+  bulkPartialFailure: '{count} gastos no se pudieron modificar',
+  errorBulk: 'Error al aplicar la acción masiva',
+
+  // Saved views
+  savedViewsButton: 'Vistas',
+  savedViewsEmpty: 'Aún no hay vistas guardadas',
+  saveView: 'Guardar vista actual',
+  saveViewTitle: 'Guardar vista',
+  saveViewDescription: 'Guarda los filtros actuales para volver a aplicarlos con un clic.',
+  saveViewButton: 'Guardar',
+  viewNameLabel: 'Nombre',
+  viewNamePlaceholder: 'Ej. Ocio del trimestre',
+  viewDateRangeLabel: 'Fechas',
+  viewDateRangeFixed: 'Fechas fijas (las seleccionadas)',
+  renameView: 'Renombrar vista',
+  deleteView: 'Eliminar vista',
+  deleteViewTitle: '¿Eliminar vista?',
+  deleteViewDescription: 'Se eliminará la vista "{name}". Los gastos no se modifican.',
+  viewSaved: 'Vista "{name}" guardada',
+  viewRenamed: 'Vista renombrada',
+  viewDeleted: 'Vista eliminada',
+  errorSavingView: 'Error al guardar la vista',
+  errorDeletingView: 'Error al eliminar la vista',
+
+  // Category management
+  categoriesButton: 'Categorías',
+  categoriesHeading: 'Categorías',
+  categoriesSubheading: 'Crea, edita y archiva las categorías de tus gastos',
+  categoriesArchivedSection: 'Archivadas',
+  addCategory: 'Nueva categoría',
+  editCategory: 'Editar categoría',
+  categoryFormDescription: 'Elige un nombre, un color y un icono.',
+  categoryNameLabel: 'Nombre',
+  categoryNamePlaceholder: 'Ej. Mascotas',
+  categoryColorLabel: 'Color',
+  categoryIconLabel: 'Icono',
+  categoryIconOption: 'Icono {icon}',
+  categoryPreviewLabel: 'Vista previa',
+  categorySaveButton: 'Guardar',
+  categoryArchivedBadge: 'Archivada',
+  categoryParentLabel: 'Categoría principal',
+  categoryNoParent: 'Ninguna (categoría principal)',
+  categoryParentLocked: 'Tiene subcategorías, así que no puede ser subcategoría',
+  categoryPath: '{parent} › {name}',
+  editCategoryAction: 'Editar',
+  archiveCategory: 'Archivar',
+  restoreCategory: 'Restaurar',
+  deleteCategory: 'Eliminar',
+  deleteCategoryTitle: '¿Eliminar "{name}"?',
+  deleteCategoryDescription:
+    'Sus gastos, incluidos los de la papelera, pasarán a la categoría que elijas. Esta acción no se puede deshacer.',
+  deleteCategoryChildrenNote: 'Sus subcategorías pasarán a ser categorías principales.',
+  deleteCategoryExpenseCount: 'Gastos en esta categoría: {count}',
+  deleteCategoryReplacementLabel: 'Mover sus gastos a',
+  deleteCategoryButton: 'Eliminar y mover gastos',
+  categoryCreated: 'Categoría "{name}" creada',
+  categoryUpdated: 'Categoría actualizada',
+  categoryArchived: 'Categoría "{name}" archivada',
+  categoryRestored: 'Categoría "{name}" restaurada',
+  categoryDeleted: 'Categoría eliminada: {count} gastos movidos a "{name}"',
+  errorSavingCategory: 'Error al guardar la categoría',
+  errorDeletingCategory: 'Error al eliminar la categoría',
+  categoryColorOrange: 'Naranja',
+  categoryColorAmber: 'Ámbar',
+  categoryColorLime: 'Lima',
+  categoryColorGreen: 'Verde',
+  categoryColorTeal: 'Verde azulado',
+  categoryColorCyan: 'Cian',
+  categoryColorBlue: 'Azul',
+  categoryColorIndigo: 'Índigo',
+  categoryColorPurple: 'Morado',
+  categoryColorPink: 'Rosa',
+  categoryColorRed: 'Rojo',
+  categoryColorGray: 'Gris',
+
+  // Currencies and exchange rates
+  currenciesButton: 'Monedas',
+  currenciesHeading: 'Monedas',
+  currenciesSubheading: 'Elige tu moneda base y registra tipos de cambio para convertir los totales',
+  baseCurrencyLabel: 'Moneda base',
+  baseCurrencyHelp: 'Los totales se muestran en esta moneda; cada gasto conserva la suya',
+  currencyOption: '{code} · {name}',
+  exchangeRatesHeading: 'Tipos de cambio',
+  exchangeRatesEmpty: 'Aún no hay tipos de cambio',
+  exchangeRatesEmptyDescription: 'Agrega uno para incluir en los totales los gastos en otras monedas',
+  addExchangeRate: 'Nuevo tipo de cambio',
+  editExchangeRate: 'Editar tipo de cambio',
+  exchangeRateFormDescription: 'Cuánto vale una unidad de una moneda en otra a partir de una fecha.',
+  exchangeRateFromLabel: 'De',
+  exchangeRateToLabel: 'A',
+  exchangeRateDateLabel: 'Vigente desde',
+  exchangeRateValueLabel: 'Tipo de cambio',
+  exchangeRateSummary: '1 {from} = {rate} {to}',
+  exchangeRateSaveButton: 'Guardar',
+  editExchangeRateAction: 'Editar',
+  deleteExchangeRateAction: 'Eliminar',
+  deleteExchangeRateConfirm: '¿Eliminar el tipo de cambio {summary} vigente desde el {date}?',
+  exchangeRateCreated: 'Tipo de cambio guardado',
+  exchangeRateUpdated: 'Tipo de cambio actualizado',
+  exchangeRateDeleted: 'Tipo de cambio eliminado',
+  errorSavingExchangeRate: 'Error al guardar el tipo de cambio',
+  errorDeletingExchangeRate: 'Error al eliminar el tipo de cambio',
+  noExchangeRate: 'Sin tipo de cambio',
+  groupTotalPartial: 'Sin tipo de cambio para {count} montos: no se incluyen en el total',
+
+  // Storage health banner
+  storageTerminatedTitle: 'Se perdió la conexión con el almacenamiento',
+  storageTerminatedDescription:
+    'El navegador cerró la base de datos local. Tus cambios recientes podrían no haberse guardado.',
+  storageOutdatedTitle: 'Hay una versión más nueva de la aplicación',
+  storageOutdatedDescription:
+    'Otra pestaña actualizó la base de datos. Recarga esta página para seguir usando la aplicación.',
+  storageUnavailableTitle: 'Almacenamiento no disponible',
+  storageUnavailableDescription:
+    'No se pudo abrir la base de datos local. Es posible que el navegador esté en modo privado o sin espacio.',
+  storageNotPersistentTitle: 'Datos no persistentes',
+  storageNotPersistentDescription:
+    'El almacenamiento local no está disponible, así que los gastos se guardan solo en memoria y se perderán al cerrar o recargar la pestaña.',
+  storageReconnect: 'Reconectar',
+  storageReload: 'Recargar página',
+
+  // Storage mode
+  storageModeLabel: 'Almacenamiento',
+  storageModeLocal: 'Local (este navegador)',
+  storageModeServer: 'Servidor',
+
+  // Sync
+  syncButton: 'Sincronizar',
+  syncNow: 'Sincronizar ahora',
+  syncing: 'Sincronizando…',
+  syncAuto: 'Sincronizar automáticamente',
+  syncLastSynced: 'Última sincronización',
+  syncNever: 'Todavía no se ha sincronizado',
+  syncPending: '{count} cambios pendientes de enviar',
+  syncOffline: 'Sin conexión con el servidor. Se reintentará automáticamente.',
+  syncFailed: 'Error al sincronizar',
+  syncDone: 'Sincronización completada',
+  syncDoneDescription: '{pushed} cambios enviados, {pulled} recibidos',
+  syncConflictsFound: '{count} conflictos por revisar',
+  syncReviewConflicts: 'Revisar conflictos ({count})',
+  syncConflictsTitle: 'Conflictos de sincronización',
+  syncConflictsDescription:
+    'Estos campos se modificaron aquí y en otro dispositivo con valores distintos. El servidor conserva su valor hasta que elijas uno.',
+  syncConflictsEmpty: 'No hay conflictos pendientes',
+  syncLocalValue: 'Este dispositivo',
+  syncServerValue: 'Servidor',
+  syncKeepLocal: 'Usar este dispositivo',
+  syncKeepServer: 'Usar servidor',
+  syncConflictResolved: 'Conflicto resuelto',
+  errorResolvingConflict: 'Error al resolver el conflicto',
+  syncTrashLabel: 'Papelera',
+  syncInTrash: 'En la papelera',
+  syncNotInTrash: 'Activo',
+
   // Accessibility labels
   expenseCard: 'Tarjeta de gasto',
   expenseDetails: 'Detalles del gasto',
@@ -166,11 +412,14 @@ export const expensesTextMap = {
   // Date range picker
   dateRangePlaceholder: 'Selecciona rango de fechas',
   presetsLabel: 'Preselecciones',
+  presetAllTime: 'Todo el tiempo',
   presetToday: 'Hoy',
-  presetThisWeek: 'Esta semana',
+  presetLastDays: 'Últimos {days} días',
   presetThisMonth: 'Este mes',
-  presetThisYear: 'Este año',
   presetLastMonth: 'Mes pasado',
+  presetThisQuarter: 'Este trimestre',
+  presetYearToDate: 'Año hasta hoy',
+  presetThisYear: 'Este año',
   presetLastYear: 'Año pasado',
 
   // Currency formatting
@@ -0,0 +1,177 @@
+/**
+ * Expense Filters URL
+ *
+ * Maps the expense filters to the query string of the expenses page, so a
+ * filtered list survives reloads, works with back/forward and can be linked
+ * from other pages (dashboard, chat assistant):
+ *
+ * ```
+ * /expenses?category=Comida&category=Salud&from=2025-03-01&to=2025-03-31&q=cena&sort=amount-desc
+ * /expenses?range=last-30-days&category=Transporte
+ * /expenses?tag=trabajo&tag=viajes&tags=any
+ * ```
+ *
+ * - `category` repeated, accents and case ignored
+ * - `tag` repeated; `tags=any` keeps expenses with any of them (default: all)
+ * - `range` a relative range: `last-N-days`, `this-month`, `last-month`,
+ *   `this-quarter`, `ytd` or `this-year` (wins over `from` / `to`)
+ * - `from` / `to` take `YYYY`, `YYYY-MM` or `YYYY-MM-DD` (local time)
+ * - `q` free text, `exclude` repeated excluded words
+ * - `min` / `max` amount bounds
+ * - `sort` `date`, `amount`, `createdAt` or `relevance`, with `-asc` or `-desc`
+ *
+ * Invalid parameters are ignored, like invalid tokens of the query syntax.
+ *
+ * @module domains/expenses/filter-url
+ */
+
+import type { DateRangeFilter, ExpenseQuery, ExpenseSort } from './types';
+import { formatDay, parsePeriod, resolveCategory } from './query-syntax';
+import { getDateRangeKey, parseDateRangeKey } from './date-range';
+import { isValidTag, normalizeTags } from './tags';
+
+/**
+ * Path of the expenses page
+ */
+export const EXPENSES_PAGE_PATH = '/expenses';
+
+const SORT_FIELDS: readonly ExpenseSort['field'][] = [
+  'date',
+  'amount',
+  'createdAt',
+  'relevance'
+];
+
+/**
+ * Parse a `min` / `max` parameter (null when absent or invalid)
+ */
+function parseAmountParam(value: string | null): number | null {
+  if (value === null || value.trim() === '') {
+    return null;
+  }
+  const amount = Number(value);
+  return Number.isFinite(amount) && amount >= 0 ? amount : null;
+}
+
+/**
+ * Parse a `sort` parameter (`amount-desc`; the order defaults to desc)
+ */
+function parseSortParam(value: string | null): ExpenseSort | null {
+  if (!value) {
+    return null;
+  }
+  const [field, order = 'desc'] = value.split('-');
+  if (
+    !SORT_FIELDS.includes(field as ExpenseSort['field']) ||
+    (order !== 'asc' && order !== 'desc')
+  ) {
+    return null;
+  }
+  return { field: field as ExpenseSort['field'], order };
+}
+
+/**
+ * Serialize filters as query string parameters (empty parts are left out)
+ *
+ * @example
+ * ```typescript
+ * toExpensesSearchParams({ ...query, categories: ['Comida'] }).toString();
+ * // 'category=Comida'
+ * ```
+ */
+export function toExpensesSearchParams(query: ExpenseQuery): URLSearchParams {
+  const params = new URLSearchParams();
+
+  query.categories.forEach(category => params.append('category', category));
+  query.tags.forEach(tag => params.append('tag', tag));
+  if (query.tagMatch) params.set('tags', query.tagMatch);
+  const { dateRange } = query;
+  if (dateRange.type === 'absolute') {
+    if (dateRange.from) params.set('from', formatDay(dateRange.from));
+    if (dateRange.to) params.set('to', formatDay(dateRange.to));
+  } else if (dateRange.type !== 'allTime') {
+    params.set('range', getDateRangeKey(dateRange));
+  }
+  if (query.searchQuery.trim()) params.set('q', query.searchQuery.trim());
+  query.excludedTerms.forEach(term => params.append('exclude', term));
+  if (query.amountRange.min !== null)
+    params.set('min', String(query.amountRange.min));
+  if (query.amountRange.max !== null)
+    params.set('max', String(query.amountRange.max));
+  if (query.sort) params.set('sort', `${query.sort.field}-${query.sort.order}`);
+
+  return params;
+}
+
+/**
+ * Parse the date parameters (`range`, or `from` / `to`)
+ */
+function parseDateRangeParams(params: URLSearchParams): DateRangeFilter {
+  const range = parseDateRangeKey(params.get('range') ?? '');
+  if (range) {
+    return range;
+  }
+
+  const from = parsePeriod(params.get('from') ?? '');
+  const to = parsePeriod(params.get('to') ?? '');
+  if (!from && !to) {
+    return { type: 'allTime' };
+  }
+  return { type: 'absolute', from: from?.start ?? null, to: to?.end ?? null };
+}
+
+/**
+ * Parse the query string of the expenses page into filters
+ *
+ * `from` starts at the first instant of its period and `to` ends at the
+ * last one, so `from=2025-03&to=2025-03` is all of March.
+ */
+export function parseExpensesSearchParams(
+  params: URLSearchParams
+): ExpenseQuery {
+  const categories = params
+    .getAll('category')
+    .map(resolveCategory)
+    .filter(category => category !== null);
+
+  const tagMatch = params.get('tags');
+
+  return {
+    categories: [...new Set(categories)],
+    tags: normalizeTags(params.getAll('tag')).filter(isValidTag),
+    tagMatch: tagMatch === 'all' || tagMatch === 'any' ? tagMatch : null,
+    dateRange: parseDateRangeParams(params),
+    amountRange: {
+      min: parseAmountParam(params.get('min')),
+      max: parseAmountParam(params.get('max'))
+    },
+    searchQuery: params.get('q')?.trim() ?? '',
+    excludedTerms: params.getAll('exclude').filter(term => term.trim()),
+    sort: parseSortParam(params.get('sort'))
+  };
+}
+
+/**
+ * Build a link to the expenses page with some filters applied
+ *
+ * @example
+ * ```typescript
+ * router.push(getExpensesUrl({ categories: ['Comida'] }));
+ * // '/expenses?category=Comida'
+ * ```
+ */
+export function getExpensesUrl(query: Partial<ExpenseQuery> = {}): string {
+  const params = toExpensesSearchParams({
+    categories: [],
+    tags: [],
+    tagMatch: null,
+    dateRange: { type: 'allTime' },
+    amountRange: { min: null, max: null },
+    searchQuery: '',
+    excludedTerms: [],
+    sort: null,
+    ...query
+  }).toString();
+
+  return params ? `${EXPENSES_PAGE_PATH}?${params}` : EXPENSES_PAGE_PATH;
+}
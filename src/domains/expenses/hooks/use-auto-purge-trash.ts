@@ -0,0 +1,52 @@
+/**
+ * useAutoPurgeTrash Hook
+ *
+ * Purges expenses that outlived the trash retention period.
+ *
+ * @module domains/expenses/hooks/use-auto-purge-trash
+ */
+
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { purgeExpiredTrash } from '../actions';
+import { logError } from '../errors';
+import { useTrashRetentionDays } from '@/domains/settings/stores/settings-store';
+
+/**
+ * Hook that purges expired trash on mount
+ *
+ * Uses the retention period from the settings store and runs again
+ * whenever that period changes.
+ *
+ * @param onPurged - Called with the number of purged expenses when any were removed
+ *
+ * @example
+ * ```typescript
+ * useAutoPurgeTrash(count => refetch());
+ * ```
+ */
+export function useAutoPurgeTrash(onPurged?: (count: number) => void) {
+  const retentionDays = useTrashRetentionDays();
+  const onPurgedRef = useRef(onPurged);
+
+  useEffect(() => {
+    onPurgedRef.current = onPurged;
+  }, [onPurged]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    purgeExpiredTrash(retentionDays)
+      .then(count => {
+        if (!cancelled && count > 0) {
+          onPurgedRef.current?.(count);
+        }
+      })
+      .catch(error => logError(error, { retentionDays }));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [retentionDays]);
+}
@@ -0,0 +1,72 @@
+/**
+ * useAutoSync Hook
+ *
+ * Syncs automatically while the "automatic sync" setting is on: on mount,
+ * periodically, when the browser comes back online and shortly after local
+ * changes.
+ *
+ * @module domains/expenses/hooks/use-auto-sync
+ */
+
+'use client';
+
+import { useEffect } from 'react';
+import { subscribeToExpenseChanges } from '../events';
+import { useExpenseSync } from './use-expense-sync';
+
+/**
+ * Interval between periodic syncs (milliseconds)
+ */
+export const SYNC_INTERVAL_MS = 60_000;
+
+/**
+ * Delay after a local change before pushing it (milliseconds)
+ * Groups bursts of edits (bulk actions, undo) into one round.
+ */
+export const SYNC_DEBOUNCE_MS = 2_000;
+
+/**
+ * Hook that keeps local expenses in sync in the background
+ *
+ * Mount it once near the root (the storage banner does). Failures only
+ * update the sync status; the next trigger retries.
+ *
+ * @example
+ * ```typescript
+ * useAutoSync();
+ * ```
+ */
+export function useAutoSync() {
+  const { isAvailable, syncEnabled, sync } = useExpenseSync();
+  const isActive = isAvailable && syncEnabled;
+
+  useEffect(() => {
+    if (!isActive) {
+      return;
+    }
+
+    let debounce: ReturnType<typeof setTimeout> | undefined;
+    const run = () => {
+      clearTimeout(debounce);
+      // Errors are already logged and reflected in the sync status
+      sync().catch(() => undefined);
+    };
+
+    run();
+    const interval = setInterval(run, SYNC_INTERVAL_MS);
+    window.addEventListener('online', run);
+    const unsubscribe = subscribeToExpenseChanges(event => {
+      if (event.origin === 'local') {
+        clearTimeout(debounce);
+        debounce = setTimeout(run, SYNC_DEBOUNCE_MS);
+      }
+    });
+
+    return () => {
+      clearTimeout(debounce);
+      clearInterval(interval);
+      window.removeEventListener('online', run);
+      unsubscribe();
+    };
+  }, [isActive, sync]);
+}
@@ -0,0 +1,76 @@
+/**
+ * useBulkDeleteExpenses Hook
+ *
+ * Custom hook for moving several expenses to the trash at once.
+ * Manages loading state, errors, and provides mutation function.
+ * Successful mutations are pushed onto the undo stack.
+ *
+ * @module domains/expenses/hooks/use-bulk-delete-expenses
+ */
+
+'use client';
+
+import { useState, useCallback } from 'react';
+import { deleteExpenses } from '../actions';
+import { bulkDeleteExpensesCommand } from '../commands';
+import type { BulkOperationResult, Expense, UseMutationResult } from '../types';
+import { logError } from '../errors';
+import { useUndoStore } from '../stores/undo-store';
+
+/**
+ * Hook for bulk deletes
+ *
+ * Takes expense IDs as input. Unknown IDs are returned in `errors`.
+ *
+ * @returns Mutation result with mutate function, loading state, and error
+ *
+ * @example
+ * ```typescript
+ * const { mutate } = useBulkDeleteExpenses();
+ * const { succeeded } = await mutate(selectedIds);
+ * ```
+ */
+export function useBulkDeleteExpenses(): UseMutationResult<
+  BulkOperationResult<Expense>,
+  string[]
+> {
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const mutate = useCallback(
+    async (ids: string[]): Promise<BulkOperationResult<Expense>> => {
+      try {
+        setIsLoading(true);
+        setError(null);
+
+        const result = await deleteExpenses(ids);
+        if (result.succeeded.length > 0) {
+          useUndoStore
+            .getState()
+            .push(bulkDeleteExpensesCommand(result.succeeded));
+        }
+        return result;
+      } catch (err) {
+        const error = err instanceof Error ? err : new Error('Unknown error');
+        setError(error);
+        logError(error, { expenseIds: ids });
+        throw error;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    []
+  );
+
+  const reset = useCallback(() => {
+    setError(null);
+    setIsLoading(false);
+  }, []);
+
+  return {
+    mutate,
+    isLoading,
+    error,
+    reset
+  };
+}
@@ -0,0 +1,84 @@
+/**
+ * useBulkUpdateExpenses Hook
+ *
+ * Custom hook for updating several expenses at once.
+ * Manages loading state, errors, and provides mutation function.
+ * Successful mutations are pushed onto the undo stack.
+ *
+ * @module domains/expenses/hooks/use-bulk-update-expenses
+ */
+
+'use client';
+
+import { useState, useCallback } from 'react';
+import { getExpensesByIds, updateExpenses } from '../actions';
+import { bulkUpdateExpensesCommand } from '../commands';
+import type {
+  BulkOperationResult,
+  BulkUpdateItem,
+  Expense,
+  UseMutationResult
+} from '../types';
+import { logError } from '../errors';
+import { useUndoStore } from '../stores/undo-store';
+
+/**
+ * Hook for bulk updates
+ *
+ * Items that fail validation are returned in `errors` instead of throwing.
+ *
+ * @returns Mutation result with mutate function, loading state, and error
+ *
+ * @example
+ * ```typescript
+ * const { mutate } = useBulkUpdateExpenses();
+ * const { succeeded, errors } = await mutate(
+ *   selected.map(expense => ({ id: expense.id, input: { category: 'Comida' } }))
+ * );
+ * ```
+ */
+export function useBulkUpdateExpenses(): UseMutationResult<
+  BulkOperationResult<Expense>,
+  BulkUpdateItem[]
+> {
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const mutate = useCallback(
+    async (items: BulkUpdateItem[]): Promise<BulkOperationResult<Expense>> => {
+      try {
+        setIsLoading(true);
+        setError(null);
+
+        const before = await getExpensesByIds(items.map(item => item.id));
+        const result = await updateExpenses(items);
+        if (result.succeeded.length > 0) {
+          useUndoStore
+            .getState()
+            .push(bulkUpdateExpensesCommand(before, result.succeeded));
+        }
+        return result;
+      } catch (err) {
+        const error = err instanceof Error ? err : new Error('Unknown error');
+        setError(error);
+        logError(error, { count: items.length });
+        throw error;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    []
+  );
+
+  const reset = useCallback(() => {
+    setError(null);
+    setIsLoading(false);
+  }, []);
+
+  return {
+    mutate,
+    isLoading,
+    error,
+    reset
+  };
+}
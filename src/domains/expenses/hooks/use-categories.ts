@@ -0,0 +1,200 @@
+/**
+ * useCategories Hook
+ *
+ * Custom hook for the expense categories: lists them, looks them up by ID,
+ * resolves the parent/subcategory hierarchy, and creates, edits, archives
+ * and deletes them.
+ *
+ * @module domains/expenses/hooks/use-categories
+ */
+
+'use client';
+
+import { useCallback, useEffect, useMemo } from 'react';
+import {
+  buildCategoryTree,
+  createCategory,
+  deleteCategory,
+  findCategory,
+  getCategories,
+  getRollupCategoryId,
+  isArchived,
+  isAssignable,
+  setCategoryArchived,
+  updateCategory,
+  withSubcategories
+} from '../categories';
+import type { CategoryInput, ExpenseCategory } from '../types';
+import { logError } from '../errors';
+import { useCategoriesStore } from '../stores/categories-store';
+import { useExpenseFiltersStore } from '../stores/expense-filters-store';
+
+/**
+ * Reload the categories from the active repository into the store
+ */
+export async function refreshCategories(): Promise<void> {
+  const { setCategories, setStatus } = useCategoriesStore.getState();
+  try {
+    setStatus('loading');
+    setCategories(await getCategories());
+  } catch (err) {
+    const error = err instanceof Error ? err : new Error('Unknown error');
+    setStatus('error', error);
+    logError(error, { operation: 'refreshCategories' });
+  }
+}
+
+/**
+ * Load the categories unless a load already started (once per page load)
+ */
+export function loadCategoriesOnce(): void {
+  if (useCategoriesStore.getState().status === 'idle') {
+    refreshCategories();
+  }
+}
+
+/**
+ * Hook for the expense categories
+ *
+ * Mutations throw (after logging) so callers can show the error; the list
+ * is reloaded after each of them.
+ *
+ * @returns Categories (all, active and assignable), tree, lookups, loading state and actions
+ *
+ * @example
+ * ```typescript
+ * const { assignableCategories, getCategory, expandCategories, createCategory } =
+ *   useCategories();
+ *
+ * await createCategory({
+ *   name: 'Restaurantes',
+ *   color: 'orange',
+ *   icon: 'utensils',
+ *   parentId: 'Comida'
+ * });
+ * getCategory(expense.category).name;
+ * expandCategories(['Comida']); // Comida and its subcategories
+ * ```
+ */
+export function useCategories() {
+  useEffect(loadCategoriesOnce, []);
+
+  const categories = useCategoriesStore(state => state.categories);
+  const status = useCategoriesStore(state => state.status);
+  const error = useCategoriesStore(state => state.error);
+
+  const activeCategories = useMemo(
+    () => categories.filter(category => !isArchived(category)),
+    [categories]
+  );
+
+  // Active leaves: the categories expenses can be assigned to
+  const assignableCategories = useMemo(
+    () => categories.filter(category => isAssignable(categories, category)),
+    [categories]
+  );
+
+  const categoryTree = useMemo(
+    () => buildCategoryTree(categories),
+    [categories]
+  );
+
+  const getCategory = useCallback(
+    (id: ExpenseCategory) => findCategory(categories, id),
+    [categories]
+  );
+
+  const expandCategories = useCallback(
+    (ids: readonly ExpenseCategory[]) => withSubcategories(categories, ids),
+    [categories]
+  );
+
+  const getRollupCategory = useCallback(
+    (id: ExpenseCategory) =>
+      findCategory(categories, getRollupCategoryId(categories, id)),
+    [categories]
+  );
+
+  // Run a mutation, then reload the list
+  const mutate = useCallback(
+    async <T>(
+      operation: () => Promise<T>,
+      context: Record<string, unknown>
+    ) => {
+      try {
+        return await operation();
+      } catch (err) {
+        logError(err, context);
+        throw err;
+      } finally {
+        await refreshCategories();
+      }
+    },
+    []
+  );
+
+  const create = useCallback(
+    (input: CategoryInput) =>
+      mutate(() => createCategory(input), { name: input.name }),
+    [mutate]
+  );
+
+  const update = useCallback(
+    (id: string, changes: Partial<CategoryInput>) =>
+      mutate(() => updateCategory(id, changes), { id }),
+    [mutate]
+  );
+
+  const archive = useCallback(
+    (id: string) => mutate(() => setCategoryArchived(id, true), { id }),
+    [mutate]
+  );
+
+  const restore = useCallback(
+    (id: string) => mutate(() => setCategoryArchived(id, false), { id }),
+    [mutate]
+  );
+
+  /**
+   * Delete a category, moving its expenses to `replacementId`
+   *
+   * @returns Number of expenses moved
+   */
+  const remove = useCallback(
+    async (id: string, replacementId: string) => {
+      const moved = await mutate(() => deleteCategory(id, replacementId), {
+        id,
+        replacementId
+      });
+
+      // The filters may still point at the deleted category
+      const { selectedCategories, setSelectedCategories } =
+        useExpenseFiltersStore.getState();
+      if (selectedCategories.includes(id)) {
+        setSelectedCategories(
+          selectedCategories.filter(category => category !== id)
+        );
+      }
+      return moved;
+    },
+    [mutate]
+  );
+
+  return {
+    categories,
+    activeCategories,
+    assignableCategories,
+    categoryTree,
+    getCategory,
+    getRollupCategory,
+    expandCategories,
+    isLoading: status === 'idle' || status === 'loading',
+    error,
+    createCategory: create,
+    updateCategory: update,
+    archiveCategory: archive,
+    restoreCategory: restore,
+    deleteCategory: remove,
+    refetch: refreshCategories
+  };
+}
@@ -0,0 +1,38 @@
+/**
+ * useCategory Hook
+ *
+ * Looks up a single category by ID, for components that render one
+ * (badges, icons, group headers).
+ *
+ * @module domains/expenses/hooks/use-category
+ */
+
+'use client';
+
+import { useEffect } from 'react';
+import { findCategory } from '../categories';
+import type { CategoryDefinition, ExpenseCategory } from '../types';
+import { useCategoriesStore } from '../stores/categories-store';
+import { loadCategoriesOnce } from './use-categories';
+
+/**
+ * Hook for a category by ID
+ *
+ * Re-renders when that category changes (renamed, recolored, ...).
+ * Unknown IDs get a placeholder (see `findCategory`).
+ *
+ * @example
+ * ```typescript
+ * const category = useCategory(expense.category);
+ * category.name; // 'Comida'
+ * ```
+ */
+export function useCategory(id: ExpenseCategory): CategoryDefinition {
+  useEffect(loadCategoriesOnce, []);
+
+  // Select the stored object (stable) rather than the placeholder
+  const category = useCategoriesStore(state =>
+    state.categories.find(candidate => candidate.id === id)
+  );
+  return category ?? findCategory([], id);
+}
@@ -3,6 +3,8 @@
  *
  * Custom hook for creating new expenses.
  * Manages loading state, errors, and provides mutation function.
+ * Successful mutations are pushed onto the undo stack.
+ * In optimistic mode the new expense shows up in cached queries right away.
  *
  * @module domains/expenses/hooks/use-create-expense
  */
@@ -11,44 +13,86 @@
 
 import { useState, useCallback } from 'react';
 import { createExpense } from '../actions';
-import type { CreateExpenseInput, Expense, UseMutationResult } from '../types';
+import { createExpenseCommand } from '../commands';
+import { applyOptimisticChange, type OptimisticUpdate } from '../query-cache';
+import type {
+  CreateExpenseInput,
+  Expense,
+  MutationHookOptions,
+  UseMutationResult
+} from '../types';
 import { logError } from '../errors';
+import { useUndoStore } from '../stores/undo-store';
+import { normalizeTags } from '../tags';
+import { DEFAULT_CURRENCY } from '../currencies';
+
+/**
+ * Placeholder shown until the real expense is read back
+ * (the ID is replaced by the one `createExpense` generates)
+ */
+function buildOptimisticExpense(input: CreateExpenseInput): Expense {
+  const now = new Date().toISOString();
+  return {
+    id: `optimistic-${crypto.randomUUID()}`,
+    ...input,
+    currency: input.currency ?? DEFAULT_CURRENCY,
+    tags: normalizeTags(input.tags ?? []),
+    createdAt: now,
+    updatedAt: now,
+    deletedAt: null
+  };
+}
 
 /**
  * Hook for creating new expenses
  *
  * Provides mutation function with loading and error states.
- * Does NOT auto-refetch - you must call refetch manually or use a global state manager.
+ * Live queries (`useExpenses`) pick up the new expense on their own.
  *
+ * @param options - Set `optimistic` to show the expense before the write commits
  * @returns Mutation result with mutate function, loading state, and error
  *
  * @example
  * ```typescript
- * const { mutate, isLoading, error, reset } = useCreateExpense();
+ * const { mutate, isLoading, error, reset } = useCreateExpense({ optimistic: true });
  *
  * const handleSubmit = async (data) => {
- *   const expense = await mutate(data);
- *   console.log('Created:', expense);
- *   // Manually refetch expenses list
+ *   try {
+ *     await mutate(data);
+ *   } catch (error) {
+ *     // Already rolled back
+ *     toast.error(getUserFriendlyMessage(error));
+ *   }
  * };
  * ```
  */
-export function useCreateExpense(): UseMutationResult<
-  Expense,
-  CreateExpenseInput
-> {
+export function useCreateExpense({
+  optimistic = false
+}: MutationHookOptions = {}): UseMutationResult<Expense, CreateExpenseInput> {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<Error | null>(null);
 
   const mutate = useCallback(
     async (input: CreateExpenseInput): Promise<Expense> => {
+      let optimisticUpdate: OptimisticUpdate | null = null;
+
       try {
         setIsLoading(true);
         setError(null);
 
+        if (optimistic) {
+          optimisticUpdate = applyOptimisticChange({
+            before: null,
+            after: buildOptimisticExpense(input)
+          });
+        }
+
         const expense = await createExpense(input);
+        optimisticUpdate?.commit();
+        useUndoStore.getState().push(createExpenseCommand(expense));
         return expense;
       } catch (err) {
+        optimisticUpdate?.rollback();
         const error = err instanceof Error ? err : new Error('Unknown error');
         setError(error);
         logError(error, { input });
@@ -57,7 +101,7 @@ export function useCreateExpense(): UseMutationResult<
         setIsLoading(false);
       }
     },
-    []
+    [optimistic]
   );
 
   const reset = useCallback(() => {
@@ -0,0 +1,54 @@
+/**
+ * useCurrencyConversion Hook
+ *
+ * Converts amounts to the base currency chosen in settings, with the
+ * exchange rates of this device (see `currencies.ts`).
+ *
+ * @module domains/expenses/hooks/use-currency-conversion
+ */
+
+'use client';
+
+import { useCallback, useEffect } from 'react';
+import { useBaseCurrency } from '@/domains/settings/stores/settings-store';
+import { convertExpenseAmount, sumInCurrency } from '../currencies';
+import type { CurrencyDayAmount, Expense } from '../types';
+import { useExchangeRatesStore } from '../stores/exchange-rates-store';
+import { loadExchangeRatesOnce } from './use-exchange-rates';
+
+/**
+ * Hook for converting amounts to the base currency
+ *
+ * Converters change (and re-render their users) when the base currency or
+ * the rates change.
+ *
+ * @returns Base currency, the rates and the converters
+ *
+ * @example
+ * ```typescript
+ * const { baseCurrency, toBaseCurrency, sumInBaseCurrency } = useCurrencyConversion();
+ *
+ * toBaseCurrency(expense); // null without a rate for expense.currency
+ * sumInBaseCurrency(group.amounts).total;
+ * ```
+ */
+export function useCurrencyConversion() {
+  useEffect(loadExchangeRatesOnce, []);
+
+  const baseCurrency = useBaseCurrency();
+  const rates = useExchangeRatesStore(state => state.rates);
+
+  const toBaseCurrency = useCallback(
+    (expense: Pick<Expense, 'amount' | 'currency' | 'date'>) =>
+      convertExpenseAmount(rates, expense, baseCurrency),
+    [rates, baseCurrency]
+  );
+
+  const sumInBaseCurrency = useCallback(
+    (amounts: readonly CurrencyDayAmount[]) =>
+      sumInCurrency(rates, amounts, baseCurrency),
+    [rates, baseCurrency]
+  );
+
+  return { baseCurrency, rates, toBaseCurrency, sumInBaseCurrency };
+}
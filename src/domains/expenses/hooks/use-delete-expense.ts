@@ -3,6 +3,8 @@
  *
  * Custom hook for deleting expenses.
  * Manages loading state, errors, and provides mutation function.
+ * Successful mutations are pushed onto the undo stack.
+ * In optimistic mode the expense leaves cached queries right away.
  *
  * @module domains/expenses/hooks/use-delete-expense
  */
@@ -10,9 +12,16 @@
 'use client';
 
 import { useState, useCallback } from 'react';
-import { deleteExpense } from '../actions';
-import type { UseMutationResult } from '../types';
+import { getExpenseById, deleteExpense } from '../actions';
+import { deleteExpenseCommand } from '../commands';
+import {
+  applyOptimisticChange,
+  getCachedExpense,
+  type OptimisticUpdate
+} from '../query-cache';
+import type { MutationHookOptions, UseMutationResult } from '../types';
 import { logError } from '../errors';
+import { useUndoStore } from '../stores/undo-store';
 
 /**
  * Hook for deleting expenses
@@ -20,6 +29,7 @@ import { logError } from '../errors';
  * Provides mutation function with loading and error states.
  * Takes expense ID as input, returns void on success.
  *
+ * @param options - Set `optimistic` to hide the expense before the write commits
  * @returns Mutation result with mutate function, loading state, and error
  *
  * @example
@@ -34,25 +44,44 @@ import { logError } from '../errors';
  * };
  * ```
  */
-export function useDeleteExpense(): UseMutationResult<void, string> {
+export function useDeleteExpense({
+  optimistic = false
+}: MutationHookOptions = {}): UseMutationResult<void, string> {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<Error | null>(null);
 
-  const mutate = useCallback(async (id: string): Promise<void> => {
-    try {
-      setIsLoading(true);
-      setError(null);
+  const mutate = useCallback(
+    async (id: string): Promise<void> => {
+      let optimisticUpdate: OptimisticUpdate | null = null;
 
-      await deleteExpense(id);
-    } catch (err) {
-      const error = err instanceof Error ? err : new Error('Unknown error');
-      setError(error);
-      logError(error, { expenseId: id });
-      throw error;
-    } finally {
-      setIsLoading(false);
-    }
-  }, []);
+      try {
+        setIsLoading(true);
+        setError(null);
+
+        const cached = optimistic ? getCachedExpense(id) : null;
+        if (cached) {
+          optimisticUpdate = applyOptimisticChange({
+            before: cached,
+            after: { ...cached, deletedAt: new Date().toISOString() }
+          });
+        }
+
+        const expense = await getExpenseById(id);
+        await deleteExpense(id);
+        optimisticUpdate?.commit();
+        useUndoStore.getState().push(deleteExpenseCommand(expense));
+      } catch (err) {
+        optimisticUpdate?.rollback();
+        const error = err instanceof Error ? err : new Error('Unknown error');
+        setError(error);
+        logError(error, { expenseId: id });
+        throw error;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [optimistic]
+  );
 
   const reset = useCallback(() => {
     setError(null);
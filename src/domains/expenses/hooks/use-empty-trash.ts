@@ -0,0 +1,61 @@
+/**
+ * useEmptyTrash Hook
+ *
+ * Custom hook for emptying the trash.
+ * Manages loading state, errors, and provides mutation function.
+ *
+ * @module domains/expenses/hooks/use-empty-trash
+ */
+
+'use client';
+
+import { useState, useCallback } from 'react';
+import { emptyTrash } from '../actions';
+import type { UseMutationResult } from '../types';
+import { logError } from '../errors';
+
+/**
+ * Hook for emptying the trash
+ *
+ * Permanently deletes every trashed expense and returns how many were removed.
+ *
+ * @returns Mutation result with mutate function, loading state, and error
+ *
+ * @example
+ * ```typescript
+ * const { mutate: empty } = useEmptyTrash();
+ * const removed = await empty();
+ * ```
+ */
+export function useEmptyTrash(): UseMutationResult<number, void> {
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const mutate = useCallback(async (): Promise<number> => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      return await emptyTrash();
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error('Unknown error');
+      setError(error);
+      logError(error);
+      throw error;
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const reset = useCallback(() => {
+    setError(null);
+    setIsLoading(false);
+  }, []);
+
+  return {
+    mutate,
+    isLoading,
+    error,
+    reset
+  };
+}
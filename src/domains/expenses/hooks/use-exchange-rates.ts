@@ -0,0 +1,113 @@
+/**
+ * useExchangeRates Hook
+ *
+ * Custom hook for the exchange rate table: lists the rates and adds,
+ * changes and deletes them.
+ *
+ * @module domains/expenses/hooks/use-exchange-rates
+ */
+
+'use client';
+
+import { useCallback, useEffect } from 'react';
+import {
+  createExchangeRate,
+  deleteExchangeRate,
+  getExchangeRates,
+  updateExchangeRate
+} from '../exchange-rates';
+import type { ExchangeRateInput } from '../types';
+import { logError } from '../errors';
+import { useExchangeRatesStore } from '../stores/exchange-rates-store';
+
+/**
+ * Reload the exchange rates from IndexedDB into the store
+ */
+export async function refreshExchangeRates(): Promise<void> {
+  const { setRates, setStatus } = useExchangeRatesStore.getState();
+  try {
+    setStatus('loading');
+    setRates(await getExchangeRates());
+  } catch (err) {
+    const error = err instanceof Error ? err : new Error('Unknown error');
+    setStatus('error', error);
+    logError(error, { operation: 'refreshExchangeRates' });
+  }
+}
+
+/**
+ * Load the exchange rates unless a load already started (once per page load)
+ */
+export function loadExchangeRatesOnce(): void {
+  if (useExchangeRatesStore.getState().status === 'idle') {
+    refreshExchangeRates();
+  }
+}
+
+/**
+ * Hook for the exchange rate table
+ *
+ * Mutations throw (after logging) so callers can show the error; the list
+ * is reloaded after each of them.
+ *
+ * @returns Rates (newest first), loading state and actions
+ *
+ * @example
+ * ```typescript
+ * const { rates, createRate } = useExchangeRates();
+ *
+ * await createRate({ from: 'USD', to: 'MXN', date: '2025-03-01', rate: 17.05 });
+ * ```
+ */
+export function useExchangeRates() {
+  useEffect(loadExchangeRatesOnce, []);
+
+  const rates = useExchangeRatesStore(state => state.rates);
+  const status = useExchangeRatesStore(state => state.status);
+  const error = useExchangeRatesStore(state => state.error);
+
+  // Run a mutation, then reload the list
+  const mutate = useCallback(
+    async <T>(
+      operation: () => Promise<T>,
+      context: Record<string, unknown>
+    ) => {
+      try {
+        return await operation();
+      } catch (err) {
+        logError(err, context);
+        throw err;
+      } finally {
+        await refreshExchangeRates();
+      }
+    },
+    []
+  );
+
+  const create = useCallback(
+    (input: ExchangeRateInput) =>
+      mutate(() => createExchangeRate(input), { from: input.from, to: input.to }),
+    [mutate]
+  );
+
+  const update = useCallback(
+    (id: string, changes: Partial<ExchangeRateInput>) =>
+      mutate(() => updateExchangeRate(id, changes), { id }),
+    [mutate]
+  );
+
+  const remove = useCallback(
+    (id: string) => mutate(() => deleteExchangeRate(id), { id }),
+    [mutate]
+  );
+
+  return {
+    rates,
+    isLoading: status === 'idle' || status === 'loading',
+    error,
+    createRate: create,
+    updateRate: update,
+    deleteRate: remove,
+    refetch: refreshExchangeRates
+  };
+}
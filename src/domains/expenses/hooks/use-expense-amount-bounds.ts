@@ -0,0 +1,53 @@
+/**
+ * useExpenseAmountBounds Hook
+ *
+ * Smallest and largest amount among the expenses matching the other
+ * filters, in the base currency, used as the bounds of the amount range
+ * control. Two one-row live queries sorted by amount, so the bounds follow
+ * every write (amounts with no rate sort last, so they are never a bound).
+ *
+ * @module domains/expenses/hooks/use-expense-amount-bounds
+ */
+
+'use client';
+
+import type { AmountRange, ExpenseFilters } from '../types';
+import { useCurrencyConversion } from './use-currency-conversion';
+import { useExpenses } from './use-expenses';
+
+/**
+ * Hook for the amount bounds of a query
+ *
+ * @param filters - Current filters (their amount range and sort are ignored)
+ * @returns Bounds (null while loading or when no amount can be converted)
+ *
+ * @example
+ * ```typescript
+ * const bounds = useExpenseAmountBounds({ categories: ['Comida'] });
+ * // { min: 12.5, max: 980 }
+ * ```
+ */
+export function useExpenseAmountBounds(
+  filters: ExpenseFilters
+): AmountRange | null {
+  const base: ExpenseFilters = {
+    categories: filters.categories,
+    tags: filters.tags,
+    tagMatch: filters.tagMatch,
+    dateFrom: filters.dateFrom,
+    dateTo: filters.dateTo,
+    searchQuery: filters.searchQuery,
+    excludeTerms: filters.excludeTerms,
+    sortBy: 'amount',
+    limit: 1
+  };
+  const { toBaseCurrency } = useCurrencyConversion();
+  const lowest = useExpenses({ ...base, sortOrder: 'asc' });
+  const highest = useExpenses({ ...base, sortOrder: 'desc' });
+
+  const min = lowest.expenses[0] && toBaseCurrency(lowest.expenses[0]);
+  const max = highest.expenses[0] && toBaseCurrency(highest.expenses[0]);
+  return typeof min === 'number' && typeof max === 'number'
+    ? { min, max }
+    : null;
+}
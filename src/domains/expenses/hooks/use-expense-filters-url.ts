@@ -0,0 +1,106 @@
+/**
+ * useExpenseFiltersUrl Hook
+ *
+ * Keeps the expense filters store and the query string of the current page
+ * in sync (see `filter-url.ts` for the format). The URL wins on load and on
+ * back/forward; filter changes are written back to it. The URL is read once
+ * the categories are loaded, since it can name user-defined categories.
+ *
+ * @module domains/expenses/hooks/use-expense-filters-url
+ */
+
+'use client';
+
+import { useEffect } from 'react';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+import {
+  getExpenseQuery,
+  useExpenseFiltersStore
+} from '../stores/expense-filters-store';
+import { useCategoriesStore } from '../stores/categories-store';
+import { loadCategoriesOnce } from './use-categories';
+import {
+  parseExpensesSearchParams,
+  toExpensesSearchParams
+} from '../filter-url';
+import type { ExpenseFiltersState } from '../types';
+
+/**
+ * Query string for the filters in the store
+ *
+ * @param withText - Include the search text (`q` and `exclude`)
+ */
+function getSearchString(
+  state: ExpenseFiltersState,
+  withText: boolean = true
+): string {
+  const params = toExpensesSearchParams(getExpenseQuery(state));
+  if (!withText) {
+    params.delete('q');
+    params.delete('exclude');
+  }
+  return params.toString();
+}
+
+/**
+ * Hook that syncs the filters store with the URL
+ *
+ * Call it once in the page that owns the filters. Uses `useSearchParams`,
+ * so that page must render inside a `<Suspense>` boundary.
+ *
+ * Changes to the search text replace the history entry; every other filter
+ * change pushes one, so the back button steps through them.
+ *
+ * @example
+ * ```tsx
+ * function ExpensesPageContent() {
+ *   useExpenseFiltersUrl();
+ *   const { selectedCategories } = useExpenseFilters();
+ *   // ...
+ * }
+ * ```
+ */
+export function useExpenseFiltersUrl(): void {
+  const router = useRouter();
+  const pathname = usePathname();
+  const search = useSearchParams().toString();
+  const categoriesLoaded = useCategoriesStore(
+    state => state.status === 'ready' || state.status === 'error'
+  );
+
+  useEffect(loadCategoriesOnce, []);
+
+  // URL -> store (first render and back/forward navigation)
+  useEffect(() => {
+    if (!categoriesLoaded) return;
+
+    const state = useExpenseFiltersStore.getState();
+    if (getSearchString(state) !== search) {
+      state.setQuery(parseExpensesSearchParams(new URLSearchParams(search)));
+    }
+  }, [search, categoriesLoaded]);
+
+  // Store -> URL
+  useEffect(
+    () =>
+      useExpenseFiltersStore.subscribe((state, previous) => {
+        const next = getSearchString(state);
+        if (
+          next === getSearchString(previous) ||
+          next === window.location.search.replace(/^\?/, '')
+        ) {
+          return;
+        }
+
+        const url = next ? `${pathname}?${next}` : pathname;
+        const isTextOnly =
+          getSearchString(state, false) === getSearchString(previous, false);
+        if (isTextOnly) {
+          router.replace(url, { scroll: false });
+        } else {
+          router.push(url, { scroll: false });
+        }
+      }),
+    [router, pathname]
+  );
+}
@@ -26,42 +26,76 @@ export { _useHasActiveFilters as useHasActiveFilters };
  * @example
  * ```typescript
  * const {
+ *   queryText,
  *   selectedCategories,
+ *   selectedTags,
+ *   tagMatch,
  *   dateRange,
+ *   amountRange,
  *   searchQuery,
+ *   excludedTerms,
  *   sort,
+ *   setQueryText,
  *   setSelectedCategories,
+ *   setSelectedTags,
+ *   setTagMatch,
  *   setDateRange,
  *   setSearchQuery,
  *   setSort,
  *   resetFilters
  * } = useExpenseFilters();
  *
- * // Update category filter
+ * // Filter from the search bar syntax
+ * setQueryText('categoria:Comida monto>500 -uber');
+ *
+ * // Update category filter (rewrites queryText)
  * setSelectedCategories(['Comida', 'Transporte']);
  *
+ * // Expenses tagged #viaje or #trabajo (rewrites queryText)
+ * setSelectedTags(['viaje', 'trabajo']);
+ * setTagMatch('any');
+ *
  * // Update date range
  * setDateRange({
  *   from: new Date('2025-01-01'),
  *   to: new Date('2025-12-31')
  * });
  *
+ * // Only expenses of 100 or more
+ * setAmountRange({ min: 100, max: null });
+ *
  * // Reset all filters
  * resetFilters();
  * ```
  */
 export function useExpenseFilters() {
+  const queryText = useExpenseFiltersStore((state: ExpenseFiltersState) => state.queryText);
   const selectedCategories = useExpenseFiltersStore(
     (state: ExpenseFiltersState) => state.selectedCategories
   );
+  const selectedTags = useExpenseFiltersStore((state: ExpenseFiltersState) => state.selectedTags);
+  const tagMatch = useExpenseFiltersStore((state: ExpenseFiltersState) => state.tagMatch);
   const dateRange = useExpenseFiltersStore((state: ExpenseFiltersState) => state.dateRange);
+  const amountRange = useExpenseFiltersStore((state: ExpenseFiltersState) => state.amountRange);
   const searchQuery = useExpenseFiltersStore((state: ExpenseFiltersState) => state.searchQuery);
+  const excludedTerms = useExpenseFiltersStore(
+    (state: ExpenseFiltersState) => state.excludedTerms
+  );
   const sort = useExpenseFiltersStore((state: ExpenseFiltersState) => state.sort);
 
+  const setQueryText = useExpenseFiltersStore((state: ExpenseFiltersState) => state.setQueryText);
+  const setQuery = useExpenseFiltersStore((state: ExpenseFiltersState) => state.setQuery);
   const setSelectedCategories = useExpenseFiltersStore(
     (state: ExpenseFiltersState) => state.setSelectedCategories
   );
+  const setSelectedTags = useExpenseFiltersStore(
+    (state: ExpenseFiltersState) => state.setSelectedTags
+  );
+  const setTagMatch = useExpenseFiltersStore((state: ExpenseFiltersState) => state.setTagMatch);
   const setDateRange = useExpenseFiltersStore((state: ExpenseFiltersState) => state.setDateRange);
+  const setAmountRange = useExpenseFiltersStore(
+    (state: ExpenseFiltersState) => state.setAmountRange
+  );
   const setSearchQuery = useExpenseFiltersStore(
     (state: ExpenseFiltersState) => state.setSearchQuery
   );
@@ -69,12 +103,22 @@ export function useExpenseFilters() {
   const resetFilters = useExpenseFiltersStore((state: ExpenseFiltersState) => state.resetFilters);
 
   return {
+    queryText,
     selectedCategories,
+    selectedTags,
+    tagMatch,
     dateRange,
+    amountRange,
     searchQuery,
+    excludedTerms,
     sort,
+    setQueryText,
+    setQuery,
     setSelectedCategories,
+    setSelectedTags,
+    setTagMatch,
     setDateRange,
+    setAmountRange,
     setSearchQuery,
     setSort,
     resetFilters,
@@ -87,11 +131,16 @@ export function useExpenseFilters() {
  */
 export function useExpenseFilterValues() {
   return {
+    queryText: useExpenseFiltersStore((state: ExpenseFiltersState) => state.queryText),
     selectedCategories: useExpenseFiltersStore(
       (state: ExpenseFiltersState) => state.selectedCategories
     ),
+    selectedTags: useExpenseFiltersStore((state: ExpenseFiltersState) => state.selectedTags),
+    tagMatch: useExpenseFiltersStore((state: ExpenseFiltersState) => state.tagMatch),
     dateRange: useExpenseFiltersStore((state: ExpenseFiltersState) => state.dateRange),
+    amountRange: useExpenseFiltersStore((state: ExpenseFiltersState) => state.amountRange),
     searchQuery: useExpenseFiltersStore((state: ExpenseFiltersState) => state.searchQuery),
+    excludedTerms: useExpenseFiltersStore((state: ExpenseFiltersState) => state.excludedTerms),
     sort: useExpenseFiltersStore((state: ExpenseFiltersState) => state.sort),
   };
 }
@@ -102,10 +151,15 @@ export function useExpenseFilterValues() {
  */
 export function useExpenseFilterActions() {
   return {
+    setQueryText: useExpenseFiltersStore((state: ExpenseFiltersState) => state.setQueryText),
+    setQuery: useExpenseFiltersStore((state: ExpenseFiltersState) => state.setQuery),
     setSelectedCategories: useExpenseFiltersStore(
       (state: ExpenseFiltersState) => state.setSelectedCategories
     ),
+    setSelectedTags: useExpenseFiltersStore((state: ExpenseFiltersState) => state.setSelectedTags),
+    setTagMatch: useExpenseFiltersStore((state: ExpenseFiltersState) => state.setTagMatch),
     setDateRange: useExpenseFiltersStore((state: ExpenseFiltersState) => state.setDateRange),
+    setAmountRange: useExpenseFiltersStore((state: ExpenseFiltersState) => state.setAmountRange),
     setSearchQuery: useExpenseFiltersStore((state: ExpenseFiltersState) => state.setSearchQuery),
     setSort: useExpenseFiltersStore((state: ExpenseFiltersState) => state.setSort),
     resetFilters: useExpenseFiltersStore((state: ExpenseFiltersState) => state.resetFilters),
@@ -0,0 +1,60 @@
+/**
+ * useExpenseRevisions Hook
+ *
+ * Custom hook for reading the revision log of an expense.
+ * Manages loading state, errors, and provides refetch capability.
+ *
+ * @module domains/expenses/hooks/use-expense-revisions
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { getExpenseRevisions } from '../actions';
+import type { ExpenseRevision } from '../types';
+import { logError } from '../errors';
+
+/**
+ * Hook for querying the revision log of an expense
+ *
+ * Fetches on mount and whenever `expenseId` changes. Call `refetch` after a revert.
+ *
+ * @param expenseId - Expense UUID
+ * @returns Revisions (newest first), loading state, error, and refetch function
+ *
+ * @example
+ * ```typescript
+ * const { revisions, isLoading, refetch } = useExpenseRevisions(expense.id);
+ * ```
+ */
+export function useExpenseRevisions(expenseId: string) {
+  const [revisions, setRevisions] = useState<ExpenseRevision[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  const fetchRevisions = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      setRevisions(await getExpenseRevisions(expenseId));
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error('Unknown error');
+      setError(error);
+      logError(error, { expenseId });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [expenseId]);
+
+  useEffect(() => {
+    fetchRevisions();
+  }, [fetchRevisions]);
+
+  return {
+    revisions,
+    isLoading,
+    error,
+    refetch: fetchRevisions
+  };
+}
@@ -0,0 +1,130 @@
+/**
+ * useExpenseSync Hook
+ *
+ * Runs sync rounds on demand and exposes the shared sync status
+ * (status, last sync, pending changes and conflicts).
+ *
+ * @module domains/expenses/hooks/use-expense-sync
+ */
+
+'use client';
+
+import { useCallback, useEffect } from 'react';
+import { useSettingsStore } from '@/domains/settings/stores/settings-store';
+import type { SyncResult } from '../types';
+import { isExpenseApiError, logError } from '../errors';
+import { subscribeToExpenseChanges } from '../events';
+import { getExpenseRepository } from '../repository';
+import { getSyncLocalStore, syncExpenses } from '../sync/engine';
+import { useSyncStore } from '../stores/sync-store';
+import { refreshCategories } from './use-categories';
+
+/**
+ * Reload the pending count, conflicts and last sync time from IndexedDB
+ */
+export async function refreshSyncSnapshot(): Promise<void> {
+  const repository = await getExpenseRepository();
+  if (repository.kind !== 'indexeddb') {
+    return;
+  }
+
+  const local = getSyncLocalStore();
+  const [state, pending, pendingCategories, conflicts] = await Promise.all([
+    local.getSyncState(),
+    local.getPendingChanges(),
+    local.getPendingCategoryChanges(),
+    local.getConflicts()
+  ]);
+  useSyncStore.getState().setSnapshot({
+    lastSyncedAt: state.lastSyncedAt,
+    pendingCount: pending.length + pendingCategories.length,
+    conflicts
+  });
+}
+
+/**
+ * Hook for syncing local expenses with the server
+ *
+ * Sync is only available in local storage mode (IndexedDB); in server mode
+ * the data already lives on the server.
+ *
+ * @returns Sync status, the automatic sync setting and a sync function
+ *
+ * @example
+ * ```typescript
+ * const { status, conflicts, sync } = useExpenseSync();
+ *
+ * const { pulled } = (await sync()) ?? { pulled: 0 };
+ * ```
+ */
+export function useExpenseSync() {
+  const status = useSyncStore(state => state.status);
+  const error = useSyncStore(state => state.error);
+  const lastSyncedAt = useSyncStore(state => state.lastSyncedAt);
+  const pendingCount = useSyncStore(state => state.pendingCount);
+  const conflicts = useSyncStore(state => state.conflicts);
+  const storageMode = useSettingsStore(state => state.storageMode);
+  const syncEnabled = useSettingsStore(state => state.syncEnabled);
+  const setSyncEnabled = useSettingsStore(state => state.setSyncEnabled);
+
+  // Keep the pending count current as local changes land
+  useEffect(() => {
+    if (storageMode !== 'local') {
+      return;
+    }
+    const refresh = () => {
+      refreshSyncSnapshot().catch(error =>
+        logError(error, { operation: 'refreshSyncSnapshot' })
+      );
+    };
+    refresh();
+    return subscribeToExpenseChanges(refresh);
+  }, [storageMode]);
+
+  /**
+   * Run one sync round (null when the active storage cannot sync)
+   *
+   * @throws {ExpenseApiError} If the server cannot be reached or fails
+   */
+  const sync = useCallback(async (): Promise<SyncResult | null> => {
+    const repository = await getExpenseRepository();
+    if (repository.kind !== 'indexeddb') {
+      return null;
+    }
+
+    const { setStatus } = useSyncStore.getState();
+    setStatus('syncing');
+    try {
+      const result = await syncExpenses();
+      setStatus('idle');
+      if (result.categories > 0) {
+        await refreshCategories();
+      }
+      return result;
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error('Unknown error');
+      setStatus(
+        isExpenseApiError(error) && error.isNetworkError()
+          ? 'offline'
+          : 'error',
+        error
+      );
+      logError(error, { operation: 'syncExpenses' });
+      throw error;
+    } finally {
+      await refreshSyncSnapshot().catch(() => undefined);
+    }
+  }, []);
+
+  return {
+    status,
+    error,
+    lastSyncedAt,
+    pendingCount,
+    conflicts,
+    isAvailable: storageMode === 'local',
+    syncEnabled,
+    setSyncEnabled,
+    sync
+  };
+}
@@ -0,0 +1,66 @@
+/**
+ * useExpenseTags Hook
+ *
+ * Every tag in use, for the tag input and the tag filter.
+ * Refetches after every expense change (in this tab or another one).
+ *
+ * @module domains/expenses/hooks/use-expense-tags
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { getExpenseTags } from '../actions';
+import { logError } from '../errors';
+import { subscribeToExpenseChanges } from '../events';
+
+/**
+ * Hook for listing the tags in use
+ *
+ * @returns Tags (A-Z), loading state, error, and refetch function
+ *
+ * @example
+ * ```typescript
+ * const { tags } = useExpenseTags();
+ * // ['regalo', 'trabajo', 'vacaciones2025']
+ * ```
+ */
+export function useExpenseTags() {
+  const [tags, setTags] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  const fetchTags = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      setTags(await getExpenseTags());
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error('Unknown error');
+      setError(error);
+      logError(error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchTags();
+  }, [fetchTags]);
+
+  useEffect(
+    () =>
+      subscribeToExpenseChanges(() => {
+        fetchTags();
+      }),
+    [fetchTags]
+  );
+
+  return {
+    tags,
+    isLoading,
+    error,
+    refetch: fetchTags
+  };
+}
@@ -2,23 +2,45 @@
  * useExpenses Hook
  *
  * Custom hook for fetching expenses with filters.
- * Manages loading state, errors, and provides refetch capability.
+ * Live query backed by the shared query cache: identical requests are
+ * deduped and results update themselves after every committed write.
  *
  * @module domains/expenses/hooks/use-expenses
  */
 
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
-import { getExpenses } from '../actions';
-import type { Expense, ExpenseFilters, UseExpensesResult } from '../types';
-import { logError } from '../errors';
+import { useCallback, useMemo, useSyncExternalStore } from 'react';
+import type {
+  ExpenseFilters,
+  ExpenseGroupSummary,
+  UseExpensesResult
+} from '../types';
+import {
+  getExpenseQueryKey,
+  getExpenseQueryState,
+  parseExpenseQueryKey,
+  refetchExpenseQuery,
+  subscribeToExpenseQuery,
+  type ExpenseQueryState
+} from '../query-cache';
+import { useCurrencyConversion } from './use-currency-conversion';
+
+const NO_GROUPS: ExpenseGroupSummary[] = [];
+
+const SERVER_STATE: ExpenseQueryState = {
+  data: null,
+  error: null,
+  isFetching: true
+};
 
 /**
  * Hook for querying expenses with filters
  *
- * Automatically fetches on mount and when filters change.
- * Provides loading state, error handling, and manual refetch.
+ * Automatically fetches on mount and when filters change, and refetches
+ * whenever a create, update or delete (in this or another tab) touches an
+ * expense matching the filters. No manual refetch is needed after mutations.
+ * Amount ranges and the amount sort are in the base currency.
  *
  * @param filters - Optional filters for querying expenses
  * @returns Hook result with expenses, loading state, error, and refetch function
@@ -35,48 +57,46 @@ import { logError } from '../errors';
 export function useExpenses(
   filters: ExpenseFilters = {}
 ): UseExpensesResult {
-  const [expenses, setExpenses] = useState<Expense[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<Error | null>(null);
-  const [totalCount, setTotalCount] = useState(0);
-  const [hasMore, setHasMore] = useState(false);
+  const { baseCurrency, rates } = useCurrencyConversion();
 
-  // Fetch expenses from IndexedDB
-  const fetchExpenses = useCallback(async () => {
-    try {
-      setIsLoading(true);
-      setError(null);
+  // Filter objects are often recreated on every render; the key is stable
+  // and the filters are rebuilt from it
+  const key = getExpenseQueryKey({
+    ...filters,
+    amountCurrency: baseCurrency,
+    exchangeRates: rates
+  });
+  const stableFilters = useMemo(() => parseExpenseQueryKey(key), [key]);
 
-      const result = await getExpenses(filters);
+  const subscribe = useCallback(
+    (onChange: () => void) => subscribeToExpenseQuery(stableFilters, onChange),
+    [stableFilters]
+  );
+  const getSnapshot = useCallback(
+    () => getExpenseQueryState(stableFilters),
+    [stableFilters]
+  );
 
-      setExpenses(result.expenses);
-      setTotalCount(result.totalCount);
-      setHasMore(result.hasMore);
-    } catch (err) {
-      const error = err instanceof Error ? err : new Error('Unknown error');
-      setError(error);
-      logError(error, { filters });
-    } finally {
-      setIsLoading(false);
-    }
-  }, [filters]);
+  const state = useSyncExternalStore(subscribe, getSnapshot, () => SERVER_STATE);
 
-  // Fetch on mount and when filters change
-  useEffect(() => {
-    fetchExpenses();
-  }, [fetchExpenses]);
-
-  // Refetch function for manual updates
+  // Refetch function for manual updates (e.g. retry after an error)
   const refetch = useCallback(async () => {
-    await fetchExpenses();
-  }, [fetchExpenses]);
+    try {
+      await refetchExpenseQuery(stableFilters);
+    } catch {
+      // Surfaced through `error`
+    }
+  }, [stableFilters]);
 
   return {
-    expenses,
-    isLoading,
-    error,
+    expenses: state.data?.expenses ?? [],
+    // Background refetches keep showing the previous (or optimistic) data
+    isLoading: !state.data && !state.error,
+    isFetching: state.isFetching,
+    error: state.error,
     refetch,
-    totalCount,
-    hasMore,
+    totalCount: state.data?.totalCount ?? 0,
+    hasMore: state.data?.hasMore ?? false,
+    groups: state.data?.groups ?? NO_GROUPS
   };
 }
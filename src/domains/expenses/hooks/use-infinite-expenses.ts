@@ -0,0 +1,256 @@
+/**
+ * useInfiniteExpenses Hook
+ *
+ * Custom hook for loading expenses page by page (infinite scrolling).
+ * Each page is a live query of the shared query cache, chained by cursor:
+ * page N+1 starts after the last expense of page N.
+ *
+ * @module domains/expenses/hooks/use-infinite-expenses
+ */
+
+'use client';
+
+import {
+  useCallback,
+  useMemo,
+  useRef,
+  useState,
+  useSyncExternalStore
+} from 'react';
+import type {
+  Expense,
+  ExpenseFilters,
+  ExpenseGroupSummary,
+  UseInfiniteExpensesResult
+} from '../types';
+import {
+  getExpenseQueryKey,
+  getExpenseQueryState,
+  parseExpenseQueryKey,
+  refetchExpenseQuery,
+  subscribeToExpenseQuery,
+  type ExpenseQueryState
+} from '../query-cache';
+import { useCurrencyConversion } from './use-currency-conversion';
+
+/**
+ * Combined state of the loaded pages
+ */
+interface PagesSnapshot {
+  /** Query state of each page, in order */
+  states: ExpenseQueryState[];
+  expenses: Expense[];
+  totalCount: number;
+  hasMore: boolean;
+  groups: ExpenseGroupSummary[];
+  error: Error | null;
+  isFetching: boolean;
+}
+
+const SERVER_SNAPSHOT: PagesSnapshot = {
+  states: [],
+  expenses: [],
+  totalCount: 0,
+  hasMore: false,
+  groups: [],
+  error: null,
+  isFetching: true
+};
+
+/**
+ * Filters of each page, as far as the chain of cursors is known
+ *
+ * A page is only known once the previous one has a result, and the chain
+ * ends early when a page has no next cursor.
+ */
+function getPageFilters(
+  filters: ExpenseFilters,
+  pageCount: number
+): ExpenseFilters[] {
+  const pages: ExpenseFilters[] = [filters];
+  while (pages.length < pageCount) {
+    const cursor = getExpenseQueryState(pages[pages.length - 1]).data
+      ?.nextCursor;
+    if (!cursor) break;
+    pages.push({ ...filters, cursor });
+  }
+  return pages;
+}
+
+/**
+ * Combine page states into one list
+ *
+ * When a write moves the cursors, later pages get new keys and load again.
+ * Until they do, the previous list is kept so rows below do not disappear
+ * (and the scroll position does not jump).
+ */
+function mergePages(
+  states: ExpenseQueryState[],
+  previous: PagesSnapshot | null
+): PagesSnapshot {
+  const loaded = states.filter(state => state.data);
+  const isComplete = loaded.length === states.length;
+
+  // An optimistic change can briefly show an expense on two pages
+  const seen = new Set<string>();
+  const expenses = loaded
+    .flatMap(state => state.data!.expenses)
+    .filter(expense => {
+      if (seen.has(expense.id)) return false;
+      seen.add(expense.id);
+      return true;
+    });
+
+  const keepPrevious =
+    !isComplete &&
+    !!previous &&
+    loaded.length > 0 &&
+    previous.expenses.length > expenses.length;
+
+  return {
+    states,
+    expenses: keepPrevious ? previous.expenses : expenses,
+    // Totals and subtotals cover every match, so the first page has them
+    totalCount: states[0]?.data?.totalCount ?? 0,
+    groups: states[0]?.data?.groups ?? previous?.groups ?? [],
+    hasMore: isComplete
+      ? (states[states.length - 1]?.data?.hasMore ?? false)
+      : (previous?.hasMore ?? false),
+    error: states.find(state => state.error)?.error ?? null,
+    isFetching: states.some(state => state.isFetching)
+  };
+}
+
+/**
+ * Hook for querying expenses with infinite scrolling
+ *
+ * Starts with one page of `filters.limit` expenses; `loadMore` appends the
+ * next one. Changing the filters starts over from the first page. Like
+ * `useExpenses`, every loaded page refetches after writes that touch it, and
+ * amounts are compared in the base currency.
+ *
+ * @param filters - Filters for querying expenses (`limit` is the page size)
+ * @returns Hook result with the loaded expenses and `loadMore`
+ *
+ * @example
+ * ```typescript
+ * const { expenses, hasMore, isFetchingMore, loadMore } = useInfiniteExpenses({
+ *   categories: ['Comida'],
+ *   limit: 50
+ * });
+ * ```
+ */
+export function useInfiniteExpenses(
+  filters: ExpenseFilters = {}
+): UseInfiniteExpensesResult {
+  const { baseCurrency, rates } = useCurrencyConversion();
+
+  // Filter objects are often recreated on every render; the key is stable
+  // and the filters are rebuilt from it
+  const key = getExpenseQueryKey({
+    ...filters,
+    amountCurrency: baseCurrency,
+    exchangeRates: rates,
+    cursor: undefined,
+    offset: undefined
+  });
+  const stableFilters = useMemo(() => parseExpenseQueryKey(key), [key]);
+
+  // Pages requested for the current filters
+  const [request, setRequest] = useState({ key, pageCount: 1 });
+  const pageCount = request.key === key ? request.pageCount : 1;
+
+  const subscribe = useCallback(
+    (onChange: () => void) => {
+      let pageKeys = '';
+      let unsubscribes: (() => void)[] = [];
+
+      // Follow the chain: a page result can reveal (or move) the next page
+      const sync = () => {
+        const pages = getPageFilters(stableFilters, pageCount);
+        const nextKeys = pages.map(getExpenseQueryKey).join('\n');
+        if (nextKeys === pageKeys) return;
+
+        pageKeys = nextKeys;
+        const previous = unsubscribes;
+        unsubscribes = pages.map(page =>
+          subscribeToExpenseQuery(page, handleChange)
+        );
+        // After subscribing, so pages kept in the chain are never evicted
+        previous.forEach(unsubscribe => unsubscribe());
+      };
+      const handleChange = () => {
+        sync();
+        onChange();
+      };
+
+      sync();
+      return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+    },
+    [stableFilters, pageCount]
+  );
+
+  const snapshotRef = useRef<{ key: string; snapshot: PagesSnapshot } | null>(
+    null
+  );
+  const getSnapshot = useCallback(() => {
+    const states = getPageFilters(stableFilters, pageCount).map(
+      getExpenseQueryState
+    );
+    const cached =
+      snapshotRef.current?.key === key ? snapshotRef.current.snapshot : null;
+    if (
+      cached &&
+      cached.states.length === states.length &&
+      cached.states.every((state, index) => state === states[index])
+    ) {
+      return cached;
+    }
+
+    const snapshot = mergePages(states, cached);
+    snapshotRef.current = { key, snapshot };
+    return snapshot;
+  }, [stableFilters, pageCount, key]);
+
+  const snapshot = useSyncExternalStore(
+    subscribe,
+    getSnapshot,
+    () => SERVER_SNAPSHOT
+  );
+
+  const lastState = snapshot.states[snapshot.states.length - 1];
+  const isLoading = !snapshot.states[0]?.data && !snapshot.error;
+  const isFetchingMore =
+    snapshot.states.length > 1 && !lastState?.data && !lastState?.error;
+
+  const loadMore = useCallback(() => {
+    if (!snapshot.hasMore || snapshot.states.some(state => !state.data)) {
+      return;
+    }
+    setRequest({ key, pageCount: snapshot.states.length + 1 });
+  }, [snapshot, key]);
+
+  // Refetch function for manual updates (e.g. retry after an error)
+  const refetch = useCallback(async () => {
+    try {
+      await Promise.all(
+        getPageFilters(stableFilters, pageCount).map(refetchExpenseQuery)
+      );
+    } catch {
+      // Surfaced through `error`
+    }
+  }, [stableFilters, pageCount]);
+
+  return {
+    expenses: snapshot.expenses,
+    isLoading,
+    isFetching: snapshot.isFetching,
+    isFetchingMore,
+    error: snapshot.error,
+    refetch,
+    totalCount: snapshot.totalCount,
+    hasMore: snapshot.hasMore,
+    groups: snapshot.groups,
+    loadMore
+  };
+}
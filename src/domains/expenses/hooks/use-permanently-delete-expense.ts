@@ -0,0 +1,61 @@
+/**
+ * usePermanentlyDeleteExpense Hook
+ *
+ * Custom hook for permanently deleting trashed expenses.
+ * Manages loading state, errors, and provides mutation function.
+ *
+ * @module domains/expenses/hooks/use-permanently-delete-expense
+ */
+
+'use client';
+
+import { useState, useCallback } from 'react';
+import { permanentlyDeleteExpense } from '../actions';
+import type { UseMutationResult } from '../types';
+import { logError } from '../errors';
+
+/**
+ * Hook for permanently deleting expenses
+ *
+ * Takes expense ID as input, returns void on success. Cannot be undone.
+ *
+ * @returns Mutation result with mutate function, loading state, and error
+ *
+ * @example
+ * ```typescript
+ * const { mutate: destroy } = usePermanentlyDeleteExpense();
+ * await destroy(expense.id);
+ * ```
+ */
+export function usePermanentlyDeleteExpense(): UseMutationResult<void, string> {
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const mutate = useCallback(async (id: string): Promise<void> => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      await permanentlyDeleteExpense(id);
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error('Unknown error');
+      setError(error);
+      logError(error, { expenseId: id });
+      throw error;
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const reset = useCallback(() => {
+    setError(null);
+    setIsLoading(false);
+  }, []);
+
+  return {
+    mutate,
+    isLoading,
+    error,
+    reset
+  };
+}
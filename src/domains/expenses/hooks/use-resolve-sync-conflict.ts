@@ -0,0 +1,75 @@
+/**
+ * useResolveSyncConflict Hook
+ *
+ * Custom hook for settling sync conflicts from the review UI.
+ * Manages loading state, errors, and provides mutation function.
+ *
+ * @module domains/expenses/hooks/use-resolve-sync-conflict
+ */
+
+'use client';
+
+import { useState, useCallback } from 'react';
+import { resolveSyncConflict } from '../sync/engine';
+import type { ExpenseSyncConflict, UseMutationResult } from '../types';
+import { logError } from '../errors';
+import { refreshSyncSnapshot } from './use-expense-sync';
+
+/**
+ * Input type for resolve mutation
+ */
+interface ResolveSyncConflictVariables {
+  conflict: ExpenseSyncConflict;
+  keep: 'local' | 'server';
+}
+
+/**
+ * Hook for settling a sync conflict
+ *
+ * @returns Mutation result with mutate function, loading state, and error
+ *
+ * @example
+ * ```typescript
+ * const { mutate: resolve } = useResolveSyncConflict();
+ * await resolve({ conflict, keep: 'local' });
+ * ```
+ */
+export function useResolveSyncConflict(): UseMutationResult<
+  void,
+  ResolveSyncConflictVariables
+> {
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const mutate = useCallback(
+    async (variables: ResolveSyncConflictVariables): Promise<void> => {
+      try {
+        setIsLoading(true);
+        setError(null);
+
+        await resolveSyncConflict(variables.conflict, variables.keep);
+        await refreshSyncSnapshot();
+      } catch (err) {
+        const error = err instanceof Error ? err : new Error('Unknown error');
+        setError(error);
+        logError(error, { variables });
+        throw error;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    []
+  );
+
+  const reset = useCallback(() => {
+    setError(null);
+    setIsLoading(false);
+  }, []);
+
+  return {
+    mutate,
+    isLoading,
+    error,
+    reset
+  };
+}
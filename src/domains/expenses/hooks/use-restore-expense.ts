@@ -0,0 +1,61 @@
+/**
+ * useRestoreExpense Hook
+ *
+ * Custom hook for restoring expenses from the trash.
+ * Manages loading state, errors, and provides mutation function.
+ *
+ * @module domains/expenses/hooks/use-restore-expense
+ */
+
+'use client';
+
+import { useState, useCallback } from 'react';
+import { restoreExpense } from '../actions';
+import type { Expense, UseMutationResult } from '../types';
+import { logError } from '../errors';
+
+/**
+ * Hook for restoring trashed expenses
+ *
+ * Takes expense ID as input, returns the restored expense.
+ *
+ * @returns Mutation result with mutate function, loading state, and error
+ *
+ * @example
+ * ```typescript
+ * const { mutate: restore } = useRestoreExpense();
+ * await restore(expense.id);
+ * ```
+ */
+export function useRestoreExpense(): UseMutationResult<Expense, string> {
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const mutate = useCallback(async (id: string): Promise<Expense> => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      return await restoreExpense(id);
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error('Unknown error');
+      setError(error);
+      logError(error, { expenseId: id });
+      throw error;
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const reset = useCallback(() => {
+    setError(null);
+    setIsLoading(false);
+  }, []);
+
+  return {
+    mutate,
+    isLoading,
+    error,
+    reset
+  };
+}
@@ -0,0 +1,76 @@
+/**
+ * useRevertExpense Hook
+ *
+ * Custom hook for reverting expenses to an earlier revision.
+ * Manages loading state, errors, and provides mutation function.
+ *
+ * @module domains/expenses/hooks/use-revert-expense
+ */
+
+'use client';
+
+import { useState, useCallback } from 'react';
+import { revertExpenseToRevision } from '../actions';
+import type { Expense, UseMutationResult } from '../types';
+import { logError } from '../errors';
+
+/**
+ * Input type for revert mutation
+ */
+interface RevertExpenseVariables {
+  expenseId: string;
+  revisionId: string;
+}
+
+/**
+ * Hook for reverting expenses to an earlier revision
+ *
+ * @returns Mutation result with mutate function, loading state, and error
+ *
+ * @example
+ * ```typescript
+ * const { mutate: revert } = useRevertExpense();
+ * const expense = await revert({ expenseId, revisionId: revision.id });
+ * ```
+ */
+export function useRevertExpense(): UseMutationResult<
+  Expense,
+  RevertExpenseVariables
+> {
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const mutate = useCallback(
+    async (variables: RevertExpenseVariables): Promise<Expense> => {
+      try {
+        setIsLoading(true);
+        setError(null);
+
+        return await revertExpenseToRevision(
+          variables.expenseId,
+          variables.revisionId
+        );
+      } catch (err) {
+        const error = err instanceof Error ? err : new Error('Unknown error');
+        setError(error);
+        logError(error, { variables });
+        throw error;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    []
+  );
+
+  const reset = useCallback(() => {
+    setError(null);
+    setIsLoading(false);
+  }, []);
+
+  return {
+    mutate,
+    isLoading,
+    error,
+    reset
+  };
+}
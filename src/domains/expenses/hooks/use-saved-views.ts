@@ -0,0 +1,139 @@
+/**
+ * useSavedViews Hook
+ *
+ * Custom hook for the saved filter views: lists them, saves the current
+ * filters as a view, applies, renames and deletes views.
+ *
+ * @module domains/expenses/hooks/use-saved-views
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  createSavedView,
+  deleteSavedView,
+  getSavedViews,
+  matchesSavedView,
+  renameSavedView,
+  toExpenseQuery,
+  toSavedViewFilters
+} from '../saved-views';
+import type { DateRangeFilter, SavedFilterView } from '../types';
+import { logError } from '../errors';
+import {
+  useExpenseFilterActions,
+  useExpenseFilterValues
+} from './use-expense-filters';
+
+/**
+ * Hook for the saved filter views
+ *
+ * Mutations throw (after logging) so callers can show the error; the list
+ * is refetched after each of them.
+ *
+ * @returns Views, the view matching the current filters, loading state and actions
+ *
+ * @example
+ * ```typescript
+ * const { views, activeView, saveView, applyView } = useSavedViews();
+ *
+ * await saveView('Comida reciente', { type: 'lastDays', days: 30 });
+ * applyView(views[0]);
+ * ```
+ */
+export function useSavedViews() {
+  const [views, setViews] = useState<SavedFilterView[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  const filters = useExpenseFilterValues();
+  const { setQuery } = useExpenseFilterActions();
+
+  const fetchViews = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      setViews(await getSavedViews());
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error('Unknown error');
+      setError(error);
+      logError(error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchViews();
+  }, [fetchViews]);
+
+  // Run a mutation, then reload the list
+  const mutate = useCallback(
+    async <T>(
+      operation: () => Promise<T>,
+      context: Record<string, unknown>
+    ) => {
+      try {
+        return await operation();
+      } catch (err) {
+        logError(err, context);
+        throw err;
+      } finally {
+        await fetchViews();
+      }
+    },
+    [fetchViews]
+  );
+
+  /**
+   * Save the current filters as a view
+   *
+   * @param dateRange - Save this date filter instead of the current one
+   */
+  const saveView = useCallback(
+    (name: string, dateRange?: DateRangeFilter) =>
+      mutate(
+        () => createSavedView(name, toSavedViewFilters(filters, dateRange)),
+        { name }
+      ),
+    [mutate, filters]
+  );
+
+  const renameView = useCallback(
+    (id: string, name: string) =>
+      mutate(() => renameSavedView(id, name), { id, name }),
+    [mutate]
+  );
+
+  const deleteView = useCallback(
+    (id: string) => mutate(() => deleteSavedView(id), { id }),
+    [mutate]
+  );
+
+  /**
+   * Replace the current filters with the ones of a view
+   */
+  const applyView = useCallback(
+    (view: SavedFilterView) => setQuery(toExpenseQuery(view)),
+    [setQuery]
+  );
+
+  const activeView = useMemo(
+    () => views.find(view => matchesSavedView(view, filters)) ?? null,
+    [views, filters]
+  );
+
+  return {
+    views,
+    activeView,
+    isLoading,
+    error,
+    saveView,
+    renameView,
+    deleteView,
+    applyView,
+    refetch: fetchViews
+  };
+}
@@ -0,0 +1,74 @@
+/**
+ * useStorageHealth Hook
+ *
+ * Subscribes to the health of the shared IndexedDB connection and to
+ * whether expenses are being persisted at all (in-memory fallback).
+ *
+ * @module domains/expenses/hooks/use-storage-health
+ */
+
+'use client';
+
+import { useCallback, useState, useSyncExternalStore } from 'react';
+import {
+  getDBHealth,
+  reconnectExpenseDB,
+  subscribeToDBHealth,
+  type DBHealth
+} from '@/lib/db-connection';
+import {
+  getActiveExpenseRepository,
+  subscribeToExpenseRepository
+} from '../repository';
+
+const SERVER_HEALTH: DBHealth = { status: 'idle', error: null };
+
+/**
+ * Hook for reading the storage connection health
+ *
+ * @returns Current health, whether storage is unusable or non-persistent,
+ * and a reconnect function
+ *
+ * @example
+ * ```typescript
+ * const { health, isUnhealthy, reconnect } = useStorageHealth();
+ *
+ * if (health.status === 'terminated') {
+ *   await reconnect();
+ * }
+ * ```
+ */
+export function useStorageHealth() {
+  const health = useSyncExternalStore(
+    subscribeToDBHealth,
+    getDBHealth,
+    () => SERVER_HEALTH
+  );
+  const repository = useSyncExternalStore(
+    subscribeToExpenseRepository,
+    getActiveExpenseRepository,
+    () => null
+  );
+  const [isReconnecting, setIsReconnecting] = useState(false);
+
+  const reconnect = useCallback(async () => {
+    setIsReconnecting(true);
+    try {
+      return await reconnectExpenseDB();
+    } finally {
+      setIsReconnecting(false);
+    }
+  }, []);
+
+  return {
+    health,
+    isUnhealthy:
+      health.status === 'terminated' ||
+      health.status === 'outdated' ||
+      health.status === 'unavailable',
+    // Unknown until the first action picks a backend
+    isPersistent: repository?.isPersistent ?? true,
+    isReconnecting,
+    reconnect
+  };
+}
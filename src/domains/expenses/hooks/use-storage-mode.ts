@@ -0,0 +1,46 @@
+/**
+ * useExpenseStorageMode Hook
+ *
+ * Keeps the active expense repository in line with the storage mode chosen
+ * in settings (local IndexedDB or the shared server).
+ *
+ * @module domains/expenses/hooks/use-storage-mode
+ */
+
+'use client';
+
+import { useEffect } from 'react';
+import { useSettingsStore } from '@/domains/settings/stores/settings-store';
+import { configureExpenseStorage } from '../repository';
+import { invalidateExpenseQueries } from '../query-cache';
+import { refreshCategories } from './use-categories';
+
+/**
+ * Hook for reading and changing the storage mode
+ *
+ * Switching modes points every action at the other backend, refetches all
+ * live queries and reloads the categories. Mount it once near the root (the
+ * storage banner does).
+ *
+ * @returns Current storage mode and a setter
+ *
+ * @example
+ * ```typescript
+ * const { storageMode, setStorageMode } = useExpenseStorageMode();
+ *
+ * setStorageMode('server');
+ * ```
+ */
+export function useExpenseStorageMode() {
+  const storageMode = useSettingsStore(state => state.storageMode);
+  const setStorageMode = useSettingsStore(state => state.setStorageMode);
+
+  useEffect(() => {
+    if (configureExpenseStorage(storageMode)) {
+      invalidateExpenseQueries();
+      refreshCategories();
+    }
+  }, [storageMode]);
+
+  return { storageMode, setStorageMode };
+}
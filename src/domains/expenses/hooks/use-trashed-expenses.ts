@@ -0,0 +1,69 @@
+/**
+ * useTrashedExpenses Hook
+ *
+ * Custom hook for listing expenses in the trash.
+ * Manages loading state, errors, and provides refetch capability.
+ *
+ * @module domains/expenses/hooks/use-trashed-expenses
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { getDeletedExpenses } from '../actions';
+import type { Expense } from '../types';
+import { logError } from '../errors';
+import { subscribeToExpenseChanges } from '../events';
+
+/**
+ * Hook for querying trashed expenses
+ *
+ * Fetches on mount and when another tab changes expenses.
+ * Call `refetch` after restoring or purging.
+ *
+ * @returns Trashed expenses, loading state, error, and refetch function
+ *
+ * @example
+ * ```typescript
+ * const { expenses, isLoading, error, refetch } = useTrashedExpenses();
+ * ```
+ */
+export function useTrashedExpenses() {
+  const [expenses, setExpenses] = useState<Expense[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  const fetchTrashed = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      setExpenses(await getDeletedExpenses());
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error('Unknown error');
+      setError(error);
+      logError(error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchTrashed();
+  }, [fetchTrashed]);
+
+  useEffect(
+    () =>
+      subscribeToExpenseChanges(() => {
+        fetchTrashed();
+      }),
+    [fetchTrashed]
+  );
+
+  return {
+    expenses,
+    isLoading,
+    error,
+    refetch: fetchTrashed
+  };
+}
@@ -0,0 +1,128 @@
+/**
+ * useUndoRedo Hook
+ *
+ * Wires the global undo stack to the page: Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS)
+ * shortcuts, feedback toasts and a "Deshacer" action for mutation toasts.
+ *
+ * @module domains/expenses/hooks/use-undo-redo
+ */
+
+'use client';
+
+import { useCallback, useEffect, useRef } from 'react';
+import { toast } from 'sonner';
+import { logError } from '../errors';
+import { useCanRedo, useCanUndo, useUndoStore } from '../stores/undo-store';
+import { expensesTextMap } from '../expenses.text-map';
+
+/**
+ * Check if a keyboard event comes from a text field
+ * (those keep their native undo)
+ */
+function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) {
+    return false;
+  }
+  return (
+    target.isContentEditable ||
+    target instanceof HTMLInputElement ||
+    target instanceof HTMLTextAreaElement ||
+    target instanceof HTMLSelectElement
+  );
+}
+
+/**
+ * Hook for undoing and redoing expense mutations
+ *
+ * @param onChange - Called after a successful undo or redo (e.g. to refetch)
+ * @returns Undo/redo functions, availability flags and a toast action factory
+ *
+ * @example
+ * ```typescript
+ * const { undoAction } = useUndoRedo();
+ *
+ * await createExpense(data);
+ * toast.success('Gasto creado', { action: undoAction() });
+ * ```
+ */
+export function useUndoRedo(onChange?: () => void) {
+  const canUndo = useCanUndo();
+  const canRedo = useCanRedo();
+  const onChangeRef = useRef(onChange);
+
+  useEffect(() => {
+    onChangeRef.current = onChange;
+  }, [onChange]);
+
+  const undo = useCallback(async (commandId?: string) => {
+    try {
+      const command = await useUndoStore.getState().undo(commandId);
+      if (command) {
+        toast.info(expensesTextMap.undoDone.replace('{label}', command.label));
+        onChangeRef.current?.();
+      }
+    } catch (error) {
+      logError(error, { commandId });
+      toast.error(expensesTextMap.errorUndoing);
+    }
+  }, []);
+
+  const redo = useCallback(async () => {
+    try {
+      const command = await useUndoStore.getState().redo();
+      if (command) {
+        toast.info(expensesTextMap.redoDone.replace('{label}', command.label));
+        onChangeRef.current?.();
+      }
+    } catch (error) {
+      logError(error);
+      toast.error(expensesTextMap.errorRedoing);
+    }
+  }, []);
+
+  /**
+   * Build a sonner toast action that undoes the most recent command
+   * Call right after a mutation so the action is bound to that command.
+   */
+  const undoAction = useCallback(() => {
+    const { past } = useUndoStore.getState();
+    const commandId = past[past.length - 1]?.id;
+
+    return {
+      label: expensesTextMap.undo,
+      onClick: () => {
+        void undo(commandId);
+      }
+    };
+  }, [undo]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (
+        !(event.ctrlKey || event.metaKey) ||
+        event.key.toLowerCase() !== 'z' ||
+        isEditableTarget(event.target)
+      ) {
+        return;
+      }
+
+      event.preventDefault();
+      if (event.shiftKey) {
+        void redo();
+      } else {
+        void undo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  return {
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+    undoAction
+  };
+}
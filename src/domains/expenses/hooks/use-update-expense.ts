@@ -3,6 +3,8 @@
  *
  * Custom hook for updating existing expenses.
  * Manages loading state, errors, and provides mutation function.
+ * Successful mutations are pushed onto the undo stack.
+ * In optimistic mode cached queries show the new values right away.
  *
  * @module domains/expenses/hooks/use-update-expense
  */
@@ -10,9 +12,21 @@
 'use client';
 
 import { useState, useCallback } from 'react';
-import { updateExpense } from '../actions';
-import type { UpdateExpenseInput, Expense, UseMutationResult } from '../types';
+import { getExpenseById, updateExpense } from '../actions';
+import { updateExpenseCommand } from '../commands';
+import {
+  applyOptimisticChange,
+  getCachedExpense,
+  type OptimisticUpdate
+} from '../query-cache';
+import type {
+  UpdateExpenseInput,
+  Expense,
+  MutationHookOptions,
+  UseMutationResult
+} from '../types';
 import { logError } from '../errors';
+import { useUndoStore } from '../stores/undo-store';
 
 /**
  * Input type for update mutation (includes ID)
@@ -28,6 +42,7 @@ interface UpdateExpenseVariables {
  * Provides mutation function with loading and error states.
  * Requires expense ID and partial update data.
  *
+ * @param options - Set `optimistic` to show the new values before the write commits
  * @returns Mutation result with mutate function, loading state, and error
  *
  * @example
@@ -43,7 +58,9 @@ interface UpdateExpenseVariables {
  * };
  * ```
  */
-export function useUpdateExpense(): UseMutationResult<
+export function useUpdateExpense({
+  optimistic = false
+}: MutationHookOptions = {}): UseMutationResult<
   Expense,
   UpdateExpenseVariables
 > {
@@ -52,13 +69,32 @@ export function useUpdateExpense(): UseMutationResult<
 
   const mutate = useCallback(
     async (variables: UpdateExpenseVariables): Promise<Expense> => {
+      let optimisticUpdate: OptimisticUpdate | null = null;
+
       try {
         setIsLoading(true);
         setError(null);
 
+        // Patch from the cached copy so the change shows before any await
+        const cached = optimistic ? getCachedExpense(variables.id) : null;
+        if (cached) {
+          optimisticUpdate = applyOptimisticChange({
+            before: cached,
+            after: {
+              ...cached,
+              ...variables.input,
+              updatedAt: new Date().toISOString()
+            }
+          });
+        }
+
+        const before = await getExpenseById(variables.id);
         const expense = await updateExpense(variables.id, variables.input);
+        optimisticUpdate?.commit();
+        useUndoStore.getState().push(updateExpenseCommand(before, expense));
         return expense;
       } catch (err) {
+        optimisticUpdate?.rollback();
         const error = err instanceof Error ? err : new Error('Unknown error');
         setError(error);
         logError(error, { variables });
@@ -67,7 +103,7 @@ export function useUpdateExpense(): UseMutationResult<
         setIsLoading(false);
       }
     },
-    []
+    [optimistic]
   );
 
   const reset = useCallback(() => {
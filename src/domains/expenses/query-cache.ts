@@ -0,0 +1,636 @@
+/**
+ * Expense Query Cache
+ *
+ * Small client-side cache for `getExpenses` results, keyed by normalized
+ * filters. Identical concurrent requests share one IndexedDB read, and
+ * committed writes (see `events.ts`) invalidate only the queries whose
+ * filters match the changed expenses. Subscribed queries refetch on their
+ * own, which makes `useExpenses` a live query.
+ *
+ * Mutation hooks in optimistic mode layer pending changes on top of the
+ * cached results (`applyOptimisticChange`) so the UI updates before the
+ * write commits, and drop them again if the write fails.
+ *
+ * @module domains/expenses/query-cache
+ */
+
+'use client';
+
+import { getExpenses } from './actions';
+import type {
+  Expense,
+  ExpenseFilters,
+  ExpenseGroupSummary,
+  ExpenseQueryResult
+} from './types';
+import {
+  compareExpenses,
+  decodeQueryCursor,
+  encodeQueryCursor,
+  getAmountConversion,
+  getCategoryNames,
+  getExpenseGroupKey,
+  isAfterCursor,
+  matchesFilters,
+  resolveSortField
+} from './query';
+import {
+  subscribeToExpenseChanges,
+  type ExpenseChange,
+  type ExpenseChangeEvent
+} from './events';
+import { logError } from './errors';
+import { addCurrencyDayAmount } from './currencies';
+import { useCategoriesStore } from './stores/categories-store';
+
+/**
+ * Maximum number of cached queries kept without subscribers
+ */
+export const MAX_IDLE_QUERIES = 50;
+
+/**
+ * Snapshot of a cached query
+ * Replaced (never mutated) on every change so React can compare by reference.
+ */
+export interface ExpenseQueryState {
+  /** Last successful result (kept while refetching) */
+  data: ExpenseQueryResult | null;
+
+  /** Error of the last fetch */
+  error: Error | null;
+
+  /** Whether a fetch is in flight */
+  isFetching: boolean;
+}
+
+/**
+ * Handle for a pending optimistic change
+ */
+export interface OptimisticUpdate {
+  /** The write committed: stop overlaying (the refetch it triggers takes over) */
+  commit: () => void;
+
+  /** The write failed: remove the change from every cached query */
+  rollback: () => void;
+}
+
+interface CacheEntry {
+  filters: ExpenseFilters;
+  state: ExpenseQueryState;
+  /** Last fetched result, without optimistic changes */
+  base: ExpenseQueryResult | null;
+  listeners: Set<() => void>;
+  promise: Promise<ExpenseQueryResult> | null;
+  isStale: boolean;
+  /** Bumped on every invalidation so in-flight results can be discarded */
+  version: number;
+}
+
+const INITIAL_STATE: ExpenseQueryState = {
+  data: null,
+  error: null,
+  isFetching: false
+};
+
+const cache = new Map<string, CacheEntry>();
+const pendingChanges = new Map<number, ExpenseChange>();
+let nextPendingChangeId = 0;
+let unsubscribeFromChanges: (() => void) | null = null;
+
+/**
+ * Normalize filters so equivalent objects share one cache key
+ *
+ * Sorts and dedupes categories and tags, trims the search query, drops empty
+ * values and fills in the defaults `getExpenses` would apply. The amount
+ * currency is kept only when the query compares amounts, with just the
+ * rates into or out of it, so unrelated queries survive rate edits.
+ */
+export function normalizeExpenseFilters(
+  filters: ExpenseFilters
+): ExpenseFilters {
+  const normalized: ExpenseFilters = {};
+
+  if (filters.categories && filters.categories.length > 0) {
+    normalized.categories = [...new Set(filters.categories)].sort();
+  }
+  if (filters.tags && filters.tags.length > 0) {
+    normalized.tags = [...new Set(filters.tags)].sort();
+    normalized.tagMatch = filters.tagMatch ?? 'all';
+  }
+  if (filters.dateFrom) {
+    normalized.dateFrom = filters.dateFrom;
+  }
+  if (filters.dateTo) {
+    normalized.dateTo = filters.dateTo;
+  }
+  const searchQuery = filters.searchQuery?.trim();
+  if (searchQuery) {
+    normalized.searchQuery = searchQuery;
+  }
+  if (filters.excludeTerms && filters.excludeTerms.length > 0) {
+    normalized.excludeTerms = [...new Set(filters.excludeTerms)].sort();
+  }
+  if (filters.amountMin !== undefined) {
+    normalized.amountMin = filters.amountMin;
+  }
+  if (filters.amountMax !== undefined) {
+    normalized.amountMax = filters.amountMax;
+  }
+  const currency = filters.amountCurrency;
+  const comparesAmounts =
+    filters.amountMin !== undefined ||
+    filters.amountMax !== undefined ||
+    filters.sortBy === 'amount';
+  if (currency && comparesAmounts) {
+    normalized.amountCurrency = currency;
+    normalized.exchangeRates = (filters.exchangeRates ?? [])
+      .filter(rate => rate.from === currency || rate.to === currency)
+      .map(({ from, to, date, rate }) => ({ from, to, date, rate }));
+  }
+
+  normalized.sortBy = filters.sortBy ?? 'date';
+  normalized.sortOrder = filters.sortOrder ?? 'desc';
+  normalized.limit = filters.limit ?? 20;
+  if (filters.groupBy) {
+    normalized.groupBy = filters.groupBy;
+  }
+
+  if (filters.cursor) {
+    normalized.cursor = filters.cursor;
+  } else {
+    normalized.offset = filters.offset ?? 0;
+  }
+
+  return normalized;
+}
+
+/**
+ * Stable cache key for a filter object
+ */
+export function getExpenseQueryKey(filters: ExpenseFilters): string {
+  const normalized = normalizeExpenseFilters(filters);
+  const keys = Object.keys(normalized).sort() as (keyof ExpenseFilters)[];
+  return JSON.stringify(keys.map(key => [key, normalized[key]]));
+}
+
+/**
+ * Normalized filters a cache key was built from
+ */
+export function parseExpenseQueryKey(key: string): ExpenseFilters {
+  return Object.fromEntries(JSON.parse(key)) as ExpenseFilters;
+}
+
+/**
+ * Category names that order the groups of a query (none unless grouped
+ * by category)
+ */
+function getGroupCategoryNames(filters: ExpenseFilters) {
+  return filters.groupBy === 'category'
+    ? getCategoryNames(useCategoriesStore.getState().categories)
+    : undefined;
+}
+
+/**
+ * Check if an expense sorts after the cursor of a page (true without cursor)
+ *
+ * Changes before the cursor reach this page through the previous one: its
+ * refetch yields a new `nextCursor`, which is a different query.
+ */
+function isAfterPageCursor(expense: Expense, filters: ExpenseFilters): boolean {
+  if (!filters.cursor) {
+    return true;
+  }
+  try {
+    return isAfterCursor(
+      expense,
+      decodeQueryCursor(filters.cursor),
+      resolveSortField(filters),
+      filters.sortOrder ?? 'desc',
+      filters.searchQuery,
+      filters.groupBy,
+      getGroupCategoryNames(filters),
+      getAmountConversion(filters)
+    );
+  } catch {
+    return true;
+  }
+}
+
+/**
+ * Check if a write can change the result of a query
+ */
+function isAffectedBy(filters: ExpenseFilters, change: ExpenseChange): boolean {
+  return [change.before, change.after].some(
+    (expense): expense is Expense =>
+      !!expense &&
+      matchesFilters(expense, filters) &&
+      isAfterPageCursor(expense, filters)
+  );
+}
+
+/**
+ * Move one change between group subtotals
+ * (a new group is appended; the refetch after the write puts it in place)
+ */
+function applyChangeToGroups(
+  filters: ExpenseFilters,
+  groups: ExpenseGroupSummary[],
+  change: ExpenseChange
+): ExpenseGroupSummary[] {
+  const groupBy = filters.groupBy!;
+  const updated = groups.map(group => ({
+    ...group,
+    amounts: [...group.amounts]
+  }));
+  const adjust = (expense: Expense, sign: 1 | -1) => {
+    const key = getExpenseGroupKey(expense, groupBy);
+    let group = updated.find(candidate => candidate.key === key);
+    if (!group) {
+      group = { key, count: 0, amounts: [] };
+      updated.push(group);
+    }
+    group.count += sign;
+    addCurrencyDayAmount(
+      group.amounts,
+      expense.currency,
+      getExpenseGroupKey(expense, 'day'),
+      sign * expense.amount
+    );
+  };
+
+  if (change.before && matchesFilters(change.before, filters)) {
+    adjust(change.before, -1);
+  }
+  if (change.after && matchesFilters(change.after, filters)) {
+    adjust(change.after, 1);
+  }
+  return updated.filter(group => group.count > 0);
+}
+
+/**
+ * Apply one change to a page of results
+ *
+ * The changed expense is removed and, when it still matches the filters,
+ * re-inserted at its sorted position. Only the first page accepts new
+ * expenses; later pages just replace or drop the ones they hold.
+ */
+function applyChangeToPage(
+  filters: ExpenseFilters,
+  result: ExpenseQueryResult,
+  change: ExpenseChange
+): ExpenseQueryResult {
+  const id = (change.after ?? change.before)?.id;
+  const wasMatch = !!change.before && matchesFilters(change.before, filters);
+  const isMatch = !!change.after && matchesFilters(change.after, filters);
+
+  const groups =
+    result.groups && applyChangeToGroups(filters, result.groups, change);
+
+  const index = result.expenses.findIndex(expense => expense.id === id);
+  const isFirstPage = !filters.cursor && !filters.offset;
+  if (index === -1 && !(isMatch && isFirstPage)) {
+    return groups ? { ...result, groups } : result;
+  }
+
+  let expenses = result.expenses.filter(expense => expense.id !== id);
+  if (isMatch && change.after) {
+    expenses = [...expenses, change.after].sort(
+      compareExpenses(
+        resolveSortField(filters),
+        filters.sortOrder ?? 'desc',
+        filters.searchQuery,
+        filters.groupBy,
+        getGroupCategoryNames(filters),
+        getAmountConversion(filters)
+      )
+    );
+  }
+
+  const totalCount = result.totalCount + Number(isMatch) - Number(wasMatch);
+  let { hasMore, nextCursor } = result;
+  if (expenses.length > result.limit) {
+    expenses = expenses.slice(0, result.limit);
+    hasMore = true;
+    nextCursor = encodeQueryCursor(
+      expenses[expenses.length - 1],
+      resolveSortField(filters),
+      filters.searchQuery,
+      filters.groupBy,
+      getAmountConversion(filters)
+    );
+  }
+
+  return {
+    ...result,
+    expenses,
+    totalCount: Math.max(totalCount, 0),
+    hasMore,
+    nextCursor,
+    ...(groups && { groups })
+  };
+}
+
+/**
+ * Layer every pending optimistic change on top of a fetched result
+ */
+function withPendingChanges(
+  filters: ExpenseFilters,
+  result: ExpenseQueryResult
+): ExpenseQueryResult {
+  let patched = result;
+  pendingChanges.forEach(change => {
+    if (isAffectedBy(filters, change)) {
+      patched = applyChangeToPage(filters, patched, change);
+    }
+  });
+  return patched;
+}
+
+/**
+ * Get (or create) the entry for a key
+ */
+function getEntry(key: string, filters: ExpenseFilters): CacheEntry {
+  let entry = cache.get(key);
+  if (!entry) {
+    entry = {
+      filters: normalizeExpenseFilters(filters),
+      state: INITIAL_STATE,
+      base: null,
+      listeners: new Set(),
+      promise: null,
+      isStale: true,
+      version: 0
+    };
+    cache.set(key, entry);
+  }
+  return entry;
+}
+
+/**
+ * Replace an entry's snapshot and notify its subscribers
+ */
+function setState(entry: CacheEntry, patch: Partial<ExpenseQueryState>): void {
+  entry.state = { ...entry.state, ...patch };
+  entry.listeners.forEach(listener => listener());
+}
+
+/**
+ * Drop the oldest idle entries beyond MAX_IDLE_QUERIES
+ */
+function evictIdleEntries(): void {
+  const idle = [...cache.entries()].filter(
+    ([, entry]) => entry.listeners.size === 0 && !entry.promise
+  );
+  idle
+    .slice(0, Math.max(idle.length - MAX_IDLE_QUERIES, 0))
+    .forEach(([key]) => cache.delete(key));
+}
+
+/**
+ * Mark an entry stale and refetch it if anything is subscribed
+ */
+function invalidateEntry(key: string, entry: CacheEntry): void {
+  entry.isStale = true;
+  entry.version++;
+
+  if (entry.listeners.size > 0) {
+    fetchEntry(key, entry).catch(() => {
+      // Surfaced through the entry state
+    });
+  } else if (!entry.promise) {
+    cache.delete(key);
+  }
+}
+
+/**
+ * Run (or join) the fetch for an entry
+ */
+function fetchEntry(
+  key: string,
+  entry: CacheEntry
+): Promise<ExpenseQueryResult> {
+  if (entry.promise) {
+    return entry.promise;
+  }
+
+  const version = entry.version;
+  setState(entry, { isFetching: true });
+
+  const promise = getExpenses(entry.filters)
+    .then(result => {
+      entry.promise = null;
+      if (entry.version !== version) {
+        // Invalidated mid-flight: the result may already be outdated
+        return entry.listeners.size > 0 ? fetchEntry(key, entry) : result;
+      }
+      entry.isStale = false;
+      entry.base = result;
+      setState(entry, {
+        data: withPendingChanges(entry.filters, result),
+        error: null,
+        isFetching: false
+      });
+      return result;
+    })
+    .catch((err: unknown) => {
+      entry.promise = null;
+      const error = err instanceof Error ? err : new Error('Unknown error');
+      logError(error, { filters: entry.filters });
+      setState(entry, { error, isFetching: false });
+      throw error;
+    });
+
+  entry.promise = promise;
+  return promise;
+}
+
+/**
+ * Invalidate cached queries after a committed write
+ *
+ * Local events carry before/after snapshots, so only queries whose filters
+ * match a changed expense are touched. Remote events (other tabs) only
+ * carry IDs and invalidate everything.
+ */
+function handleExpenseChange(event: ExpenseChangeEvent): void {
+  cache.forEach((entry, key) => {
+    if (
+      !event.changes ||
+      event.changes.some(change => isAffectedBy(entry.filters, change))
+    ) {
+      invalidateEntry(key, entry);
+    }
+  });
+}
+
+/**
+ * Start listening for writes (once, on first use)
+ */
+function ensureChangeSubscription(): void {
+  if (!unsubscribeFromChanges) {
+    unsubscribeFromChanges = subscribeToExpenseChanges(handleExpenseChange);
+  }
+}
+
+/**
+ * Fetch a query through the cache
+ *
+ * Returns the cached result when fresh, joins an in-flight request for the
+ * same key, or starts a new one.
+ *
+ * @param filters - Query filters
+ * @returns Query result
+ * @throws {IndexedDBError} If database operation fails
+ */
+export function fetchExpenseQuery(
+  filters: ExpenseFilters
+): Promise<ExpenseQueryResult> {
+  ensureChangeSubscription();
+
+  const key = getExpenseQueryKey(filters);
+  const entry = getEntry(key, filters);
+
+  if (!entry.isStale && entry.state.data) {
+    return Promise.resolve(entry.state.data);
+  }
+  return fetchEntry(key, entry);
+}
+
+/**
+ * Refetch a query, ignoring any cached result
+ *
+ * @param filters - Query filters
+ * @returns Fresh query result
+ * @throws {IndexedDBError} If database operation fails
+ */
+export function refetchExpenseQuery(
+  filters: ExpenseFilters
+): Promise<ExpenseQueryResult> {
+  ensureChangeSubscription();
+
+  const key = getExpenseQueryKey(filters);
+  const entry = getEntry(key, filters);
+
+  entry.isStale = true;
+  entry.version++;
+  return fetchEntry(key, entry);
+}
+
+/**
+ * Subscribe to a query (live query)
+ *
+ * Fetches when the cached result is missing or stale, then calls `listener`
+ * on every state change until unsubscribed.
+ *
+ * @param filters - Query filters
+ * @param listener - Called after every state change
+ * @returns Unsubscribe function
+ */
+export function subscribeToExpenseQuery(
+  filters: ExpenseFilters,
+  listener: () => void
+): () => void {
+  ensureChangeSubscription();
+
+  const key = getExpenseQueryKey(filters);
+  const entry = getEntry(key, filters);
+
+  entry.listeners.add(listener);
+  if (entry.isStale) {
+    fetchEntry(key, entry).catch(() => {
+      // Surfaced through the entry state
+    });
+  }
+
+  return () => {
+    entry.listeners.delete(listener);
+    evictIdleEntries();
+  };
+}
+
+/**
+ * Read the current snapshot of a query (never triggers a fetch)
+ */
+export function getExpenseQueryState(
+  filters: ExpenseFilters
+): ExpenseQueryState {
+  return cache.get(getExpenseQueryKey(filters))?.state ?? INITIAL_STATE;
+}
+
+/**
+ * Show a write in every cached query before it commits
+ *
+ * The change stays layered on top of fetched results (including refetches
+ * that land before the write commits) until it is committed or rolled back.
+ *
+ * @param change - Expected before/after snapshots of the expense
+ * @returns Handle to commit or roll back the change
+ *
+ * @example
+ * ```typescript
+ * const optimistic = applyOptimisticChange({ before: expense, after: updated });
+ * try {
+ *   await updateExpense(expense.id, input);
+ *   optimistic.commit();
+ * } catch (error) {
+ *   optimistic.rollback();
+ *   throw error;
+ * }
+ * ```
+ */
+export function applyOptimisticChange(change: ExpenseChange): OptimisticUpdate {
+  const changeId = nextPendingChangeId++;
+  pendingChanges.set(changeId, change);
+
+  const refreshAffected = () => {
+    cache.forEach(entry => {
+      if (entry.base && isAffectedBy(entry.filters, change)) {
+        setState(entry, {
+          data: withPendingChanges(entry.filters, entry.base)
+        });
+      }
+    });
+  };
+  refreshAffected();
+
+  return {
+    commit: () => {
+      pendingChanges.delete(changeId);
+    },
+    rollback: () => {
+      if (pendingChanges.delete(changeId)) {
+        refreshAffected();
+      }
+    }
+  };
+}
+
+/**
+ * Find an expense in any cached result (optimistic changes included)
+ *
+ * @param id - Expense ID
+ * @returns The cached expense, or null when no query holds it
+ */
+export function getCachedExpense(id: string): Expense | null {
+  for (const entry of cache.values()) {
+    const expense = entry.state.data?.expenses.find(item => item.id === id);
+    if (expense) {
+      return expense;
+    }
+  }
+  return null;
+}
+
+/**
+ * Force every matching query to refetch
+ *
+ * @param predicate - Limits invalidation to queries whose filters match (default: all)
+ */
+export function invalidateExpenseQueries(
+  predicate: (filters: ExpenseFilters) => boolean = () => true
+): void {
+  cache.forEach((entry, key) => {
+    if (predicate(entry.filters)) {
+      invalidateEntry(key, entry);
+    }
+  });
+}
@@ -0,0 +1,674 @@
+/**
+ * Search Bar Query Syntax
+ *
+ * Parses the mini-language typed in the expenses search bar into filters,
+ * formats filters back into it and suggests keys and values while typing:
+ *
+ * ```
+ * categoria:Comida,Salud monto>500 desde:2025-03 hasta:2025-06 orden:monto -uber cena
+ * fecha:últimos-30-días categoria:Transporte
+ * #vacaciones2025 #regalo etiquetas:alguna
+ * ```
+ *
+ * - `categoria:` one or more category names (OR), accents and case ignored;
+ *   quote names with spaces (`categoria:"Cuidado personal",Salud`)
+ * - `monto` with `:` (exact or `10..50`), `>`, `>=`, `<`, `<=`
+ * - `desde:` / `hasta:` / `fecha:` with `YYYY`, `YYYY-MM` or `YYYY-MM-DD`
+ *   (`fecha` also takes `>`, `>=`, `<`, `<=`)
+ * - `fecha:` with a relative range: `hoy`, `últimos-N-días`, `este-mes`,
+ *   `mes-pasado`, `este-trimestre`, `año-hasta-hoy`, `este-año`
+ * - `orden:` `fecha`, `monto`, `creado` or `relevancia`, optionally `-asc`
+ * - `#tag` keeps expenses with that tag; with several tags every one is
+ *   required unless `etiquetas:alguna` is given (`etiquetas:todas` is the default)
+ * - `-word` / `-"two words"` excludes descriptions containing them
+ * - Anything else is free text; unknown keys (`ref:12`) are text too
+ *
+ * Pure functions, except that category names are looked up in the loaded
+ * categories (see `stores/categories-store.ts`); tag suggestions take the
+ * known tags as an argument. Dates are read and written
+ * in local time.
+ *
+ * @module domains/expenses/query-syntax
+ */
+
+import type {
+  AmountRange,
+  DateRange,
+  DateRangeFilter,
+  ExpenseCategory,
+  ExpenseQuery,
+  ExpenseQueryIssue,
+  ExpenseQueryKey,
+  ExpenseQuerySuggestion,
+  ExpenseSort,
+  ExpenseTagMatch,
+  ParsedExpenseQuery,
+  RelativeDateRange
+} from './types';
+import { normalizeSearchText } from './search';
+import { findCategory, isArchived } from './categories';
+import { useCategoriesStore } from './stores/categories-store';
+import { getDateRangeKey, RELATIVE_DATE_RANGES } from './date-range';
+import { formatTag, isValidTag, normalizeTag } from './tags';
+
+type Operator = ':' | '>' | '>=' | '<' | '<=';
+
+/**
+ * Accepted spellings of each key (compared without accents)
+ */
+const KEY_ALIASES: Record<ExpenseQueryKey, string[]> = {
+  categoria: ['categoria', 'cat', 'category'],
+  monto: ['monto', 'importe', 'amount'],
+  desde: ['desde', 'from'],
+  hasta: ['hasta', 'to'],
+  fecha: ['fecha', 'date'],
+  orden: ['orden', 'sort'],
+  etiquetas: ['etiquetas', 'tags']
+};
+
+/**
+ * What autocomplete inserts for each key
+ */
+const KEY_COMPLETIONS: Record<ExpenseQueryKey, string[]> = {
+  categoria: ['categoria:'],
+  monto: ['monto>', 'monto<', 'monto:'],
+  desde: ['desde:'],
+  hasta: ['hasta:'],
+  fecha: ['fecha:'],
+  orden: ['orden:'],
+  etiquetas: ['etiquetas:']
+};
+
+const SORT_FIELDS: Record<string, ExpenseSort['field']> = {
+  fecha: 'date',
+  monto: 'amount',
+  creado: 'createdAt',
+  relevancia: 'relevance'
+};
+
+const TAG_MATCHES: Record<string, ExpenseTagMatch> = {
+  todas: 'all',
+  alguna: 'any'
+};
+
+/**
+ * Relative `fecha:` values, other than `últimos-N-días`
+ */
+const RELATIVE_DATE_TOKENS: Record<string, RelativeDateRange> = {
+  hoy: { type: 'lastDays', days: 1 },
+  'este-mes': { type: 'thisMonth' },
+  'mes-pasado': { type: 'lastMonth' },
+  'este-trimestre': { type: 'thisQuarter' },
+  'año-hasta-hoy': { type: 'yearToDate' },
+  'este-año': { type: 'thisYear' }
+};
+
+const TOKEN_PATTERN = /^(-)?(?:(\p{L}+)(>=|<=|:|>|<))?([\s\S]*)$/u;
+
+const MAX_SUGGESTIONS = 8;
+
+/**
+ * A whitespace-separated token (quoted parts may contain spaces)
+ */
+interface RawToken {
+  text: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Split a query into tokens, keeping `"quoted text"` together
+ */
+function splitTokens(text: string): RawToken[] {
+  const tokens: RawToken[] = [];
+  let i = 0;
+
+  while (i < text.length) {
+    if (/\s/.test(text[i])) {
+      i++;
+      continue;
+    }
+    const start = i;
+    let quoted = false;
+    while (i < text.length && (quoted || !/\s/.test(text[i]))) {
+      if (text[i] === '"') {
+        quoted = !quoted;
+      }
+      i++;
+    }
+    tokens.push({ text: text.slice(start, i), start, end: i });
+  }
+
+  return tokens;
+}
+
+/**
+ * Remove surrounding quotes (an unterminated quote is allowed)
+ */
+function unquote(value: string): string {
+  return value.replace(/^"/, '').replace(/"$/, '').trim();
+}
+
+/**
+ * Quote a value that contains spaces
+ */
+function quote(value: string): string {
+  return /\s/.test(value) ? `"${value}"` : value;
+}
+
+/**
+ * Resolve a typed key to its canonical name
+ */
+function resolveKey(typed: string): ExpenseQueryKey | null {
+  const folded = normalizeSearchText(typed);
+  const entry = Object.entries(KEY_ALIASES).find(([, aliases]) =>
+    aliases.includes(folded)
+  );
+  return entry ? (entry[0] as ExpenseQueryKey) : null;
+}
+
+/**
+ * Find a category by name (ignoring accents and case) or by ID
+ */
+export function resolveCategory(value: string): ExpenseCategory | null {
+  const { categories } = useCategoriesStore.getState();
+  const folded = normalizeSearchText(value);
+  const category =
+    categories.find(
+      candidate => normalizeSearchText(candidate.name) === folded
+    ) ?? categories.find(candidate => candidate.id === value);
+  return category?.id ?? null;
+}
+
+/**
+ * Name of a category as typed in the query (quoted if it has spaces)
+ */
+function formatCategory(id: ExpenseCategory): string {
+  return quote(findCategory(useCategoriesStore.getState().categories, id).name);
+}
+
+/**
+ * Parse a non-negative amount ("500", "12.5", "12,5")
+ */
+function parseAmount(value: string): number | null {
+  const amount = Number(value.replace(',', '.'));
+  return value !== '' && Number.isFinite(amount) && amount >= 0 ? amount : null;
+}
+
+/**
+ * Round to cents (amounts have at most two decimals)
+ */
+function toCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Parse `YYYY`, `YYYY-MM` or `YYYY-MM-DD` into its first and last instant
+ */
+export function parsePeriod(value: string): { start: Date; end: Date } | null {
+  const match = /^(\d{4})(?:-(\d{1,2})(?:-(\d{1,2}))?)?$/.exec(value);
+  if (!match) {
+    return null;
+  }
+
+  const year = Number(match[1]);
+  if (match[3]) {
+    const month = Number(match[2]) - 1;
+    const day = Number(match[3]);
+    const start = new Date(year, month, day);
+    if (start.getMonth() !== month || start.getDate() !== day) {
+      return null;
+    }
+    return { start, end: new Date(year, month, day, 23, 59, 59, 999) };
+  }
+  if (match[2]) {
+    const month = Number(match[2]) - 1;
+    if (month < 0 || month > 11) {
+      return null;
+    }
+    return {
+      start: new Date(year, month, 1),
+      end: new Date(year, month + 1, 0, 23, 59, 59, 999)
+    };
+  }
+  return {
+    start: new Date(year, 0, 1),
+    end: new Date(year, 11, 31, 23, 59, 59, 999)
+  };
+}
+
+/**
+ * Parse `fecha` / `desde` / `hasta` into date bounds
+ */
+function parseDateToken(
+  key: 'fecha' | 'desde' | 'hasta',
+  operator: Operator,
+  value: string
+): Partial<DateRange> | null {
+  const period = parsePeriod(value);
+  if (!period) {
+    return null;
+  }
+
+  if (key === 'desde') return { from: period.start };
+  if (key === 'hasta') return { to: period.end };
+
+  switch (operator) {
+    case '>':
+      return { from: new Date(period.end.getTime() + 1) };
+    case '>=':
+      return { from: period.start };
+    case '<':
+      return { to: new Date(period.start.getTime() - 1) };
+    case '<=':
+      return { to: period.end };
+    default:
+      return { from: period.start, to: period.end };
+  }
+}
+
+/**
+ * Parse a relative `fecha:` value (`este-mes`, `ultimos-30-dias`)
+ */
+function parseRelativeDate(value: string): RelativeDateRange | null {
+  const folded = normalizeSearchText(value);
+  const lastDays = /^ultimos-(\d{1,4})-dias$/.exec(folded);
+  if (lastDays) {
+    const days = Number(lastDays[1]);
+    return days > 0 ? { type: 'lastDays', days } : null;
+  }
+
+  const entry = Object.entries(RELATIVE_DATE_TOKENS).find(
+    ([token]) => normalizeSearchText(token) === folded
+  );
+  return entry ? entry[1] : null;
+}
+
+/**
+ * Format a relative range as a `fecha:` value
+ */
+function formatRelativeDate(range: RelativeDateRange): string {
+  const token = Object.keys(RELATIVE_DATE_TOKENS).find(
+    name =>
+      getDateRangeKey(RELATIVE_DATE_TOKENS[name]) === getDateRangeKey(range)
+  );
+  return token ?? `últimos-${range.type === 'lastDays' ? range.days : 1}-días`;
+}
+
+/**
+ * Parse `monto` into amount bounds (`>` and `<` move by one cent)
+ */
+function parseAmountToken(
+  operator: Operator,
+  value: string
+): Partial<AmountRange> | null {
+  if (operator === ':' && value.includes('..')) {
+    const [min, max] = value.split('..').map(parseAmount);
+    return min !== null && max !== null && min <= max ? { min, max } : null;
+  }
+
+  const amount = parseAmount(value);
+  if (amount === null) {
+    return null;
+  }
+  switch (operator) {
+    case '>':
+      return { min: toCents(amount + 0.01) };
+    case '>=':
+      return { min: amount };
+    case '<':
+      return { max: toCents(amount - 0.01) };
+    case '<=':
+      return { max: amount };
+    default:
+      return { min: amount, max: amount };
+  }
+}
+
+/**
+ * Parse `orden:monto` / `orden:fecha-asc`
+ */
+function parseSort(value: string): ExpenseSort | null {
+  const [name, direction = 'desc'] = normalizeSearchText(value).split('-');
+  const field = SORT_FIELDS[name];
+  if (!field || (direction !== 'asc' && direction !== 'desc')) {
+    return null;
+  }
+  return { field, order: direction };
+}
+
+/**
+ * Parse a search bar query into filters
+ *
+ * Invalid tokens are reported in `issues` and otherwise ignored, so the
+ * rest of the query still applies while the user is typing.
+ *
+ * @example
+ * ```typescript
+ * parseExpenseQuery('categoria:Comida monto>500 -uber cena');
+ * // { categories: ['Comida'], amountRange: { min: 500.01, max: null },
+ * //   excludedTerms: ['uber'], searchQuery: 'cena', ... }
+ * ```
+ */
+export function parseExpenseQuery(text: string): ParsedExpenseQuery {
+  const query: ParsedExpenseQuery = {
+    categories: [],
+    tags: [],
+    tagMatch: null,
+    dateRange: { type: 'allTime' },
+    amountRange: { min: null, max: null },
+    searchQuery: '',
+    excludedTerms: [],
+    sort: null,
+    issues: []
+  };
+  const words: string[] = [];
+  const report = (code: ExpenseQueryIssue['code'], token: string) =>
+    query.issues.push({ code, token });
+
+  for (const { text: token } of splitTokens(text)) {
+    const [, negated, typedKey, typedOperator, rest] =
+      TOKEN_PATTERN.exec(token)!;
+    const key = typedKey ? resolveKey(typedKey) : null;
+    const operator = typedOperator as Operator;
+    const value = unquote(rest);
+
+    if (!negated && token.startsWith('#')) {
+      const tag = normalizeTag(token);
+      if (!tag) continue;
+      if (!isValidTag(tag)) report('invalidTag', token);
+      else if (!query.tags.includes(tag)) query.tags.push(tag);
+      continue;
+    }
+    if (!key) {
+      // Unknown keys stay part of the text
+      const term = unquote(negated ? token.slice(1) : token);
+      if (!term) continue;
+      if (negated) query.excludedTerms.push(term);
+      else words.push(term);
+      continue;
+    }
+    if (negated) {
+      report('invalidExclusion', token);
+      continue;
+    }
+
+    switch (key) {
+      case 'categoria': {
+        if (operator !== ':') {
+          report('invalidOperator', token);
+          break;
+        }
+        for (const name of value.split(',').map(unquote).filter(Boolean)) {
+          const category = resolveCategory(name);
+          if (!category) {
+            report('unknownCategory', name);
+          } else if (!query.categories.includes(category)) {
+            query.categories.push(category);
+          }
+        }
+        break;
+      }
+      case 'monto': {
+        const range = parseAmountToken(operator, value);
+        if (range) Object.assign(query.amountRange, range);
+        else report('invalidAmount', token);
+        break;
+      }
+      case 'orden': {
+        const sort = operator === ':' ? parseSort(value) : null;
+        if (sort) query.sort = sort;
+        else report('invalidSort', token);
+        break;
+      }
+      case 'etiquetas': {
+        const match =
+          operator === ':' ? TAG_MATCHES[normalizeSearchText(value)] : undefined;
+        if (match) query.tagMatch = match;
+        else report('invalidTagMatch', token);
+        break;
+      }
+      default: {
+        if (key !== 'fecha' && operator !== ':') {
+          report('invalidOperator', token);
+          break;
+        }
+        const relative =
+          key === 'fecha' && operator === ':' ? parseRelativeDate(value) : null;
+        if (relative) {
+          query.dateRange = relative;
+          break;
+        }
+        const range = parseDateToken(key, operator, value);
+        if (!range) {
+          report('invalidDate', token);
+          break;
+        }
+        // Bounds add up (`desde:` + `hasta:`) and replace a relative range
+        const bounds: DateRangeFilter =
+          query.dateRange.type === 'absolute'
+            ? query.dateRange
+            : { type: 'absolute', from: null, to: null };
+        query.dateRange = { ...bounds, ...range };
+      }
+    }
+  }
+
+  query.searchQuery = words.join(' ');
+  return query;
+}
+
+/**
+ * Format a date as `YYYY-MM-DD` in local time
+ */
+export function formatDay(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Shortest period whose first day is `date`
+ */
+function formatPeriodStart(date: Date): string {
+  const day = formatDay(date);
+  if (date.getDate() !== 1) return day;
+  return date.getMonth() === 0 ? day.slice(0, 4) : day.slice(0, 7);
+}
+
+/**
+ * Shortest period whose last day is `date`
+ */
+function formatPeriodEnd(date: Date): string {
+  const day = formatDay(date);
+  const isMonthEnd =
+    new Date(
+      date.getFullYear(),
+      date.getMonth(),
+      date.getDate() + 1
+    ).getDate() === 1;
+  if (!isMonthEnd) return day;
+  return date.getMonth() === 11 ? day.slice(0, 4) : day.slice(0, 7);
+}
+
+/**
+ * Format filters as a search bar query (the inverse of `parseExpenseQuery`)
+ *
+ * @example
+ * ```typescript
+ * formatExpenseQuery({ ...query, categories: ['Comida'], searchQuery: 'cena' });
+ * // 'cena categoria:Comida'
+ * ```
+ */
+export function formatExpenseQuery(query: ExpenseQuery): string {
+  const parts: string[] = [];
+
+  if (query.searchQuery.trim()) {
+    parts.push(query.searchQuery.trim());
+  }
+  query.excludedTerms.forEach(term => parts.push(`-${quote(term)}`));
+
+  if (query.categories.length > 0) {
+    parts.push(`categoria:${query.categories.map(formatCategory).join(',')}`);
+  }
+
+  query.tags.forEach(tag => parts.push(formatTag(tag)));
+  if (query.tagMatch) {
+    const name = Object.keys(TAG_MATCHES).find(
+      key => TAG_MATCHES[key] === query.tagMatch
+    );
+    parts.push(`etiquetas:${name}`);
+  }
+
+  const { min, max } = query.amountRange;
+  if (min !== null && max !== null) {
+    parts.push(min === max ? `monto:${min}` : `monto:${min}..${max}`);
+  } else if (min !== null) {
+    parts.push(`monto>=${min}`);
+  } else if (max !== null) {
+    parts.push(`monto<=${max}`);
+  }
+
+  const { dateRange } = query;
+  if (dateRange.type === 'absolute') {
+    const fromPeriod = dateRange.from && formatPeriodStart(dateRange.from);
+    const toPeriod = dateRange.to && formatPeriodEnd(dateRange.to);
+    if (fromPeriod && fromPeriod === toPeriod) {
+      parts.push(`fecha:${fromPeriod}`);
+    } else {
+      if (fromPeriod) parts.push(`desde:${fromPeriod}`);
+      if (toPeriod) parts.push(`hasta:${toPeriod}`);
+    }
+  } else if (dateRange.type !== 'allTime') {
+    parts.push(`fecha:${formatRelativeDate(dateRange)}`);
+  }
+
+  if (query.sort) {
+    const name = Object.keys(SORT_FIELDS).find(
+      key => SORT_FIELDS[key] === query.sort!.field
+    );
+    parts.push(`orden:${name}${query.sort.order === 'asc' ? '-asc' : ''}`);
+  }
+
+  return parts.join(' ');
+}
+
+/**
+ * Suggest keys or values for the token under the caret
+ *
+ * @param text - Query text
+ * @param caret - Caret position in `text`
+ * @param tags - Known tags, suggested after `#`
+ * @returns Suggestions, empty when there is nothing to complete
+ *
+ * @example
+ * ```typescript
+ * getExpenseQuerySuggestions('cat', 3);
+ * // [{ kind: 'key', key: 'categoria', insertText: 'categoria:', from: 0, to: 3, ... }]
+ *
+ * getExpenseQuerySuggestions('#va', 3, ['trabajo', 'vacaciones2025']);
+ * // [{ kind: 'value', key: 'etiquetas', insertText: '#vacaciones2025 ', ... }]
+ * ```
+ */
+export function getExpenseQuerySuggestions(
+  text: string,
+  caret: number,
+  tags: readonly string[] = []
+): ExpenseQuerySuggestion[] {
+  const token = splitTokens(text).find(
+    ({ start, end }) => start < caret && caret <= end
+  );
+  if (!token) {
+    return [];
+  }
+
+  const typed = text.slice(token.start, caret);
+  const [, negated, typedKey, operator, rest] = TOKEN_PATTERN.exec(typed)!;
+  if (negated) {
+    return [];
+  }
+
+  // Typing a tag
+  if (typed.startsWith('#')) {
+    const prefix = normalizeTag(typed);
+    const chosen = parseExpenseQuery(text).tags;
+    return tags
+      .filter(tag => tag.startsWith(prefix) && !chosen.includes(tag))
+      .map(tag => ({
+        kind: 'value' as const,
+        key: 'etiquetas' as const,
+        label: formatTag(tag),
+        insertText:
+          token.end === text.length ? `${formatTag(tag)} ` : formatTag(tag),
+        from: token.start,
+        to: token.end
+      }))
+      .slice(0, MAX_SUGGESTIONS);
+  }
+
+  // Typing a key
+  if (!typedKey) {
+    const folded = normalizeSearchText(rest);
+    if (!/^\p{L}+$/u.test(folded)) {
+      return [];
+    }
+    return (Object.keys(KEY_ALIASES) as ExpenseQueryKey[])
+      .filter(key => KEY_ALIASES[key].some(alias => alias.startsWith(folded)))
+      .flatMap(key =>
+        KEY_COMPLETIONS[key].map(insertText => ({
+          kind: 'key' as const,
+          key,
+          label: insertText,
+          insertText,
+          from: token.start,
+          to: token.end
+        }))
+      )
+      .slice(0, MAX_SUGGESTIONS);
+  }
+
+  // Typing a value
+  const key = resolveKey(typedKey);
+  if (
+    operator !== ':' ||
+    (key !== 'categoria' &&
+      key !== 'orden' &&
+      key !== 'fecha' &&
+      key !== 'etiquetas')
+  ) {
+    return [];
+  }
+
+  const segment = key === 'categoria' ? rest.split(',').pop()! : rest;
+  const folded = normalizeSearchText(unquote(segment));
+  const chosen = rest.split(',').slice(0, -1).map(unquote).map(resolveCategory);
+  const values =
+    key === 'categoria'
+      ? useCategoriesStore
+          .getState()
+          .categories.filter(
+            category => !isArchived(category) && !chosen.includes(category.id)
+          )
+          .map(category => category.name)
+      : key === 'fecha'
+        ? RELATIVE_DATE_RANGES.map(formatRelativeDate)
+        : key === 'etiquetas'
+          ? Object.keys(TAG_MATCHES)
+          : Object.keys(SORT_FIELDS).flatMap(name => [name, `${name}-asc`]);
+
+  const from = caret - segment.length;
+  const to = token.end;
+  return values
+    .filter(value => {
+      const candidate = normalizeSearchText(value);
+      return candidate.startsWith(folded) && candidate !== folded;
+    })
+    .map(value => ({
+      kind: 'value' as const,
+      key,
+      label: value,
+      insertText: to === text.length ? `${quote(value)} ` : quote(value),
+      from,
+      to
+    }))
+    .slice(0, MAX_SUGGESTIONS);
+}
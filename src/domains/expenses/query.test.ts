@@ -0,0 +1,145 @@
+import { describe, expect, it } from 'vitest';
+import { createExpense, getExpenses } from './actions';
+import {
+  compareExpenses,
+  decodeQueryCursor,
+  encodeQueryCursor,
+  getAmountConversion,
+  matchesFilters,
+  paginateExpenses
+} from './query';
+import { setExpenseRepository } from './repository';
+import { createMemoryExpenseRepository } from './repositories/memory-repository';
+import type { CurrencyCode, Expense, ExpenseFilters } from './types';
+
+const RATES = [{ from: 'USD', to: 'MXN', date: '2025-03-01', rate: 17 }];
+
+const IN_PESOS: ExpenseFilters = {
+  amountCurrency: 'MXN',
+  exchangeRates: RATES
+};
+
+/**
+ * Build a stored expense paid on March 14th, 2025
+ */
+function buildExpense(
+  id: string,
+  amount: number,
+  currency: CurrencyCode
+): Expense {
+  return {
+    id,
+    description: `Gasto ${id}`,
+    amount,
+    currency,
+    category: 'Comida',
+    date: '2025-03-14T12:00:00.000Z',
+    tags: [],
+    createdAt: '2025-03-14T12:00:00.000Z',
+    updatedAt: '2025-03-14T12:00:00.000Z',
+    deletedAt: null
+  };
+}
+
+// 100 MXN, 170 MXN (10 USD), 150 MXN, and 50 EUR without a rate
+const EXPENSES = [
+  buildExpense('a', 100, 'MXN'),
+  buildExpense('b', 10, 'USD'),
+  buildExpense('c', 50, 'EUR'),
+  buildExpense('d', 150, 'MXN')
+];
+
+const ids = (expenses: Expense[]) => expenses.map(expense => expense.id);
+
+describe('amount queries across currencies', () => {
+  it('filters by the amount in the query currency', () => {
+    const matching = (filters: ExpenseFilters) =>
+      ids(EXPENSES.filter(expense => matchesFilters(expense, filters)));
+
+    expect(matching({ ...IN_PESOS, amountMin: 120 })).toEqual(['b', 'd']);
+    expect(matching({ ...IN_PESOS, amountMax: 120 })).toEqual(['a']);
+    // Without a currency the stored amounts are compared
+    expect(matching({ amountMin: 120 })).toEqual(['d']);
+  });
+
+  it('sorts by the converted amount, amounts without a rate last', () => {
+    const conversion = getAmountConversion(IN_PESOS);
+    const sorted = (sortOrder: 'asc' | 'desc') =>
+      ids(
+        [...EXPENSES].sort(
+          compareExpenses(
+            'amount',
+            sortOrder,
+            '',
+            undefined,
+            undefined,
+            conversion
+          )
+        )
+      );
+
+    expect(sorted('asc')).toEqual(['a', 'd', 'b', 'c']);
+    expect(sorted('desc')).toEqual(['b', 'd', 'a', 'c']);
+  });
+
+  it('pages through converted amounts by cursor', () => {
+    const conversion = getAmountConversion(IN_PESOS);
+    const sorted = [...EXPENSES].sort(
+      compareExpenses('amount', 'desc', '', undefined, undefined, conversion)
+    );
+
+    const seen: Expense[] = [];
+    let cursor: string | null = null;
+    do {
+      const page = paginateExpenses(sorted, {
+        cursor: cursor ? decodeQueryCursor(cursor) : null,
+        offset: 0,
+        limit: 1,
+        sortBy: 'amount',
+        sortOrder: 'desc',
+        conversion
+      });
+      seen.push(...page.expenses);
+      cursor = page.hasMore
+        ? encodeQueryCursor(
+            page.expenses[0],
+            'amount',
+            '',
+            undefined,
+            conversion
+          )
+        : null;
+    } while (cursor);
+
+    expect(ids(seen)).toEqual(['b', 'd', 'a', 'c']);
+  });
+
+  it('converts in getExpenses', async () => {
+    setExpenseRepository(createMemoryExpenseRepository());
+    const input = {
+      description: 'Compra en línea',
+      category: 'Comida',
+      date: '2025-03-14T12:00:00.000Z'
+    };
+    const pesos = await createExpense({
+      ...input,
+      amount: 100,
+      currency: 'MXN'
+    });
+    const dollars = await createExpense({
+      ...input,
+      amount: 10,
+      currency: 'USD'
+    });
+
+    const result = await getExpenses({
+      ...IN_PESOS,
+      amountMin: 120,
+      sortBy: 'amount'
+    });
+    expect(ids(result.expenses)).toEqual([dollars.id]);
+
+    const all = await getExpenses({ ...IN_PESOS, sortBy: 'amount' });
+    expect(ids(all.expenses)).toEqual([dollars.id, pesos.id]);
+  });
+});
@@ -0,0 +1,571 @@
+/**
+ * Expense Query Helpers
+ *
+ * Pure helpers shared by the expense query path: residual filter predicates,
+ * sort comparators, continuation-token (cursor) pagination and group
+ * subtotals. Relevance sorting reads the search query, so those helpers take
+ * it as well; grouped queries order by group first, so they take `groupBy`
+ * (and the category names, since category groups are ordered by name).
+ * Amounts are compared in `ExpenseFilters.amountCurrency` when the query
+ * sets it, so those helpers take the conversion too.
+ * They never touch IndexedDB, so any storage backend can reuse them.
+ *
+ * @module domains/expenses/query
+ */
+
+import { format, startOfWeek } from 'date-fns';
+import type {
+  CategoryDefinition,
+  CurrencyCode,
+  ExchangeRateInput,
+  Expense,
+  ExpenseCategory,
+  ExpenseFilters,
+  ExpenseGroupBy,
+  ExpenseGroupSummary,
+  ExpenseTagMatch
+} from './types';
+import { ExpenseOperationError } from './errors';
+import { containsSearchTerms, getSearchScore } from './search';
+import { addCurrencyDayAmount, convertExpenseAmount } from './currencies';
+
+/**
+ * Sortable expense fields
+ */
+export type ExpenseSortField = NonNullable<ExpenseFilters['sortBy']>;
+
+/**
+ * Sort direction
+ */
+export type ExpenseSortOrder = NonNullable<ExpenseFilters['sortOrder']>;
+
+/**
+ * Decoded continuation token
+ * Identifies the last expense returned by the previous page.
+ */
+export interface ExpenseQueryCursor {
+  /** Sort value of the last returned expense (null: an amount with no rate) */
+  value: string | number | null;
+
+  /** ID of the last returned expense (tie-breaker for equal sort values) */
+  id: string;
+
+  /** Group of the last returned expense (grouped queries only) */
+  group?: string;
+}
+
+/**
+ * Category names by ID, used to order category groups
+ */
+export type CategoryNames = ReadonlyMap<ExpenseCategory, string>;
+
+/**
+ * Currency amounts are compared in, with the rates that convert them
+ */
+export interface AmountConversion {
+  currency: CurrencyCode;
+  rates: readonly ExchangeRateInput[];
+}
+
+/**
+ * Conversion a query compares amounts with (none without `amountCurrency`)
+ */
+export function getAmountConversion(
+  filters: ExpenseFilters
+): AmountConversion | undefined {
+  return filters.amountCurrency
+    ? { currency: filters.amountCurrency, rates: filters.exchangeRates ?? [] }
+    : undefined;
+}
+
+/**
+ * Read the amount an expense is filtered and sorted by
+ *
+ * @returns The amount converted with `conversion` (null without a rate), or
+ * the stored amount without a conversion
+ */
+export function getComparableAmount(
+  expense: Pick<Expense, 'amount' | 'currency' | 'date'>,
+  conversion?: AmountConversion
+): number | null {
+  return conversion
+    ? convertExpenseAmount(conversion.rates, expense, conversion.currency)
+    : expense.amount;
+}
+
+/**
+ * Index category names by ID
+ */
+export function getCategoryNames(
+  categories: readonly Pick<CategoryDefinition, 'id' | 'name'>[]
+): CategoryNames {
+  return new Map(categories.map(category => [category.id, category.name]));
+}
+
+/**
+ * Sort field a query actually uses
+ * (relevance needs a search query, otherwise results are sorted by date)
+ */
+export function resolveSortField(filters: ExpenseFilters): ExpenseSortField {
+  if (filters.sortBy === 'relevance' && !filters.searchQuery?.trim()) {
+    return 'date';
+  }
+  return filters.sortBy || 'date';
+}
+
+/**
+ * Read the value an expense is sorted by
+ *
+ * @param searchQuery - Query ranked against when sorting by relevance
+ * @param conversion - Currency amounts are sorted in
+ * @returns The value, or null for an amount with no rate
+ */
+export function getSortValue(
+  expense: Expense,
+  sortBy: ExpenseSortField,
+  searchQuery = '',
+  conversion?: AmountConversion
+): string | number | null {
+  switch (sortBy) {
+    case 'relevance':
+      return getSearchScore(expense.description, searchQuery);
+    case 'amount':
+      return getComparableAmount(expense, conversion);
+    case 'createdAt':
+      return expense.createdAt;
+    case 'date':
+    default:
+      return expense.date;
+  }
+}
+
+/**
+ * Read the group an expense belongs to (see `ExpenseGroupSummary.key`)
+ */
+export function getExpenseGroupKey(
+  expense: Pick<Expense, 'date' | 'category'>,
+  groupBy: ExpenseGroupBy
+): string {
+  const date = new Date(expense.date);
+  switch (groupBy) {
+    case 'category':
+      return expense.category;
+    case 'month':
+      return format(date, 'yyyy-MM');
+    case 'week':
+      return format(startOfWeek(date, { weekStartsOn: 1 }), 'yyyy-MM-dd');
+    case 'day':
+    default:
+      return format(date, 'yyyy-MM-dd');
+  }
+}
+
+/**
+ * Compare two group keys in result order
+ *
+ * Date groups follow the date sort (newest first under any other sort).
+ * Category groups are always A-Z by name, then by ID; a category missing
+ * from `categoryNames` sorts by its ID.
+ */
+function compareGroupKeys(
+  a: string,
+  b: string,
+  groupBy: ExpenseGroupBy,
+  sortBy: ExpenseSortField,
+  sortOrder: ExpenseSortOrder,
+  categoryNames?: CategoryNames
+): number {
+  if (groupBy === 'category') {
+    const byName = (categoryNames?.get(a) ?? a).localeCompare(
+      categoryNames?.get(b) ?? b,
+      'es'
+    );
+    return byName || (a === b ? 0 : a > b ? 1 : -1);
+  }
+
+  const direction = sortBy === 'date' && sortOrder === 'asc' ? 1 : -1;
+  return a.localeCompare(b, 'es') * direction;
+}
+
+/**
+ * Compare two sort values in the sort direction
+ * (null, an amount with no rate, sorts last in either direction)
+ */
+function compareSortValues(
+  a: string | number | null,
+  b: string | number | null,
+  direction: 1 | -1
+): number {
+  if (a === b) {
+    return 0;
+  }
+  if (a === null || b === null) {
+    return a === null ? 1 : -1;
+  }
+  return (a > b ? 1 : -1) * direction;
+}
+
+/**
+ * Build a comparator for the given sort
+ *
+ * Ties are broken by ID in the same direction, which matches the order
+ * IndexedDB cursors walk non-unique indexes in ('next' and 'prev').
+ * With `groupBy`, expenses are ordered by group first.
+ *
+ * @param categoryNames - Names category groups are ordered by
+ * @param conversion - Currency amounts are sorted in
+ */
+export function compareExpenses(
+  sortBy: ExpenseSortField,
+  sortOrder: ExpenseSortOrder,
+  searchQuery?: string,
+  groupBy?: ExpenseGroupBy,
+  categoryNames?: CategoryNames,
+  conversion?: AmountConversion
+): (a: Expense, b: Expense) => number {
+  const direction = sortOrder === 'asc' ? 1 : -1;
+
+  return (a, b) => {
+    if (groupBy) {
+      const byGroup = compareGroupKeys(
+        getExpenseGroupKey(a, groupBy),
+        getExpenseGroupKey(b, groupBy),
+        groupBy,
+        sortBy,
+        sortOrder,
+        categoryNames
+      );
+      if (byGroup !== 0) {
+        return byGroup;
+      }
+    }
+
+    const byValue = compareSortValues(
+      getSortValue(a, sortBy, searchQuery, conversion),
+      getSortValue(b, sortBy, searchQuery, conversion),
+      direction
+    );
+    if (byValue !== 0) {
+      return byValue;
+    }
+    if (a.id !== b.id) {
+      return (a.id > b.id ? 1 : -1) * direction;
+    }
+    return 0;
+  };
+}
+
+/**
+ * Check if an expense falls within an inclusive date range
+ */
+export function matchesDateRange(
+  expense: Pick<Expense, 'date'>,
+  dateFrom?: string,
+  dateTo?: string
+): boolean {
+  const expenseDate = new Date(expense.date);
+  if (dateFrom && expenseDate < new Date(dateFrom)) {
+    return false;
+  }
+  if (dateTo && expenseDate > new Date(dateTo)) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Check if an expense description matches the search query
+ * (every word, ignoring accents and small typos; empty query matches everything)
+ */
+export function matchesSearchQuery(
+  expense: Pick<Expense, 'description'>,
+  searchQuery?: string
+): boolean {
+  if (!searchQuery?.trim()) {
+    return true;
+  }
+  return getSearchScore(expense.description, searchQuery) > 0;
+}
+
+/**
+ * Check if an expense description contains none of the excluded terms
+ */
+export function matchesExcludedTerms(
+  expense: Pick<Expense, 'description'>,
+  excludeTerms?: string[]
+): boolean {
+  return !excludeTerms?.some(term =>
+    containsSearchTerms(expense.description, term)
+  );
+}
+
+/**
+ * Check if an expense amount falls within an inclusive range
+ *
+ * @param conversion - Currency the bounds are in (an amount with no rate
+ * never matches a bound)
+ */
+export function matchesAmountRange(
+  expense: Pick<Expense, 'amount' | 'currency' | 'date'>,
+  amountMin?: number,
+  amountMax?: number,
+  conversion?: AmountConversion
+): boolean {
+  if (amountMin === undefined && amountMax === undefined) {
+    return true;
+  }
+  const amount = getComparableAmount(expense, conversion);
+  if (amount === null) {
+    return false;
+  }
+  if (amountMin !== undefined && amount < amountMin) {
+    return false;
+  }
+  if (amountMax !== undefined && amount > amountMax) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Check if an expense has every tag (`all`) or at least one (`any`)
+ * (no tags matches everything)
+ */
+export function matchesTags(
+  expense: Pick<Expense, 'tags'>,
+  tags?: string[],
+  tagMatch: ExpenseTagMatch = 'all'
+): boolean {
+  if (!tags || tags.length === 0) {
+    return true;
+  }
+  return tagMatch === 'any'
+    ? tags.some(tag => expense.tags.includes(tag))
+    : tags.every(tag => expense.tags.includes(tag));
+}
+
+/**
+ * Check if a query has filters no IndexedDB index can answer
+ * (amount range and exclusions are always checked in memory)
+ */
+export function hasResidualFilters(filters: ExpenseFilters): boolean {
+  return (
+    filters.amountMin !== undefined ||
+    filters.amountMax !== undefined ||
+    (filters.excludeTerms?.length ?? 0) > 0
+  );
+}
+
+/**
+ * Check if an expense is in the trash
+ */
+export function isDeleted(expense: Pick<Expense, 'deletedAt'>): boolean {
+  return !!expense.deletedAt;
+}
+
+/**
+ * Check if an expense matches every filter (pagination and sort ignored)
+ * Soft-deleted expenses never match.
+ */
+export function matchesFilters(
+  expense: Expense,
+  filters: ExpenseFilters
+): boolean {
+  if (isDeleted(expense)) {
+    return false;
+  }
+
+  if (
+    filters.categories &&
+    filters.categories.length > 0 &&
+    !filters.categories.includes(expense.category)
+  ) {
+    return false;
+  }
+
+  return (
+    matchesTags(expense, filters.tags, filters.tagMatch) &&
+    matchesDateRange(expense, filters.dateFrom, filters.dateTo) &&
+    matchesAmountRange(
+      expense,
+      filters.amountMin,
+      filters.amountMax,
+      getAmountConversion(filters)
+    ) &&
+    matchesSearchQuery(expense, filters.searchQuery) &&
+    matchesExcludedTerms(expense, filters.excludeTerms)
+  );
+}
+
+/**
+ * Encode a continuation token pointing after `expense`
+ */
+export function encodeQueryCursor(
+  expense: Expense,
+  sortBy: ExpenseSortField,
+  searchQuery?: string,
+  groupBy?: ExpenseGroupBy,
+  conversion?: AmountConversion
+): string {
+  const cursor: ExpenseQueryCursor = {
+    value: getSortValue(expense, sortBy, searchQuery, conversion),
+    id: expense.id,
+    ...(groupBy && { group: getExpenseGroupKey(expense, groupBy) })
+  };
+  // URI-encoded first: btoa only takes Latin-1 and group keys can be any text
+  return btoa(encodeURIComponent(JSON.stringify(cursor)));
+}
+
+/**
+ * Decode a continuation token produced by `encodeQueryCursor`
+ *
+ * @throws {ExpenseOperationError} If the token is malformed
+ */
+export function decodeQueryCursor(token: string): ExpenseQueryCursor {
+  try {
+    const cursor = JSON.parse(
+      decodeURIComponent(atob(token))
+    ) as ExpenseQueryCursor;
+    if (
+      typeof cursor.id !== 'string' ||
+      (typeof cursor.value !== 'string' &&
+        typeof cursor.value !== 'number' &&
+        cursor.value !== null) ||
+      (cursor.group !== undefined && typeof cursor.group !== 'string')
+    ) {
+      throw new Error('Unexpected cursor shape');
+    }
+    return cursor;
+  } catch {
+    throw new ExpenseOperationError('read expenses', 'invalid cursor', {
+      cursor: token
+    });
+  }
+}
+
+/**
+ * Check if an expense sorts strictly after the cursor position
+ * (in the order of `compareExpenses` with the same arguments)
+ */
+export function isAfterCursor(
+  expense: Expense,
+  cursor: ExpenseQueryCursor,
+  sortBy: ExpenseSortField,
+  sortOrder: ExpenseSortOrder,
+  searchQuery?: string,
+  groupBy?: ExpenseGroupBy,
+  categoryNames?: CategoryNames,
+  conversion?: AmountConversion
+): boolean {
+  if (groupBy && cursor.group !== undefined) {
+    const group = getExpenseGroupKey(expense, groupBy);
+    if (group !== cursor.group) {
+      return (
+        compareGroupKeys(
+          group,
+          cursor.group,
+          groupBy,
+          sortBy,
+          sortOrder,
+          categoryNames
+        ) > 0
+      );
+    }
+  }
+
+  const direction = sortOrder === 'asc' ? 1 : -1;
+  const byValue = compareSortValues(
+    getSortValue(expense, sortBy, searchQuery, conversion),
+    cursor.value,
+    direction
+  );
+
+  if (byValue !== 0) {
+    return byValue > 0;
+  }
+  if (expense.id === cursor.id) {
+    return false;
+  }
+  return (expense.id > cursor.id ? 1 : -1) * direction > 0;
+}
+
+/**
+ * Slice one page out of an already sorted list of matches
+ *
+ * Starts after `cursor` when given, otherwise at `offset`.
+ */
+export function paginateExpenses(
+  sorted: Expense[],
+  options: {
+    cursor: ExpenseQueryCursor | null;
+    offset: number;
+    limit: number;
+    sortBy: ExpenseSortField;
+    sortOrder: ExpenseSortOrder;
+    searchQuery?: string;
+    groupBy?: ExpenseGroupBy;
+    categoryNames?: CategoryNames;
+    conversion?: AmountConversion;
+  }
+): { expenses: Expense[]; hasMore: boolean } {
+  const {
+    cursor,
+    offset,
+    limit,
+    sortBy,
+    sortOrder,
+    searchQuery,
+    groupBy,
+    categoryNames,
+    conversion
+  } = options;
+
+  let start = offset;
+  if (cursor) {
+    const index = sorted.findIndex(expense =>
+      isAfterCursor(
+        expense,
+        cursor,
+        sortBy,
+        sortOrder,
+        searchQuery,
+        groupBy,
+        categoryNames,
+        conversion
+      )
+    );
+    start = index === -1 ? sorted.length : index;
+  }
+
+  return {
+    expenses: sorted.slice(start, start + limit),
+    hasMore: start + limit < sorted.length
+  };
+}
+
+/**
+ * Subtotal every group of an already sorted list of matches
+ *
+ * @returns One summary per group, in the order of `sorted`
+ */
+export function summarizeExpenseGroups(
+  sorted: Expense[],
+  groupBy: ExpenseGroupBy
+): ExpenseGroupSummary[] {
+  const groups = new Map<string, ExpenseGroupSummary>();
+
+  sorted.forEach(expense => {
+    const key = getExpenseGroupKey(expense, groupBy);
+    const group = groups.get(key) ?? { key, count: 0, amounts: [] };
+    group.count++;
+    addCurrencyDayAmount(
+      group.amounts,
+      expense.currency,
+      getExpenseGroupKey(expense, 'day'),
+      expense.amount
+    );
+    groups.set(key, group);
+  });
+
+  return [...groups.values()];
+}
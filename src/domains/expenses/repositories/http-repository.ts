@@ -0,0 +1,106 @@
+/**
+ * HTTP Expense Repository
+ *
+ * Backend for the "server" storage mode: every read and write goes to the
+ * `/api/expenses` route handlers, which store the ledger in SQLite so several
+ * devices share it.
+ *
+ * @module domains/expenses/repositories/http-repository
+ */
+
+import type {
+  CategoryDefinition,
+  CategoryWriteBatch,
+  Expense,
+  ExpenseFilters,
+  ExpenseQueryResult,
+  ExpenseRepository,
+  ExpenseRevision,
+  ExpenseWriteBatch
+} from '../types';
+import {
+  EXPENSES_API_PATH,
+  filtersToSearchParams,
+  requestExpensesApi
+} from '../api-contract';
+import { ExpenseNotFoundError } from '../errors';
+
+/**
+ * Send a request to an expenses API path
+ */
+function request<T>(base: string, path: string, init?: RequestInit): Promise<T> {
+  return requestExpensesApi<T>(`${base}${path}`, init);
+}
+
+/**
+ * Create a repository backed by the expenses API
+ *
+ * @param baseUrl - Origin of the API (empty for same-origin requests)
+ * @returns Repository that reads and writes through HTTP
+ *
+ * @example
+ * ```typescript
+ * setExpenseRepository(createHttpExpenseRepository());
+ * ```
+ */
+export function createHttpExpenseRepository(baseUrl = ''): ExpenseRepository {
+  const base = `${baseUrl}${EXPENSES_API_PATH}`;
+
+  return {
+    kind: 'server',
+    isPersistent: true,
+
+    query(filters: ExpenseFilters): Promise<ExpenseQueryResult> {
+      return request(base, `?${filtersToSearchParams(filters)}`);
+    },
+
+    async getById(id: string): Promise<Expense | undefined> {
+      try {
+        return await request<Expense>(base, `/${encodeURIComponent(id)}`);
+      } catch (error) {
+        if (error instanceof ExpenseNotFoundError) {
+          return undefined;
+        }
+        throw error;
+      }
+    },
+
+    getByIds(ids: string[]): Promise<Expense[]> {
+      const params = new URLSearchParams(ids.map(id => ['id', id]));
+      return request(base, `/batch?${params}`);
+    },
+
+    getDeleted(deletedBefore?: string): Promise<Expense[]> {
+      const params = new URLSearchParams(
+        deletedBefore ? { deletedBefore } : {}
+      );
+      return request(base, `/trash?${params}`);
+    },
+
+    getTags(): Promise<string[]> {
+      return request(base, '/tags');
+    },
+
+    getRevisions(expenseId: string): Promise<ExpenseRevision[]> {
+      return request(base, `/${encodeURIComponent(expenseId)}/revisions`);
+    },
+
+    commit(batch: ExpenseWriteBatch): Promise<void> {
+      return request(base, '/batch', {
+        method: 'POST',
+        body: JSON.stringify(batch)
+      });
+    },
+
+    getCategories(): Promise<CategoryDefinition[]> {
+      return request(base, '/categories');
+    },
+
+    commitCategories(batch: CategoryWriteBatch): Promise<void> {
+      return request(base, '/categories', {
+        method: 'POST',
+        body: JSON.stringify(batch)
+      });
+    }
+  };
+}
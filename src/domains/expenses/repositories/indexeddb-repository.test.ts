@@ -0,0 +1,82 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { switchIndexedDB } from '@/test/indexeddb';
+import {
+  createExpense,
+  deleteExpense,
+  getExpenses,
+  restoreExpense
+} from '../actions';
+import { setExpenseRepository } from '../repository';
+import type { Expense } from '../types';
+import { createIndexedDBExpenseRepository } from './indexeddb-repository';
+
+/**
+ * Create one expense per day of March 2025 (1st to `days`)
+ */
+async function createMarchExpenses(days: number): Promise<Expense[]> {
+  const expenses: Expense[] = [];
+  for (let day = 1; day <= days; day++) {
+    expenses.push(
+      await createExpense({
+        description: `Gasto del día ${day}`,
+        amount: day * 10,
+        category: 'Comida',
+        date: `2025-03-${String(day).padStart(2, '0')}T12:00:00.000Z`
+      })
+    );
+  }
+  return expenses;
+}
+
+const MARCH_1_TO_10 = {
+  dateFrom: '2025-03-01T00:00:00.000Z',
+  dateTo: '2025-03-10T23:59:59.999Z'
+};
+
+describe('IndexedDB repository date-sorted pages', () => {
+  beforeEach(async () => {
+    await switchIndexedDB();
+    setExpenseRepository(createIndexedDBExpenseRepository());
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('leaves trashed expenses out of the total count and the pages', async () => {
+    const expenses = await createMarchExpenses(12);
+    await deleteExpense(expenses[1].id); // March 2nd, in range
+    await deleteExpense(expenses[11].id); // March 12th, out of range
+
+    const first = await getExpenses({ ...MARCH_1_TO_10, limit: 4 });
+    expect(first.totalCount).toBe(9);
+    expect(first.hasMore).toBe(true);
+
+    const seen = [...first.expenses];
+    let cursor = first.nextCursor;
+    while (cursor) {
+      const page = await getExpenses({ ...MARCH_1_TO_10, limit: 4, cursor });
+      expect(page.totalCount).toBe(9);
+      seen.push(...page.expenses);
+      cursor = page.nextCursor;
+    }
+    expect(seen.map(expense => expense.id)).toEqual(
+      expenses
+        .slice(0, 10)
+        .filter((_, index) => index !== 1)
+        .reverse()
+        .map(expense => expense.id)
+    );
+
+    expect((await getExpenses({ limit: 4 })).totalCount).toBe(10);
+  });
+
+  it('updates the total count after trashing and restoring', async () => {
+    const expenses = await createMarchExpenses(5);
+    expect((await getExpenses(MARCH_1_TO_10)).totalCount).toBe(5);
+
+    await deleteExpense(expenses[0].id);
+    await deleteExpense(expenses[3].id);
+    expect((await getExpenses(MARCH_1_TO_10)).totalCount).toBe(3);
+
+    await restoreExpense(expenses[3].id);
+    expect((await getExpenses(MARCH_1_TO_10)).totalCount).toBe(4);
+  });
+});
@@ -0,0 +1,583 @@
+/**
+ * IndexedDB Expense Repository
+ *
+ * Persistent backend on top of the shared IndexedDB connection
+ * (`lib/db-connection.ts`). Queries use the store indexes so that date-sorted
+ * pages read only the rows they return, and searches look up candidates in
+ * the full-text index (`searchIndex` store) instead of scanning descriptions.
+ *
+ * @module domains/expenses/repositories/indexeddb-repository
+ */
+
+import type { IDBPDatabase, IDBPObjectStore, StoreNames } from 'idb';
+import {
+  CATEGORIES_STORE_NAME,
+  CATEGORY_CHANGES_STORE_NAME,
+  CHANGES_STORE_NAME,
+  REVISIONS_STORE_NAME,
+  SEARCH_INDEX_STORE_NAME,
+  STORE_NAME,
+  type ExpenseTrackerDB
+} from '@/lib/db';
+import { getExpenseDB } from '@/lib/db-connection';
+import type {
+  CategoryDefinition,
+  CategoryWriteBatch,
+  Expense,
+  ExpenseChangeLogEntry,
+  ExpenseFilters,
+  ExpenseQueryResult,
+  ExpenseRepository,
+  ExpenseRevision,
+  ExpenseWriteBatch
+} from '../types';
+import {
+  compareExpenses,
+  decodeQueryCursor,
+  encodeQueryCursor,
+  getAmountConversion,
+  getCategoryNames,
+  hasResidualFilters,
+  isAfterCursor,
+  isDeleted,
+  matchesDateRange,
+  matchesFilters,
+  paginateExpenses,
+  resolveSortField,
+  summarizeExpenseGroups
+} from '../query';
+import { matchSearchTerm, tokenizeSearchText } from '../search';
+import { sortTags } from '../tags';
+import { subscribeToExpenseChanges } from '../events';
+import { recordLocalChange } from '../sync/change-log';
+
+/**
+ * Build the IDBKeyRange for an inclusive date range (undefined = unbounded)
+ */
+function getDateKeyRange(
+  dateFrom?: string,
+  dateTo?: string
+): IDBKeyRange | undefined {
+  if (dateFrom && dateTo) {
+    return IDBKeyRange.bound(dateFrom, dateTo);
+  }
+  if (dateFrom) {
+    return IDBKeyRange.lowerBound(dateFrom);
+  }
+  if (dateTo) {
+    return IDBKeyRange.upperBound(dateTo);
+  }
+  return undefined;
+}
+
+type ReadWriteStore<Name extends StoreNames<ExpenseTrackerDB>> =
+  IDBPObjectStore<
+    ExpenseTrackerDB,
+    StoreNames<ExpenseTrackerDB>[],
+    Name,
+    'readwrite'
+  >;
+
+/**
+ * Delete the revision logs of the given expenses
+ *
+ * Runs inside the caller's transaction so expenses and history go together.
+ */
+export async function deleteRevisions(
+  store: ReadWriteStore<'revisions'>,
+  expenseIds: string[]
+): Promise<void> {
+  const index = store.index('expenseId');
+
+  for (const expenseId of expenseIds) {
+    const revisionIds = await index.getAllKeys(expenseId);
+    await Promise.all(revisionIds.map(revisionId => store.delete(revisionId)));
+  }
+}
+
+/**
+ * Keep the full-text index in step with written and deleted expenses
+ *
+ * Runs inside the caller's transaction, like `deleteRevisions`.
+ */
+export async function updateSearchIndex(
+  store: ReadWriteStore<'searchIndex'>,
+  put: Expense[],
+  deleted: string[]
+): Promise<void> {
+  await Promise.all([
+    ...put.map(expense =>
+      store.put({
+        expenseId: expense.id,
+        terms: tokenizeSearchText(expense.description)
+      })
+    ),
+    ...deleted.map(id => store.delete(id))
+  ]);
+}
+
+/**
+ * Find the IDs of expenses whose indexed terms match every query token
+ *
+ * Walks the distinct terms of the multiEntry `terms` index once, matching
+ * them with the same prefix and typo rules as `matchesSearchQuery`.
+ */
+async function searchExpenseIds(
+  store: IDBPObjectStore<
+    ExpenseTrackerDB,
+    StoreNames<ExpenseTrackerDB>[],
+    'searchIndex',
+    'readonly'
+  >,
+  searchQuery: string
+): Promise<Set<string>> {
+  const tokens = tokenizeSearchText(searchQuery);
+  const termIndex = store.index('terms');
+  const matchedTerms: string[][] = tokens.map(() => []);
+
+  let cursor = await termIndex.openKeyCursor(null, 'nextunique');
+  while (cursor) {
+    const term = cursor.key as string;
+    tokens.forEach((token, i) => {
+      if (matchSearchTerm(token, term) > 0) {
+        matchedTerms[i].push(term);
+      }
+    });
+    cursor = await cursor.continue();
+  }
+
+  // Every token must match (AND): intersect the IDs found for each one
+  let ids: string[] | null = null;
+  for (const terms of matchedTerms) {
+    const perTerm = await Promise.all(
+      terms.map(term => termIndex.getAllKeys(term))
+    );
+    const tokenIds = new Set(perTerm.flat() as string[]);
+    ids = (ids ?? [...tokenIds]).filter(id => tokenIds.has(id));
+    if (ids.length === 0) {
+      break;
+    }
+  }
+
+  return new Set(ids);
+}
+
+/**
+ * Fold the writes of a batch into the sync change log
+ *
+ * Runs inside the caller's transaction and before its writes, so it sees
+ * the stored versions they replace.
+ */
+async function logLocalChanges(
+  expenseStore: ReadWriteStore<'expenses'>,
+  changeStore: ReadWriteStore<'changes'>,
+  batch: ExpenseWriteBatch
+): Promise<void> {
+  const timestamp = new Date().toISOString();
+  const writes: [string, Expense | null][] = [
+    ...(batch.put ?? []).map(expense => [expense.id, expense] as [string, Expense]),
+    ...(batch.delete ?? []).map(id => [id, null] as [string, null])
+  ];
+
+  const entries = await Promise.all(
+    writes.map(async ([id, after]) => {
+      const [before, entry] = await Promise.all([
+        expenseStore.get(id),
+        changeStore.get(id)
+      ]);
+      return {
+        id,
+        entry: recordLocalChange(
+          entry as ExpenseChangeLogEntry | undefined,
+          (before as Expense | undefined) ?? null,
+          after,
+          timestamp
+        )
+      };
+    })
+  );
+
+  await Promise.all(
+    entries.map(({ id, entry }) =>
+      entry ? changeStore.put(entry) : changeStore.delete(id)
+    )
+  );
+}
+
+/**
+ * Dates of the trashed expenses, read for one connection
+ */
+let trashedDates: {
+  db: IDBPDatabase<ExpenseTrackerDB>;
+  dates: Pick<Expense, 'date'>[];
+} | null = null;
+
+/**
+ * Bumped on every committed write, so a read that raced one is not cached
+ */
+let trashedDatesVersion = 0;
+let isWatchingTrash = false;
+
+/**
+ * Count the trashed expenses dated within a range
+ *
+ * Counted from the `deletedAt` index when the range is unbounded. Otherwise
+ * the dates of the trash are read once and kept until the next committed
+ * write (in this tab or another one), so paging through a range does not
+ * read the whole trash for every page.
+ */
+async function countTrashedInRange(
+  db: IDBPDatabase<ExpenseTrackerDB>,
+  store: IDBPObjectStore<
+    ExpenseTrackerDB,
+    StoreNames<ExpenseTrackerDB>[],
+    'expenses'
+  >,
+  dateFrom?: string,
+  dateTo?: string
+): Promise<number> {
+  const trashIndex = store.index('deletedAt');
+  if (!dateFrom && !dateTo) {
+    return trashIndex.count();
+  }
+
+  if (!isWatchingTrash) {
+    isWatchingTrash = true;
+    subscribeToExpenseChanges(() => {
+      trashedDates = null;
+      trashedDatesVersion++;
+    });
+  }
+  let dates = trashedDates?.db === db ? trashedDates.dates : null;
+  if (!dates) {
+    const version = trashedDatesVersion;
+    dates = (await trashIndex.getAll()).map(({ date }) => ({ date }));
+    // A write committed meanwhile may have changed the trash: do not keep this read
+    if (version === trashedDatesVersion) {
+      trashedDates = { db, dates };
+    }
+  }
+
+  return dates.filter(expense => matchesDateRange(expense, dateFrom, dateTo))
+    .length;
+}
+
+/**
+ * Run a query against the expense store
+ *
+ * Query plan:
+ * - Search: candidate IDs from the `searchIndex` terms, read by key
+ * - Tags: the expenses under each tag in the multiEntry `tags` index
+ *   (`all` reads only the first tag and checks the rest in memory)
+ * - Categories: one `category_date` compound-index range per category
+ * - Date sort without search, amount, exclusions or grouping: walks the
+ *   `date` index and reads only one page
+ * - Otherwise: reads the index of the sort field, filtering the rest in memory
+ */
+async function queryExpenses(
+  query: ExpenseFilters
+): Promise<ExpenseQueryResult> {
+  const sortBy = resolveSortField(query);
+  const sortOrder = query.sortOrder || 'desc';
+  const limit = query.limit || 20;
+  const offset = query.offset || 0;
+  const cursor = query.cursor ? decodeQueryCursor(query.cursor) : null;
+  const conversion = getAmountConversion(query);
+  const hasSearch = !!query.searchQuery && query.searchQuery.trim().length > 0;
+  const hasCategories = !!query.categories && query.categories.length > 0;
+  const hasTags = !!query.tags && query.tags.length > 0;
+
+  const db = await getExpenseDB();
+  const tx = db.transaction([STORE_NAME, SEARCH_INDEX_STORE_NAME], 'readonly');
+  const store = tx.objectStore(STORE_NAME);
+
+  // Fast path: the date index both filters and orders, so only one page is read
+  if (
+    sortBy === 'date' &&
+    !hasCategories &&
+    !hasTags &&
+    !hasSearch &&
+    !hasResidualFilters(query) &&
+    !query.groupBy
+  ) {
+    const dateIndex = store.index('date');
+    const direction = sortOrder === 'asc' ? 'next' : 'prev';
+
+    // The date index also holds trashed rows, so subtract them
+    const totalCount =
+      (await dateIndex.count(getDateKeyRange(query.dateFrom, query.dateTo))) -
+      (await countTrashedInRange(db, store, query.dateFrom, query.dateTo));
+
+    // Resume from the cursor's date instead of re-reading earlier pages
+    const range = cursor
+      ? getDateKeyRange(
+          sortOrder === 'asc' ? String(cursor.value) : query.dateFrom,
+          sortOrder === 'asc' ? query.dateTo : String(cursor.value)
+        )
+      : getDateKeyRange(query.dateFrom, query.dateTo);
+
+    const page: Expense[] = [];
+    let idbCursor = await dateIndex.openCursor(range, direction);
+
+    // Skip `offset` active rows (trashed rows do not count towards the offset)
+    let skipped = 0;
+    while (idbCursor && !cursor && skipped < offset) {
+      if (!isDeleted(idbCursor.value)) {
+        skipped++;
+      }
+      idbCursor = await idbCursor.continue();
+    }
+
+    // Read one extra row to know whether another page exists
+    while (idbCursor && page.length <= limit) {
+      if (
+        !isDeleted(idbCursor.value) &&
+        (!cursor || isAfterCursor(idbCursor.value, cursor, sortBy, sortOrder))
+      ) {
+        page.push(idbCursor.value);
+      }
+      idbCursor = await idbCursor.continue();
+    }
+
+    const hasMore = page.length > limit;
+    const expenses = page.slice(0, limit);
+
+    return {
+      expenses,
+      totalCount,
+      hasMore,
+      offset,
+      limit,
+      nextCursor: hasMore
+        ? encodeQueryCursor(expenses[expenses.length - 1], sortBy)
+        : null
+    };
+  }
+
+  let matches: Expense[];
+
+  if (hasSearch) {
+    const ids = await searchExpenseIds(
+      tx.objectStore(SEARCH_INDEX_STORE_NAME),
+      query.searchQuery!
+    );
+    const candidates = await Promise.all([...ids].map(id => store.get(id)));
+    matches = candidates.filter((expense): expense is Expense => !!expense);
+  } else if (hasTags) {
+    const tagIndex = store.index('tags');
+    const tags = query.tagMatch === 'any' ? query.tags! : query.tags!.slice(0, 1);
+    const perTag = await Promise.all(tags.map(tag => tagIndex.getAll(tag)));
+    // An expense with several of the tags is read once per tag
+    matches = [
+      ...new Map(perTag.flat().map(expense => [expense.id, expense])).values()
+    ];
+  } else if (hasCategories) {
+    // Filter by categories (OR logic) using one compound-index range per category
+    const categoryIndex = store.index('category_date');
+    const perCategory = await Promise.all(
+      query.categories!.map(category =>
+        categoryIndex.getAll(
+          IDBKeyRange.bound(
+            [category, query.dateFrom ?? ''],
+            [category, query.dateTo ?? '\uffff']
+          )
+        )
+      )
+    );
+    matches = perCategory.flat();
+  } else {
+    // Read in sort-field order; only the date index can also narrow the range
+    matches = await store
+      .index(sortBy)
+      .getAll(
+        sortBy === 'date'
+          ? getDateKeyRange(query.dateFrom, query.dateTo)
+          : undefined
+      );
+  }
+
+  // Category groups are ordered by name
+  const categoryNames =
+    query.groupBy === 'category'
+      ? getCategoryNames(await db.getAll(CATEGORIES_STORE_NAME))
+      : undefined;
+
+  matches = matches
+    .filter(expense => matchesFilters(expense, query))
+    .sort(
+      compareExpenses(
+        sortBy,
+        sortOrder,
+        query.searchQuery,
+        query.groupBy,
+        categoryNames,
+        conversion
+      )
+    );
+
+  const { expenses, hasMore } = paginateExpenses(matches, {
+    cursor,
+    offset,
+    limit,
+    sortBy,
+    sortOrder,
+    searchQuery: query.searchQuery,
+    groupBy: query.groupBy,
+    categoryNames,
+    conversion
+  });
+
+  return {
+    expenses,
+    totalCount: matches.length,
+    hasMore,
+    offset,
+    limit,
+    nextCursor: hasMore
+      ? encodeQueryCursor(
+          expenses[expenses.length - 1],
+          sortBy,
+          query.searchQuery,
+          query.groupBy,
+          conversion
+        )
+      : null,
+    ...(query.groupBy && {
+      groups: summarizeExpenseGroups(matches, query.groupBy)
+    })
+  };
+}
+
+/**
+ * Create the IndexedDB-backed repository
+ *
+ * @returns Repository storing expenses in the browser's IndexedDB
+ *
+ * @example
+ * ```typescript
+ * const repository = createIndexedDBExpenseRepository();
+ * const expense = await repository.getById(id);
+ * ```
+ */
+export function createIndexedDBExpenseRepository(): ExpenseRepository {
+  return {
+    kind: 'indexeddb',
+    isPersistent: true,
+
+    query: queryExpenses,
+
+    async getById(id: string): Promise<Expense | undefined> {
+      const db = await getExpenseDB();
+      return db.get(STORE_NAME, id);
+    },
+
+    async getByIds(ids: string[]): Promise<Expense[]> {
+      const db = await getExpenseDB();
+      const store = db
+        .transaction(STORE_NAME, 'readonly')
+        .objectStore(STORE_NAME);
+
+      const expenses = await Promise.all(ids.map(id => store.get(id)));
+      return expenses.filter((expense): expense is Expense => !!expense);
+    },
+
+    async getDeleted(deletedBefore?: string): Promise<Expense[]> {
+      const db = await getExpenseDB();
+      const range = deletedBefore
+        ? IDBKeyRange.upperBound(deletedBefore)
+        : undefined;
+
+      // The `deletedAt` index only holds trashed expenses
+      return db.getAllFromIndex(STORE_NAME, 'deletedAt', range);
+    },
+
+    async getTags(): Promise<string[]> {
+      const db = await getExpenseDB();
+      const tags: string[] = [];
+
+      // The index is sorted by code point; walk each distinct key once
+      let cursor = await db
+        .transaction(STORE_NAME, 'readonly')
+        .objectStore(STORE_NAME)
+        .index('tags')
+        .openKeyCursor(null, 'nextunique');
+      while (cursor) {
+        tags.push(cursor.key as string);
+        cursor = await cursor.continue();
+      }
+      return sortTags(tags);
+    },
+
+    async getRevisions(expenseId: string): Promise<ExpenseRevision[]> {
+      const db = await getExpenseDB();
+      const revisions = await db.getAllFromIndex(
+        REVISIONS_STORE_NAME,
+        'expenseId',
+        expenseId
+      );
+      return revisions as ExpenseRevision[];
+    },
+
+    async commit(batch: ExpenseWriteBatch): Promise<void> {
+      const db = await getExpenseDB();
+      const tx = db.transaction(
+        [
+          STORE_NAME,
+          REVISIONS_STORE_NAME,
+          CHANGES_STORE_NAME,
+          SEARCH_INDEX_STORE_NAME
+        ],
+        'readwrite'
+      );
+      const store = tx.objectStore(STORE_NAME);
+      const revisionStore = tx.objectStore(REVISIONS_STORE_NAME);
+
+      // Writes pulled from the sync server are already on the server
+      if (batch.origin !== 'sync') {
+        await logLocalChanges(store, tx.objectStore(CHANGES_STORE_NAME), batch);
+      }
+
+      await Promise.all([
+        ...(batch.put ?? []).map(expense => store.put(expense)),
+        ...(batch.revisions ?? []).map(revision => revisionStore.add(revision)),
+        ...(batch.delete ?? []).map(id => store.delete(id)),
+        deleteRevisions(revisionStore, batch.delete ?? []),
+        updateSearchIndex(
+          tx.objectStore(SEARCH_INDEX_STORE_NAME),
+          batch.put ?? [],
+          batch.delete ?? []
+        ),
+        tx.done
+      ]);
+    },
+
+    async getCategories(): Promise<CategoryDefinition[]> {
+      const db = await getExpenseDB();
+      return (await db.getAll(CATEGORIES_STORE_NAME)) as CategoryDefinition[];
+    },
+
+    async commitCategories(batch: CategoryWriteBatch): Promise<void> {
+      const db = await getExpenseDB();
+      const tx = db.transaction(
+        [CATEGORIES_STORE_NAME, CATEGORY_CHANGES_STORE_NAME],
+        'readwrite'
+      );
+      const store = tx.objectStore(CATEGORIES_STORE_NAME);
+      const changeStore = tx.objectStore(CATEGORY_CHANGES_STORE_NAME);
+      const timestamp = new Date().toISOString();
+
+      // Categories sync whole, so the change log keeps the latest version
+      await Promise.all([
+        ...(batch.put ?? []).flatMap(category => [
+          store.put(category),
+          changeStore.put({ categoryId: category.id, category, timestamp })
+        ]),
+        ...(batch.delete ?? []).flatMap(id => [
+          store.delete(id),
+          changeStore.put({ categoryId: id, category: null, timestamp })
+        ]),
+        tx.done
+      ]);
+    }
+  };
+}
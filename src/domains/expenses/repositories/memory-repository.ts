@@ -0,0 +1,187 @@
+/**
+ * In-Memory Expense Repository
+ *
+ * Non-persistent backend used when IndexedDB is unavailable (private mode,
+ * SSR) and in tests. Data lives until the page is reloaded.
+ *
+ * @module domains/expenses/repositories/memory-repository
+ */
+
+import type {
+  CategoryDefinition,
+  CategoryWriteBatch,
+  Expense,
+  ExpenseFilters,
+  ExpenseQueryResult,
+  ExpenseRepository,
+  ExpenseRevision,
+  ExpenseWriteBatch
+} from '../types';
+import {
+  compareExpenses,
+  decodeQueryCursor,
+  encodeQueryCursor,
+  getAmountConversion,
+  getCategoryNames,
+  isDeleted,
+  matchesFilters,
+  paginateExpenses,
+  resolveSortField,
+  summarizeExpenseGroups
+} from '../query';
+import { sortTags } from '../tags';
+import { DEFAULT_CATEGORIES } from '../categories';
+
+/**
+ * Create an in-memory repository
+ *
+ * Records are cloned on the way in and out, like IndexedDB does, so
+ * callers never share objects with the store.
+ *
+ * @param seed - Expenses to start with
+ * @param categorySeed - Categories to start with (default: the built-in ones)
+ * @returns Repository holding expenses in memory
+ *
+ * @example
+ * ```typescript
+ * const repository = createMemoryExpenseRepository([expense]);
+ * const result = await repository.query({ sortBy: 'amount' });
+ * ```
+ */
+export function createMemoryExpenseRepository(
+  seed: Expense[] = [],
+  categorySeed: readonly CategoryDefinition[] = DEFAULT_CATEGORIES
+): ExpenseRepository {
+  const expenses = new Map<string, Expense>(
+    seed.map(expense => [expense.id, structuredClone(expense)])
+  );
+  const revisions = new Map<string, ExpenseRevision>();
+  const categories = new Map<string, CategoryDefinition>(
+    categorySeed.map(category => [category.id, structuredClone(category)])
+  );
+
+  return {
+    kind: 'memory',
+    isPersistent: false,
+
+    async query(query: ExpenseFilters): Promise<ExpenseQueryResult> {
+      const sortBy = resolveSortField(query);
+      const sortOrder = query.sortOrder || 'desc';
+      const limit = query.limit || 20;
+      const offset = query.offset || 0;
+      const cursor = query.cursor ? decodeQueryCursor(query.cursor) : null;
+      const conversion = getAmountConversion(query);
+      const categoryNames =
+        query.groupBy === 'category'
+          ? getCategoryNames([...categories.values()])
+          : undefined;
+
+      const matches = [...expenses.values()]
+        .filter(expense => matchesFilters(expense, query))
+        .sort(
+          compareExpenses(
+            sortBy,
+            sortOrder,
+            query.searchQuery,
+            query.groupBy,
+            categoryNames,
+            conversion
+          )
+        );
+
+      const page = paginateExpenses(matches, {
+        cursor,
+        offset,
+        limit,
+        sortBy,
+        sortOrder,
+        searchQuery: query.searchQuery,
+        groupBy: query.groupBy,
+        categoryNames,
+        conversion
+      });
+
+      return {
+        expenses: structuredClone(page.expenses),
+        totalCount: matches.length,
+        hasMore: page.hasMore,
+        offset,
+        limit,
+        nextCursor: page.hasMore
+          ? encodeQueryCursor(
+              page.expenses[page.expenses.length - 1],
+              sortBy,
+              query.searchQuery,
+              query.groupBy,
+              conversion
+            )
+          : null,
+        ...(query.groupBy && {
+          groups: summarizeExpenseGroups(matches, query.groupBy)
+        })
+      };
+    },
+
+    async getById(id: string): Promise<Expense | undefined> {
+      const expense = expenses.get(id);
+      return expense && structuredClone(expense);
+    },
+
+    async getByIds(ids: string[]): Promise<Expense[]> {
+      return ids
+        .map(id => expenses.get(id))
+        .filter((expense): expense is Expense => !!expense)
+        .map(expense => structuredClone(expense));
+    },
+
+    async getDeleted(deletedBefore?: string): Promise<Expense[]> {
+      return [...expenses.values()]
+        .filter(
+          expense =>
+            isDeleted(expense) &&
+            (!deletedBefore || expense.deletedAt! <= deletedBefore)
+        )
+        .sort((a, b) => a.deletedAt!.localeCompare(b.deletedAt!))
+        .map(expense => structuredClone(expense));
+    },
+
+    async getTags(): Promise<string[]> {
+      return sortTags(
+        new Set([...expenses.values()].flatMap(expense => expense.tags))
+      );
+    },
+
+    async getRevisions(expenseId: string): Promise<ExpenseRevision[]> {
+      return [...revisions.values()]
+        .filter(revision => revision.expenseId === expenseId)
+        .map(revision => structuredClone(revision));
+    },
+
+    async commit(batch: ExpenseWriteBatch): Promise<void> {
+      // Clone first so a failure leaves the store untouched
+      const put = structuredClone(batch.put ?? []);
+      const added = structuredClone(batch.revisions ?? []);
+      const deleted = new Set(batch.delete ?? []);
+
+      put.forEach(expense => expenses.set(expense.id, expense));
+      added.forEach(revision => revisions.set(revision.id, revision));
+      deleted.forEach(id => expenses.delete(id));
+      revisions.forEach((revision, revisionId) => {
+        if (deleted.has(revision.expenseId)) {
+          revisions.delete(revisionId);
+        }
+      });
+    },
+
+    async getCategories(): Promise<CategoryDefinition[]> {
+      return structuredClone([...categories.values()]);
+    },
+
+    async commitCategories(batch: CategoryWriteBatch): Promise<void> {
+      const put = structuredClone(batch.put ?? []);
+
+      put.forEach(category => categories.set(category.id, category));
+      batch.delete?.forEach(id => categories.delete(id));
+    }
+  };
+}
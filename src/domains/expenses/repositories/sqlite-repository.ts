@@ -0,0 +1,468 @@
+/**
+ * SQLite Expense Repository (server only)
+ *
+ * Backend used by the `/api/expenses` route handlers. SQL narrows rows by
+ * trash state, category, tags, date and amount range (unless amounts are
+ * compared in another currency); the shared helpers in `query.ts` apply
+ * search, exclusions, conversions, sort and pagination, so results match the other backends.
+ * Every commit (categories included) is stamped with the next sync sequence
+ * number so sync clients can pull what changed (`getSqliteSyncStore`).
+ *
+ * @module domains/expenses/repositories/sqlite-repository
+ */
+
+import { getSqliteDB } from '@/lib/sqlite';
+import {
+  getActiveExpenseRepository,
+  setExpenseRepository
+} from '../repository';
+import type { SyncServerStore } from '../sync/server';
+import type {
+  CategoryColor,
+  CategoryDefinition,
+  CategoryIconName,
+  CategoryWriteBatch,
+  Expense,
+  ExpenseCategory,
+  ExpenseFilters,
+  ExpenseQueryResult,
+  ExpenseRepository,
+  ExpenseRevision,
+  ExpenseWriteBatch
+} from '../types';
+import {
+  compareExpenses,
+  decodeQueryCursor,
+  encodeQueryCursor,
+  getAmountConversion,
+  getCategoryNames,
+  matchesFilters,
+  paginateExpenses,
+  resolveSortField,
+  summarizeExpenseGroups
+} from '../query';
+import { sortTags } from '../tags';
+
+interface ExpenseRow {
+  id: string;
+  description: string;
+  amount: number;
+  currency: string;
+  category: string;
+  date: string;
+  tags: string;
+  created_at: string;
+  updated_at: string;
+  deleted_at: string | null;
+  seq: number;
+}
+
+interface RevisionRow {
+  id: string;
+  expense_id: string;
+  timestamp: string;
+  source: string;
+  changes: string;
+  reverted_to: string | null;
+}
+
+interface CategoryRow {
+  id: string;
+  name: string;
+  color: string;
+  icon: string;
+  parent_id: string | null;
+  archived_at: string | null;
+  created_at: string;
+  updated_at: string;
+  seq: number;
+}
+
+/**
+ * Convert a row to an expense (tags are stored as JSON)
+ */
+function toExpense(row: ExpenseRow): Expense {
+  return {
+    id: row.id,
+    description: row.description,
+    amount: row.amount,
+    currency: row.currency,
+    category: row.category as ExpenseCategory,
+    date: row.date,
+    tags: JSON.parse(row.tags),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    deletedAt: row.deleted_at
+  };
+}
+
+/**
+ * Convert a row to a revision (changes are stored as JSON)
+ */
+function toRevision(row: RevisionRow): ExpenseRevision {
+  return {
+    id: row.id,
+    expenseId: row.expense_id,
+    timestamp: row.timestamp,
+    source: row.source as ExpenseRevision['source'],
+    changes: JSON.parse(row.changes),
+    revertedTo: row.reverted_to
+  };
+}
+
+/**
+ * Convert a row to a category
+ */
+function toCategory(row: CategoryRow): CategoryDefinition {
+  return {
+    id: row.id,
+    name: row.name,
+    color: row.color as CategoryColor,
+    icon: row.icon as CategoryIconName,
+    parentId: row.parent_id,
+    archivedAt: row.archived_at,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+let repository: ExpenseRepository | null = null;
+
+/**
+ * Create the SQLite-backed repository
+ *
+ * @returns Repository storing expenses in the server's SQLite file
+ */
+export function createSqliteExpenseRepository(): ExpenseRepository {
+  const db = getSqliteDB();
+
+  const selectById = db.prepare<[string], ExpenseRow>(
+    'SELECT * FROM expenses WHERE id = ?'
+  );
+  const nextSeq = db.prepare<[], { value: number }>(
+    'UPDATE sync_sequence SET value = value + 1 WHERE id = 1 RETURNING value'
+  );
+  const upsertExpense = db.prepare(
+    `INSERT INTO expenses (id, description, amount, currency, category, date, tags, created_at, updated_at, deleted_at, seq)
+     VALUES (@id, @description, @amount, @currency, @category, @date, @tags, @createdAt, @updatedAt, @deletedAt, @seq)
+     ON CONFLICT (id) DO UPDATE SET
+       description = excluded.description,
+       amount = excluded.amount,
+       currency = excluded.currency,
+       category = excluded.category,
+       date = excluded.date,
+       tags = excluded.tags,
+       created_at = excluded.created_at,
+       updated_at = excluded.updated_at,
+       deleted_at = excluded.deleted_at,
+       seq = excluded.seq`
+  );
+  const insertRevision = db.prepare(
+    `INSERT INTO revisions (id, expense_id, timestamp, source, changes, reverted_to)
+     VALUES (@id, @expenseId, @timestamp, @source, @changes, @revertedTo)`
+  );
+  const deleteExpense = db.prepare('DELETE FROM expenses WHERE id = ?');
+  const deleteRevisions = db.prepare(
+    'DELETE FROM revisions WHERE expense_id = ?'
+  );
+  const upsertTombstone = db.prepare(
+    `INSERT INTO tombstones (id, seq) VALUES (?, ?)
+     ON CONFLICT (id) DO UPDATE SET seq = excluded.seq`
+  );
+  const deleteTombstone = db.prepare('DELETE FROM tombstones WHERE id = ?');
+  const upsertCategory = db.prepare(
+    `INSERT INTO categories (id, name, color, icon, parent_id, archived_at, created_at, updated_at, seq)
+     VALUES (@id, @name, @color, @icon, @parentId, @archivedAt, @createdAt, @updatedAt, @seq)
+     ON CONFLICT (id) DO UPDATE SET
+       name = excluded.name,
+       color = excluded.color,
+       icon = excluded.icon,
+       parent_id = excluded.parent_id,
+       archived_at = excluded.archived_at,
+       created_at = excluded.created_at,
+       updated_at = excluded.updated_at,
+       seq = excluded.seq`
+  );
+  const selectCategories = db.prepare<[], CategoryRow>(
+    'SELECT * FROM categories'
+  );
+  const deleteCategory = db.prepare('DELETE FROM categories WHERE id = ?');
+  const upsertCategoryTombstone = db.prepare(
+    `INSERT INTO category_tombstones (id, seq) VALUES (?, ?)
+     ON CONFLICT (id) DO UPDATE SET seq = excluded.seq`
+  );
+  const deleteCategoryTombstone = db.prepare(
+    'DELETE FROM category_tombstones WHERE id = ?'
+  );
+
+  const commit = db.transaction((batch: ExpenseWriteBatch) => {
+    const seq = nextSeq.get()!.value;
+
+    batch.put?.forEach(expense => {
+      upsertExpense.run({ ...expense, tags: JSON.stringify(expense.tags), seq });
+      deleteTombstone.run(expense.id);
+    });
+    batch.revisions?.forEach(revision =>
+      insertRevision.run({
+        ...revision,
+        changes: JSON.stringify(revision.changes)
+      })
+    );
+    batch.delete?.forEach(id => {
+      deleteExpense.run(id);
+      deleteRevisions.run(id);
+      upsertTombstone.run(id, seq);
+    });
+  });
+
+  const commitCategories = db.transaction((batch: CategoryWriteBatch) => {
+    const seq = nextSeq.get()!.value;
+
+    batch.put?.forEach(category => {
+      upsertCategory.run({ ...category, seq });
+      deleteCategoryTombstone.run(category.id);
+    });
+    batch.delete?.forEach(id => {
+      deleteCategory.run(id);
+      upsertCategoryTombstone.run(id, seq);
+    });
+  });
+
+  return {
+    kind: 'sqlite',
+    isPersistent: true,
+
+    async query(query: ExpenseFilters): Promise<ExpenseQueryResult> {
+      const sortBy = resolveSortField(query);
+      const sortOrder = query.sortOrder || 'desc';
+      const limit = query.limit || 20;
+      const offset = query.offset || 0;
+      const cursor = query.cursor ? decodeQueryCursor(query.cursor) : null;
+      const conversion = getAmountConversion(query);
+      const categoryNames =
+        query.groupBy === 'category'
+          ? getCategoryNames(selectCategories.all().map(toCategory))
+          : undefined;
+
+      const where = ['deleted_at IS NULL'];
+      const params: (string | number)[] = [];
+      if (query.dateFrom) {
+        where.push('date >= ?');
+        params.push(query.dateFrom);
+      }
+      if (query.dateTo) {
+        where.push('date <= ?');
+        params.push(query.dateTo);
+      }
+      // Converted amounts are compared in `matchesFilters` instead
+      if (query.amountMin !== undefined && !conversion) {
+        where.push('amount >= ?');
+        params.push(query.amountMin);
+      }
+      if (query.amountMax !== undefined && !conversion) {
+        where.push('amount <= ?');
+        params.push(query.amountMax);
+      }
+      if (query.categories && query.categories.length > 0) {
+        where.push(
+          `category IN (${query.categories.map(() => '?').join(', ')})`
+        );
+        params.push(...query.categories);
+      }
+      if (query.tags && query.tags.length > 0) {
+        const hasTag = (tags: string[]) =>
+          `EXISTS (SELECT 1 FROM json_each(expenses.tags) WHERE value IN (${tags.map(() => '?').join(', ')}))`;
+        // `all`: one EXISTS per tag; `any`: one EXISTS over every tag
+        const groups =
+          query.tagMatch === 'any' ? [query.tags] : query.tags.map(tag => [tag]);
+        groups.forEach(tags => {
+          where.push(hasTag(tags));
+          params.push(...tags);
+        });
+      }
+
+      const rows = db
+        .prepare<
+          (string | number)[],
+          ExpenseRow
+        >(`SELECT * FROM expenses WHERE ${where.join(' AND ')}`)
+        .all(...params);
+
+      const matches = rows
+        .map(toExpense)
+        .filter(expense => matchesFilters(expense, query))
+        .sort(
+          compareExpenses(
+            sortBy,
+            sortOrder,
+            query.searchQuery,
+            query.groupBy,
+            categoryNames,
+            conversion
+          )
+        );
+
+      const page = paginateExpenses(matches, {
+        cursor,
+        offset,
+        limit,
+        sortBy,
+        sortOrder,
+        searchQuery: query.searchQuery,
+        groupBy: query.groupBy,
+        categoryNames,
+        conversion
+      });
+
+      return {
+        expenses: page.expenses,
+        totalCount: matches.length,
+        hasMore: page.hasMore,
+        offset,
+        limit,
+        nextCursor: page.hasMore
+          ? encodeQueryCursor(
+              page.expenses[page.expenses.length - 1],
+              sortBy,
+              query.searchQuery,
+              query.groupBy,
+              conversion
+            )
+          : null,
+        ...(query.groupBy && {
+          groups: summarizeExpenseGroups(matches, query.groupBy)
+        })
+      };
+    },
+
+    async getById(id: string): Promise<Expense | undefined> {
+      const row = selectById.get(id);
+      return row && toExpense(row);
+    },
+
+    async getByIds(ids: string[]): Promise<Expense[]> {
+      return ids
+        .map(id => selectById.get(id))
+        .filter((row): row is ExpenseRow => !!row)
+        .map(toExpense);
+    },
+
+    async getDeleted(deletedBefore?: string): Promise<Expense[]> {
+      const rows = deletedBefore
+        ? db
+            .prepare<
+              [string],
+              ExpenseRow
+            >('SELECT * FROM expenses WHERE deleted_at IS NOT NULL AND deleted_at <= ? ORDER BY deleted_at')
+            .all(deletedBefore)
+        : db
+            .prepare<
+              [],
+              ExpenseRow
+            >('SELECT * FROM expenses WHERE deleted_at IS NOT NULL ORDER BY deleted_at')
+            .all();
+      return rows.map(toExpense);
+    },
+
+    async getTags(): Promise<string[]> {
+      const rows = db
+        .prepare<
+          [],
+          { tag: string }
+        >('SELECT DISTINCT json_each.value AS tag FROM expenses, json_each(expenses.tags)')
+        .all();
+      return sortTags(rows.map(row => row.tag));
+    },
+
+    async getRevisions(expenseId: string): Promise<ExpenseRevision[]> {
+      return db
+        .prepare<
+          [string],
+          RevisionRow
+        >('SELECT * FROM revisions WHERE expense_id = ?')
+        .all(expenseId)
+        .map(toRevision);
+    },
+
+    async commit(batch: ExpenseWriteBatch): Promise<void> {
+      commit(batch);
+    },
+
+    async getCategories(): Promise<CategoryDefinition[]> {
+      return selectCategories.all().map(toCategory);
+    },
+
+    async commitCategories(batch: CategoryWriteBatch): Promise<void> {
+      commitCategories(batch);
+    }
+  };
+}
+
+/**
+ * Get the process-wide SQLite repository (created on first use)
+ */
+export function getSqliteExpenseRepository(): ExpenseRepository {
+  if (!repository) {
+    repository = createSqliteExpenseRepository();
+  }
+  return repository;
+}
+
+/**
+ * Get the sync server storage on top of the SQLite repository
+ *
+ * @returns Store for `handleSyncRequest` (used by `/api/sync`)
+ */
+export function getSqliteSyncStore(): SyncServerStore {
+  const db = getSqliteDB();
+  const repository = getSqliteExpenseRepository();
+
+  const readChangesSince = db.transaction((since: number) => ({
+    seq: db
+      .prepare<[], { value: number }>('SELECT value FROM sync_sequence WHERE id = 1')
+      .get()!.value,
+    expenses: db
+      .prepare<[number], ExpenseRow>('SELECT * FROM expenses WHERE seq > ? ORDER BY seq')
+      .all(since)
+      .map(toExpense),
+    deleted: db
+      .prepare<[number], { id: string }>('SELECT id FROM tombstones WHERE seq > ?')
+      .all(since)
+      .map(row => row.id),
+    categories: db
+      .prepare<[number], CategoryRow>('SELECT * FROM categories WHERE seq > ? ORDER BY seq')
+      .all(since)
+      .map(toCategory),
+    deletedCategories: db
+      .prepare<[number], { id: string }>('SELECT id FROM category_tombstones WHERE seq > ?')
+      .all(since)
+      .map(row => row.id)
+  }));
+
+  return {
+    getByIds: ids => repository.getByIds(ids),
+    commit: batch => repository.commit(batch),
+    async getCategoriesByIds(ids: string[]) {
+      const wanted = new Set(ids);
+      return (await repository.getCategories()).filter(category =>
+        wanted.has(category.id)
+      );
+    },
+    commitCategories: batch => repository.commitCategories(batch),
+    async getChangesSince(since: number) {
+      return readChangesSince(since);
+    }
+  };
+}
+
+/**
+ * Make the SQLite repository the one every action uses (idempotent)
+ *
+ * Call at the start of each `/api/expenses` handler; opening lazily keeps
+ * `next build` from creating the database file.
+ */
+export function activateSqliteExpenseRepository(): void {
+  if (getActiveExpenseRepository()?.kind !== 'sqlite') {
+    setExpenseRepository(getSqliteExpenseRepository());
+  }
+}
@@ -0,0 +1,142 @@
+/**
+ * Expense Repository Selection
+ *
+ * Picks the storage backend behind `actions.ts`: the expenses API in
+ * "server" storage mode, otherwise IndexedDB when it opens, falling back to
+ * an in-memory repository so the app keeps working (private-mode browsers,
+ * SSR). Listeners are told when data is not being persisted.
+ *
+ * @module domains/expenses/repository
+ */
+
+import { isIndexedDBSupported } from '@/lib/db';
+import { getExpenseDB } from '@/lib/db-connection';
+import type { ExpenseRepository, ExpenseStorageMode } from './types';
+import { logError } from './errors';
+import { createHttpExpenseRepository } from './repositories/http-repository';
+import { createIndexedDBExpenseRepository } from './repositories/indexeddb-repository';
+import { createMemoryExpenseRepository } from './repositories/memory-repository';
+
+type RepositoryListener = (repository: ExpenseRepository) => void;
+
+let storageMode: ExpenseStorageMode = 'local';
+let activeRepository: ExpenseRepository | null = null;
+let resolving: Promise<ExpenseRepository> | null = null;
+const listeners = new Set<RepositoryListener>();
+
+/**
+ * Make a repository the active one and notify listeners
+ */
+function activate(repository: ExpenseRepository): ExpenseRepository {
+  activeRepository = repository;
+  listeners.forEach(listener => listener(repository));
+  return repository;
+}
+
+/**
+ * Try IndexedDB, falling back to memory when it cannot be opened
+ *
+ * A database upgraded by a newer build (`VersionError`) is not a reason to
+ * fall back: the data is there, the page just needs a reload.
+ */
+async function resolveRepository(): Promise<ExpenseRepository> {
+  if (storageMode === 'server') {
+    return activate(createHttpExpenseRepository());
+  }
+  if (!isIndexedDBSupported()) {
+    return activate(createMemoryExpenseRepository());
+  }
+
+  try {
+    await getExpenseDB();
+    if (storageMode !== 'local') {
+      // Switched to server mode while the database was opening
+      return getExpenseRepository();
+    }
+    return activate(createIndexedDBExpenseRepository());
+  } catch (error) {
+    if (error instanceof Error && error.name === 'VersionError') {
+      throw error;
+    }
+    // IndexedDB is unavailable: keep the data in memory
+    logError(error, { operation: 'resolveRepository', fallback: 'memory' });
+    return activate(createMemoryExpenseRepository());
+  }
+}
+
+/**
+ * Get the active repository, choosing a backend on first use
+ *
+ * @returns The repository every action reads from and writes to
+ * @throws {Error} If the database was upgraded by a newer version of the app
+ */
+export async function getExpenseRepository(): Promise<ExpenseRepository> {
+  if (activeRepository) {
+    return activeRepository;
+  }
+  if (!resolving) {
+    resolving = resolveRepository().finally(() => {
+      resolving = null;
+    });
+  }
+  return resolving;
+}
+
+/**
+ * Switch between local (IndexedDB) and server storage
+ *
+ * The next action resolves the repository for the new mode. Data is not
+ * copied between backends.
+ *
+ * @param mode - Storage mode chosen in settings
+ * @returns True if the mode changed
+ */
+export function configureExpenseStorage(mode: ExpenseStorageMode): boolean {
+  if (mode === storageMode) {
+    return false;
+  }
+  storageMode = mode;
+  activeRepository = null;
+  resolving = null;
+  if (mode === 'server') {
+    activate(createHttpExpenseRepository());
+  }
+  return true;
+}
+
+/**
+ * Replace the active repository (e.g. a seeded memory repository in tests)
+ *
+ * @param repository - Repository to use, or null to choose again on next use
+ */
+export function setExpenseRepository(
+  repository: ExpenseRepository | null
+): void {
+  if (repository) {
+    activate(repository);
+  } else {
+    activeRepository = null;
+  }
+}
+
+/**
+ * Read the active repository without choosing one (null until first use)
+ */
+export function getActiveExpenseRepository(): ExpenseRepository | null {
+  return activeRepository;
+}
+
+/**
+ * Listen for the active repository changing
+ *
+ * @param listener - Called with the newly active repository
+ * @returns Unsubscribe function
+ */
+export function subscribeToExpenseRepository(
+  listener: RepositoryListener
+): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,117 @@
+/**
+ * Expense Revision Helpers
+ *
+ * Pure helpers for the per-expense revision log: field-level diffs and
+ * rebuilding the state of an expense as of an earlier revision.
+ * They never touch IndexedDB, so any storage backend can reuse them.
+ *
+ * @module domains/expenses/revisions
+ */
+
+import type {
+  Expense,
+  ExpenseFieldChange,
+  ExpenseRevision,
+  ExpenseRevisionField,
+  UpdateExpenseInput
+} from './types';
+import { ExpenseOperationError } from './errors';
+
+/**
+ * Fields tracked by the revision log, in display order
+ */
+export const REVISION_FIELDS: readonly ExpenseRevisionField[] = [
+  'description',
+  'amount',
+  'currency',
+  'category',
+  'date',
+  'tags'
+] as const;
+
+/**
+ * Compare two values of a tracked field (tags are compared in order)
+ */
+export function isSameFieldValue(a: unknown, b: unknown): boolean {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((value, i) => value === b[i]);
+  }
+  return a === b;
+}
+
+/**
+ * Build a field-level diff between two versions of an expense
+ *
+ * Pass `null` as `before` for a newly created expense; every tracked field
+ * is then reported as changed from `null`.
+ */
+export function diffExpenses(
+  before: Expense | null,
+  after: Expense
+): ExpenseFieldChange[] {
+  return REVISION_FIELDS.filter(
+    field => !before || !isSameFieldValue(before[field], after[field])
+  ).map(
+    field =>
+      ({
+        field,
+        from: before ? before[field] : null,
+        to: after[field]
+      }) as ExpenseFieldChange
+  );
+}
+
+/**
+ * Sort revisions oldest first
+ */
+export function sortRevisions(revisions: ExpenseRevision[]): ExpenseRevision[] {
+  return [...revisions].sort((a, b) =>
+    a.timestamp === b.timestamp ? 0 : a.timestamp > b.timestamp ? 1 : -1
+  );
+}
+
+/**
+ * Rebuild the tracked fields of an expense as they were right after a revision
+ *
+ * Walks back from the current expense, undoing every later revision.
+ *
+ * @param current - Current expense
+ * @param revisions - Revision log of the expense (any order)
+ * @param revisionId - Revision to rebuild
+ * @returns Field values to apply with `updateExpense`
+ * @throws {ExpenseOperationError} If the revision is not in the log
+ */
+export function getExpenseAtRevision(
+  current: Expense,
+  revisions: ExpenseRevision[],
+  revisionId: string
+): Required<UpdateExpenseInput> {
+  const sorted = sortRevisions(revisions);
+  const index = sorted.findIndex(revision => revision.id === revisionId);
+
+  if (index === -1) {
+    throw new ExpenseOperationError('revert expense', 'revision not found', {
+      expenseId: current.id,
+      revisionId
+    });
+  }
+
+  const snapshot: Required<UpdateExpenseInput> = {
+    description: current.description,
+    amount: current.amount,
+    currency: current.currency,
+    category: current.category,
+    date: current.date,
+    tags: current.tags
+  };
+
+  for (const revision of sorted.slice(index + 1).reverse()) {
+    for (const change of revision.changes) {
+      if (change.from !== null) {
+        Object.assign(snapshot, { [change.field]: change.from });
+      }
+    }
+  }
+
+  return snapshot;
+}
@@ -0,0 +1,288 @@
+/**
+ * Saved Filter Views
+ *
+ * Named snapshots of the expense filters, stored in IndexedDB (`savedViews`
+ * store). Views are a preference of this device: they are not synced and
+ * do not go through the expense repository.
+ *
+ * A view keeps its date filter as is, so a relative range ("last 30 days",
+ * "this quarter") is resolved on the day the view is applied.
+ *
+ * @module domains/expenses/saved-views
+ */
+
+import { SAVED_VIEWS_STORE_NAME } from '@/lib/db';
+import { getExpenseDB } from '@/lib/db-connection';
+import type {
+  DateRangeFilter,
+  ExpenseFiltersState,
+  ExpenseQuery,
+  SavedDateRange,
+  SavedFilterView
+} from './types';
+import { ExpenseValidationError, IndexedDBError } from './errors';
+import { isSameDateRangeFilter } from './date-range';
+
+/**
+ * Maximum length of a view name
+ */
+export const MAX_VIEW_NAME_LENGTH = 50;
+
+type FilterValues = Pick<
+  ExpenseFiltersState,
+  | 'selectedCategories'
+  | 'selectedTags'
+  | 'tagMatch'
+  | 'dateRange'
+  | 'amountRange'
+  | 'searchQuery'
+  | 'excludedTerms'
+  | 'sort'
+>;
+
+/**
+ * Convert a date filter to its stored form (dates as ISO 8601 strings)
+ */
+function toSavedDateRange(range: DateRangeFilter): SavedDateRange {
+  return range.type === 'absolute'
+    ? {
+        type: 'absolute',
+        from: range.from?.toISOString() ?? null,
+        to: range.to?.toISOString() ?? null
+      }
+    : range;
+}
+
+/**
+ * Convert a stored date filter back to a date filter
+ */
+function fromSavedDateRange(range: SavedDateRange): DateRangeFilter {
+  return range.type === 'absolute'
+    ? {
+        type: 'absolute',
+        from: range.from ? new Date(range.from) : null,
+        to: range.to ? new Date(range.to) : null
+      }
+    : range;
+}
+
+/**
+ * Snapshot the current filters as view filters
+ *
+ * @param values - Current filter values
+ * @param dateRange - Date filter to save instead of the current one
+ *   (e.g. "last 30 days" while the current filter has fixed dates)
+ */
+export function toSavedViewFilters(
+  values: FilterValues,
+  dateRange: DateRangeFilter = values.dateRange
+): SavedFilterView['filters'] {
+  return {
+    categories: values.selectedCategories,
+    tags: values.selectedTags,
+    tagMatch: values.tagMatch,
+    dateRange: toSavedDateRange(dateRange),
+    amountRange: values.amountRange,
+    searchQuery: values.searchQuery,
+    excludedTerms: values.excludedTerms,
+    sort: values.sort
+  };
+}
+
+/**
+ * Build the query that applies a view (see `setQuery` in the filters store)
+ */
+export function toExpenseQuery(view: SavedFilterView): ExpenseQuery {
+  const { filters } = view;
+  return {
+    categories: filters.categories,
+    tags: filters.tags,
+    tagMatch: filters.tagMatch,
+    dateRange: fromSavedDateRange(filters.dateRange),
+    amountRange: filters.amountRange,
+    searchQuery: filters.searchQuery,
+    excludedTerms: filters.excludedTerms,
+    sort: filters.sort
+  };
+}
+
+/**
+ * Check if the current filters are the ones a view applies
+ */
+export function matchesSavedView(
+  view: SavedFilterView,
+  values: FilterValues
+): boolean {
+  const query = toExpenseQuery(view);
+  const sameList = (a: string[], b: string[]) =>
+    a.length === b.length && a.every(item => b.includes(item));
+
+  return (
+    sameList(query.categories, values.selectedCategories) &&
+    sameList(query.tags, values.selectedTags) &&
+    query.tagMatch === values.tagMatch &&
+    isSameDateRangeFilter(query.dateRange, values.dateRange) &&
+    query.amountRange.min === values.amountRange.min &&
+    query.amountRange.max === values.amountRange.max &&
+    query.searchQuery === values.searchQuery &&
+    sameList(query.excludedTerms, values.excludedTerms) &&
+    query.sort?.field === values.sort.field &&
+    query.sort?.order === values.sort.order
+  );
+}
+
+/**
+ * Validate a view name against the other views
+ *
+ * @returns Trimmed name
+ * @throws {ExpenseValidationError} If the name is empty, too long or taken
+ */
+function validateViewName(
+  name: string,
+  views: SavedFilterView[],
+  id: string | null = null
+): string {
+  const trimmed = name.trim();
+  let message: string | null = null;
+
+  if (!trimmed) {
+    message = 'El nombre de la vista es requerido';
+  } else if (trimmed.length > MAX_VIEW_NAME_LENGTH) {
+    message = `El nombre no puede exceder ${MAX_VIEW_NAME_LENGTH} caracteres`;
+  } else if (
+    views.some(
+      view =>
+        view.id !== id &&
+        view.name.toLocaleLowerCase() === trimmed.toLocaleLowerCase()
+    )
+  ) {
+    message = 'Ya existe una vista con ese nombre';
+  }
+
+  if (message) {
+    throw new ExpenseValidationError(message, { name: [message] });
+  }
+  return trimmed;
+}
+
+/**
+ * Get all saved views, sorted by name
+ *
+ * @throws {IndexedDBError} If database operation fails
+ */
+export async function getSavedViews(): Promise<SavedFilterView[]> {
+  try {
+    const db = await getExpenseDB();
+    const views = (await db.getAll(
+      SAVED_VIEWS_STORE_NAME
+    )) as SavedFilterView[];
+    return views.sort((a, b) => a.name.localeCompare(b.name, 'es'));
+  } catch (error) {
+    throw new IndexedDBError(
+      'Failed to get saved views',
+      'read',
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
+/**
+ * Save filters as a new named view
+ *
+ * @param name - View name (unique, case-insensitive)
+ * @param filters - Filters to save (see `toSavedViewFilters`)
+ * @returns Created view
+ * @throws {ExpenseValidationError} If the name is invalid
+ * @throws {IndexedDBError} If database operation fails
+ *
+ * @example
+ * ```typescript
+ * const view = await createSavedView(
+ *   'Ocio del trimestre',
+ *   toSavedViewFilters(filters, { type: 'thisQuarter' })
+ * );
+ * ```
+ */
+export async function createSavedView(
+  name: string,
+  filters: SavedFilterView['filters']
+): Promise<SavedFilterView> {
+  const views = await getSavedViews();
+  const now = new Date().toISOString();
+  const view: SavedFilterView = {
+    id: crypto.randomUUID(),
+    name: validateViewName(name, views),
+    filters,
+    createdAt: now,
+    updatedAt: now
+  };
+
+  try {
+    const db = await getExpenseDB();
+    await db.add(SAVED_VIEWS_STORE_NAME, view);
+    return view;
+  } catch (error) {
+    throw new IndexedDBError(
+      'Failed to save view',
+      'write',
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
+/**
+ * Rename a saved view
+ *
+ * @returns Renamed view
+ * @throws {ExpenseValidationError} If the view is gone or the name is invalid
+ * @throws {IndexedDBError} If database operation fails
+ */
+export async function renameSavedView(
+  id: string,
+  name: string
+): Promise<SavedFilterView> {
+  const views = await getSavedViews();
+  const view = views.find(candidate => candidate.id === id);
+  if (!view) {
+    const message = 'La vista ya no existe';
+    throw new ExpenseValidationError(message, { id: [message] }, { id });
+  }
+
+  const renamed: SavedFilterView = {
+    ...view,
+    name: validateViewName(name, views, id),
+    updatedAt: new Date().toISOString()
+  };
+
+  try {
+    const db = await getExpenseDB();
+    await db.put(SAVED_VIEWS_STORE_NAME, renamed);
+    return renamed;
+  } catch (error) {
+    throw new IndexedDBError(
+      'Failed to rename view',
+      'write',
+      error instanceof Error ? error : undefined,
+      { id }
+    );
+  }
+}
+
+/**
+ * Delete a saved view (no-op if it does not exist)
+ *
+ * @throws {IndexedDBError} If database operation fails
+ */
+export async function deleteSavedView(id: string): Promise<void> {
+  try {
+    const db = await getExpenseDB();
+    await db.delete(SAVED_VIEWS_STORE_NAME, id);
+  } catch (error) {
+    throw new IndexedDBError(
+      'Failed to delete view',
+      'delete',
+      error instanceof Error ? error : undefined,
+      { id }
+    );
+  }
+}
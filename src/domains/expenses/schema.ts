@@ -8,21 +8,63 @@
  */
 
 import { z } from 'zod';
-import { EXPENSE_CATEGORIES, type ExpenseCategory } from './types';
+import { CATEGORY_COLORS, CATEGORY_ICONS, type ExpenseCategory } from './types';
+import { MAX_TAG_LENGTH, MAX_TAGS, TAG_PATTERN, normalizeTags } from './tags';
+import { CURRENCY_PATTERN, DEFAULT_CURRENCY } from './currencies';
 
 /**
- * Category enum schema
- * Validates that category is one of the predefined values
+ * Category ID schema
+ * Categories are user data, so any ID is accepted here; use
+ * `createCategoryIdSchema` to check against the categories that exist.
  */
-export const expenseCategorySchema = z.enum([
-  'Comida',
-  'Transporte',
-  'Entretenimiento',
-  'Salud',
-  'Compras',
-  'Servicios',
-  'Otros',
-]);
+export const expenseCategorySchema = z
+  .string({ message: 'La categoría es obligatoria' })
+  .trim()
+  .min(1, { message: 'La categoría es obligatoria' })
+  .max(100, { message: 'La categoría no es válida' });
+
+/**
+ * Category ID schema restricted to the given categories
+ *
+ * @param categoryIds - IDs that are valid (e.g. the active categories)
+ *
+ * @example
+ * ```typescript
+ * const schema = createCategoryIdSchema(categories.map((category) => category.id));
+ * schema.safeParse('Mascotas');
+ * ```
+ */
+export function createCategoryIdSchema(categoryIds: readonly ExpenseCategory[]) {
+  return expenseCategorySchema.refine((id) => categoryIds.includes(id), {
+    message: 'Selecciona una categoría válida'
+  });
+}
+
+/**
+ * Maximum length of a category name
+ */
+export const MAX_CATEGORY_NAME_LENGTH = 30;
+
+/**
+ * Schema for the editable fields of a category
+ */
+export const categoryInputSchema = z.object({
+  name: z
+    .string({ message: 'El nombre de la categoría es obligatorio' })
+    .trim()
+    .min(1, { message: 'El nombre de la categoría es obligatorio' })
+    .max(MAX_CATEGORY_NAME_LENGTH, {
+      message: `El nombre no puede exceder ${MAX_CATEGORY_NAME_LENGTH} caracteres`
+    })
+    // Reserved by the search bar syntax (`categoria:"Cuidado personal",Salud`)
+    .refine((val) => !/[,"]/.test(val), {
+      message: 'El nombre no puede contener comas ni comillas'
+    }),
+  color: z.enum(CATEGORY_COLORS, { message: 'Selecciona un color válido' }),
+  icon: z.enum(CATEGORY_ICONS, { message: 'Selecciona un icono válido' }),
+  // Checked against the other categories (see domains/expenses/categories)
+  parentId: z.string().min(1).nullable()
+});
 
 /**
  * Description field validation
@@ -59,6 +101,40 @@ const amountSchema = z
     return decimalPlaces <= 2;
   }, { message: 'El monto debe tener máximo 2 decimales' });
 
+/**
+ * Currency code validation (ISO 4217, e.g. `MXN`, `USD`)
+ * Uppercased first, so `usd` is accepted
+ */
+export const currencySchema = z
+  .string({ message: 'La moneda es obligatoria' })
+  .trim()
+  .toUpperCase()
+  .regex(CURRENCY_PATTERN, { message: 'Selecciona una moneda válida' });
+
+/**
+ * Exchange rate fields validation
+ * Business rules:
+ * - Two different currencies
+ * - Day as `YYYY-MM-DD`
+ * - Rate greater than 0
+ */
+export const exchangeRateInputSchema = z
+  .object({
+    from: currencySchema,
+    to: currencySchema,
+    date: z
+      .string({ message: 'La fecha es obligatoria' })
+      .regex(/^\d{4}-\d{2}-\d{2}$/, { message: 'Selecciona una fecha válida' }),
+    rate: z
+      .number({ message: 'El tipo de cambio es obligatorio' })
+      .positive({ message: 'El tipo de cambio debe ser mayor a 0' })
+      .max(1_000_000, { message: 'El tipo de cambio excede el límite permitido' })
+  })
+  .refine(data => data.from !== data.to, {
+    message: 'Elige dos monedas distintas',
+    path: ['to']
+  });
+
 /**
  * Date field validation
  * Business rules:
@@ -97,6 +173,31 @@ const dateSchema = z
     { message: 'La fecha no puede ser anterior a 1900' }
   );
 
+/**
+ * Tags field validation
+ * Business rules:
+ * - Normalized first (lowercase, no `#`, no duplicates; see `tags.ts`)
+ * - Letters, digits, `-` and `_` only, up to 30 characters each
+ * - Maximum 10 tags
+ */
+const tagsSchema = z
+  .array(z.string())
+  .transform(normalizeTags)
+  .pipe(
+    z
+      .array(
+        z
+          .string()
+          .max(MAX_TAG_LENGTH, {
+            message: `Una etiqueta no puede exceder ${MAX_TAG_LENGTH} caracteres`
+          })
+          .regex(TAG_PATTERN, {
+            message: 'Las etiquetas solo pueden tener letras, números, - y _'
+          })
+      )
+      .max(MAX_TAGS, { message: `Máximo ${MAX_TAGS} etiquetas por gasto` })
+  );
+
 /**
  * Complete expense schema (for full entity)
  * Includes all fields including auto-generated ones
@@ -105,51 +206,198 @@ export const expenseSchema = z.object({
   id: z.string().uuid('ID debe ser un UUID válido'),
   description: descriptionSchema,
   amount: amountSchema,
+  // Missing on expenses written before currencies existed
+  currency: currencySchema.default(DEFAULT_CURRENCY),
   category: expenseCategorySchema,
   date: dateSchema,
+  // Missing on expenses written before tags existed
+  tags: tagsSchema.default([]),
   createdAt: z.string().datetime('createdAt debe ser fecha ISO 8601'),
   updatedAt: z.string().datetime('updatedAt debe ser fecha ISO 8601'),
+  deletedAt: z.string().datetime('deletedAt debe ser fecha ISO 8601').nullable()
 });
 
+/**
+ * Build the create schema around a category schema
+ */
+function buildCreateExpenseSchema(category: z.ZodType<ExpenseCategory>) {
+  return z.object({
+    description: descriptionSchema,
+    amount: amountSchema,
+    currency: currencySchema.default(DEFAULT_CURRENCY),
+    category,
+    date: dateSchema,
+    tags: tagsSchema.default([])
+  });
+}
+
+/**
+ * Build the update schema around a category schema
+ */
+function buildUpdateExpenseSchema(category: z.ZodType<ExpenseCategory>) {
+  return z
+    .object({
+      description: descriptionSchema.optional(),
+      amount: amountSchema.optional(),
+      currency: currencySchema.optional(),
+      category: category.optional(),
+      date: dateSchema.optional(),
+      tags: tagsSchema.optional()
+    })
+    .refine((data) => Object.keys(data).length > 0, {
+      message: 'Debes proporcionar al menos un campo para actualizar'
+    });
+}
+
 /**
  * Schema for creating a new expense
  * Omits auto-generated fields (id, createdAt, updatedAt)
  */
-export const createExpenseSchema = z.object({
-  description: descriptionSchema,
-  amount: amountSchema,
-  category: expenseCategorySchema,
-  date: dateSchema,
-});
+export const createExpenseSchema = buildCreateExpenseSchema(expenseCategorySchema);
 
 /**
  * Schema for updating an existing expense
  * All fields are optional (partial update)
  */
-export const updateExpenseSchema = z
-  .object({
-    description: descriptionSchema.optional(),
-    amount: amountSchema.optional(),
-    category: expenseCategorySchema.optional(),
-    date: dateSchema.optional(),
-  })
-  .refine((data) => Object.keys(data).length > 0, {
-    message: 'Debes proporcionar al menos un campo para actualizar',
-  });
+export const updateExpenseSchema = buildUpdateExpenseSchema(expenseCategorySchema);
+
+/**
+ * Create and update schemas that only accept the given categories
+ *
+ * The static schemas accept any category ID (stored expenses may point at
+ * archived or deleted categories); forms and the create/update actions
+ * validate against the categories the user can pick.
+ *
+ * @param categoryIds - Valid category IDs
+ *
+ * @example
+ * ```typescript
+ * const { create } = getExpenseInputSchemas(activeCategories.map((category) => category.id));
+ * const result = create.safeParse(input);
+ * ```
+ */
+export function getExpenseInputSchemas(categoryIds: readonly ExpenseCategory[]) {
+  const category = createCategoryIdSchema(categoryIds);
+  return {
+    create: buildCreateExpenseSchema(category),
+    update: buildUpdateExpenseSchema(category)
+  };
+}
 
 /**
  * Schema for expense filters
- * All fields are optional
+ * All fields are optional; the amount range must not be inverted
  */
 export const expenseFiltersSchema = z.object({
   categories: z.array(expenseCategorySchema).optional(),
+  tags: z.array(z.string()).transform(normalizeTags).optional(),
+  tagMatch: z.enum(['all', 'any']).optional(),
   dateFrom: z.string().datetime().optional(),
   dateTo: z.string().datetime().optional(),
   searchQuery: z.string().optional(),
-  sortBy: z.enum(['date', 'amount', 'createdAt']).optional(),
+  excludeTerms: z.array(z.string()).optional(),
+  amountMin: z.number().nonnegative().optional(),
+  amountMax: z.number().nonnegative().optional(),
+  amountCurrency: currencySchema.optional(),
+  exchangeRates: z.array(exchangeRateInputSchema).optional(),
+  sortBy: z.enum(['date', 'amount', 'createdAt', 'relevance']).optional(),
   sortOrder: z.enum(['asc', 'desc']).optional(),
   limit: z.number().int().positive().max(100).optional(),
   offset: z.number().int().nonnegative().optional(),
+  cursor: z.string().optional(),
+  groupBy: z.enum(['day', 'week', 'month', 'category']).optional()
+}).refine(
+  (filters) =>
+    filters.amountMin === undefined ||
+    filters.amountMax === undefined ||
+    filters.amountMin <= filters.amountMax,
+  { message: 'El monto mínimo no puede ser mayor que el máximo', path: ['amountMin'] }
+);
+
+/**
+ * Schema for a revision log entry
+ * Used to validate revisions received by the server
+ */
+export const expenseRevisionSchema = z.object({
+  id: z.string().uuid('ID debe ser un UUID válido'),
+  expenseId: z.string().uuid('expenseId debe ser un UUID válido'),
+  timestamp: z.string().datetime('timestamp debe ser fecha ISO 8601'),
+  source: z.enum(['form', 'chat', 'import', 'sync']),
+  changes: z.array(
+    z.object({
+      field: z.enum(['description', 'amount', 'currency', 'category', 'date', 'tags']),
+      from: z.union([z.string(), z.number(), z.array(z.string())]).nullable(),
+      to: z.union([z.string(), z.number(), z.array(z.string())])
+    })
+  ),
+  revertedTo: z.string().nullable()
+});
+
+/**
+ * Schema for an atomic write batch (see `ExpenseRepository.commit`)
+ */
+export const expenseWriteBatchSchema = z.object({
+  put: z.array(expenseSchema).optional(),
+  revisions: z.array(expenseRevisionSchema).optional(),
+  delete: z.array(z.string().uuid()).optional(),
+  origin: z.enum(['local', 'sync']).optional()
+});
+
+/**
+ * Schema for a stored category
+ * Used to validate categories received by the server. Names are not held
+ * to `categoryInputSchema`: categories created from old data by the
+ * IndexedDB migrations may not meet it.
+ */
+export const categoryDefinitionSchema = z.object({
+  id: expenseCategorySchema,
+  name: z.string().trim().min(1),
+  color: z.enum(CATEGORY_COLORS),
+  icon: z.enum(CATEGORY_ICONS),
+  parentId: expenseCategorySchema.nullable(),
+  archivedAt: z.string().datetime().nullable(),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime()
+});
+
+/**
+ * Schema for an atomic category write batch (see `ExpenseRepository.commitCategories`)
+ */
+export const categoryWriteBatchSchema = z.object({
+  put: z.array(categoryDefinitionSchema).optional(),
+  delete: z.array(expenseCategorySchema).optional()
+});
+
+/**
+ * Schema for a sync push/pull request (see `sync/server.ts`)
+ */
+export const syncRequestSchema = z.object({
+  since: z.number().int().nonnegative(),
+  changes: z.array(
+    z.object({
+      expenseId: z.string().uuid('expenseId debe ser un UUID válido'),
+      baseUpdatedAt: z.string().datetime().nullable(),
+      changes: z.array(
+        z.object({
+          field: z.enum(['description', 'amount', 'currency', 'category', 'date', 'tags', 'deletedAt']),
+          from: z.union([z.string(), z.number(), z.array(z.string())]).nullable(),
+          to: z.union([z.string(), z.number(), z.array(z.string())]).nullable()
+        })
+      ),
+      expense: expenseSchema.nullable(),
+      timestamp: z.string().datetime()
+    })
+  ),
+  // Missing in requests from clients that did not sync categories yet
+  categoryChanges: z
+    .array(
+      z.object({
+        categoryId: expenseCategorySchema,
+        category: categoryDefinitionSchema.nullable(),
+        timestamp: z.string().datetime()
+      })
+    )
+    .default([])
 });
 
 /**
@@ -160,6 +408,11 @@ export type ExpenseSchemaType = z.infer<typeof expenseSchema>;
 export type CreateExpenseSchemaType = z.infer<typeof createExpenseSchema>;
 export type UpdateExpenseSchemaType = z.infer<typeof updateExpenseSchema>;
 export type ExpenseFiltersSchemaType = z.infer<typeof expenseFiltersSchema>;
+export type CategoryInputSchemaType = z.infer<typeof categoryInputSchema>;
+export type ExchangeRateInputSchemaType = z.infer<typeof exchangeRateInputSchema>;
+export type ExpenseWriteBatchSchemaType = z.infer<typeof expenseWriteBatchSchema>;
+export type CategoryWriteBatchSchemaType = z.infer<typeof categoryWriteBatchSchema>;
+export type SyncRequestSchemaType = z.infer<typeof syncRequestSchema>;
 
 /**
  * Helper function to validate expense data
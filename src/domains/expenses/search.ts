@@ -0,0 +1,250 @@
+/**
+ * Expense Full-Text Search Helpers
+ *
+ * Pure helpers behind description search: diacritic-folded tokenization,
+ * prefix and typo-tolerant term matching, relevance scores and highlight
+ * ranges. The IndexedDB repository keeps the terms of every expense in a
+ * multiEntry index (see `repositories/indexeddb-repository.ts`); the other
+ * backends score descriptions directly. Both use the same matching rules.
+ *
+ * @module domains/expenses/search
+ */
+
+/**
+ * Score of a query token that equals an indexed term
+ */
+export const EXACT_MATCH_SCORE = 3;
+
+/**
+ * Score of a query token that starts an indexed term ("caf" → "cafe")
+ */
+export const PREFIX_MATCH_SCORE = 2;
+
+/**
+ * Score of a query token within the typo allowance ("uver" → "uber")
+ */
+export const FUZZY_MATCH_SCORE = 1;
+
+const TOKEN_PATTERN = /[\p{L}\p{N}]+/gu;
+
+/**
+ * Fold text for matching: lowercase without diacritics ("Café" → "cafe")
+ */
+export function normalizeSearchText(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/\p{Diacritic}/gu, '')
+    .toLowerCase();
+}
+
+/**
+ * Split text into unique folded tokens (letters and digits)
+ */
+export function tokenizeSearchText(text: string): string[] {
+  return [...new Set(normalizeSearchText(text).match(TOKEN_PATTERN) ?? [])];
+}
+
+/**
+ * Typos allowed for a query token: none for short tokens, where a single
+ * edit changes the word, then one, and two from eight characters on
+ */
+function getMaxEditDistance(token: string): number {
+  if (token.length >= 8) return 2;
+  if (token.length >= 4) return 1;
+  return 0;
+}
+
+/**
+ * Edit distance with adjacent transpositions, giving up above `max`
+ *
+ * @returns The distance, or `max + 1` when it is larger than `max`
+ */
+export function getEditDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) {
+    return max + 1;
+  }
+
+  let previousRow: number[] = [];
+  let row = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const beforePrevious = previousRow;
+    previousRow = row;
+    row = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(
+        previousRow[j] + 1,
+        row[j - 1] + 1,
+        previousRow[j - 1] + cost
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, beforePrevious[j - 2] + 1);
+      }
+      row[j] = value;
+      rowMin = Math.min(rowMin, value);
+    }
+
+    if (rowMin > max) {
+      return max + 1;
+    }
+  }
+
+  return row[b.length];
+}
+
+/**
+ * Score how well a folded query token matches an indexed term
+ *
+ * @returns EXACT_MATCH_SCORE, PREFIX_MATCH_SCORE, FUZZY_MATCH_SCORE,
+ * or 0 when it does not match
+ */
+export function matchSearchTerm(token: string, term: string): number {
+  if (term === token) {
+    return EXACT_MATCH_SCORE;
+  }
+  if (term.startsWith(token)) {
+    return PREFIX_MATCH_SCORE;
+  }
+
+  const max = getMaxEditDistance(token);
+  if (max === 0) {
+    return 0;
+  }
+  // A typo in a prefix ("restaur" for "restaurante") counts too
+  const isClose =
+    getEditDistance(token, term, max) <= max ||
+    (term.length > token.length &&
+      getEditDistance(token, term.slice(0, token.length), max) <= max);
+
+  return isClose ? FUZZY_MATCH_SCORE : 0;
+}
+
+/**
+ * Score a set of indexed terms against query tokens
+ *
+ * Every token must match some term (AND); each contributes its best match.
+ *
+ * @returns Relevance score, 0 when the terms do not match
+ */
+export function scoreSearchTerms(tokens: string[], terms: string[]): number {
+  let score = 0;
+
+  for (const token of tokens) {
+    let best = 0;
+    for (const term of terms) {
+      best = Math.max(best, matchSearchTerm(token, term));
+      if (best === EXACT_MATCH_SCORE) {
+        break;
+      }
+    }
+    if (best === 0) {
+      return 0;
+    }
+    score += best;
+  }
+
+  return score;
+}
+
+/**
+ * Check if text contains every word of a phrase, exactly or as a prefix
+ *
+ * Stricter than search (no typo tolerance), for exclusions: `-uber` should
+ * not also drop "super".
+ */
+export function containsSearchTerms(text: string, phrase: string): boolean {
+  const tokens = tokenizeSearchText(phrase);
+  const terms = tokenizeSearchText(text);
+  return (
+    tokens.length > 0 &&
+    tokens.every(token => terms.some(term => term.startsWith(token)))
+  );
+}
+
+const scoreCache = new Map<string, number>();
+const MAX_CACHED_SCORES = 5000;
+
+/**
+ * Relevance of a description for a search query (memoized)
+ *
+ * @returns Score, 0 when the description does not match
+ * (an empty query matches everything with score 0)
+ */
+export function getSearchScore(
+  description: string,
+  searchQuery: string
+): number {
+  const key = `${searchQuery}\u0000${description}`;
+  let score = scoreCache.get(key);
+
+  if (score === undefined) {
+    score = scoreSearchTerms(
+      tokenizeSearchText(searchQuery),
+      tokenizeSearchText(description)
+    );
+    if (scoreCache.size >= MAX_CACHED_SCORES) {
+      scoreCache.clear();
+    }
+    scoreCache.set(key, score);
+  }
+
+  return score;
+}
+
+/**
+ * Character range of `text` to highlight
+ */
+export interface SearchHighlight {
+  start: number;
+  end: number;
+}
+
+/**
+ * Find the words of `text` matched by a search query
+ *
+ * Prefix matches highlight the matched prefix, exact and typo-tolerant
+ * matches the whole word.
+ *
+ * @example
+ * ```typescript
+ * getSearchHighlights('Café con leche', 'cafe lec');
+ * // [{ start: 0, end: 4 }, { start: 9, end: 12 }]
+ * ```
+ */
+export function getSearchHighlights(
+  text: string,
+  searchQuery: string
+): SearchHighlight[] {
+  const tokens = tokenizeSearchText(searchQuery);
+  if (tokens.length === 0) {
+    return [];
+  }
+
+  const highlights: SearchHighlight[] = [];
+  for (const word of text.matchAll(TOKEN_PATTERN)) {
+    const term = normalizeSearchText(word[0]);
+    const start = word.index;
+    let end = start;
+
+    for (const token of tokens) {
+      const score = matchSearchTerm(token, term);
+      // Folding can change the length (decomposed input): fall back to the whole word
+      const length =
+        score === PREFIX_MATCH_SCORE && term.length === word[0].length
+          ? token.length
+          : word[0].length;
+      if (score > 0) {
+        end = Math.max(end, start + length);
+      }
+    }
+
+    if (end > start) {
+      highlights.push({ start, end });
+    }
+  }
+
+  return highlights;
+}
@@ -0,0 +1,45 @@
+/**
+ * Categories Store (Zustand)
+ *
+ * Mirrors the categories of the active repository so badges, pickers and the
+ * search bar can look them up synchronously. Starts with the built-in
+ * categories until the first load finishes (not persisted).
+ *
+ * @module domains/expenses/stores/categories-store
+ */
+
+'use client';
+
+import { create } from 'zustand';
+import { devtools } from 'zustand/middleware';
+import type { CategoriesState } from '../types';
+import { DEFAULT_CATEGORIES } from '../categories';
+
+/**
+ * Categories store
+ */
+export const useCategoriesStore = create<CategoriesState>()(
+  devtools(
+    set => ({
+      // State
+      categories: [...DEFAULT_CATEGORIES],
+      status: 'idle',
+      error: null,
+
+      // Actions
+      setCategories: categories =>
+        set(
+          { categories, status: 'ready', error: null },
+          false,
+          'setCategories'
+        ),
+
+      setStatus: (status, error = null) =>
+        set({ status, error }, false, 'setStatus')
+    }),
+    {
+      name: 'categories-store',
+      enabled: process.env.NODE_ENV === 'development'
+    }
+  )
+);
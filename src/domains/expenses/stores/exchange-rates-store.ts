@@ -0,0 +1,39 @@
+/**
+ * Exchange Rates Store (Zustand)
+ *
+ * Mirrors the exchange rates stored in IndexedDB so amounts can be
+ * converted to the base currency while rendering (not persisted).
+ *
+ * @module domains/expenses/stores/exchange-rates-store
+ */
+
+'use client';
+
+import { create } from 'zustand';
+import { devtools } from 'zustand/middleware';
+import type { ExchangeRatesState } from '../types';
+
+/**
+ * Exchange rates store
+ */
+export const useExchangeRatesStore = create<ExchangeRatesState>()(
+  devtools(
+    set => ({
+      // State
+      rates: [],
+      status: 'idle',
+      error: null,
+
+      // Actions
+      setRates: rates =>
+        set({ rates, status: 'ready', error: null }, false, 'setRates'),
+
+      setStatus: (status, error = null) =>
+        set({ status, error }, false, 'setStatus')
+    }),
+    {
+      name: 'exchange-rates-store',
+      enabled: process.env.NODE_ENV === 'development'
+    }
+  )
+);
@@ -6,10 +6,17 @@
  *
  * Default values:
  * - All categories selected (empty array = all)
- * - Date range: Current year
+ * - No tags selected (every selected tag required once some are)
+ * - Date range: All time
+ * - Any amount
  * - No search query
  * - Sort by date descending (newest first)
  *
+ * The search bar text (`queryText`) and the other fields describe the same
+ * filters: `setQueryText` parses the text, every other setter rewrites it
+ * (see `query-syntax.ts`). Defaults are left out of the text.
+ * `setQuery` replaces every filter at once (e.g. when applying a saved view).
+ *
  * @module domains/expenses/stores/expense-filters-store
  */
 
@@ -17,19 +24,22 @@
 
 import { create } from 'zustand';
 import { devtools } from 'zustand/middleware';
-import type { ExpenseFiltersState, ExpenseCategory, DateRange, ExpenseSort } from '../types';
+import type {
+  AmountRange,
+  ExpenseFiltersState,
+  ExpenseCategory,
+  ExpenseQuery,
+  DateRangeFilter,
+  ExpenseSort,
+  ExpenseTagMatch
+} from '../types';
+import { formatExpenseQuery, parseExpenseQuery } from '../query-syntax';
 
 /**
- * Get default date range (current year)
+ * Get default date range (all time)
  */
-function getDefaultDateRange(): DateRange {
-  const now = new Date();
-  const currentYear = now.getFullYear();
-
-  return {
-    from: new Date(`${currentYear}-01-01`),
-    to: new Date(`${currentYear}-12-31`),
-  };
+function getDefaultDateRange(): DateRangeFilter {
+  return { type: 'allTime' };
 }
 
 /**
@@ -42,6 +52,87 @@ function getDefaultSort(): ExpenseSort {
   };
 }
 
+/**
+ * Get default amount range (any amount)
+ */
+function getDefaultAmountRange(): AmountRange {
+  return { min: null, max: null };
+}
+
+/**
+ * Check if a date range is the default one
+ */
+function isDefaultDateRange(range: DateRangeFilter): boolean {
+  return range.type === getDefaultDateRange().type;
+}
+
+/**
+ * Check if a sort is the default one
+ */
+function isDefaultSort(sort: ExpenseSort): boolean {
+  const defaultSort = getDefaultSort();
+  return sort.field === defaultSort.field && sort.order === defaultSort.order;
+}
+
+/**
+ * Get default tag match (every selected tag)
+ */
+function getDefaultTagMatch(): ExpenseTagMatch {
+  return 'all';
+}
+
+type FilterValues = Pick<
+  ExpenseFiltersState,
+  | 'selectedCategories'
+  | 'selectedTags'
+  | 'tagMatch'
+  | 'dateRange'
+  | 'amountRange'
+  | 'searchQuery'
+  | 'excludedTerms'
+  | 'sort'
+>;
+
+/**
+ * Get the query for filter values, with the defaults left out
+ * (the inverse of `setQuery`; used for the search bar text and the URL)
+ */
+export function getExpenseQuery(values: FilterValues): ExpenseQuery {
+  return {
+    categories: values.selectedCategories,
+    tags: values.selectedTags,
+    tagMatch: values.tagMatch === getDefaultTagMatch() ? null : values.tagMatch,
+    dateRange: values.dateRange,
+    amountRange: values.amountRange,
+    searchQuery: values.searchQuery,
+    excludedTerms: values.excludedTerms,
+    sort: isDefaultSort(values.sort) ? null : values.sort
+  };
+}
+
+/**
+ * Build the search bar text for filter values (defaults are omitted)
+ */
+function toQueryText(values: FilterValues): string {
+  return formatExpenseQuery(getExpenseQuery(values));
+}
+
+/**
+ * Filter values for a query (absent parts fall back to the defaults)
+ */
+function fromQuery(query: ExpenseQuery): FilterValues {
+  return {
+    selectedCategories: query.categories,
+    selectedTags: query.tags,
+    tagMatch: query.tagMatch ?? getDefaultTagMatch(),
+    dateRange: query.dateRange,
+    amountRange: query.amountRange,
+    searchQuery: query.searchQuery,
+    excludedTerms: query.excludedTerms,
+    sort: query.sort ?? getDefaultSort()
+  };
+}
+
 /**
  * Expense filters store
  *
@@ -50,41 +141,80 @@ function getDefaultSort(): ExpenseSort {
  */
 export const useExpenseFiltersStore = create<ExpenseFiltersState>()(
   devtools(
-    (set) => ({
-      // State
-      selectedCategories: [], // Empty = all categories
-      dateRange: getDefaultDateRange(),
-      searchQuery: '',
-      sort: getDefaultSort(),
-
-      // Actions
-      setSelectedCategories: (categories: ExpenseCategory[]) =>
+    (set) => {
+      // Apply a change from the filter panel and rewrite the search bar text
+      const setValues = (patch: Partial<FilterValues>, action: string) =>
         set(
-          { selectedCategories: categories },
+          (state) => ({
+            ...patch,
+            queryText: toQueryText({ ...state, ...patch })
+          }),
           false,
-          'setSelectedCategories'
-        ),
+          action
+        );
 
-      setDateRange: (range: DateRange) =>
-        set({ dateRange: range }, false, 'setDateRange'),
+      return {
+        // State
+        queryText: '',
+        selectedCategories: [], // Empty = all categories
+        selectedTags: [], // Empty = any tags
+        tagMatch: getDefaultTagMatch(),
+        dateRange: getDefaultDateRange(),
+        amountRange: getDefaultAmountRange(),
+        searchQuery: '',
+        excludedTerms: [],
+        sort: getDefaultSort(),
 
-      setSearchQuery: (query: string) =>
-        set({ searchQuery: query }, false, 'setSearchQuery'),
+        // Actions
+        setQueryText: (text: string) =>
+          // Keep the text as typed
+          set(
+            { ...fromQuery(parseExpenseQuery(text)), queryText: text },
+            false,
+            'setQueryText'
+          ),
 
-      setSort: (sort: ExpenseSort) => set({ sort }, false, 'setSort'),
+        setQuery: (query: ExpenseQuery) =>
+          setValues(fromQuery(query), 'setQuery'),
 
-      resetFilters: () =>
-        set(
-          {
-            selectedCategories: [],
-            dateRange: getDefaultDateRange(),
-            searchQuery: '',
-            sort: getDefaultSort(),
-          },
-          false,
-          'resetFilters'
-        ),
-    }),
+        setSelectedCategories: (categories: ExpenseCategory[]) =>
+          setValues({ selectedCategories: categories }, 'setSelectedCategories'),
+
+        setSelectedTags: (tags: string[]) =>
+          setValues({ selectedTags: tags }, 'setSelectedTags'),
+
+        setTagMatch: (tagMatch: ExpenseTagMatch) =>
+          setValues({ tagMatch }, 'setTagMatch'),
+
+        setDateRange: (range: DateRangeFilter) =>
+          setValues({ dateRange: range }, 'setDateRange'),
+
+        setAmountRange: (range: AmountRange) =>
+          setValues({ amountRange: range }, 'setAmountRange'),
+
+        setSearchQuery: (query: string) =>
+          setValues({ searchQuery: query }, 'setSearchQuery'),
+
+        setSort: (sort: ExpenseSort) => setValues({ sort }, 'setSort'),
+
+        resetFilters: () =>
+          set(
+            {
+              queryText: '',
+              selectedCategories: [],
+              selectedTags: [],
+              tagMatch: getDefaultTagMatch(),
+              dateRange: getDefaultDateRange(),
+              amountRange: getDefaultAmountRange(),
+              searchQuery: '',
+              excludedTerms: [],
+              sort: getDefaultSort()
+            },
+            false,
+            'resetFilters'
+          )
+      };
+    },
     {
       name: 'expense-filters-store',
       enabled: process.env.NODE_ENV === 'development',
@@ -102,12 +232,30 @@ export const useExpenseFiltersStore = create<ExpenseFiltersState>()(
 export const useSelectedCategories = () =>
   useExpenseFiltersStore((state) => state.selectedCategories);
 
+/**
+ * Get selected tags
+ */
+export const useSelectedTags = () =>
+  useExpenseFiltersStore((state) => state.selectedTags);
+
 /**
  * Get date range filter
  */
 export const useDateRange = () =>
   useExpenseFiltersStore((state) => state.dateRange);
 
+/**
+ * Get amount range filter
+ */
+export const useAmountRange = () =>
+  useExpenseFiltersStore((state) => state.amountRange);
+
+/**
+ * Get search bar text
+ */
+export const useQueryText = () =>
+  useExpenseFiltersStore((state) => state.queryText);
+
 /**
  * Get search query
  */
@@ -126,8 +274,12 @@ export const useSort = () => useExpenseFiltersStore((state) => state.sort);
 export const useAllFilters = () =>
   useExpenseFiltersStore((state) => ({
     selectedCategories: state.selectedCategories,
+    selectedTags: state.selectedTags,
+    tagMatch: state.tagMatch,
     dateRange: state.dateRange,
+    amountRange: state.amountRange,
     searchQuery: state.searchQuery,
+    excludedTerms: state.excludedTerms,
     sort: state.sort,
   }));
 
@@ -137,19 +289,22 @@ export const useAllFilters = () =>
 export const useHasActiveFilters = () =>
   useExpenseFiltersStore((state) => {
     const hasCategories = state.selectedCategories.length > 0;
-    const hasSearch = state.searchQuery.trim().length > 0;
-
-    // Check if date range is different from default (current year)
-    const defaultRange = getDefaultDateRange();
-    const hasCustomDateRange =
-      state.dateRange.from?.getTime() !== defaultRange.from?.getTime() ||
-      state.dateRange.to?.getTime() !== defaultRange.to?.getTime();
+    const hasTags = state.selectedTags.length > 0;
+    const hasSearch =
+      state.searchQuery.trim().length > 0 || state.excludedTerms.length > 0;
+    const hasAmountRange =
+      state.amountRange.min !== null || state.amountRange.max !== null;
 
-    // Check if sort is different from default
-    const defaultSort = getDefaultSort();
-    const hasCustomSort =
-      state.sort.field !== defaultSort.field ||
-      state.sort.order !== defaultSort.order;
+    // Check if date range and sort are different from default
+    const hasCustomDateRange = !isDefaultDateRange(state.dateRange);
+    const hasCustomSort = !isDefaultSort(state.sort);
 
-    return hasCategories || hasSearch || hasCustomDateRange || hasCustomSort;
+    return (
+      hasCategories ||
+      hasTags ||
+      hasSearch ||
+      hasAmountRange ||
+      hasCustomDateRange ||
+      hasCustomSort
+    );
   });
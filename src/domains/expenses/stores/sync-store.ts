@@ -0,0 +1,41 @@
+/**
+ * Sync Store (Zustand)
+ *
+ * Shared sync status for the UI: what the engine is doing, when it last
+ * finished, and what is still pending or in conflict. The data itself lives
+ * in IndexedDB; this store only mirrors it (not persisted).
+ *
+ * @module domains/expenses/stores/sync-store
+ */
+
+'use client';
+
+import { create } from 'zustand';
+import { devtools } from 'zustand/middleware';
+import type { SyncStatus, SyncStatusState } from '../types';
+
+/**
+ * Sync store
+ */
+export const useSyncStore = create<SyncStatusState>()(
+  devtools(
+    set => ({
+      // State
+      status: 'idle',
+      error: null,
+      lastSyncedAt: null,
+      pendingCount: 0,
+      conflicts: [],
+
+      // Actions
+      setStatus: (status: SyncStatus, error: Error | null = null) =>
+        set({ status, error }, false, 'setStatus'),
+
+      setSnapshot: snapshot => set(snapshot, false, 'setSnapshot')
+    }),
+    {
+      name: 'sync-store',
+      enabled: process.env.NODE_ENV === 'development'
+    }
+  )
+);
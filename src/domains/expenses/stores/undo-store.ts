@@ -0,0 +1,119 @@
+/**
+ * Undo Store (Zustand)
+ *
+ * Global undo/redo stack for expense mutations.
+ * Mutation hooks push a command after every successful create, update
+ * and delete; undoing moves it to `future`, redoing moves it back.
+ * Any new mutation clears `future`.
+ *
+ * @module domains/expenses/stores/undo-store
+ */
+
+'use client';
+
+import { create } from 'zustand';
+import { devtools } from 'zustand/middleware';
+import type { ExpenseCommand, UndoHistoryState } from '../types';
+
+/**
+ * Maximum number of commands kept in the undo stack
+ */
+export const MAX_UNDO_HISTORY = 50;
+
+/**
+ * Undo store
+ *
+ * Commands hold closures, so the stack lives in memory only (not persisted).
+ */
+export const useUndoStore = create<UndoHistoryState>()(
+  devtools(
+    (set, get) => ({
+      // State
+      past: [],
+      future: [],
+      isRunning: false,
+
+      // Actions
+      push: (command: ExpenseCommand) =>
+        set(
+          state => ({
+            past: [...state.past, command].slice(-MAX_UNDO_HISTORY),
+            future: []
+          }),
+          false,
+          'push'
+        ),
+
+      undo: async (commandId?: string) => {
+        const { past, isRunning } = get();
+        const command = past[past.length - 1];
+
+        // A stale toast action must not undo a newer command
+        if (isRunning || !command || (commandId && command.id !== commandId)) {
+          return null;
+        }
+
+        set({ isRunning: true }, false, 'undo/start');
+        try {
+          await command.undo();
+          set(
+            state => ({
+              past: state.past.slice(0, -1),
+              future: [...state.future, command]
+            }),
+            false,
+            'undo'
+          );
+          return command;
+        } finally {
+          set({ isRunning: false }, false, 'undo/end');
+        }
+      },
+
+      redo: async () => {
+        const { future, isRunning } = get();
+        const command = future[future.length - 1];
+
+        if (isRunning || !command) {
+          return null;
+        }
+
+        set({ isRunning: true }, false, 'redo/start');
+        try {
+          await command.redo();
+          set(
+            state => ({
+              past: [...state.past, command],
+              future: state.future.slice(0, -1)
+            }),
+            false,
+            'redo'
+          );
+          return command;
+        } finally {
+          set({ isRunning: false }, false, 'redo/end');
+        }
+      },
+
+      clear: () => set({ past: [], future: [] }, false, 'clear')
+    }),
+    {
+      name: 'undo-store',
+      enabled: process.env.NODE_ENV === 'development'
+    }
+  )
+);
+
+/**
+ * Selector hooks for optimized re-renders
+ */
+
+/**
+ * Check if there is a command to undo
+ */
+export const useCanUndo = () => useUndoStore(state => state.past.length > 0);
+
+/**
+ * Check if there is a command to redo
+ */
+export const useCanRedo = () => useUndoStore(state => state.future.length > 0);
@@ -0,0 +1,157 @@
+/**
+ * Sync Change Log Helpers
+ *
+ * Pure helpers for the local change log: folding local writes into one
+ * pending entry per expense and rebasing pending entries on versions pulled
+ * from the sync server. They never touch IndexedDB.
+ *
+ * @module domains/expenses/sync/change-log
+ */
+
+import type {
+  Expense,
+  ExpenseChangeLogEntry,
+  ExpenseSyncField,
+  ExpenseSyncFieldChange
+} from '../types';
+import { isSameFieldValue, REVISION_FIELDS } from '../revisions';
+
+/**
+ * Fields reconciled by the sync engine
+ */
+export const SYNC_FIELDS: readonly ExpenseSyncField[] = [
+  ...REVISION_FIELDS,
+  'deletedAt'
+] as const;
+
+/**
+ * Compare two values of a synced field
+ *
+ * Trash timestamps differ between devices, so for `deletedAt` only whether
+ * the expense is in the trash matters.
+ */
+export function isSameSyncValue(
+  field: ExpenseSyncField,
+  a: unknown,
+  b: unknown
+): boolean {
+  if (field === 'deletedAt') {
+    return (a === null) === (b === null);
+  }
+  return isSameFieldValue(a, b);
+}
+
+/**
+ * Fold a local write into the pending entry of its expense
+ *
+ * Keeps the oldest `from` and the newest `to` of every field, and drops
+ * fields edited back to their synced value.
+ *
+ * @param entry - Pending entry of the expense, if any
+ * @param before - Stored version before the write (null for creates)
+ * @param after - Version written (null for permanent deletes)
+ * @param timestamp - When the write happened (ISO 8601 string)
+ * @returns Updated entry, or null when there is nothing left to push
+ */
+export function recordLocalChange(
+  entry: ExpenseChangeLogEntry | undefined,
+  before: Expense | null,
+  after: Expense | null,
+  timestamp: string
+): ExpenseChangeLogEntry | null {
+  const baseUpdatedAt = entry
+    ? entry.baseUpdatedAt
+    : (before?.updatedAt ?? null);
+
+  if (!after) {
+    // Created and deleted before it was ever pushed: the server never saw it
+    if (baseUpdatedAt === null || !before) {
+      return null;
+    }
+    return {
+      expenseId: before.id,
+      baseUpdatedAt,
+      changes: entry?.changes ?? [],
+      expense: null,
+      timestamp
+    };
+  }
+
+  const changes = new Map(entry?.changes.map(change => [change.field, change]));
+  for (const field of SYNC_FIELDS) {
+    const previous = changes.get(field);
+    const from = previous ? previous.from : before ? before[field] : null;
+
+    if (baseUpdatedAt !== null && isSameSyncValue(field, from, after[field])) {
+      changes.delete(field);
+    } else if (
+      previous ||
+      !before ||
+      !isSameFieldValue(before[field], after[field])
+    ) {
+      changes.set(field, {
+        field,
+        from,
+        to: after[field]
+      } as ExpenseSyncFieldChange);
+    }
+  }
+
+  if (changes.size === 0) {
+    return null;
+  }
+
+  return {
+    expenseId: after.id,
+    baseUpdatedAt,
+    changes: [...changes.values()],
+    expense: after,
+    timestamp
+  };
+}
+
+/**
+ * Rebase a pending entry on a version pulled from the server
+ *
+ * Used for local edits made while a sync request was in flight: the server
+ * version becomes the base and the pending values are laid over it.
+ *
+ * @param entry - Pending entry of the expense
+ * @param server - Version pulled from the server
+ * @returns Rebased entry (null when the server already has every value)
+ * and the version to store locally (null when it was deleted here)
+ */
+export function rebaseLocalChange(
+  entry: ExpenseChangeLogEntry,
+  server: Expense
+): { entry: ExpenseChangeLogEntry | null; expense: Expense | null } {
+  if (!entry.expense) {
+    return {
+      entry: { ...entry, baseUpdatedAt: server.updatedAt },
+      expense: null
+    };
+  }
+
+  const changes = entry.changes
+    .filter(
+      change => !isSameSyncValue(change.field, server[change.field], change.to)
+    )
+    .map(
+      change =>
+        ({ ...change, from: server[change.field] }) as ExpenseSyncFieldChange
+    );
+
+  if (changes.length === 0) {
+    return { entry: null, expense: server };
+  }
+
+  const expense: Expense = { ...server, updatedAt: entry.expense.updatedAt };
+  changes.forEach(change =>
+    Object.assign(expense, { [change.field]: change.to })
+  );
+
+  return {
+    entry: { ...entry, baseUpdatedAt: server.updatedAt, changes, expense },
+    expense
+  };
+}
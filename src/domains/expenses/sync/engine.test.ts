@@ -0,0 +1,353 @@
+import type { IDBFactory } from 'fake-indexeddb';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { switchIndexedDB } from '@/test/indexeddb';
+import {
+  createCategory,
+  deleteCategory,
+  getCategories,
+  updateCategory
+} from '../categories';
+import {
+  createExpense,
+  deleteExpense,
+  getExpenseById,
+  permanentlyDeleteExpense,
+  updateExpense
+} from '../actions';
+import { ExpenseApiError, ExpenseNotFoundError } from '../errors';
+import { setExpenseRepository } from '../repository';
+import { createIndexedDBExpenseRepository } from '../repositories/indexeddb-repository';
+import type { Expense } from '../types';
+import { getSyncLocalStore, resolveSyncConflict, syncExpenses } from './engine';
+import { createLocalSyncServer, type LocalSyncServer } from './local-server';
+
+/**
+ * A browser profile: its own IndexedDB, synced with the shared server
+ */
+interface Device {
+  factory: IDBFactory;
+}
+
+let server: LocalSyncServer;
+let deviceA: Device;
+let deviceB: Device;
+
+/**
+ * Make a device the one the actions and the sync engine run on
+ */
+async function onDevice(device: Device): Promise<void> {
+  await switchIndexedDB(device.factory);
+  setExpenseRepository(createIndexedDBExpenseRepository());
+}
+
+/**
+ * Let a minute pass, so every write gets a later `updatedAt`
+ */
+function later(): void {
+  vi.setSystemTime(Date.now() + 60_000);
+}
+
+/**
+ * Sync a device with the shared server
+ */
+async function syncOn(device: Device) {
+  await onDevice(device);
+  return syncExpenses(server.transport);
+}
+
+/**
+ * Create an expense on a device and sync it to every device
+ */
+async function createSyncedExpense(): Promise<Expense> {
+  await onDevice(deviceA);
+  const expense = await createExpense({
+    description: 'Cena en el centro',
+    amount: 450,
+    category: 'Comida',
+    date: '2025-03-14T20:00:00.000Z'
+  });
+  await syncOn(deviceA);
+  await syncOn(deviceB);
+  later();
+  return expense;
+}
+
+/**
+ * Read a category on a device (undefined when it does not know it)
+ */
+async function getCategoryOn(device: Device, id: string) {
+  await onDevice(device);
+  return (await getCategories()).find(category => category.id === id);
+}
+
+/**
+ * Read an expense on a device
+ */
+async function getOn(device: Device, id: string): Promise<Expense> {
+  await onDevice(device);
+  return getExpenseById(id);
+}
+
+describe('sync engine against the stand-in server', () => {
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2025-04-01T10:00:00.000Z'));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    server = createLocalSyncServer();
+    deviceA = { factory: await switchIndexedDB() };
+    deviceB = { factory: await switchIndexedDB() };
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('pushes local changes and pulls them on the other device', async () => {
+    await onDevice(deviceA);
+    const lunch = await createExpense({
+      description: 'Comida corrida',
+      amount: 120,
+      category: 'Comida',
+      date: '2025-03-10T14:00:00.000Z'
+    });
+    await createExpense({
+      description: 'Metro',
+      amount: 5,
+      category: 'Transporte',
+      date: '2025-03-10T08:00:00.000Z'
+    });
+
+    expect(await syncOn(deviceA)).toMatchObject({ pushed: 2, conflicts: 0 });
+    expect(await server.getExpenses()).toHaveLength(2);
+    expect(await getSyncLocalStore().getPendingChanges()).toEqual([]);
+    const { seq } = await getSyncLocalStore().getSyncState();
+
+    expect(await syncOn(deviceB)).toEqual({
+      pushed: 0,
+      pulled: 2,
+      categories: 0,
+      conflicts: 0
+    });
+    expect(await getOn(deviceB, lunch.id)).toMatchObject({ amount: 120 });
+    expect((await getSyncLocalStore().getSyncState()).seq).toBe(seq);
+
+    later();
+    await onDevice(deviceA);
+    await updateExpense(lunch.id, { amount: 135 });
+    await syncOn(deviceA);
+    const next = (await getSyncLocalStore().getSyncState()).seq;
+    expect(next).toBeGreaterThan(seq);
+
+    expect(await syncOn(deviceB)).toEqual({
+      pushed: 0,
+      pulled: 1,
+      categories: 0,
+      conflicts: 0
+    });
+    expect((await getSyncLocalStore().getSyncState()).seq).toBe(next);
+    expect(await getOn(deviceB, lunch.id)).toMatchObject({ amount: 135 });
+  });
+
+  it('merges offline edits of different fields from both devices', async () => {
+    const expense = await createSyncedExpense();
+    server.setOnline(false);
+
+    await onDevice(deviceA);
+    await updateExpense(expense.id, { description: 'Cena de cumpleaños' });
+    await expect(syncExpenses(server.transport)).rejects.toBeInstanceOf(
+      ExpenseApiError
+    );
+    later();
+    await onDevice(deviceB);
+    await updateExpense(expense.id, { amount: 520, tags: ['familia'] });
+    later();
+
+    server.setOnline(true);
+    expect((await syncOn(deviceA)).conflicts).toBe(0);
+    expect((await syncOn(deviceB)).conflicts).toBe(0);
+    await syncOn(deviceA);
+
+    const merged = {
+      description: 'Cena de cumpleaños',
+      amount: 520,
+      tags: ['familia']
+    };
+    expect(await getOn(deviceA, expense.id)).toMatchObject(merged);
+    expect(await getOn(deviceB, expense.id)).toMatchObject(merged);
+    expect((await server.getExpenses())[0]).toMatchObject(merged);
+    expect(await getSyncLocalStore().getConflicts()).toEqual([]);
+  });
+
+  it('reports edits of the same field as a conflict and keeps the local value on review', async () => {
+    const expense = await createSyncedExpense();
+
+    await onDevice(deviceA);
+    await updateExpense(expense.id, { amount: 480 });
+    later();
+    await onDevice(deviceB);
+    await updateExpense(expense.id, { amount: 500 });
+    later();
+
+    await syncOn(deviceA);
+    expect((await syncOn(deviceB)).conflicts).toBe(1);
+
+    // The server value is shown until the conflict is reviewed
+    expect(await getOn(deviceB, expense.id)).toMatchObject({ amount: 480 });
+    const [conflict] = await getSyncLocalStore().getConflicts();
+    expect(conflict).toMatchObject({
+      expenseId: expense.id,
+      field: 'amount',
+      base: 450,
+      local: 500,
+      server: 480
+    });
+
+    await resolveSyncConflict(conflict, 'local');
+    expect(await getSyncLocalStore().getConflicts()).toEqual([]);
+    later();
+    expect((await syncOn(deviceB)).conflicts).toBe(0);
+    await syncOn(deviceA);
+
+    expect(await getOn(deviceA, expense.id)).toMatchObject({ amount: 500 });
+    expect(await getOn(deviceB, expense.id)).toMatchObject({ amount: 500 });
+  });
+
+  it('keeps the server value when the review picks it', async () => {
+    const expense = await createSyncedExpense();
+
+    await onDevice(deviceA);
+    await updateExpense(expense.id, { category: 'Entretenimiento' });
+    later();
+    await onDevice(deviceB);
+    await updateExpense(expense.id, { category: 'Otros' });
+    later();
+
+    await syncOn(deviceA);
+    await syncOn(deviceB);
+    const [conflict] = await getSyncLocalStore().getConflicts();
+    await resolveSyncConflict(conflict, 'server');
+
+    expect(await getSyncLocalStore().getConflicts()).toEqual([]);
+    expect(await getSyncLocalStore().getPendingChanges()).toEqual([]);
+    expect(await syncOn(deviceB)).toMatchObject({ pushed: 0, conflicts: 0 });
+    expect(await getOn(deviceB, expense.id)).toMatchObject({
+      category: 'Entretenimiento'
+    });
+  });
+
+  it('merges an edit into an expense trashed on the other device', async () => {
+    const expense = await createSyncedExpense();
+
+    await onDevice(deviceA);
+    await deleteExpense(expense.id);
+    later();
+    await onDevice(deviceB);
+    await updateExpense(expense.id, { description: 'Cena con el equipo' });
+    later();
+
+    await syncOn(deviceA);
+    expect((await syncOn(deviceB)).conflicts).toBe(0);
+    await syncOn(deviceA);
+
+    for (const device of [deviceA, deviceB]) {
+      const stored = await getOn(device, expense.id);
+      expect(stored.description).toBe('Cena con el equipo');
+      expect(stored.deletedAt).not.toBeNull();
+    }
+  });
+
+  it('brings back a permanently deleted expense edited on the other device', async () => {
+    const expense = await createSyncedExpense();
+
+    await onDevice(deviceA);
+    await permanentlyDeleteExpense(expense.id);
+    await expect(getExpenseById(expense.id)).rejects.toBeInstanceOf(
+      ExpenseNotFoundError
+    );
+    later();
+    await onDevice(deviceB);
+    await updateExpense(expense.id, { amount: 475 });
+    later();
+
+    await syncOn(deviceA);
+    expect(await server.getExpenses()).toEqual([]);
+    expect((await syncOn(deviceB)).conflicts).toBe(0);
+    await syncOn(deviceA);
+
+    expect(await server.getExpenses()).toHaveLength(1);
+    expect(await getOn(deviceA, expense.id)).toMatchObject({ amount: 475 });
+    expect(await getOn(deviceB, expense.id)).toMatchObject({ amount: 475 });
+  });
+
+  it('syncs custom categories together with the expenses that use them', async () => {
+    await onDevice(deviceA);
+    const pets = await createCategory({
+      name: 'Mascotas',
+      color: 'amber',
+      icon: 'paw-print',
+      parentId: null
+    });
+    const food = await createExpense({
+      description: 'Croquetas para el perro',
+      amount: 899.99,
+      category: pets.id,
+      date: '2025-03-20T18:00:00.000Z'
+    });
+
+    expect(await syncOn(deviceA)).toMatchObject({ pushed: 2 });
+    expect(await server.getCategories()).toContainEqual(pets);
+    expect(await syncOn(deviceB)).toMatchObject({ pulled: 1, categories: 1 });
+    expect(await getCategoryOn(deviceB, pets.id)).toEqual(pets);
+    expect(await getOn(deviceB, food.id)).toMatchObject({ category: pets.id });
+
+    later();
+    await onDevice(deviceB);
+    await updateCategory(pets.id, { name: 'Perro' });
+    await syncOn(deviceB);
+    await syncOn(deviceA);
+    expect(await getCategoryOn(deviceA, pets.id)).toMatchObject({
+      name: 'Perro'
+    });
+    expect(await getSyncLocalStore().getPendingCategoryChanges()).toEqual([]);
+  });
+
+  it('keeps the latest write when both devices edit a category', async () => {
+    await onDevice(deviceA);
+    await updateCategory('Comida', { name: 'Alimentos' });
+    later();
+    await onDevice(deviceB);
+    await updateCategory('Comida', { name: 'Despensa' });
+    later();
+
+    // The older rename reaches the server last and loses
+    await syncOn(deviceB);
+    expect(await syncOn(deviceA)).toMatchObject({ categories: 1 });
+    await syncOn(deviceB);
+
+    expect(await getCategoryOn(deviceA, 'Comida')).toMatchObject({
+      name: 'Despensa'
+    });
+    expect(await getCategoryOn(deviceB, 'Comida')).toMatchObject({
+      name: 'Despensa'
+    });
+  });
+
+  it('deletes a category on every device and moves its expenses', async () => {
+    const expense = await createSyncedExpense();
+
+    await onDevice(deviceA);
+    await deleteCategory('Comida', 'Otros');
+    await syncOn(deviceA);
+    expect(await syncOn(deviceB)).toMatchObject({ pulled: 1, categories: 1 });
+
+    expect(await getCategoryOn(deviceB, 'Comida')).toBeUndefined();
+    expect(await getOn(deviceB, expense.id)).toMatchObject({
+      category: 'Otros'
+    });
+    expect(
+      (await server.getCategories()).some(category => category.id === 'Comida')
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * Sync Engine
+ *
+ * Two-way sync between the local IndexedDB data and a sync server. One
+ * round pushes the change logs (expenses and categories) and pulls
+ * everything after the last known server sequence number in a single
+ * request; the local store then applies the response atomically and the
+ * query cache is told what changed.
+ *
+ * The transport is swappable so the engine can run against the in-process
+ * stand-in server (`local-server.ts`) instead of `/api/sync`.
+ *
+ * @module domains/expenses/sync/engine
+ */
+
+import type {
+  ExpenseSyncConflict,
+  SyncLocalStore,
+  SyncResult,
+  SyncTransport
+} from '../types';
+import { deleteExpense, restoreExpense, updateExpense } from '../actions';
+import { ExpenseNotFoundError, ExpenseOperationError } from '../errors';
+import { publishExpenseChange } from '../events';
+import { createHttpSyncTransport } from './http-transport';
+import { createIndexedDBSyncStore } from './indexeddb-sync-store';
+
+let transport: SyncTransport | null = null;
+let localStore: SyncLocalStore | null = null;
+let inFlight: Promise<SyncResult> | null = null;
+
+/**
+ * Get the transport used by `syncExpenses` (`/api/sync` unless replaced)
+ */
+export function getSyncTransport(): SyncTransport {
+  if (!transport) {
+    transport = createHttpSyncTransport();
+  }
+  return transport;
+}
+
+/**
+ * Replace the transport (e.g. with a stand-in server), null for the default
+ */
+export function setSyncTransport(next: SyncTransport | null): void {
+  transport = next;
+}
+
+/**
+ * Get the local store used by `syncExpenses` (IndexedDB)
+ */
+export function getSyncLocalStore(): SyncLocalStore {
+  if (!localStore) {
+    localStore = createIndexedDBSyncStore();
+  }
+  return localStore;
+}
+
+/**
+ * Run one push/pull round
+ */
+async function runSync(
+  send: SyncTransport,
+  local: SyncLocalStore
+): Promise<SyncResult> {
+  const [state, changes, categoryChanges] = await Promise.all([
+    local.getSyncState(),
+    local.getPendingChanges(),
+    local.getPendingCategoryChanges()
+  ]);
+
+  const request = { since: state.seq, changes, categoryChanges };
+  const response = await send(request);
+  const applied = await local.applySyncResponse(request, response);
+
+  publishExpenseChange(
+    'create',
+    applied.filter(change => !change.before)
+  );
+  publishExpenseChange(
+    'update',
+    applied.filter(change => change.before && change.after)
+  );
+  publishExpenseChange(
+    'purge',
+    applied.filter(change => !change.after)
+  );
+
+  return {
+    pushed: changes.length + categoryChanges.length,
+    pulled: applied.length,
+    categories:
+      response.categories.length + response.deletedCategories.length,
+    conflicts: response.conflicts.length
+  };
+}
+
+/**
+ * Sync local expenses with the server
+ *
+ * Concurrent calls share the round in flight. On failure nothing is
+ * acknowledged, so the same changes are pushed again next time.
+ *
+ * @param send - Transport (default: `getSyncTransport()`)
+ * @param local - Local store (default: IndexedDB)
+ * @returns What was pushed, pulled and left in conflict
+ * @throws {ExpenseApiError} If the server cannot be reached or fails
+ *
+ * @example
+ * ```typescript
+ * const { pulled, conflicts } = await syncExpenses();
+ * ```
+ */
+export function syncExpenses(
+  send: SyncTransport = getSyncTransport(),
+  local: SyncLocalStore = getSyncLocalStore()
+): Promise<SyncResult> {
+  if (!inFlight) {
+    inFlight = runSync(send, local).finally(() => {
+      inFlight = null;
+    });
+  }
+  return inFlight;
+}
+
+/**
+ * Settle a conflict with the value from this device or from the server
+ *
+ * Keeping the local value is a regular local edit: it lands in the change
+ * log and merges cleanly on the next sync, since its base is now the
+ * server value.
+ *
+ * @param conflict - Conflict to settle
+ * @param keep - Which value wins
+ * @param local - Local store (default: IndexedDB)
+ */
+export async function resolveSyncConflict(
+  conflict: ExpenseSyncConflict,
+  keep: 'local' | 'server',
+  local: SyncLocalStore = getSyncLocalStore()
+): Promise<void> {
+  if (keep === 'local') {
+    try {
+      if (conflict.field === 'deletedAt') {
+        await (conflict.local === null
+          ? restoreExpense(conflict.expenseId)
+          : deleteExpense(conflict.expenseId));
+      } else {
+        await updateExpense(
+          conflict.expenseId,
+          { [conflict.field]: conflict.local },
+          { source: 'sync' }
+        );
+      }
+    } catch (error) {
+      // Deleted since, or already in the chosen state: nothing left to keep
+      if (
+        !(
+          error instanceof ExpenseNotFoundError ||
+          error instanceof ExpenseOperationError
+        )
+      ) {
+        throw error;
+      }
+    }
+  }
+
+  await local.deleteConflict(conflict.id);
+}
@@ -0,0 +1,24 @@
+/**
+ * HTTP Sync Transport
+ *
+ * Sends sync requests to the `/api/sync` route handler.
+ *
+ * @module domains/expenses/sync/http-transport
+ */
+
+import type { SyncRequest, SyncResponse, SyncTransport } from '../types';
+import { SYNC_API_PATH, requestExpensesApi } from '../api-contract';
+
+/**
+ * Create a transport that talks to a sync server over HTTP
+ *
+ * @param baseUrl - Origin of the server (empty for same-origin requests)
+ * @returns Transport for `syncExpenses`
+ */
+export function createHttpSyncTransport(baseUrl = ''): SyncTransport {
+  return (request: SyncRequest) =>
+    requestExpensesApi<SyncResponse>(`${baseUrl}${SYNC_API_PATH}`, {
+      method: 'POST',
+      body: JSON.stringify(request)
+    });
+}
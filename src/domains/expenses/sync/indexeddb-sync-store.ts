@@ -0,0 +1,240 @@
+/**
+ * IndexedDB Sync Store
+ *
+ * Local side of the sync engine on the shared IndexedDB connection. The
+ * change logs (expenses and categories) are filled by the IndexedDB
+ * repository on every local commit; this module reads them and applies
+ * server responses in one transaction.
+ *
+ * @module domains/expenses/sync/indexeddb-sync-store
+ */
+
+import type { IDBPTransaction, StoreNames } from 'idb';
+import {
+  CATEGORIES_STORE_NAME,
+  CATEGORY_CHANGES_STORE_NAME,
+  CHANGES_STORE_NAME,
+  CONFLICTS_STORE_NAME,
+  REVISIONS_STORE_NAME,
+  SEARCH_INDEX_STORE_NAME,
+  STORE_NAME,
+  SYNC_STATE_STORE_NAME,
+  type ExpenseTrackerDB
+} from '@/lib/db';
+import { getExpenseDB } from '@/lib/db-connection';
+import type {
+  CategoryChangeLogEntry,
+  Expense,
+  ExpenseChangeLogEntry,
+  ExpenseSyncConflict,
+  SyncLocalStore,
+  SyncRequest,
+  SyncResponse,
+  SyncState
+} from '../types';
+import type { ExpenseChange } from '../events';
+import { diffExpenses } from '../revisions';
+import {
+  deleteRevisions,
+  updateSearchIndex
+} from '../repositories/indexeddb-repository';
+import { rebaseLocalChange } from './change-log';
+
+/**
+ * Key of the single sync state record
+ */
+const SYNC_STATE_KEY = 'state';
+
+const INITIAL_SYNC_STATE: SyncState = { seq: 0, lastSyncedAt: null };
+
+type SyncTransaction = IDBPTransaction<
+  ExpenseTrackerDB,
+  StoreNames<ExpenseTrackerDB>[],
+  'readwrite'
+>;
+
+/**
+ * Acknowledge pushed category writes and store the pulled categories
+ *
+ * A category written here while the request was in flight keeps the local
+ * version: it is still in the change log and goes out with the next push.
+ */
+async function applyCategories(
+  tx: SyncTransaction,
+  sent: CategoryChangeLogEntry[],
+  response: SyncResponse
+): Promise<void> {
+  const store = tx.objectStore(CATEGORIES_STORE_NAME);
+  const changeStore = tx.objectStore(CATEGORY_CHANGES_STORE_NAME);
+
+  for (const entry of sent) {
+    const current = await changeStore.get(entry.categoryId);
+    if (current?.timestamp === entry.timestamp) {
+      await changeStore.delete(entry.categoryId);
+    }
+  }
+
+  for (const category of response.categories) {
+    if (!(await changeStore.get(category.id))) {
+      await store.put(category);
+    }
+  }
+  for (const id of response.deletedCategories) {
+    if (!(await changeStore.get(id))) {
+      await store.delete(id);
+    }
+  }
+}
+
+/**
+ * Create the IndexedDB sync store
+ *
+ * @returns Local store for `syncExpenses`
+ */
+export function createIndexedDBSyncStore(): SyncLocalStore {
+  return {
+    async getSyncState(): Promise<SyncState> {
+      const db = await getExpenseDB();
+      return (
+        (await db.get(SYNC_STATE_STORE_NAME, SYNC_STATE_KEY)) ??
+        INITIAL_SYNC_STATE
+      );
+    },
+
+    async getPendingChanges(): Promise<ExpenseChangeLogEntry[]> {
+      const db = await getExpenseDB();
+      return (await db.getAll(CHANGES_STORE_NAME)) as ExpenseChangeLogEntry[];
+    },
+
+    async getPendingCategoryChanges(): Promise<CategoryChangeLogEntry[]> {
+      const db = await getExpenseDB();
+      return (await db.getAll(
+        CATEGORY_CHANGES_STORE_NAME
+      )) as CategoryChangeLogEntry[];
+    },
+
+    async applySyncResponse(
+      sent: SyncRequest,
+      response: SyncResponse
+    ): Promise<ExpenseChange[]> {
+      const db = await getExpenseDB();
+      const tx = db.transaction(
+        [
+          CATEGORIES_STORE_NAME,
+          CATEGORY_CHANGES_STORE_NAME,
+          STORE_NAME,
+          REVISIONS_STORE_NAME,
+          CHANGES_STORE_NAME,
+          CONFLICTS_STORE_NAME,
+          SYNC_STATE_STORE_NAME,
+          SEARCH_INDEX_STORE_NAME
+        ],
+        'readwrite'
+      );
+      const store = tx.objectStore(STORE_NAME);
+      const revisionStore = tx.objectStore(REVISIONS_STORE_NAME);
+      const changeStore = tx.objectStore(CHANGES_STORE_NAME);
+      const conflictStore = tx.objectStore(CONFLICTS_STORE_NAME);
+      const searchIndexStore = tx.objectStore(SEARCH_INDEX_STORE_NAME);
+      const now = new Date().toISOString();
+      const applied: ExpenseChange[] = [];
+
+      // Acknowledge pushed entries that were not edited again in the meantime
+      for (const entry of sent.changes) {
+        const current = await changeStore.get(entry.expenseId);
+        if (current?.timestamp === entry.timestamp) {
+          await changeStore.delete(entry.expenseId);
+        }
+      }
+      await applyCategories(tx, sent.categoryChanges, response);
+
+      for (const pulled of response.expenses) {
+        const before =
+          ((await store.get(pulled.id)) as Expense | undefined) ?? null;
+        const pending = (await changeStore.get(pulled.id)) as
+          | ExpenseChangeLogEntry
+          | undefined;
+
+        let after: Expense | null = pulled;
+        if (pending) {
+          const rebased = rebaseLocalChange(pending, pulled);
+          after = rebased.expense;
+          await (rebased.entry
+            ? changeStore.put(rebased.entry)
+            : changeStore.delete(pulled.id));
+        }
+        if (!after) {
+          continue;
+        }
+
+        // Always store the server version: its updatedAt is the base of the next local edit
+        await Promise.all([
+          store.put(after),
+          updateSearchIndex(searchIndexStore, [after], [])
+        ]);
+
+        const changes = diffExpenses(before, after);
+        if (changes.length > 0) {
+          await revisionStore.add({
+            id: crypto.randomUUID(),
+            expenseId: after.id,
+            timestamp: now,
+            source: 'sync',
+            changes,
+            revertedTo: null
+          });
+        }
+        if (changes.length > 0 || before?.deletedAt !== after.deletedAt) {
+          applied.push({ before, after });
+        }
+      }
+
+      for (const id of response.deleted) {
+        const pending = (await changeStore.get(id)) as
+          | ExpenseChangeLogEntry
+          | undefined;
+        // Edited here since: the next push brings it back on the server
+        if (pending?.expense) {
+          continue;
+        }
+
+        const before = (await store.get(id)) as Expense | undefined;
+        await Promise.all([
+          store.delete(id),
+          changeStore.delete(id),
+          deleteRevisions(revisionStore, [id]),
+          updateSearchIndex(searchIndexStore, [], [id]),
+          ...(await conflictStore.index('expenseId').getAllKeys(id)).map(key =>
+            conflictStore.delete(key)
+          )
+        ]);
+        if (before) {
+          applied.push({ before, after: null });
+        }
+      }
+
+      await Promise.all([
+        ...response.conflicts.map(conflict => conflictStore.put(conflict)),
+        tx
+          .objectStore(SYNC_STATE_STORE_NAME)
+          .put({ seq: response.seq, lastSyncedAt: now }, SYNC_STATE_KEY),
+        tx.done
+      ]);
+
+      return applied;
+    },
+
+    async getConflicts(): Promise<ExpenseSyncConflict[]> {
+      const db = await getExpenseDB();
+      const conflicts = (await db.getAll(
+        CONFLICTS_STORE_NAME
+      )) as ExpenseSyncConflict[];
+      return conflicts.sort((a, b) => a.detectedAt.localeCompare(b.detectedAt));
+    },
+
+    async deleteConflict(id: string): Promise<void> {
+      const db = await getExpenseDB();
+      await db.delete(CONFLICTS_STORE_NAME, id);
+    }
+  };
+}
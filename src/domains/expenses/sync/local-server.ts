@@ -0,0 +1,147 @@
+/**
+ * Local Sync Server (stand-in)
+ *
+ * In-process sync server on top of the memory repository, speaking the same
+ * protocol as `/api/sync`. Requests and responses go through a JSON round
+ * trip like they would over HTTP, so the engine can be exercised end to
+ * end (several devices, offline periods, conflicts) without a backend.
+ *
+ * @module domains/expenses/sync/local-server
+ */
+
+import type {
+  CategoryDefinition,
+  CategoryWriteBatch,
+  Expense,
+  ExpenseWriteBatch,
+  SyncRequest,
+  SyncTransport
+} from '../types';
+import { DEFAULT_CATEGORIES } from '../categories';
+import { ExpenseApiError } from '../errors';
+import { createMemoryExpenseRepository } from '../repositories/memory-repository';
+import { handleSyncRequest, type SyncServerStore } from './server';
+
+/**
+ * Handle on a running stand-in server
+ */
+export interface LocalSyncServer {
+  /** Transport to hand to `syncExpenses` */
+  transport: SyncTransport;
+
+  /** Simulate the network going down (requests fail like `fetch` would) */
+  setOnline: (online: boolean) => void;
+
+  /** Every expense currently stored on the server */
+  getExpenses: () => Promise<Expense[]>;
+
+  /** Every category currently stored on the server */
+  getCategories: () => Promise<CategoryDefinition[]>;
+}
+
+/**
+ * Start a stand-in sync server
+ *
+ * @param seed - Expenses already on the server
+ * @returns Server handle
+ *
+ * @example
+ * ```typescript
+ * const server = createLocalSyncServer();
+ * setSyncTransport(server.transport);
+ *
+ * await syncExpenses();
+ * server.setOnline(false); // next sync fails with a network error
+ * ```
+ */
+export function createLocalSyncServer(seed: Expense[] = []): LocalSyncServer {
+  const repository = createMemoryExpenseRepository(seed);
+  const expenseSeqs = new Map(seed.map(expense => [expense.id, 1]));
+  const tombstones = new Map<string, number>();
+  // Built-in categories at seq 0, like the SQLite server: every device has them
+  const categorySeqs = new Map(DEFAULT_CATEGORIES.map(({ id }) => [id, 0]));
+  const categoryTombstones = new Map<string, number>();
+  let seq = 1;
+  let online = true;
+
+  const store: SyncServerStore = {
+    getByIds: ids => repository.getByIds(ids),
+
+    async commit(batch: ExpenseWriteBatch) {
+      await repository.commit(batch);
+      seq++;
+      batch.put?.forEach(expense => {
+        expenseSeqs.set(expense.id, seq);
+        tombstones.delete(expense.id);
+      });
+      batch.delete?.forEach(id => {
+        expenseSeqs.delete(id);
+        tombstones.set(id, seq);
+      });
+    },
+
+    async getCategoriesByIds(ids: string[]) {
+      const wanted = new Set(ids);
+      return (await repository.getCategories()).filter(category =>
+        wanted.has(category.id)
+      );
+    },
+
+    async commitCategories(batch: CategoryWriteBatch) {
+      await repository.commitCategories(batch);
+      seq++;
+      batch.put?.forEach(category => {
+        categorySeqs.set(category.id, seq);
+        categoryTombstones.delete(category.id);
+      });
+      batch.delete?.forEach(id => {
+        categorySeqs.delete(id);
+        categoryTombstones.set(id, seq);
+      });
+    },
+
+    async getChangesSince(since: number) {
+      const changedIds = [...expenseSeqs]
+        .filter(([, expenseSeq]) => expenseSeq > since)
+        .map(([id]) => id);
+      const changedCategoryIds = [...categorySeqs]
+        .filter(([, categorySeq]) => categorySeq > since)
+        .map(([id]) => id);
+
+      return {
+        seq,
+        expenses: await repository.getByIds(changedIds),
+        deleted: [...tombstones]
+          .filter(([, tombstoneSeq]) => tombstoneSeq > since)
+          .map(([id]) => id),
+        categories: await store.getCategoriesByIds(changedCategoryIds),
+        deletedCategories: [...categoryTombstones]
+          .filter(([, tombstoneSeq]) => tombstoneSeq > since)
+          .map(([id]) => id)
+      };
+    }
+  };
+
+  return {
+    async transport(request: SyncRequest) {
+      if (!online) {
+        throw new ExpenseApiError('Expenses API unreachable', 0, {
+          url: 'local-sync-server'
+        });
+      }
+      const response = await handleSyncRequest(
+        store,
+        JSON.parse(JSON.stringify(request))
+      );
+      return JSON.parse(JSON.stringify(response));
+    },
+
+    setOnline(value: boolean) {
+      online = value;
+    },
+
+    getExpenses: () => repository.getByIds([...expenseSeqs.keys()]),
+
+    getCategories: () => repository.getCategories()
+  };
+}
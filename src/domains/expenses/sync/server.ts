@@ -0,0 +1,272 @@
+/**
+ * Sync Server Logic
+ *
+ * Storage-agnostic side of the sync protocol: merges pushed change log
+ * entries into the server copy field by field, then answers with every
+ * change after the client's sequence number. Used by `/api/sync` (SQLite)
+ * and by the in-process stand-in server (`local-server.ts`).
+ *
+ * Merge rules, per pushed field:
+ * - the server still has the synced value (or has not changed the expense
+ *   since, by `updatedAt`): the local value wins
+ * - the server already has the local value: nothing to do
+ * - otherwise both sides changed it: the server keeps its value and reports
+ *   a conflict for the review UI
+ *
+ * A permanent delete only applies if nobody edited the expense since; an
+ * edit of an expense deleted elsewhere brings it back.
+ *
+ * Categories are merged as whole records: the version with the latest
+ * `updatedAt` wins, and a delete wins over versions older than itself.
+ *
+ * @module domains/expenses/sync/server
+ */
+
+import type {
+  CategoryChangeLogEntry,
+  CategoryDefinition,
+  CategoryWriteBatch,
+  Expense,
+  ExpenseChangeLogEntry,
+  ExpenseRevision,
+  ExpenseSyncConflict,
+  ExpenseWriteBatch,
+  SyncRequest,
+  SyncResponse
+} from '../types';
+import { diffExpenses } from '../revisions';
+import { isSameSyncValue } from './change-log';
+
+/**
+ * Storage behind a sync server
+ */
+export interface SyncServerStore {
+  /** Get several expenses, skipping unknown IDs */
+  getByIds(ids: string[]): Promise<Expense[]>;
+
+  /** Apply a batch atomically, stamping it with the next sequence number */
+  commit(batch: ExpenseWriteBatch): Promise<void>;
+
+  /** Get several categories, skipping unknown IDs */
+  getCategoriesByIds(ids: string[]): Promise<CategoryDefinition[]>;
+
+  /** Apply category writes atomically, stamping them with the next sequence number */
+  commitCategories(batch: CategoryWriteBatch): Promise<void>;
+
+  /** Everything written or deleted after a sequence number */
+  getChangesSince(seq: number): Promise<Omit<SyncResponse, 'conflicts'>>;
+}
+
+/**
+ * Outcome of merging one change log entry
+ */
+interface MergeResult {
+  /** Version to store, null when nothing changes */
+  put: Expense | null;
+
+  /** Whether to delete the expense permanently */
+  purge: boolean;
+
+  conflicts: ExpenseSyncConflict[];
+}
+
+/**
+ * Merge one pushed entry into the server copy of its expense
+ *
+ * @param server - Current server version (undefined if missing or deleted)
+ * @param entry - Pushed change log entry
+ * @param now - Server time, used as `updatedAt` of merged versions
+ */
+export function mergeLocalChange(
+  server: Expense | undefined,
+  entry: ExpenseChangeLogEntry,
+  now: string
+): MergeResult {
+  const result: MergeResult = { put: null, purge: false, conflicts: [] };
+
+  // A create that reached the server but whose response was lost has the
+  // creation time as its base
+  const base = entry.baseUpdatedAt ?? entry.expense?.createdAt ?? null;
+  const unchangedSinceBase =
+    !!server && base !== null && server.updatedAt <= base;
+
+  if (!entry.expense) {
+    result.purge = unchangedSinceBase;
+    return result;
+  }
+  if (!server) {
+    result.put = entry.expense;
+    return result;
+  }
+
+  const merged: Expense = { ...server };
+  let changed = false;
+
+  for (const change of entry.changes) {
+    const current = server[change.field];
+    if (isSameSyncValue(change.field, current, change.to)) {
+      continue;
+    }
+
+    if (
+      unchangedSinceBase ||
+      isSameSyncValue(change.field, current, change.from)
+    ) {
+      Object.assign(merged, { [change.field]: change.to });
+      changed = true;
+    } else {
+      result.conflicts.push({
+        id: `${server.id}:${change.field}`,
+        expenseId: server.id,
+        field: change.field,
+        description: server.description,
+        base: change.from,
+        local: change.to,
+        server: current,
+        detectedAt: now
+      });
+    }
+  }
+
+  if (changed) {
+    result.put = { ...merged, updatedAt: now };
+  }
+  return result;
+}
+
+/**
+ * Merge one pushed category write into the server copy
+ *
+ * @param server - Current server version (undefined if missing or deleted)
+ * @param entry - Pushed category change log entry
+ * @returns What to store (`put` or `delete`), or `keep` when the server
+ * version is newer and goes back to the client
+ */
+export function mergeCategoryChange(
+  server: CategoryDefinition | undefined,
+  entry: CategoryChangeLogEntry
+): 'put' | 'delete' | 'keep' | null {
+  if (!entry.category) {
+    if (!server) {
+      return null;
+    }
+    return server.updatedAt <= entry.timestamp ? 'delete' : 'keep';
+  }
+  if (!server || server.updatedAt < entry.category.updatedAt) {
+    return 'put';
+  }
+  return server.updatedAt > entry.category.updatedAt ? 'keep' : null;
+}
+
+/**
+ * Merge pushed category writes and commit the winners
+ *
+ * @returns Server versions that won over a pushed write
+ */
+async function mergeCategoryChanges(
+  store: SyncServerStore,
+  entries: CategoryChangeLogEntry[]
+): Promise<CategoryDefinition[]> {
+  const current = new Map(
+    (
+      await store.getCategoriesByIds(entries.map(entry => entry.categoryId))
+    ).map(category => [category.id, category])
+  );
+
+  const put: CategoryDefinition[] = [];
+  const remove: string[] = [];
+  const kept: CategoryDefinition[] = [];
+
+  for (const entry of entries) {
+    const server = current.get(entry.categoryId);
+    switch (mergeCategoryChange(server, entry)) {
+      case 'put':
+        put.push(entry.category!);
+        break;
+      case 'delete':
+        remove.push(entry.categoryId);
+        break;
+      case 'keep':
+        kept.push(server!);
+        break;
+    }
+  }
+
+  if (put.length > 0 || remove.length > 0) {
+    await store.commitCategories({ put, delete: remove });
+  }
+  return kept;
+}
+
+/**
+ * Handle a sync request: merge the push, then pull
+ *
+ * @param store - Server storage
+ * @param request - Validated request
+ * @returns Changes after `request.since` (merged pushes included) and conflicts
+ *
+ * @example
+ * ```typescript
+ * const response = await handleSyncRequest(getSqliteSyncStore(), request);
+ * ```
+ */
+export async function handleSyncRequest(
+  store: SyncServerStore,
+  request: SyncRequest
+): Promise<SyncResponse> {
+  const now = new Date().toISOString();
+  const keptCategories = await mergeCategoryChanges(
+    store,
+    request.categoryChanges
+  );
+  const current = new Map(
+    (await store.getByIds(request.changes.map(entry => entry.expenseId))).map(
+      expense => [expense.id, expense]
+    )
+  );
+
+  const put: Expense[] = [];
+  const revisions: ExpenseRevision[] = [];
+  const purge: string[] = [];
+  const conflicts: ExpenseSyncConflict[] = [];
+
+  for (const entry of request.changes) {
+    const before = current.get(entry.expenseId);
+    const result = mergeLocalChange(before, entry, now);
+
+    conflicts.push(...result.conflicts);
+    if (result.purge) {
+      purge.push(entry.expenseId);
+    }
+    if (result.put) {
+      put.push(result.put);
+
+      const changes = diffExpenses(before ?? null, result.put);
+      if (changes.length > 0) {
+        revisions.push({
+          id: crypto.randomUUID(),
+          expenseId: entry.expenseId,
+          timestamp: now,
+          source: 'sync',
+          changes,
+          revertedTo: null
+        });
+      }
+    }
+  }
+
+  if (put.length > 0 || purge.length > 0) {
+    await store.commit({ put, revisions, delete: purge, origin: 'sync' });
+  }
+
+  const changes = await store.getChangesSince(request.since);
+  const pulledIds = new Set(changes.categories.map(category => category.id));
+  return {
+    ...changes,
+    categories: [
+      ...changes.categories,
+      ...keptCategories.filter(category => !pulledIds.has(category.id))
+    ],
+    conflicts
+  };
+}
@@ -0,0 +1,72 @@
+/**
+ * Expense Tag Helpers
+ *
+ * Tags are free-form labels that cut across categories (`#vacaciones2025`,
+ * `#trabajo`). They are stored normalized so `#Trabajo`, `trabajo` and
+ * ` trabajo ` are the same tag:
+ *
+ * - No leading `#` (it is only how tags are typed and shown)
+ * - Lowercase, with spaces turned into `-`
+ * - Letters, digits, `-` and `_` only, at most `MAX_TAG_LENGTH` characters
+ *
+ * Pure functions, shared by the schemas, the query syntax and the UI.
+ *
+ * @module domains/expenses/tags
+ */
+
+/**
+ * Maximum number of tags on one expense
+ */
+export const MAX_TAGS = 10;
+
+/**
+ * Maximum length of a tag (without the `#`)
+ */
+export const MAX_TAG_LENGTH = 30;
+
+/**
+ * Characters a normalized tag may contain
+ */
+export const TAG_PATTERN = /^[\p{L}\p{N}_-]+$/u;
+
+/**
+ * Normalize a tag as typed (`' #Viaje Japón '` → `'viaje-japón'`)
+ *
+ * The result may still be invalid (see `isValidTag`).
+ */
+export function normalizeTag(value: string): string {
+  return value
+    .trim()
+    .replace(/^#+/, '')
+    .toLocaleLowerCase('es')
+    .replace(/\s+/g, '-');
+}
+
+/**
+ * Check if a normalized tag can be stored
+ */
+export function isValidTag(tag: string): boolean {
+  return tag.length <= MAX_TAG_LENGTH && TAG_PATTERN.test(tag);
+}
+
+/**
+ * Normalize a list of tags, dropping empty entries and duplicates
+ * (first occurrence wins, so the typed order is kept)
+ */
+export function normalizeTags(values: readonly string[]): string[] {
+  return [...new Set(values.map(normalizeTag).filter(Boolean))];
+}
+
+/**
+ * Sort tags A-Z (Spanish collation)
+ */
+export function sortTags(tags: Iterable<string>): string[] {
+  return [...tags].sort((a, b) => a.localeCompare(b, 'es'));
+}
+
+/**
+ * Display form of a tag (`'trabajo'` → `'#trabajo'`)
+ */
+export function formatTag(tag: string): string {
+  return `#${tag}`;
+}
@@ -7,33 +7,202 @@
  * @module domains/expenses/types
  */
 
+import type {
+  ExpenseNotFoundError,
+  ExpenseOperationError,
+  ExpenseValidationError
+} from './errors';
+import type { ExpenseChange } from './events';
+
+/**
+ * Expense category ID (see `CategoryDefinition`)
+ *
+ * The built-in categories use their original names as IDs ('Comida',
+ * 'Transporte', ...); categories created by the user get a UUID.
+ */
+export type ExpenseCategory = string;
+
+/**
+ * Colors a category can take (mapped to Tailwind classes by the UI)
+ */
+export const CATEGORY_COLORS = [
+  'orange',
+  'amber',
+  'lime',
+  'green',
+  'teal',
+  'cyan',
+  'blue',
+  'indigo',
+  'purple',
+  'pink',
+  'red',
+  'gray'
+] as const;
+
+export type CategoryColor = (typeof CATEGORY_COLORS)[number];
+
 /**
- * Expense category enum
- * Must match the categories defined in PROJECT.md
- */
-export type ExpenseCategory =
-  | 'Comida'
-  | 'Transporte'
-  | 'Entretenimiento'
-  | 'Salud'
-  | 'Compras'
-  | 'Servicios'
-  | 'Otros';
-
-/**
- * Array of all valid expense categories
- * Useful for Select dropdowns and validation
- */
-export const EXPENSE_CATEGORIES: readonly ExpenseCategory[] = [
-  'Comida',
-  'Transporte',
-  'Entretenimiento',
-  'Salud',
-  'Compras',
-  'Servicios',
-  'Otros',
+ * Icons a category can take (mapped to lucide icons by the UI)
+ */
+export const CATEGORY_ICONS = [
+  'utensils',
+  'coffee',
+  'car',
+  'bus',
+  'plane',
+  'fuel',
+  'gamepad',
+  'film',
+  'music',
+  'heart',
+  'stethoscope',
+  'dumbbell',
+  'shopping-bag',
+  'shirt',
+  'gift',
+  'briefcase',
+  'receipt',
+  'zap',
+  'wifi',
+  'smartphone',
+  'house',
+  'graduation-cap',
+  'book',
+  'paw-print',
+  'baby',
+  'piggy-bank',
+  'package'
 ] as const;
 
+export type CategoryIconName = (typeof CATEGORY_ICONS)[number];
+
+/**
+ * User-defined expense category (stored by the active repository)
+ */
+export interface CategoryDefinition {
+  /** Category ID stored in `Expense.category` */
+  id: ExpenseCategory;
+
+  /** Display name (unique, case-insensitive) */
+  name: string;
+
+  color: CategoryColor;
+
+  icon: CategoryIconName;
+
+  /**
+   * Parent category ID (null for a top-level category)
+   *
+   * One level deep: a parent cannot have a parent itself. Expenses are
+   * assigned to leaves, and totals can roll up to the parent.
+   */
+  parentId: ExpenseCategory | null;
+
+  /** ISO 8601 timestamp when archived (hidden from pickers), null if active */
+  archivedAt: string | null;
+
+  /** ISO 8601 timestamp */
+  createdAt: string;
+
+  /** ISO 8601 timestamp */
+  updatedAt: string;
+}
+
+/**
+ * Editable fields of a category
+ */
+export interface CategoryInput {
+  name: string;
+  color: CategoryColor;
+  icon: CategoryIconName;
+  parentId: ExpenseCategory | null;
+}
+
+/**
+ * UI state for categories (stored in Zustand)
+ *
+ * Mirrors the `categories` store so badges and pickers can look categories
+ * up synchronously (not persisted).
+ */
+export interface CategoriesState {
+  /** Every category, archived included, sorted by name */
+  categories: CategoryDefinition[];
+
+  /** `idle` until the first load from the repository starts */
+  status: 'idle' | 'loading' | 'ready' | 'error';
+
+  /** Error of the last failed load */
+  error: Error | null;
+
+  /** Actions to update state */
+  setCategories: (categories: CategoryDefinition[]) => void;
+  setStatus: (status: CategoriesState['status'], error?: Error | null) => void;
+}
+
+/**
+ * ISO 4217 currency code (`'MXN'`, `'USD'`, `'EUR'`, ...)
+ */
+export type CurrencyCode = string;
+
+/**
+ * Exchange rate entered by the user (stored in IndexedDB, not synced)
+ *
+ * One unit of `from` is worth `rate` units of `to` on `date`. A rate also
+ * converts the other way (`1 / rate`).
+ */
+export interface ExchangeRate {
+  /** UUID v4 - Auto-generated */
+  id: string;
+
+  from: CurrencyCode;
+
+  to: CurrencyCode;
+
+  /** Day the rate applies from (`YYYY-MM-DD`) */
+  date: string;
+
+  /** Units of `to` per unit of `from` (positive) */
+  rate: number;
+
+  /** ISO 8601 timestamp */
+  createdAt: string;
+
+  /** ISO 8601 timestamp */
+  updatedAt: string;
+}
+
+/**
+ * Editable fields of an exchange rate
+ */
+export interface ExchangeRateInput {
+  from: CurrencyCode;
+  to: CurrencyCode;
+  date: string;
+  rate: number;
+}
+
+/**
+ * UI state for exchange rates (stored in Zustand)
+ *
+ * Mirrors the `exchangeRates` store so amounts can be converted
+ * synchronously while rendering (not persisted).
+ */
+export interface ExchangeRatesState {
+  /** Every rate, newest date first */
+  rates: ExchangeRate[];
+
+  /** `idle` until the first load from IndexedDB starts */
+  status: 'idle' | 'loading' | 'ready' | 'error';
+
+  /** Error of the last failed load */
+  error: Error | null;
+
+  /** Actions to update state */
+  setRates: (rates: ExchangeRate[]) => void;
+  setStatus: (status: ExchangeRatesState['status'], error?: Error | null) => void;
+}
+
 /**
  * Complete Expense entity as stored in IndexedDB
  *
@@ -46,20 +215,32 @@ export interface Expense {
   /** Description of the expense (3-200 chars) */
   description: string;
 
-  /** Amount in local currency (positive, 2 decimal max) */
+  /** Amount in `currency` (positive, 2 decimal max) */
   amount: number;
 
-  /** Category from predefined list */
+  /** Currency the expense was paid in (ISO 4217) */
+  currency: CurrencyCode;
+
+  /** Category ID (see `CategoryDefinition`) */
   category: ExpenseCategory;
 
   /** Date of expense (ISO 8601 string, not future) */
   date: string;
 
+  /**
+   * Free-form labels across categories (normalized: lowercase, no `#`,
+   * unique; see `tags.ts`)
+   */
+  tags: string[];
+
   /** Record creation timestamp (ISO 8601 string) - Auto-generated */
   createdAt: string;
 
   /** Last update timestamp (ISO 8601 string) - Auto-updated */
   updatedAt: string;
+
+  /** Soft-delete timestamp (ISO 8601 string) - null unless the expense is in the trash */
+  deletedAt: string | null;
 }
 
 /**
@@ -69,8 +250,10 @@ export interface Expense {
 export interface CreateExpenseInput {
   description: string;
   amount: number;
+  currency?: CurrencyCode; // Defaults to MXN
   category: ExpenseCategory;
   date: string; // ISO 8601 string or Date will be converted
+  tags?: string[]; // Defaults to no tags
 }
 
 /**
@@ -80,10 +263,146 @@ export interface CreateExpenseInput {
 export interface UpdateExpenseInput {
   description?: string;
   amount?: number;
+  currency?: CurrencyCode;
   category?: ExpenseCategory;
   date?: string;
+  tags?: string[];
+}
+
+/**
+ * Where an expense mutation originated
+ */
+export type ExpenseRevisionSource = 'form' | 'chat' | 'import' | 'sync';
+
+/**
+ * Options shared by expense mutations
+ */
+export interface ExpenseMutationOptions {
+  /** Origin recorded in the revision log (default: 'form') */
+  source?: ExpenseRevisionSource;
+}
+
+/**
+ * Expense fields tracked by the revision log
+ */
+export type ExpenseRevisionField =
+  | 'description'
+  | 'amount'
+  | 'currency'
+  | 'category'
+  | 'date'
+  | 'tags';
+
+/**
+ * Single field-level change within a revision
+ */
+export interface ExpenseFieldChange<
+  TField extends ExpenseRevisionField = ExpenseRevisionField,
+> {
+  field: TField;
+
+  /** Value before the change (null for the creation revision) */
+  from: Expense[TField] | null;
+
+  /** Value after the change */
+  to: Expense[TField];
+}
+
+/**
+ * Revision log entry
+ * Records what changed on an expense, when, and from where
+ */
+export interface ExpenseRevision {
+  /** Unique identifier (UUID v4) */
+  id: string;
+
+  /** Revised expense ID */
+  expenseId: string;
+
+  /** When the change was saved (ISO 8601 string) */
+  timestamp: string;
+
+  /** Where the change came from */
+  source: ExpenseRevisionSource;
+
+  /** Field-level diff (every field is present on the creation revision) */
+  changes: ExpenseFieldChange[];
+
+  /** Revision ID this revision reverted to, null for regular edits */
+  revertedTo: string | null;
+}
+
+/**
+ * Single item of a bulk update
+ */
+export interface BulkUpdateItem {
+  id: string;
+  input: UpdateExpenseInput;
+}
+
+/**
+ * Per-item failure of a bulk operation
+ */
+export interface BulkItemError {
+  /** Position of the item in the request */
+  index: number;
+
+  /** Expense ID, when the item referenced one */
+  id?: string;
+
+  /** Why the item was skipped */
+  error: ExpenseValidationError | ExpenseNotFoundError | ExpenseOperationError;
+}
+
+/**
+ * Result of a bulk operation
+ * Valid items are written together; invalid ones are reported and skipped
+ */
+export interface BulkOperationResult<T> {
+  /** Items written to the database */
+  succeeded: T[];
+
+  /** Items that were skipped */
+  errors: BulkItemError[];
+}
+
+/**
+ * Grouping of the expense ledger
+ * (`week` starts on Monday; dates are grouped in local time)
+ */
+export type ExpenseGroupBy = 'day' | 'week' | 'month' | 'category';
+
+/**
+ * Subtotal of one group over the full filtered set
+ */
+export interface ExpenseGroupSummary {
+  /** Group key: `YYYY-MM-DD` (day, week start), `YYYY-MM` (month) or category */
+  key: string;
+
+  /** Number of expenses in the group */
+  count: number;
+
+  /**
+   * Amounts per currency and day (`YYYY-MM-DD`), so the group can be
+   * totaled in the base currency with the rate of each day
+   */
+  amounts: CurrencyDayAmount[];
+}
+
+/**
+ * Sum of the expenses of one day in one currency
+ */
+export interface CurrencyDayAmount {
+  currency: CurrencyCode;
+  date: string;
+  amount: number;
 }
 
+/**
+ * How a tag filter combines several tags (AND / OR)
+ */
+export type ExpenseTagMatch = 'all' | 'any';
+
 /**
  * Filter options for querying expenses
  * All filters are optional and can be combined
@@ -92,15 +411,39 @@ export interface ExpenseFilters {
   /** Filter by categories (OR logic - matches any) */
   categories?: ExpenseCategory[];
 
+  /** Filter by tags (see `tagMatch`) */
+  tags?: string[];
+
+  /** Whether an expense needs every tag (`all`, default) or one of them (`any`) */
+  tagMatch?: ExpenseTagMatch;
+
   /** Filter by date range (inclusive) */
   dateFrom?: string; // ISO 8601 string
   dateTo?: string; // ISO 8601 string
 
-  /** Search in description (case-insensitive substring) */
+  /** Search in description (accent- and typo-tolerant, every word must match) */
   searchQuery?: string;
 
-  /** Sort field */
-  sortBy?: 'date' | 'amount' | 'createdAt';
+  /** Exclude descriptions containing any of these words or phrases (prefix match) */
+  excludeTerms?: string[];
+
+  /** Filter by amount (inclusive bounds) */
+  amountMin?: number;
+  amountMax?: number;
+
+  /**
+   * Compare amounts (range filter and amount sort) in this currency,
+   * converted with `exchangeRates`; without it amounts are compared as
+   * stored. An amount with no rate never matches an amount range and sorts
+   * last in either direction.
+   */
+  amountCurrency?: CurrencyCode;
+
+  /** Rates for `amountCurrency` (they live on the device, so queries carry them) */
+  exchangeRates?: ExchangeRateInput[];
+
+  /** Sort field (`relevance` ranks search matches; without a search it sorts by date) */
+  sortBy?: 'date' | 'amount' | 'createdAt' | 'relevance';
 
   /** Sort direction */
   sortOrder?: 'asc' | 'desc';
@@ -108,8 +451,18 @@ export interface ExpenseFilters {
   /** Pagination: number of items to return */
   limit?: number;
 
-  /** Pagination: number of items to skip */
+  /** Pagination: number of items to skip (ignored when `cursor` is set) */
   offset?: number;
+
+  /** Pagination: continuation token from a previous `nextCursor` */
+  cursor?: string;
+
+  /**
+   * Group the results: expenses are ordered by group first (newest dates
+   * first, categories A-Z by name), then by the sort; `groups` summarizes
+   * each group
+   */
+  groupBy?: ExpenseGroupBy;
 }
 
 /**
@@ -131,48 +484,580 @@ export interface ExpenseQueryResult {
 
   /** Current limit */
   limit: number;
+
+  /** Continuation token for the next page (null when there are no more results) */
+  nextCursor: string | null;
+
+  /** Subtotals per group over every match, in result order (only with `groupBy`) */
+  groups?: ExpenseGroupSummary[];
+}
+
+/**
+ * Storage backend behind the expense actions
+ * (`server` is the client side of the API, `sqlite` its server side)
+ */
+export type ExpenseStorageKind = 'indexeddb' | 'memory' | 'server' | 'sqlite';
+
+/**
+ * Where the user chose to keep expenses
+ * - `local`: this browser's IndexedDB
+ * - `server`: the self-hosted `/api/expenses` (SQLite), shared across devices
+ */
+export type ExpenseStorageMode = 'local' | 'server';
+
+/**
+ * Writes applied atomically by `ExpenseRepository.commit`
+ */
+export interface ExpenseWriteBatch {
+  /** Expenses to insert or replace */
+  put?: Expense[];
+
+  /** Revisions to append */
+  revisions?: ExpenseRevision[];
+
+  /** Expense IDs to remove permanently (with their revision logs) */
+  delete?: string[];
+
+  /**
+   * Where the writes come from (default: 'local')
+   * Writes pulled from the sync server are not added to the change log.
+   */
+  origin?: 'local' | 'sync';
+}
+
+/**
+ * Category writes applied atomically by `ExpenseRepository.commitCategories`
+ */
+export interface CategoryWriteBatch {
+  /** Categories to insert or replace */
+  put?: CategoryDefinition[];
+
+  /** Category IDs to remove */
+  delete?: string[];
+}
+
+/**
+ * Persistence layer used by `actions.ts`
+ *
+ * Repositories only store and query records; validation, revision diffs
+ * and change events stay in the actions. Returned objects are copies, so
+ * callers may mutate them freely.
+ */
+export interface ExpenseRepository {
+  /** Which backend this is */
+  readonly kind: ExpenseStorageKind;
+
+  /** Whether data survives a page reload */
+  readonly isPersistent: boolean;
+
+  /**
+   * Run a filtered, sorted and paginated query
+   * Soft-deleted expenses are never returned.
+   *
+   * @throws {ExpenseOperationError} If the cursor is malformed
+   */
+  query(filters: ExpenseFilters): Promise<ExpenseQueryResult>;
+
+  /** Get one expense (trashed included), undefined when missing */
+  getById(id: string): Promise<Expense | undefined>;
+
+  /** Get several expenses in the order of `ids`, skipping unknown IDs */
+  getByIds(ids: string[]): Promise<Expense[]>;
+
+  /** Get trashed expenses deleted on or before the cutoff, oldest deletion first */
+  getDeleted(deletedBefore?: string): Promise<Expense[]>;
+
+  /** Get every distinct tag in use (trashed expenses included), A-Z */
+  getTags(): Promise<string[]>;
+
+  /** Get every revision of an expense (unordered) */
+  getRevisions(expenseId: string): Promise<ExpenseRevision[]>;
+
+  /** Apply a batch of writes atomically */
+  commit(batch: ExpenseWriteBatch): Promise<void>;
+
+  /** Get every category (archived included), unordered */
+  getCategories(): Promise<CategoryDefinition[]>;
+
+  /** Apply a batch of category writes atomically */
+  commitCategories(batch: CategoryWriteBatch): Promise<void>;
+}
+
+/**
+ * Expense fields reconciled by the sync engine
+ */
+export type ExpenseSyncField = ExpenseRevisionField | 'deletedAt';
+
+/**
+ * Single field-level change recorded in the sync change log
+ */
+export interface ExpenseSyncFieldChange<
+  TField extends ExpenseSyncField = ExpenseSyncField,
+> {
+  field: TField;
+
+  /** Value of the last synced version (null for expenses created locally) */
+  from: Expense[TField] | null;
+
+  /** Current local value */
+  to: Expense[TField];
+}
+
+/**
+ * Pending local mutation of one expense, waiting to be pushed
+ * Successive edits of the same expense are coalesced into one entry.
+ */
+export interface ExpenseChangeLogEntry {
+  /** Changed expense ID (one entry per expense) */
+  expenseId: string;
+
+  /** `updatedAt` of the synced version the changes apply to (null if created locally) */
+  baseUpdatedAt: string | null;
+
+  /** Fields changed since the synced version */
+  changes: ExpenseSyncFieldChange[];
+
+  /** Current local version, null when it was permanently deleted */
+  expense: Expense | null;
+
+  /** When the entry was last changed (ISO 8601 string) */
+  timestamp: string;
+}
+
+/**
+ * Pending local write of one category, waiting to be pushed
+ * Categories sync as whole records: the latest `updatedAt` wins.
+ */
+export interface CategoryChangeLogEntry {
+  /** Changed category ID (one entry per category) */
+  categoryId: ExpenseCategory;
+
+  /** Current local version, null when it was deleted */
+  category: CategoryDefinition | null;
+
+  /** When the entry was last changed (ISO 8601 string) */
+  timestamp: string;
+}
+
+/**
+ * Field changed on this device and on the server to different values
+ * The server keeps its value until the user picks one in the review UI.
+ */
+export interface ExpenseSyncConflict {
+  /** `${expenseId}:${field}` - a newer conflict on the same field replaces the older one */
+  id: string;
+
+  expenseId: string;
+  field: ExpenseSyncField;
+
+  /** Description of the expense on the server (for display) */
+  description: string;
+
+  /** Value both sides started from */
+  base: Expense[ExpenseSyncField] | null;
+
+  /** Value set on this device */
+  local: Expense[ExpenseSyncField];
+
+  /** Value kept by the server */
+  server: Expense[ExpenseSyncField];
+
+  /** When the server detected the conflict (ISO 8601 string) */
+  detectedAt: string;
+}
+
+/**
+ * Push/pull request sent to the sync server
+ */
+export interface SyncRequest {
+  /** Server sequence number of the last pull (0 on the first sync) */
+  since: number;
+
+  /** Pending local changes */
+  changes: ExpenseChangeLogEntry[];
+
+  /** Pending local category writes */
+  categoryChanges: CategoryChangeLogEntry[];
+}
+
+/**
+ * Sync server response: the merged push plus everything changed since `since`
+ */
+export interface SyncResponse {
+  /** Server sequence number to send as `since` next time */
+  seq: number;
+
+  /** Expenses written on the server after `since` (merged pushes included) */
+  expenses: Expense[];
+
+  /** Expense IDs permanently deleted on the server after `since` */
+  deleted: string[];
+
+  /**
+   * Categories written on the server after `since`, plus the server version
+   * of every pushed category that lost to a newer one
+   */
+  categories: CategoryDefinition[];
+
+  /** Category IDs deleted on the server after `since` */
+  deletedCategories: string[];
+
+  /** Fields that could not be merged automatically */
+  conflicts: ExpenseSyncConflict[];
+}
+
+/**
+ * Sends a sync request to a server (HTTP, or the in-process stand-in)
+ */
+export type SyncTransport = (request: SyncRequest) => Promise<SyncResponse>;
+
+/**
+ * Sync progress stored next to the local data
+ */
+export interface SyncState {
+  /** Server sequence number of the last pull */
+  seq: number;
+
+  /** When the last sync finished (ISO 8601 string) */
+  lastSyncedAt: string | null;
+}
+
+/**
+ * Local side of the sync engine (the change log and the synced data)
+ */
+export interface SyncLocalStore {
+  /** Read the sync progress (seq 0 before the first sync) */
+  getSyncState(): Promise<SyncState>;
+
+  /** Read every pending change log entry */
+  getPendingChanges(): Promise<ExpenseChangeLogEntry[]>;
+
+  /** Read every pending category write */
+  getPendingCategoryChanges(): Promise<CategoryChangeLogEntry[]>;
+
+  /**
+   * Apply a server response atomically: acknowledge the pushed entries,
+   * store pulled versions, record conflicts and advance the sync state
+   *
+   * @param sent - Request the response answers
+   * @returns Before/after snapshots of the expenses that changed locally
+   */
+  applySyncResponse(
+    sent: SyncRequest,
+    response: SyncResponse
+  ): Promise<ExpenseChange[]>;
+
+  /** Read conflicts waiting for review */
+  getConflicts(): Promise<ExpenseSyncConflict[]>;
+
+  /** Forget a reviewed conflict */
+  deleteConflict(id: string): Promise<void>;
+}
+
+/**
+ * Summary of one sync round
+ */
+export interface SyncResult {
+  /** Local changes pushed */
+  pushed: number;
+
+  /** Server changes applied locally (writes and deletions) */
+  pulled: number;
+
+  /** Category writes and deletions received from the server */
+  categories: number;
+
+  /** New conflicts waiting for review */
+  conflicts: number;
+}
+
+/**
+ * State of the sync engine as shown in the UI
+ * - `offline`: the last attempt could not reach the server
+ */
+export type SyncStatus = 'idle' | 'syncing' | 'offline' | 'error';
+
+/**
+ * UI state for sync (stored in Zustand)
+ */
+export interface SyncStatusState {
+  /** Current status */
+  status: SyncStatus;
+
+  /** Error of the last failed sync */
+  error: Error | null;
+
+  /** When the last sync finished (ISO 8601 string) */
+  lastSyncedAt: string | null;
+
+  /** Local changes not pushed yet */
+  pendingCount: number;
+
+  /** Conflicts waiting for review */
+  conflicts: ExpenseSyncConflict[];
+
+  /** Actions to update state */
+  setStatus: (status: SyncStatus, error?: Error | null) => void;
+  setSnapshot: (snapshot: {
+    lastSyncedAt: string | null;
+    pendingCount: number;
+    conflicts: ExpenseSyncConflict[];
+  }) => void;
 }
 
 /**
  * Sort configuration
  */
 export interface ExpenseSort {
-  field: 'date' | 'amount' | 'createdAt';
+  field: 'date' | 'amount' | 'createdAt' | 'relevance';
   order: 'asc' | 'desc';
 }
 
 /**
- * Date range filter
+ * Date bounds (inclusive, null = unbounded)
  */
 export interface DateRange {
   from: Date | null;
   to: Date | null;
 }
 
+/**
+ * Date range that moves with the current date (see `date-range.ts`)
+ */
+export type RelativeDateRange =
+  | { type: 'lastDays'; days: number } // Today and the days before it
+  | { type: 'thisMonth' }
+  | { type: 'lastMonth' }
+  | { type: 'thisQuarter' }
+  | { type: 'yearToDate' } // January 1st until today
+  | { type: 'thisYear' };
+
+/**
+ * Date range filter: every date, a relative range or fixed dates
+ */
+export type DateRangeFilter =
+  | { type: 'allTime' }
+  | RelativeDateRange
+  | { type: 'absolute'; from: Date | null; to: Date | null };
+
+/**
+ * Amount range filter (inclusive, null = unbounded)
+ */
+export interface AmountRange {
+  min: number | null;
+  max: number | null;
+}
+
+/**
+ * Keys of the search bar query syntax (`categoria:Comida monto>500`)
+ */
+export type ExpenseQueryKey =
+  | 'categoria'
+  | 'monto'
+  | 'desde'
+  | 'hasta'
+  | 'fecha'
+  | 'orden'
+  | 'etiquetas';
+
+/**
+ * Filters expressed by a search bar query
+ * Absent parts are empty (null / []), not defaults.
+ */
+export interface ExpenseQuery {
+  /** `categoria:Comida,Salud` */
+  categories: ExpenseCategory[];
+
+  /** `#trabajo #regalo` (normalized, see `tags.ts`) */
+  tags: string[];
+
+  /** `etiquetas:alguna` / `etiquetas:todas` */
+  tagMatch: ExpenseTagMatch | null;
+
+  /** `desde:2025-03`, `hasta:2025-03-15`, `fecha:2025`, `fecha:este-mes` */
+  dateRange: DateRangeFilter;
+
+  /** `monto>500`, `monto<=20`, `monto:10..50` */
+  amountRange: AmountRange;
+
+  /** Free text (searched in descriptions) */
+  searchQuery: string;
+
+  /** `-uber`, `-"uber eats"` */
+  excludedTerms: string[];
+
+  /** `orden:monto`, `orden:fecha-asc` */
+  sort: ExpenseSort | null;
+}
+
+/**
+ * Problem with one token of a search bar query (the token is ignored)
+ */
+export interface ExpenseQueryIssue {
+  code:
+    | 'unknownCategory'
+    | 'invalidAmount'
+    | 'invalidDate'
+    | 'invalidSort'
+    | 'invalidOperator'
+    | 'invalidExclusion'
+    | 'invalidTag'
+    | 'invalidTagMatch';
+
+  /** Token as typed */
+  token: string;
+}
+
+/**
+ * Result of parsing a search bar query
+ */
+export interface ParsedExpenseQuery extends ExpenseQuery {
+  issues: ExpenseQueryIssue[];
+}
+
+/**
+ * Autocomplete entry for the search bar query syntax
+ * Accepting it replaces `text.slice(from, to)` with `insertText`.
+ */
+export interface ExpenseQuerySuggestion {
+  /** A key (`categoria:`) or a value of the key being typed (`Comida`, `#trabajo`) */
+  kind: 'key' | 'value';
+
+  key: ExpenseQueryKey;
+
+  /** Text shown in the list */
+  label: string;
+
+  insertText: string;
+  from: number;
+  to: number;
+}
+
+/**
+ * Date range filter as stored in a saved view (dates as ISO 8601 strings)
+ */
+export type SavedDateRange =
+  | Exclude<DateRangeFilter, { type: 'absolute' }>
+  | { type: 'absolute'; from: string | null; to: string | null };
+
+/**
+ * Named snapshot of the expense filters (stored in IndexedDB)
+ */
+export interface SavedFilterView {
+  /** Unique identifier (UUID v4) */
+  id: string;
+
+  name: string;
+
+  filters: {
+    categories: ExpenseCategory[];
+    tags: string[];
+    tagMatch: ExpenseTagMatch;
+    dateRange: SavedDateRange;
+    amountRange: AmountRange;
+    searchQuery: string;
+    excludedTerms: string[];
+    sort: ExpenseSort;
+  };
+
+  /** ISO 8601 timestamp */
+  createdAt: string;
+
+  /** ISO 8601 timestamp */
+  updatedAt: string;
+}
+
 /**
  * UI state for expense filters (stored in Zustand)
+ *
+ * `queryText` is what the search bar shows. Typing there parses it into the
+ * other fields; changing them from the filter panel rewrites it.
  */
 export interface ExpenseFiltersState {
+  /** Search bar text, in the query syntax */
+  queryText: string;
+
   /** Selected categories for filtering */
   selectedCategories: ExpenseCategory[];
 
+  /** Selected tags for filtering (empty = any tags) */
+  selectedTags: string[];
+
+  /** Whether expenses need every selected tag or one of them */
+  tagMatch: ExpenseTagMatch;
+
   /** Date range filter */
-  dateRange: DateRange;
+  dateRange: DateRangeFilter;
+
+  /** Amount range filter */
+  amountRange: AmountRange;
 
-  /** Search query */
+  /** Free-text part of the search */
   searchQuery: string;
 
+  /** Words and phrases excluded from the results */
+  excludedTerms: string[];
+
   /** Sort configuration */
   sort: ExpenseSort;
 
   /** Actions to update state */
+  setQueryText: (text: string) => void;
+  setQuery: (query: ExpenseQuery) => void;
   setSelectedCategories: (categories: ExpenseCategory[]) => void;
-  setDateRange: (range: DateRange) => void;
+  setSelectedTags: (tags: string[]) => void;
+  setTagMatch: (tagMatch: ExpenseTagMatch) => void;
+  setDateRange: (range: DateRangeFilter) => void;
+  setAmountRange: (range: AmountRange) => void;
   setSearchQuery: (query: string) => void;
   setSort: (sort: ExpenseSort) => void;
   resetFilters: () => void;
 }
 
+/**
+ * Undoable expense mutation
+ * Holds the inverse of a mutation so it can be undone and redone
+ */
+export interface ExpenseCommand {
+  /** Unique identifier (UUID v4) */
+  id: string;
+
+  /** Mutation kind */
+  type: 'create' | 'update' | 'delete';
+
+  /** Affected expense IDs (several for bulk mutations) */
+  expenseIds: string[];
+
+  /** Human readable summary shown in toasts */
+  label: string;
+
+  /** Reverts the mutation */
+  undo: () => Promise<void>;
+
+  /** Applies the mutation again */
+  redo: () => Promise<void>;
+}
+
+/**
+ * Undo/redo command stack (stored in Zustand)
+ */
+export interface UndoHistoryState {
+  /** Commands that can be undone (most recent last) */
+  past: ExpenseCommand[];
+
+  /** Commands that can be redone (most recent last) */
+  future: ExpenseCommand[];
+
+  /** Whether an undo or redo is in progress */
+  isRunning: boolean;
+
+  /** Actions to update state */
+  push: (command: ExpenseCommand) => void;
+  undo: (commandId?: string) => Promise<ExpenseCommand | null>;
+  redo: () => Promise<ExpenseCommand | null>;
+  clear: () => void;
+}
+
 /**
  * Expense summary statistics
  * Used for calculating totals and averages
@@ -209,11 +1094,26 @@ export interface CategorySummary {
  */
 export interface UseExpensesResult {
   expenses: Expense[];
+  /** True until the first result for the current filters arrives */
   isLoading: boolean;
+  /** True while any fetch (including background refetches) is in flight */
+  isFetching: boolean;
   error: Error | null;
   refetch: () => Promise<void>;
   totalCount: number;
   hasMore: boolean;
+  /** Subtotals per group (empty without `groupBy`) */
+  groups: ExpenseGroupSummary[];
+}
+
+/**
+ * Hook return type for useInfiniteExpenses
+ */
+export interface UseInfiniteExpensesResult extends UseExpensesResult {
+  /** True while the next page is loading */
+  isFetchingMore: boolean;
+  /** Load the next page (no-op while loading or when there are no more) */
+  loadMore: () => void;
 }
 
 /**
@@ -226,6 +1126,18 @@ export interface UseMutationResult<TData = void, TVariables = unknown> {
   reset: () => void;
 }
 
+/**
+ * Options for the create, update and delete mutation hooks
+ */
+export interface MutationHookOptions {
+  /**
+   * Show the change in cached queries before the write commits,
+   * rolling it back if the write fails
+   * @default false
+   */
+  optimistic?: boolean;
+}
+
 /**
  * Form state for expense form
  */
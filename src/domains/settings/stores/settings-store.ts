@@ -0,0 +1,117 @@
+/**
+ * Settings Store (Zustand)
+ *
+ * Manages user preferences for this device.
+ * Persisted to localStorage so preferences survive reloads.
+ *
+ * Default values:
+ * - Trash retention: 30 days
+ * - Storage mode: local (IndexedDB)
+ * - Automatic sync: off
+ * - Category totals: rolled up to the parent category
+ * - Base currency: MXN
+ *
+ * @module domains/settings/stores/settings-store
+ */
+
+'use client';
+
+import { create } from 'zustand';
+import { devtools, persist } from 'zustand/middleware';
+import type { CurrencyCode, ExpenseStorageMode } from '@/domains/expenses/types';
+import { DEFAULT_CURRENCY } from '@/domains/expenses/currencies';
+import type { SettingsState } from '../types';
+
+/**
+ * Default number of days trashed expenses are kept
+ */
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+/**
+ * Retention options offered in the trash view (in days)
+ */
+export const TRASH_RETENTION_OPTIONS = [7, 30, 90, 365] as const;
+
+/**
+ * Settings store
+ */
+export const useSettingsStore = create<SettingsState>()(
+  devtools(
+    persist(
+      set => ({
+        // State
+        trashRetentionDays: DEFAULT_TRASH_RETENTION_DAYS,
+        storageMode: 'local',
+        syncEnabled: false,
+        categoryRollup: true,
+        baseCurrency: DEFAULT_CURRENCY,
+
+        // Actions
+        setTrashRetentionDays: (days: number) =>
+          set({ trashRetentionDays: days }, false, 'setTrashRetentionDays'),
+
+        setStorageMode: (mode: ExpenseStorageMode) =>
+          set({ storageMode: mode }, false, 'setStorageMode'),
+
+        setSyncEnabled: (enabled: boolean) =>
+          set({ syncEnabled: enabled }, false, 'setSyncEnabled'),
+
+        setCategoryRollup: (rollup: boolean) =>
+          set({ categoryRollup: rollup }, false, 'setCategoryRollup'),
+
+        setBaseCurrency: (currency: CurrencyCode) =>
+          set({ baseCurrency: currency }, false, 'setBaseCurrency'),
+
+        resetSettings: () =>
+          set(
+            {
+              trashRetentionDays: DEFAULT_TRASH_RETENTION_DAYS,
+              storageMode: 'local',
+              syncEnabled: false,
+              categoryRollup: true,
+              baseCurrency: DEFAULT_CURRENCY
+            },
+            false,
+            'resetSettings'
+          )
+      }),
+      {
+        name: 'expense-tracker-settings'
+      }
+    ),
+    {
+      name: 'settings-store',
+      enabled: process.env.NODE_ENV === 'development'
+    }
+  )
+);
+
+/**
+ * Get trash retention period (in days)
+ */
+export const useTrashRetentionDays = () =>
+  useSettingsStore(state => state.trashRetentionDays);
+
+/**
+ * Get storage mode (local IndexedDB or shared server)
+ */
+export const useStorageMode = () =>
+  useSettingsStore(state => state.storageMode);
+
+/**
+ * Check if automatic sync is enabled
+ */
+export const useSyncEnabled = () =>
+  useSettingsStore(state => state.syncEnabled);
+
+/**
+ * Check if category totals roll subcategories up to their parent
+ */
+export const useCategoryRollup = () =>
+  useSettingsStore(state => state.categoryRollup);
+
+/**
+ * Get the currency totals are shown in
+ */
+export const useBaseCurrency = () =>
+  useSettingsStore(state => state.baseCurrency);
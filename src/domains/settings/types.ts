@@ -0,0 +1,37 @@
+/**
+ * Types for Settings Domain
+ *
+ * Defines user preferences that are stored on this device.
+ *
+ * @module domains/settings/types
+ */
+
+import type { CurrencyCode, ExpenseStorageMode } from '@/domains/expenses/types';
+
+/**
+ * UI state for user settings (stored in Zustand, persisted to localStorage)
+ */
+export interface SettingsState {
+  /** Days a trashed expense is kept before it is purged automatically */
+  trashRetentionDays: number;
+
+  /** Where expenses are stored: this browser or the shared server */
+  storageMode: ExpenseStorageMode;
+
+  /** Whether local expenses sync automatically with the server */
+  syncEnabled: boolean;
+
+  /** Whether dashboard category totals roll subcategories up to their parent */
+  categoryRollup: boolean;
+
+  /** Currency totals are shown in (expenses keep their own currency) */
+  baseCurrency: CurrencyCode;
+
+  /** Actions to update state */
+  setTrashRetentionDays: (days: number) => void;
+  setStorageMode: (mode: ExpenseStorageMode) => void;
+  setSyncEnabled: (enabled: boolean) => void;
+  setCategoryRollup: (rollup: boolean) => void;
+  setBaseCurrency: (currency: CurrencyCode) => void;
+  resetSettings: () => void;
+}
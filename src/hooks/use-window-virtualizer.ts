@@ -0,0 +1,280 @@
+/**
+ * useWindowVirtualizer Hook
+ *
+ * Windowed rendering for long lists that scroll with the page: only the
+ * rows near the viewport are mounted. Rows start at an estimated height
+ * and are measured once rendered, so they may have different heights.
+ *
+ * @module hooks/use-window-virtualizer
+ */
+
+'use client';
+
+import * as React from 'react';
+
+export interface VirtualItem {
+  /** Row index */
+  index: number;
+
+  /** Row key (stable across reorders) */
+  key: string;
+
+  /** Offset from the top of the list, in pixels */
+  start: number;
+}
+
+export interface UseWindowVirtualizerOptions {
+  /** Number of rows */
+  count: number;
+
+  /** Stable key of a row (measured heights are kept by key) */
+  getItemKey: (index: number) => string;
+
+  /** Height of a row before it is measured, in pixels */
+  estimateSize: number;
+
+  /**
+   * Space between rows, in pixels
+   * @default 0
+   */
+  gap?: number;
+
+  /**
+   * Rows rendered above and below the viewport
+   * @default 5
+   */
+  overscan?: number;
+}
+
+export interface UseWindowVirtualizerResult {
+  /** Ref for the list element (rows are positioned inside it) */
+  containerRef: (element: HTMLElement | null) => void;
+
+  /** Rows to render */
+  items: VirtualItem[];
+
+  /** Height of the whole list, in pixels */
+  totalSize: number;
+
+  /** Row at the top of the viewport (0 while the list starts below it) */
+  firstVisibleIndex: number;
+
+  /** Ref for each rendered row element (needs `data-key`) */
+  measureElement: (element: HTMLElement | null) => (() => void) | undefined;
+}
+
+interface VisibleRange {
+  start: number;
+  end: number;
+  first: number;
+}
+
+/**
+ * Index of the last row starting at or before `offset`
+ */
+function findRowAt(starts: number[], offset: number): number {
+  let low = 0;
+  let high = starts.length - 1;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (starts[middle] <= offset) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return low;
+}
+
+/**
+ * Hook for rendering only the visible rows of a page-scrolled list
+ *
+ * Heights measured above the viewport adjust the scroll position, so the
+ * rows on screen do not jump while scrolling up.
+ *
+ * @example
+ * ```tsx
+ * const { containerRef, items, totalSize, measureElement } = useWindowVirtualizer({
+ *   count: expenses.length,
+ *   getItemKey: (index) => expenses[index].id,
+ *   estimateSize: 104,
+ *   gap: 12
+ * });
+ *
+ * <div ref={containerRef} className="relative" style={{ height: totalSize }}>
+ *   {items.map((item) => (
+ *     <div
+ *       key={item.key}
+ *       data-key={item.key}
+ *       ref={measureElement}
+ *       className="absolute inset-x-0 top-0"
+ *       style={{ transform: `translateY(${item.start}px)` }}
+ *     >
+ *       <ExpenseCard expense={expenses[item.index]} />
+ *     </div>
+ *   ))}
+ * </div>
+ * ```
+ */
+export function useWindowVirtualizer({
+  count,
+  getItemKey,
+  estimateSize,
+  gap = 0,
+  overscan = 5
+}: UseWindowVirtualizerOptions): UseWindowVirtualizerResult {
+  const [container, setContainer] = React.useState<HTMLElement | null>(null);
+  const [range, setRange] = React.useState<VisibleRange>({
+    start: 0,
+    end: Math.min(count, overscan * 2) - 1,
+    first: 0
+  });
+  // Measured heights by row key: the observer updates the ref, and copies
+  // it into state when a height changes so the layout is recomputed
+  const sizesRef = React.useRef(new Map<string, number>());
+  const [sizes, setSizes] = React.useState<ReadonlyMap<string, number>>(
+    () => new Map()
+  );
+
+  const keys = React.useMemo(
+    () => Array.from({ length: count }, (_, index) => getItemKey(index)),
+    [count, getItemKey]
+  );
+
+  const { starts, totalSize } = React.useMemo(() => {
+    const offsets: number[] = [];
+    let offset = 0;
+    keys.forEach((key, index) => {
+      offsets.push(offset);
+      offset +=
+        (sizes.get(key) ?? estimateSize) + (index < keys.length - 1 ? gap : 0);
+    });
+    return { starts: offsets, totalSize: offset };
+  }, [keys, sizes, estimateSize, gap]);
+
+  // Latest layout, read by the scroll and resize handlers
+  const layoutRef = React.useRef({ starts, keys, container });
+  layoutRef.current = { starts, keys, container };
+
+  const updateRange = React.useCallback(() => {
+    const { starts: offsets, container: element } = layoutRef.current;
+    if (!element || offsets.length === 0) {
+      setRange(previous =>
+        previous.end === -1 ? previous : { start: 0, end: -1, first: 0 }
+      );
+      return;
+    }
+
+    const top = -element.getBoundingClientRect().top;
+    const first = findRowAt(offsets, top);
+    const start = Math.max(first - overscan, 0);
+    const end = Math.min(
+      findRowAt(offsets, top + window.innerHeight) + overscan,
+      offsets.length - 1
+    );
+    setRange(previous =>
+      previous.start === start &&
+      previous.end === end &&
+      previous.first === first
+        ? previous
+        : { start, end, first }
+    );
+  }, [overscan]);
+
+  // Follow the page scroll (at most once per frame)
+  React.useEffect(() => {
+    if (!container) return;
+
+    let frame = 0;
+    const schedule = () => {
+      if (!frame) {
+        frame = requestAnimationFrame(() => {
+          frame = 0;
+          updateRange();
+        });
+      }
+    };
+
+    window.addEventListener('scroll', schedule, { passive: true });
+    window.addEventListener('resize', schedule);
+    return () => {
+      cancelAnimationFrame(frame);
+      window.removeEventListener('scroll', schedule);
+      window.removeEventListener('resize', schedule);
+    };
+  }, [container, updateRange]);
+
+  // List mounted, or rows moved or changed height
+  React.useLayoutEffect(() => {
+    updateRange();
+  }, [container, starts, updateRange]);
+
+  const observerRef = React.useRef<ResizeObserver | null>(null);
+  React.useEffect(() => () => observerRef.current?.disconnect(), []);
+
+  const measureElement = React.useCallback(
+    (element: HTMLElement | null) => {
+      if (!element) return undefined;
+
+      if (!observerRef.current) {
+        observerRef.current = new ResizeObserver(entries => {
+          const {
+            starts: offsets,
+            keys: rowKeys,
+            container: list
+          } = layoutRef.current;
+          const listTop = list ? -list.getBoundingClientRect().top : 0;
+          let changed = false;
+
+          entries.forEach(entry => {
+            const key = (entry.target as HTMLElement).dataset.key;
+            if (!key) return;
+
+            const size =
+              entry.borderBoxSize?.[0]?.blockSize ?? entry.contentRect.height;
+            const previous = sizesRef.current.get(key);
+            if (previous === size) return;
+
+            sizesRef.current.set(key, size);
+            changed = true;
+
+            // Keep the rows on screen in place when a row above them resizes
+            const index = rowKeys.indexOf(key);
+            if (index !== -1 && offsets[index] < listTop) {
+              window.scrollBy(0, size - (previous ?? estimateSize));
+            }
+          });
+
+          if (changed) {
+            setSizes(new Map(sizesRef.current));
+          }
+        });
+      }
+
+      const observer = observerRef.current;
+      observer.observe(element);
+      return () => observer.unobserve(element);
+    },
+    [estimateSize]
+  );
+
+  const items = React.useMemo(() => {
+    const visible: VirtualItem[] = [];
+    for (
+      let index = range.start;
+      index <= range.end && index < keys.length;
+      index++
+    ) {
+      visible.push({ index, key: keys[index], start: starts[index] });
+    }
+    return visible;
+  }, [range, keys, starts]);
+
+  return {
+    containerRef: setContainer,
+    items,
+    totalSize,
+    firstVisibleIndex: Math.min(range.first, Math.max(keys.length - 1, 0)),
+    measureElement
+  };
+}
@@ -0,0 +1,179 @@
+/**
+ * IndexedDB Connection Manager
+ *
+ * Lazily opens a single connection to the expense database and shares it
+ * across every caller. The connection is released when another tab needs to
+ * upgrade the schema (`versionchange`) and reopened on the next request.
+ * Its health is exposed so the UI can warn when storage is unavailable.
+ *
+ * @module lib/db-connection
+ */
+
+import type { IDBPDatabase } from 'idb';
+import { openExpenseDB, type ExpenseTrackerDB } from './db';
+
+/**
+ * Health of the shared connection
+ *
+ * - `idle`: not opened yet, or released for another tab's upgrade (reopens on demand)
+ * - `connecting`: open request in flight
+ * - `ready`: connection open
+ * - `terminated`: the browser closed the connection (e.g. storage cleared or evicted)
+ * - `outdated`: another tab upgraded the database past this build's version
+ * - `unavailable`: IndexedDB is missing or refused to open
+ */
+export type DBHealthStatus =
+  | 'idle'
+  | 'connecting'
+  | 'ready'
+  | 'terminated'
+  | 'outdated'
+  | 'unavailable';
+
+/**
+ * Snapshot of the connection health
+ */
+export interface DBHealth {
+  status: DBHealthStatus;
+
+  /** Last open failure (null when healthy) */
+  error: Error | null;
+}
+
+type DBHealthListener = (health: DBHealth) => void;
+
+let connection: Promise<IDBPDatabase<ExpenseTrackerDB>> | null = null;
+let currentDB: IDBPDatabase<ExpenseTrackerDB> | null = null;
+let health: DBHealth = { status: 'idle', error: null };
+const healthListeners = new Set<DBHealthListener>();
+
+/**
+ * Replace the health snapshot and notify listeners
+ */
+function setHealth(status: DBHealthStatus, error: Error | null = null): void {
+  health = { status, error };
+  healthListeners.forEach(listener => listener(health));
+}
+
+/**
+ * Open a connection and watch it for the events that invalidate it
+ */
+async function connect(): Promise<IDBPDatabase<ExpenseTrackerDB>> {
+  setHealth('connecting');
+
+  try {
+    const db = await openExpenseDB();
+    currentDB = db;
+
+    // Events from a connection that was already replaced are ignored
+    const release = (status: DBHealthStatus, error: Error | null = null) => {
+      if (currentDB === db) {
+        currentDB = null;
+        connection = null;
+        setHealth(status, error);
+      }
+    };
+
+    // `openExpenseDB` closes the handle on versionchange; forget it so the
+    // next request opens a connection at the new version
+    db.addEventListener('versionchange', () => release('idle'));
+
+    // Fired only on abnormal termination (storage cleared, disk error, ...)
+    db.addEventListener('close', () =>
+      release(
+        'terminated',
+        new Error('The database connection was terminated by the browser')
+      )
+    );
+
+    setHealth('ready');
+    return db;
+  } catch (error) {
+    connection = null;
+    const openError =
+      error instanceof Error ? error : new Error('Unknown error');
+    setHealth(
+      openError.name === 'VersionError' ? 'outdated' : 'unavailable',
+      openError
+    );
+    throw openError;
+  }
+}
+
+/**
+ * Get the shared database connection, opening it on first use
+ *
+ * Concurrent callers share the same open request. A failed open is not
+ * cached, so the next call retries.
+ *
+ * @returns {Promise<IDBPDatabase<ExpenseTrackerDB>>} Promise resolving to the shared connection
+ * @throws {Error} If IndexedDB is not supported or the database cannot be opened
+ *
+ * @example
+ * ```typescript
+ * const db = await getExpenseDB();
+ * const expense = await db.get('expenses', id);
+ * // Do not close it - other callers share this connection
+ * ```
+ */
+export function getExpenseDB(): Promise<IDBPDatabase<ExpenseTrackerDB>> {
+  if (!connection) {
+    connection = connect();
+  }
+  return connection;
+}
+
+/**
+ * Close the shared connection (the next `getExpenseDB` call reopens it)
+ *
+ * Use before deleting the database or when tearing down tests.
+ */
+export async function closeExpenseDB(): Promise<void> {
+  const current = connection;
+  connection = null;
+  currentDB = null;
+  setHealth('idle');
+
+  if (current) {
+    try {
+      (await current).close();
+    } catch {
+      // The open failed; nothing to close
+    }
+  }
+}
+
+/**
+ * Drop a failed or terminated connection and try to open it again
+ *
+ * @returns {Promise<boolean>} True if the database opened
+ */
+export async function reconnectExpenseDB(): Promise<boolean> {
+  await closeExpenseDB();
+  try {
+    await getExpenseDB();
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Read the current connection health
+ */
+export function getDBHealth(): DBHealth {
+  return health;
+}
+
+/**
+ * Listen for connection health changes
+ *
+ * @param listener - Called with every new health snapshot
+ * @returns Unsubscribe function
+ */
+export function subscribeToDBHealth(listener: DBHealthListener): () => void {
+  healthListeners.add(listener);
+  return () => {
+    healthListeners.delete(listener);
+  };
+}
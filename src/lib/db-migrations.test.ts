@@ -0,0 +1,257 @@
+import { openDB } from 'idb';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { switchIndexedDB } from '@/test/indexeddb';
+import { DB_NAME, openExpenseDB } from './db';
+import { LATEST_DB_VERSION, MIGRATIONS } from './db-migrations';
+
+/**
+ * Expenses as the first release stored them (before trash, tags and currency)
+ */
+const V1_EXPENSES = [
+  {
+    id: '6b0c1c1e-8f4a-4a59-9d55-1f0a3c2b7e01',
+    description: 'Café con leche en Starbucks',
+    amount: 68.5,
+    category: 'Comida',
+    date: '2025-01-14T08:30:00.000Z',
+    createdAt: '2025-01-14T08:31:12.000Z',
+    updatedAt: '2025-01-14T08:31:12.000Z'
+  },
+  {
+    id: '6b0c1c1e-8f4a-4a59-9d55-1f0a3c2b7e02',
+    description: 'Uber al aeropuerto',
+    amount: 245,
+    category: 'Transporte',
+    date: '2025-01-20T05:10:00.000Z',
+    createdAt: '2025-01-20T05:12:40.000Z',
+    updatedAt: '2025-01-21T09:00:03.000Z'
+  },
+  {
+    id: '6b0c1c1e-8f4a-4a59-9d55-1f0a3c2b7e03',
+    description: 'Croquetas para el perro',
+    amount: 899.99,
+    category: 'Mascotas',
+    date: '2025-02-02T18:45:00.000Z',
+    createdAt: '2025-02-02T18:50:00.000Z',
+    updatedAt: '2025-02-02T18:50:00.000Z'
+  }
+];
+
+/**
+ * Create the database at v1 with `V1_EXPENSES` stored
+ */
+async function seedV1Database(): Promise<void> {
+  const db = await openDB(DB_NAME, 1, {
+    upgrade(database, _oldVersion, _newVersion, transaction) {
+      // @ts-expect-error v1 had no stores to type the transaction with
+      MIGRATIONS[0].migrate(database, transaction);
+    }
+  });
+  for (const expense of V1_EXPENSES) {
+    await db.add('expenses', expense);
+  }
+  db.close();
+}
+
+/**
+ * Version currently stored on disk
+ */
+async function getStoredVersion(): Promise<number> {
+  const db = await openDB(DB_NAME);
+  const { version } = db;
+  db.close();
+  return version;
+}
+
+describe('IndexedDB migrations', () => {
+  beforeEach(async () => {
+    await switchIndexedDB();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('upgrades a v1 database to the latest version', async () => {
+    await seedV1Database();
+
+    const db = await openExpenseDB();
+    try {
+      expect(db.version).toBe(LATEST_DB_VERSION);
+      expect([...db.objectStoreNames].sort()).toEqual([
+        'categories',
+        'categoryChanges',
+        'changes',
+        'conflicts',
+        'exchangeRates',
+        'expenses',
+        'revisions',
+        'savedViews',
+        'searchIndex',
+        'syncState'
+      ]);
+
+      const tx = db.transaction(
+        ['expenses', 'revisions', 'conflicts', 'searchIndex'],
+        'readonly'
+      );
+      expect([...tx.objectStore('expenses').indexNames].sort()).toEqual([
+        'amount',
+        'category',
+        'category_date',
+        'createdAt',
+        'date',
+        'deletedAt',
+        'tags'
+      ]);
+      expect([...tx.objectStore('revisions').indexNames].sort()).toEqual([
+        'expenseId',
+        'expenseId_timestamp'
+      ]);
+      expect([...tx.objectStore('conflicts').indexNames]).toEqual([
+        'expenseId'
+      ]);
+      expect([...tx.objectStore('searchIndex').indexNames]).toEqual(['terms']);
+      expect(tx.objectStore('expenses').index('tags').multiEntry).toBe(true);
+      expect(tx.objectStore('searchIndex').index('terms').multiEntry).toBe(
+        true
+      );
+      await tx.done;
+    } finally {
+      db.close();
+    }
+  });
+
+  it('adds the new fields to every stored expense and pending push', async () => {
+    await seedV1Database();
+
+    const db = await openExpenseDB();
+    try {
+      const expenses = await db.getAll('expenses');
+      expect(expenses).toHaveLength(V1_EXPENSES.length);
+      for (const original of V1_EXPENSES) {
+        const upgraded = {
+          ...original,
+          deletedAt: null,
+          tags: [],
+          currency: 'MXN'
+        };
+        expect(expenses.find(expense => expense.id === original.id)).toEqual(
+          upgraded
+        );
+        expect((await db.get('changes', original.id))?.expense).toEqual(
+          upgraded
+        );
+      }
+    } finally {
+      db.close();
+    }
+  });
+
+  it('writes a baseline revision, a change log entry and search terms per expense', async () => {
+    await seedV1Database();
+
+    const db = await openExpenseDB();
+    try {
+      for (const expense of V1_EXPENSES) {
+        const revisions = await db.getAllFromIndex(
+          'revisions',
+          'expenseId',
+          expense.id
+        );
+        expect(revisions).toHaveLength(1);
+        expect(revisions[0]).toMatchObject({
+          timestamp: expense.updatedAt,
+          source: 'form',
+          revertedTo: null
+        });
+        expect(revisions[0].changes).toEqual([
+          { field: 'description', from: null, to: expense.description },
+          { field: 'amount', from: null, to: expense.amount },
+          { field: 'category', from: null, to: expense.category },
+          { field: 'date', from: null, to: expense.date }
+        ]);
+
+        const change = await db.get('changes', expense.id);
+        expect(change).toMatchObject({
+          expenseId: expense.id,
+          baseUpdatedAt: null,
+          timestamp: expense.updatedAt,
+          expense: { id: expense.id, description: expense.description }
+        });
+        expect(
+          change?.changes.map(({ field }: { field: string }) => field)
+        ).toEqual(['description', 'amount', 'category', 'date', 'deletedAt']);
+      }
+
+      expect(await db.get('searchIndex', V1_EXPENSES[0].id)).toEqual({
+        expenseId: V1_EXPENSES[0].id,
+        terms: ['cafe', 'con', 'leche', 'en', 'starbucks']
+      });
+      expect(
+        (await db.getAllFromIndex('searchIndex', 'terms', 'aeropuerto')).map(
+          entry => entry.expenseId
+        )
+      ).toEqual([V1_EXPENSES[1].id]);
+    } finally {
+      db.close();
+    }
+  });
+
+  it('seeds the built-in categories plus the ones found in the data', async () => {
+    await seedV1Database();
+
+    const db = await openExpenseDB();
+    try {
+      const categories = await db.getAll('categories');
+      expect(categories.map(category => category.id).sort()).toEqual([
+        'Comida',
+        'Compras',
+        'Entretenimiento',
+        'Mascotas',
+        'Otros',
+        'Salud',
+        'Servicios',
+        'Transporte'
+      ]);
+      for (const category of categories) {
+        expect(category).toMatchObject({
+          name: category.id,
+          parentId: null,
+          archivedAt: null
+        });
+      }
+      expect(await db.get('categories', 'Mascotas')).toMatchObject({
+        color: 'gray',
+        icon: 'package'
+      });
+
+      // Only categories other devices lack wait in the change log
+      expect(await db.getAllKeys('categoryChanges')).toEqual(['Mascotas']);
+    } finally {
+      db.close();
+    }
+  });
+
+  it('aborts the upgrade and keeps the stored version when a migration fails', async () => {
+    await seedV1Database();
+    vi.spyOn(MIGRATIONS[2], 'migrate').mockImplementation(async () => {
+      throw new Error('Migration exploded');
+    });
+
+    await expect(openExpenseDB()).rejects.toThrow('Failed to open IndexedDB');
+    expect(await getStoredVersion()).toBe(1);
+
+    // The v2 indexes were rolled back too: a retry runs every migration from v1
+    vi.mocked(MIGRATIONS[2].migrate).mockRestore();
+    const db = await openExpenseDB();
+    try {
+      expect(db.version).toBe(LATEST_DB_VERSION);
+      expect(await db.count('expenses')).toBe(V1_EXPENSES.length);
+    } finally {
+      db.close();
+    }
+  });
+});
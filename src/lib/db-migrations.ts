@@ -0,0 +1,409 @@
+/**
+ * IndexedDB Schema Migrations
+ *
+ * Ordered registry of schema migrations for the expense tracker database.
+ * Each migration runs inside the `versionchange` transaction when the stored
+ * database version is lower than the migration version, so data written by
+ * older versions of the app is upgraded in place instead of being stranded.
+ *
+ * To change the data model, append a new migration with the next version
+ * number. Never edit or reorder a migration that has already shipped.
+ *
+ * @module lib/db-migrations
+ */
+
+import type {
+  IDBPDatabase,
+  IDBPTransaction,
+  StoreNames,
+  StoreValue
+} from 'idb';
+import type { ExpenseTrackerDB } from './db';
+
+/**
+ * Upgrade transaction handed to every migration
+ */
+export type MigrationTransaction = IDBPTransaction<
+  ExpenseTrackerDB,
+  StoreNames<ExpenseTrackerDB>[],
+  'versionchange'
+>;
+
+/**
+ * A single schema migration step
+ */
+export interface Migration {
+  /** Database version this migration upgrades to (1, 2, 3, ...) */
+  version: number;
+
+  /** Short human readable summary, used for logging */
+  description: string;
+
+  /**
+   * Applies the migration
+   *
+   * Only await IndexedDB requests made through `transaction`; awaiting
+   * anything else lets the upgrade transaction auto-commit mid-migration.
+   */
+  migrate: (
+    db: IDBPDatabase<ExpenseTrackerDB>,
+    transaction: MigrationTransaction
+  ) => void | Promise<void>;
+}
+
+/**
+ * Rewrites every record of an object store through a mapper
+ *
+ * Records typed as `unknown` because they were written by an older schema.
+ * Return `null` from the mapper to leave a record untouched.
+ *
+ * @param transaction - Upgrade transaction
+ * @param storeName - Object store to rewrite
+ * @param mapper - Receives the stored record and returns its upgraded shape
+ * @returns Number of rewritten records
+ *
+ * @example
+ * ```typescript
+ * await rewriteRecords(transaction, 'expenses', (record) => ({
+ *   ...(record as Record<string, unknown>),
+ *   tags: []
+ * }));
+ * ```
+ */
+export async function rewriteRecords<Name extends StoreNames<ExpenseTrackerDB>>(
+  transaction: MigrationTransaction,
+  storeName: Name,
+  mapper: (record: unknown) => StoreValue<ExpenseTrackerDB, Name> | null
+): Promise<number> {
+  let rewritten = 0;
+  let cursor = await transaction.objectStore(storeName).openCursor();
+
+  while (cursor) {
+    const next = mapper(cursor.value);
+    if (next !== null) {
+      await cursor.update(next);
+      rewritten++;
+    }
+    cursor = await cursor.continue();
+  }
+
+  return rewritten;
+}
+
+/**
+ * Migration registry (ordered by version, ascending)
+ */
+export const MIGRATIONS: readonly Migration[] = [
+  {
+    version: 1,
+    description:
+      'Create expenses store with date, category and createdAt indexes',
+    migrate(db) {
+      const expenseStore = db.createObjectStore('expenses', { keyPath: 'id' });
+
+      expenseStore.createIndex('date', 'date', { unique: false });
+      expenseStore.createIndex('category', 'category', { unique: false });
+      expenseStore.createIndex('createdAt', 'createdAt', { unique: false });
+    }
+  },
+  {
+    version: 2,
+    description: 'Add amount index and compound category+date index',
+    migrate(_db, transaction) {
+      const expenseStore = transaction.objectStore('expenses');
+
+      expenseStore.createIndex('amount', 'amount', { unique: false });
+      expenseStore.createIndex('category_date', ['category', 'date'], {
+        unique: false
+      });
+    }
+  },
+  {
+    version: 3,
+    description: 'Add soft-delete (deletedAt) field and index',
+    async migrate(_db, transaction) {
+      const expenseStore = transaction.objectStore('expenses');
+
+      expenseStore.createIndex('deletedAt', 'deletedAt', { unique: false });
+
+      await rewriteRecords(transaction, 'expenses', record => {
+        const expense = record as StoreValue<ExpenseTrackerDB, 'expenses'>;
+        return 'deletedAt' in expense ? null : { ...expense, deletedAt: null };
+      });
+    }
+  },
+  {
+    version: 4,
+    description: 'Create revisions store for per-expense edit history',
+    async migrate(db, transaction) {
+      const revisionStore = db.createObjectStore('revisions', { keyPath: 'id' });
+
+      revisionStore.createIndex('expenseId', 'expenseId', { unique: false });
+      revisionStore.createIndex(
+        'expenseId_timestamp',
+        ['expenseId', 'timestamp'],
+        { unique: false }
+      );
+
+      // Seed a baseline revision so existing expenses can be reverted to their current state
+      const expenses = await transaction.objectStore('expenses').getAll();
+      const revisions = transaction.objectStore('revisions');
+
+      for (const expense of expenses) {
+        await revisions.add({
+          id: crypto.randomUUID(),
+          expenseId: expense.id,
+          timestamp: expense.updatedAt,
+          source: 'form',
+          changes: (['description', 'amount', 'category', 'date'] as const).map(
+            field => ({ field, from: null, to: expense[field] })
+          ),
+          revertedTo: null
+        });
+      }
+    }
+  },
+  {
+    version: 5,
+    description: 'Create sync change log, conflicts and sync state stores',
+    async migrate(db, transaction) {
+      db.createObjectStore('changes', { keyPath: 'expenseId' });
+      db.createObjectStore('conflicts', { keyPath: 'id' }).createIndex(
+        'expenseId',
+        'expenseId',
+        { unique: false }
+      );
+      db.createObjectStore('syncState');
+
+      // Existing expenses were never pushed: log them as local creations
+      const expenses = await transaction.objectStore('expenses').getAll();
+      const changes = transaction.objectStore('changes');
+
+      for (const expense of expenses) {
+        await changes.add({
+          expenseId: expense.id,
+          baseUpdatedAt: null,
+          changes: (
+            ['description', 'amount', 'category', 'date', 'deletedAt'] as const
+          ).map(field => ({ field, from: null, to: expense[field] })),
+          expense,
+          timestamp: expense.updatedAt
+        });
+      }
+    }
+  },
+  {
+    version: 6,
+    description: 'Create full-text search index of expense descriptions',
+    async migrate(db, transaction) {
+      db.createObjectStore('searchIndex', { keyPath: 'expenseId' }).createIndex(
+        'terms',
+        'terms',
+        { unique: false, multiEntry: true }
+      );
+
+      // Same folding as tokenizeSearchText in domains/expenses/search.ts at v6
+      const tokenize = (text: string) => [
+        ...new Set(
+          text
+            .normalize('NFD')
+            .replace(/\p{Diacritic}/gu, '')
+            .toLowerCase()
+            .match(/[\p{L}\p{N}]+/gu) ?? []
+        )
+      ];
+
+      const expenses = await transaction.objectStore('expenses').getAll();
+      const searchIndex = transaction.objectStore('searchIndex');
+
+      for (const expense of expenses) {
+        await searchIndex.add({
+          expenseId: expense.id,
+          terms: tokenize(expense.description)
+        });
+      }
+    }
+  },
+  {
+    version: 7,
+    description: 'Create saved filter views store',
+    migrate(db) {
+      db.createObjectStore('savedViews', { keyPath: 'id' });
+    }
+  },
+  {
+    version: 8,
+    description: 'Create categories store with the built-in categories',
+    async migrate(db, transaction) {
+      db.createObjectStore('categories', { keyPath: 'id' });
+
+      // Built-in categories at v8 (names double as IDs, so existing
+      // expenses, revisions and saved views keep pointing at them)
+      const builtIn: [string, string, string][] = [
+        ['Comida', 'orange', 'utensils'],
+        ['Transporte', 'blue', 'car'],
+        ['Entretenimiento', 'purple', 'gamepad'],
+        ['Salud', 'green', 'heart'],
+        ['Compras', 'pink', 'shopping-bag'],
+        ['Servicios', 'cyan', 'briefcase'],
+        ['Otros', 'gray', 'package']
+      ];
+      const categories = transaction.objectStore('categories');
+      const now = new Date().toISOString();
+      const add = (id: string, color: string, icon: string) =>
+        categories.add({
+          id,
+          name: id,
+          color,
+          icon,
+          archivedAt: null,
+          createdAt: now,
+          updatedAt: now
+        });
+
+      for (const [id, color, icon] of builtIn) {
+        await add(id, color, icon);
+      }
+
+      // Any other value found in the data becomes a category of its own
+      const known = new Set(builtIn.map(([id]) => id));
+      const expenses = await transaction.objectStore('expenses').getAll();
+      for (const { category } of expenses) {
+        if (!known.has(category)) {
+          known.add(category);
+          await add(category, 'gray', 'package');
+        }
+      }
+    }
+  },
+  {
+    version: 9,
+    description: 'Add parentId to categories (all top-level)',
+    async migrate(_db, transaction) {
+      await rewriteRecords(transaction, 'categories', record => {
+        const category = record as StoreValue<ExpenseTrackerDB, 'categories'>;
+        return 'parentId' in category ? null : { ...category, parentId: null };
+      });
+    }
+  },
+  {
+    version: 10,
+    description: 'Add tags to expenses (multiEntry index) and saved views',
+    async migrate(_db, transaction) {
+      transaction
+        .objectStore('expenses')
+        .createIndex('tags', 'tags', { unique: false, multiEntry: true });
+
+      await rewriteRecords(transaction, 'expenses', record => {
+        const expense = record as StoreValue<ExpenseTrackerDB, 'expenses'>;
+        return 'tags' in expense ? null : { ...expense, tags: [] };
+      });
+      // Pending pushes carry a copy of the expense: upgrade it too
+      await rewriteRecords(transaction, 'changes', record => {
+        const change = record as StoreValue<ExpenseTrackerDB, 'changes'>;
+        return !change.expense || 'tags' in change.expense
+          ? null
+          : { ...change, expense: { ...change.expense, tags: [] } };
+      });
+      await rewriteRecords(transaction, 'savedViews', record => {
+        const view = record as StoreValue<ExpenseTrackerDB, 'savedViews'>;
+        return 'tags' in view.filters
+          ? null
+          : { ...view, filters: { ...view.filters, tags: [], tagMatch: 'all' } };
+      });
+    }
+  },
+  {
+    version: 11,
+    description: 'Add currency to expenses (MXN) and create exchange rates store',
+    async migrate(db, transaction) {
+      db.createObjectStore('exchangeRates', { keyPath: 'id' });
+
+      // Amounts were recorded in pesos until expenses had a currency
+      await rewriteRecords(transaction, 'expenses', record => {
+        const expense = record as StoreValue<ExpenseTrackerDB, 'expenses'>;
+        return 'currency' in expense ? null : { ...expense, currency: 'MXN' };
+      });
+      await rewriteRecords(transaction, 'changes', record => {
+        const change = record as StoreValue<ExpenseTrackerDB, 'changes'>;
+        return !change.expense || 'currency' in change.expense
+          ? null
+          : { ...change, expense: { ...change.expense, currency: 'MXN' } };
+      });
+    }
+  },
+  {
+    version: 12,
+    description: 'Create category change log store for sync',
+    async migrate(db, transaction) {
+      db.createObjectStore('categoryChanges', { keyPath: 'categoryId' });
+
+      // Queue every category the server may not have. Built-in categories
+      // never edited are left out: every device has them, and pushing a
+      // freshly seeded copy would undo a rename made elsewhere.
+      const builtIn = new Set([
+        'Comida',
+        'Transporte',
+        'Entretenimiento',
+        'Salud',
+        'Compras',
+        'Servicios',
+        'Otros'
+      ]);
+      const changes = transaction.objectStore('categoryChanges');
+      const categories = await transaction.objectStore('categories').getAll();
+      for (const category of categories) {
+        if (
+          !builtIn.has(category.id) ||
+          category.updatedAt !== category.createdAt
+        ) {
+          await changes.add({
+            categoryId: category.id,
+            category,
+            timestamp: category.updatedAt
+          });
+        }
+      }
+    }
+  }
+];
+
+/**
+ * Latest schema version (the version of the last registered migration)
+ */
+export const LATEST_DB_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Runs every migration newer than `oldVersion`, in order
+ *
+ * Called from the `upgrade` callback of `openDB`. Throws if the registry
+ * is not strictly ascending so a bad merge fails loudly in development.
+ *
+ * @param db - Database being upgraded
+ * @param oldVersion - Version stored on disk (0 for a fresh database)
+ * @param transaction - Upgrade transaction
+ * @param migrations - Registry to run (defaults to `MIGRATIONS`)
+ */
+export async function runMigrations(
+  db: IDBPDatabase<ExpenseTrackerDB>,
+  oldVersion: number,
+  transaction: MigrationTransaction,
+  migrations: readonly Migration[] = MIGRATIONS
+): Promise<void> {
+  migrations.forEach((migration, index) => {
+    if (index > 0 && migration.version <= migrations[index - 1].version) {
+      throw new Error(
+        `Migration registry out of order at version ${migration.version}`
+      );
+    }
+  });
+
+  for (const migration of migrations) {
+    if (oldVersion < migration.version) {
+      await migration.migrate(db, transaction);
+      console.log(
+        `[IndexedDB] Migrated to v${migration.version}: ${migration.description}`
+      );
+    }
+  }
+}
@@ -8,13 +8,26 @@
  */
 
 import { openDB, type IDBPDatabase } from 'idb';
+import { LATEST_DB_VERSION, runMigrations } from './db-migrations';
 
 /**
  * Database configuration constants
+ *
+ * DB_VERSION follows the migration registry in `db-migrations.ts`;
+ * bump the schema by appending a migration, not by editing this value.
  */
 export const DB_NAME = 'expense-tracker-db';
-export const DB_VERSION = 1;
+export const DB_VERSION = LATEST_DB_VERSION;
 export const STORE_NAME = 'expenses';
+export const REVISIONS_STORE_NAME = 'revisions';
+export const CHANGES_STORE_NAME = 'changes';
+export const CONFLICTS_STORE_NAME = 'conflicts';
+export const SYNC_STATE_STORE_NAME = 'syncState';
+export const SEARCH_INDEX_STORE_NAME = 'searchIndex';
+export const SAVED_VIEWS_STORE_NAME = 'savedViews';
+export const CATEGORIES_STORE_NAME = 'categories';
+export const CATEGORY_CHANGES_STORE_NAME = 'categoryChanges';
+export const EXCHANGE_RATES_STORE_NAME = 'exchangeRates';
 
 /**
  * IndexedDB Database Schema
@@ -26,15 +39,151 @@ export interface ExpenseTrackerDB {
       id: string;
       description: string;
       amount: number;
+      currency: string; // ISO 4217 code
       category: string;
       date: string; // ISO 8601 string
+      tags: string[]; // Normalized tags (see domains/expenses/tags.ts)
       createdAt: string; // ISO 8601 string
       updatedAt: string; // ISO 8601 string
+      deletedAt: string | null; // ISO 8601 string when in the trash
     };
     indexes: {
       date: string;
       category: string;
       createdAt: string;
+      amount: number;
+      category_date: [string, string]; // [category, date]
+      deletedAt: string; // Only trashed expenses are indexed (null is not a valid key)
+      tags: string; // multiEntry: one entry per tag
+    };
+  };
+  revisions: {
+    key: string; // UUID
+    value: {
+      id: string;
+      expenseId: string;
+      timestamp: string; // ISO 8601 string
+      source: 'form' | 'chat' | 'import' | 'sync';
+      changes: {
+        field: string;
+        from: unknown;
+        to: unknown;
+      }[];
+      revertedTo: string | null; // Revision ID restored by this revision, if it is a revert
+    };
+    indexes: {
+      expenseId: string;
+      expenseId_timestamp: [string, string]; // [expenseId, timestamp]
+    };
+  };
+  changes: {
+    key: string; // Expense ID (one coalesced entry per expense)
+    value: {
+      expenseId: string;
+      baseUpdatedAt: string | null; // updatedAt of the last synced version
+      changes: {
+        field: string;
+        from: unknown;
+        to: unknown;
+      }[];
+      expense: ExpenseTrackerDB['expenses']['value'] | null; // null once permanently deleted
+      timestamp: string; // ISO 8601 string
+    };
+  };
+  conflicts: {
+    key: string; // `${expenseId}:${field}`
+    value: {
+      id: string;
+      expenseId: string;
+      field: string;
+      description: string;
+      base: unknown;
+      local: unknown;
+      server: unknown;
+      detectedAt: string; // ISO 8601 string
+    };
+    indexes: {
+      expenseId: string;
+    };
+  };
+  syncState: {
+    key: string; // Always 'state'
+    value: {
+      seq: number; // Server sequence number of the last pull
+      lastSyncedAt: string | null; // ISO 8601 string
+    };
+  };
+  searchIndex: {
+    key: string; // Expense ID
+    value: {
+      expenseId: string;
+      terms: string[]; // Folded description tokens (see domains/expenses/search.ts)
+    };
+    indexes: {
+      terms: string; // multiEntry: one entry per term
+    };
+  };
+  savedViews: {
+    key: string; // UUID
+    value: {
+      id: string;
+      name: string;
+      filters: {
+        categories: string[];
+        tags: string[];
+        tagMatch: 'all' | 'any';
+        dateRange: // See SavedDateRange in domains/expenses/types.ts
+          | { type: 'allTime' }
+          | { type: 'absolute'; from: string | null; to: string | null }
+          | { type: 'lastDays'; days: number }
+          | {
+              type:
+                | 'thisMonth'
+                | 'lastMonth'
+                | 'thisQuarter'
+                | 'yearToDate'
+                | 'thisYear';
+            };
+        amountRange: { min: number | null; max: number | null };
+        searchQuery: string;
+        excludedTerms: string[];
+        sort: { field: string; order: 'asc' | 'desc' };
+      };
+      createdAt: string; // ISO 8601 string
+      updatedAt: string; // ISO 8601 string
+    };
+  };
+  categories: {
+    key: string; // Category ID (referenced by expenses.category)
+    value: {
+      id: string;
+      name: string;
+      color: string; // See CATEGORY_COLORS in domains/expenses/types.ts
+      icon: string; // See CATEGORY_ICONS in domains/expenses/types.ts
+      parentId: string | null; // Parent category ID (one level deep)
+      archivedAt: string | null; // ISO 8601 string when archived
+      createdAt: string; // ISO 8601 string
+      updatedAt: string; // ISO 8601 string
+    };
+  };
+  categoryChanges: {
+    key: string; // Category ID (one entry per category)
+    value: {
+      categoryId: string;
+      category: ExpenseTrackerDB['categories']['value'] | null; // null once deleted
+      timestamp: string; // ISO 8601 string
+    };
+  };
+  exchangeRates: {
+    key: string; // UUID
+    value: {
+      id: string;
+      from: string; // ISO 4217 code
+      to: string; // ISO 4217 code
+      date: string; // YYYY-MM-DD the rate applies from
+      rate: number; // Units of `to` per unit of `from`
+      createdAt: string; // ISO 8601 string
+      updatedAt: string; // ISO 8601 string
     };
   };
 }
@@ -42,8 +191,15 @@ export interface ExpenseTrackerDB {
 /**
  * Opens (or creates) the IndexedDB database
  *
- * Creates the database with the expenses object store and indexes if it doesn't exist.
- * If the database already exists, returns the existing connection.
+ * Opens a new connection on every call: application code should use the
+ * shared connection from `getExpenseDB()` (`db-connection.ts`) instead.
+ *
+ * Runs every pending migration from `db-migrations.ts` when the stored version
+ * is older than DB_VERSION. If the database is up to date, returns the connection.
+ *
+ * Connections close themselves when another tab needs to upgrade the schema
+ * (`versionchange`), and opening fails with a reload hint (error name
+ * `VersionError`) when another tab already upgraded past this build's version.
  *
  * @returns {Promise<IDBPDatabase<ExpenseTrackerDB>>} Promise resolving to database instance
  * @throws {Error} If IndexedDB is not supported or database opening fails
@@ -64,30 +220,28 @@ export async function openExpenseDB(): Promise<IDBPDatabase<ExpenseTrackerDB>> {
 
   try {
     const db = await openDB<ExpenseTrackerDB>(DB_NAME, DB_VERSION, {
-      upgrade(db, oldVersion, newVersion, transaction) {
-        // Create expenses object store if it doesn't exist
-        if (!db.objectStoreNames.contains(STORE_NAME)) {
-          const expenseStore = db.createObjectStore(STORE_NAME, {
-            keyPath: 'id',
-          });
-
-          // Create indexes for efficient querying
-          expenseStore.createIndex('date', 'date', { unique: false });
-          expenseStore.createIndex('category', 'category', { unique: false });
-          expenseStore.createIndex('createdAt', 'createdAt', { unique: false });
-
-          console.log('[IndexedDB] Created expenses store with indexes');
-        }
+      upgrade(db, oldVersion, _newVersion, transaction) {
+        // Abort the upgrade if any migration fails so the stored version is not bumped
+        runMigrations(db, oldVersion, transaction).catch((error) => {
+          console.error('[IndexedDB] Migration failed, aborting upgrade:', error);
+          // The open request rejects with the abort; `done` would go unhandled
+          transaction.done.catch(() => {});
+          transaction.abort();
+        });
       },
       blocked() {
+        // The open request stays pending until the other tab closes its connection
         console.warn(
-          '[IndexedDB] Database blocked - another tab may have a different version open'
+          '[IndexedDB] Database blocked - waiting for another tab to release the old version'
         );
       },
-      blocking() {
+      blocking(_currentVersion, _blockedVersion, event) {
+        // Another tab is upgrading: release this connection so its upgrade can proceed.
+        // The connection manager reopens on the next request.
         console.warn(
-          '[IndexedDB] Blocking - this tab is preventing another tab from upgrading'
+          '[IndexedDB] Blocking - closing connection so another tab can upgrade'
         );
+        (event.target as IDBDatabase).close();
       },
       terminated() {
         console.error('[IndexedDB] Database connection abnormally terminated');
@@ -96,6 +250,15 @@ export async function openExpenseDB(): Promise<IDBPDatabase<ExpenseTrackerDB>> {
 
     return db;
   } catch (error) {
+    // Another tab already upgraded the database past this build's version
+    if (error instanceof DOMException && error.name === 'VersionError') {
+      console.error('[IndexedDB] Database was upgraded by a newer version of the app');
+      const outdatedError = new Error(
+        'The database was upgraded by a newer version of the app in another tab. Reload this page.'
+      );
+      outdatedError.name = 'VersionError';
+      throw outdatedError;
+    }
     console.error('[IndexedDB] Failed to open database:', error);
     throw new Error(
       `Failed to open IndexedDB: ${error instanceof Error ? error.message : 'Unknown error'}`
@@ -125,6 +288,7 @@ export function isIndexedDBSupported(): boolean {
  * Closes the database connection
  *
  * Use this when the app is being unmounted or when you need to clean up connections.
+ * For the shared connection use `closeExpenseDB()` from `db-connection.ts`.
  *
  * @param {IDBPDatabase<ExpenseTrackerDB>} db - Database instance to close
  *
@@ -0,0 +1,161 @@
+/**
+ * SQLite Client for Expense Tracker AI (server only)
+ *
+ * Opens the SQLite file behind the "server" storage mode and keeps its schema
+ * up to date. The file lives at `EXPENSES_SQLITE_PATH`
+ * (default: `data/expenses.sqlite` in the project root).
+ *
+ * @module lib/sqlite
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import Database from 'better-sqlite3';
+
+/**
+ * Path of the SQLite database file
+ */
+export const SQLITE_PATH =
+  process.env.EXPENSES_SQLITE_PATH ??
+  path.join(process.cwd(), 'data', 'expenses.sqlite');
+
+/**
+ * Schema migrations, applied in order
+ *
+ * `PRAGMA user_version` stores how many have run; append new entries,
+ * never edit existing ones.
+ */
+const SQLITE_MIGRATIONS: readonly string[] = [
+  // 1: expenses and their revision log
+  `
+  CREATE TABLE expenses (
+    id TEXT PRIMARY KEY,
+    description TEXT NOT NULL,
+    amount REAL NOT NULL,
+    category TEXT NOT NULL,
+    date TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    deleted_at TEXT
+  );
+  CREATE INDEX expenses_date ON expenses (date);
+  CREATE INDEX expenses_category_date ON expenses (category, date);
+  CREATE INDEX expenses_deleted_at ON expenses (deleted_at);
+
+  CREATE TABLE revisions (
+    id TEXT PRIMARY KEY,
+    expense_id TEXT NOT NULL,
+    timestamp TEXT NOT NULL,
+    source TEXT NOT NULL,
+    changes TEXT NOT NULL,
+    reverted_to TEXT
+  );
+  CREATE INDEX revisions_expense_id_timestamp ON revisions (expense_id, timestamp);
+  `,
+  // 2: sync sequence numbers and tombstones of permanently deleted expenses
+  `
+  CREATE TABLE sync_sequence (
+    id INTEGER PRIMARY KEY CHECK (id = 1),
+    value INTEGER NOT NULL
+  );
+  INSERT INTO sync_sequence (id, value) VALUES (1, 1);
+
+  ALTER TABLE expenses ADD COLUMN seq INTEGER NOT NULL DEFAULT 1;
+  CREATE INDEX expenses_seq ON expenses (seq);
+
+  CREATE TABLE tombstones (
+    id TEXT PRIMARY KEY,
+    seq INTEGER NOT NULL
+  );
+  CREATE INDEX tombstones_seq ON tombstones (seq);
+  `,
+  // 3: expense tags (JSON array of normalized tags)
+  `
+  ALTER TABLE expenses ADD COLUMN tags TEXT NOT NULL DEFAULT '[]';
+  `,
+  // 4: expense currency (amounts were in pesos before)
+  `
+  ALTER TABLE expenses ADD COLUMN currency TEXT NOT NULL DEFAULT 'MXN';
+  `,
+  // 5: categories and tombstones of deleted ones. The built-in categories
+  // get seq 0 (every device already has them); any other value found in
+  // the data becomes a category of its own.
+  `
+  CREATE TABLE categories (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    color TEXT NOT NULL,
+    icon TEXT NOT NULL,
+    parent_id TEXT,
+    archived_at TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    seq INTEGER NOT NULL
+  );
+  CREATE INDEX categories_seq ON categories (seq);
+
+  CREATE TABLE category_tombstones (
+    id TEXT PRIMARY KEY,
+    seq INTEGER NOT NULL
+  );
+  CREATE INDEX category_tombstones_seq ON category_tombstones (seq);
+
+  INSERT INTO categories (id, name, color, icon, created_at, updated_at, seq)
+  SELECT column1, column1, column2, column3, '1970-01-01T00:00:00.000Z', '1970-01-01T00:00:00.000Z', 0
+  FROM (VALUES
+    ('Comida', 'orange', 'utensils'),
+    ('Transporte', 'blue', 'car'),
+    ('Entretenimiento', 'purple', 'gamepad'),
+    ('Salud', 'green', 'heart'),
+    ('Compras', 'pink', 'shopping-bag'),
+    ('Servicios', 'cyan', 'briefcase'),
+    ('Otros', 'gray', 'package')
+  );
+
+  INSERT INTO categories (id, name, color, icon, created_at, updated_at, seq)
+  SELECT DISTINCT category, category, 'gray', 'package', '1970-01-01T00:00:00.000Z', '1970-01-01T00:00:00.000Z', 1
+  FROM expenses
+  WHERE category NOT IN (SELECT id FROM categories);
+  `
+];
+
+let db: Database.Database | null = null;
+
+/**
+ * Apply every migration newer than the file's `user_version`
+ */
+function runSqliteMigrations(database: Database.Database): void {
+  const current = database.pragma('user_version', { simple: true }) as number;
+
+  const migrate = database.transaction(() => {
+    SQLITE_MIGRATIONS.slice(current).forEach(sql => database.exec(sql));
+    database.pragma(`user_version = ${SQLITE_MIGRATIONS.length}`);
+  });
+
+  if (current < SQLITE_MIGRATIONS.length) {
+    migrate();
+  }
+}
+
+/**
+ * Get the shared SQLite connection, opening (and migrating) it on first use
+ *
+ * @returns {Database.Database} Open database
+ * @throws {Error} If the file cannot be created or opened
+ *
+ * @example
+ * ```typescript
+ * const row = getSqliteDB().prepare('SELECT * FROM expenses WHERE id = ?').get(id);
+ * ```
+ */
+export function getSqliteDB(): Database.Database {
+  if (!db) {
+    fs.mkdirSync(path.dirname(SQLITE_PATH), { recursive: true });
+
+    const database = new Database(SQLITE_PATH);
+    database.pragma('journal_mode = WAL');
+    runSqliteMigrations(database);
+    db = database;
+  }
+  return db;
+}
@@ -0,0 +1,25 @@
+/**
+ * IndexedDB Test Helpers
+ *
+ * @module test/indexeddb
+ */
+
+import { IDBFactory } from 'fake-indexeddb';
+import { closeExpenseDB } from '@/lib/db-connection';
+
+/**
+ * Release the shared connection and point `indexedDB` at another factory
+ *
+ * Each factory is a separate browser profile: pass the same one again to
+ * come back to its data.
+ *
+ * @param factory - Factory to use (default: a new, empty one)
+ * @returns The factory now in use
+ */
+export async function switchIndexedDB(
+  factory: IDBFactory = new IDBFactory()
+): Promise<IDBFactory> {
+  await closeExpenseDB();
+  Object.assign(globalThis, { indexedDB: factory });
+  return factory;
+}
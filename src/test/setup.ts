@@ -0,0 +1,14 @@
+/**
+ * Test Setup
+ *
+ * Runs before every test file: an in-memory IndexedDB (`fake-indexeddb`)
+ * and a `window` global, since the database helpers only open IndexedDB in
+ * the browser. Tests swap `globalThis.indexedDB` for a fresh `IDBFactory`
+ * to start from an empty database.
+ *
+ * @module test/setup
+ */
+
+import 'fake-indexeddb/auto';
+
+Object.assign(globalThis, { window: globalThis });